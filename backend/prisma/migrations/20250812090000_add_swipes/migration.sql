@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "public"."swipes" (
+    "id" TEXT NOT NULL,
+    "swiperId" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "decision" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "swipes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "swipes_targetId_decision_idx" ON "public"."swipes"("targetId", "decision");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "swipes_swiperId_targetId_key" ON "public"."swipes"("swiperId", "targetId");
+
+-- AddForeignKey
+ALTER TABLE "public"."swipes" ADD CONSTRAINT "swipes_swiperId_fkey" FOREIGN KEY ("swiperId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."swipes" ADD CONSTRAINT "swipes_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
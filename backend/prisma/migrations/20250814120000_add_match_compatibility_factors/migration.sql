@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."matches" ADD COLUMN     "compatibilityFactors" JSONB;
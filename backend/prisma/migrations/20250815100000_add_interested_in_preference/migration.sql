@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."matching_preferences" ADD COLUMN     "interestedIn" JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "public"."scoring_profiles" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "weights" JSONB NOT NULL,
+    "maxDistanceKm" DOUBLE PRECISION NOT NULL DEFAULT 100,
+    "maxAgeDifference" DOUBLE PRECISION NOT NULL DEFAULT 20,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT NOT NULL,
+
+    CONSTRAINT "scoring_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scoring_profiles_version_key" ON "public"."scoring_profiles"("version");
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "strava_activities_userId_startDate_idx" ON "public"."strava_activities"("userId", "startDate");
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "users_latitude_longitude_idx" ON "public"."users"("latitude", "longitude");
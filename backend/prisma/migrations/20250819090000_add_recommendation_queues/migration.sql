@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "public"."recommendation_queues" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "candidates" JSONB NOT NULL DEFAULT '[]',
+    "generatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "isStale" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "recommendation_queues_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recommendation_queues_userId_key" ON "public"."recommendation_queues"("userId");
+
+-- CreateIndex
+CREATE INDEX "recommendation_queues_isStale_generatedAt_idx" ON "public"."recommendation_queues"("isStale", "generatedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."recommendation_queues" ADD CONSTRAINT "recommendation_queues_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
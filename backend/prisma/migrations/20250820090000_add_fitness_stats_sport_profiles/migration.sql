@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."fitness_stats" ADD COLUMN     "sportProfiles" JSONB NOT NULL DEFAULT '{}';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."fitness_stats" ADD COLUMN     "trainingSchedule" JSONB NOT NULL DEFAULT '[]';
+
+-- AlterTable
+ALTER TABLE "public"."strava_activities" ADD COLUMN     "utcOffset" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "public"."fitness_stats" ADD COLUMN     "homeAreaLatitude" DOUBLE PRECISION,
+ADD COLUMN     "homeAreaLongitude" DOUBLE PRECISION,
+ADD COLUMN     "trainingAreas" JSONB NOT NULL DEFAULT '[]';
+
+-- AlterTable
+ALTER TABLE "public"."strava_activities" ADD COLUMN     "endLatitude" DOUBLE PRECISION,
+ADD COLUMN     "endLongitude" DOUBLE PRECISION,
+ADD COLUMN     "startLatitude" DOUBLE PRECISION,
+ADD COLUMN     "startLongitude" DOUBLE PRECISION;
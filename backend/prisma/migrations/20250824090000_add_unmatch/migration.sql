@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."matches" ADD COLUMN     "unmatchReason" TEXT,
+ADD COLUMN     "unmatchedAt" TIMESTAMP(3),
+ADD COLUMN     "unmatchedBy" TEXT;
+
+-- CreateIndex
+CREATE INDEX "matches_status_unmatchedAt_idx" ON "public"."matches"("status", "unmatchedAt");
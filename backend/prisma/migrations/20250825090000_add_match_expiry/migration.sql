@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."matches" ADD COLUMN     "expiredAt" TIMESTAMP(3),
+ADD COLUMN     "expiryReminderSentAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "matches_status_matchedAt_idx" ON "public"."matches"("status", "matchedAt");
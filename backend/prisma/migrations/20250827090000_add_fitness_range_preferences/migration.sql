@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."matching_preferences" ADD COLUMN     "maxPace" DOUBLE PRECISION,
+ADD COLUMN     "maxWeeklyActivities" INTEGER,
+ADD COLUMN     "maxWeeklyDistance" DOUBLE PRECISION,
+ADD COLUMN     "minPace" DOUBLE PRECISION,
+ADD COLUMN     "minWeeklyActivities" INTEGER,
+ADD COLUMN     "minWeeklyDistance" DOUBLE PRECISION;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "public"."discovery_snapshots" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "candidates" JSONB NOT NULL DEFAULT '[]',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "discovery_snapshots_userId_idx" ON "public"."discovery_snapshots"("userId");
+
+-- CreateIndex
+CREATE INDEX "discovery_snapshots_expiresAt_idx" ON "public"."discovery_snapshots"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."discovery_snapshots" ADD CONSTRAINT "discovery_snapshots_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "public"."scoring_profiles" ADD COLUMN     "exposureStrength" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "diversityStrength" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."profile_exposures" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "day" TIMESTAMP(3) NOT NULL,
+    "impressions" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "profile_exposures_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "profile_exposures_userId_day_key" ON "public"."profile_exposures"("userId", "day");
+
+-- CreateIndex
+CREATE INDEX "profile_exposures_day_idx" ON "public"."profile_exposures"("day");
+
+-- AddForeignKey
+ALTER TABLE "public"."profile_exposures" ADD CONSTRAINT "profile_exposures_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "public"."match_score_history" (
+    "id" TEXT NOT NULL,
+    "matchId" TEXT NOT NULL,
+    "compatibilityScore" DOUBLE PRECISION NOT NULL,
+    "compatibilityFactors" JSONB,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "match_score_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "match_score_history_matchId_recordedAt_idx" ON "public"."match_score_history"("matchId", "recordedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."match_score_history" ADD CONSTRAINT "match_score_history_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "public"."matches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- DropIndex
+DROP INDEX "public"."matches_user1Id_user2Id_key";
+
+-- DropIndex
+DROP INDEX "public"."swipes_swiperId_targetId_key";
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "discoveryMode" TEXT NOT NULL DEFAULT 'dating';
+
+-- AlterTable
+ALTER TABLE "public"."matches" ADD COLUMN     "mode" TEXT NOT NULL DEFAULT 'dating';
+
+-- AlterTable
+ALTER TABLE "public"."swipes" ADD COLUMN     "mode" TEXT NOT NULL DEFAULT 'dating';
+
+-- AlterTable
+ALTER TABLE "public"."discovery_snapshots" ADD COLUMN     "mode" TEXT NOT NULL DEFAULT 'dating';
+
+-- AlterTable
+ALTER TABLE "public"."matching_preferences" ADD COLUMN     "partnerAnyGender" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "partnerAnyAge" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "matches_user1Id_user2Id_mode_key" ON "public"."matches"("user1Id", "user2Id", "mode");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "swipes_swiperId_targetId_mode_key" ON "public"."swipes"("swiperId", "targetId", "mode");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."fitness_thresholds" ADD COLUMN     "rules" JSONB;
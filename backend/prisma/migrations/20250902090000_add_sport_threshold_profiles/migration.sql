@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."fitness_thresholds" ADD COLUMN     "sportFamily" TEXT;
+
+-- CreateIndex
+CREATE INDEX "fitness_thresholds_sportFamily_updatedAt_idx" ON "public"."fitness_thresholds"("sportFamily", "updatedAt");
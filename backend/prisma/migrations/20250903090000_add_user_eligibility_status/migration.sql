@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "eligibilityCheckedAt" TIMESTAMP(3),
+ADD COLUMN     "eligibilityStatus" TEXT NOT NULL DEFAULT 'eligible',
+ADD COLUMN     "graceEndsAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "users_eligibilityStatus_graceEndsAt_idx" ON "public"."users"("eligibilityStatus", "graceEndsAt");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."fitness_thresholds" ADD COLUMN     "effectiveFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "restoredFromId" TEXT;
+
+-- Existing versions took effect when they were saved
+UPDATE "public"."fitness_thresholds" SET "effectiveFrom" = "updatedAt";
+
+-- CreateIndex
+CREATE INDEX "fitness_thresholds_sportFamily_effectiveFrom_idx" ON "public"."fitness_thresholds"("sportFamily", "effectiveFrom");
@@ -0,0 +1,12 @@
+-- Store each pair with the lower user id first, the order MatchModel.create
+-- uses, so the unique key catches a pair matched from both sides at once.
+-- Pairs already stored both ways keep their second row as it is.
+UPDATE "public"."matches" AS m
+SET "user1Id" = m."user2Id", "user2Id" = m."user1Id"
+WHERE m."user1Id" COLLATE "C" > m."user2Id" COLLATE "C"
+  AND NOT EXISTS (
+    SELECT 1 FROM "public"."matches" AS other
+    WHERE other."user1Id" = m."user2Id"
+      AND other."user2Id" = m."user1Id"
+      AND other."mode" = m."mode"
+  );
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."discovery_snapshots" ADD COLUMN     "shownUserIds" JSONB NOT NULL DEFAULT '[]';
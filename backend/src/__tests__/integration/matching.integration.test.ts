@@ -151,9 +151,7 @@ describe('Matching Integration Tests', () => {
 
       expect(response.body.success).toBe(true);
       expect(response.body.data).toBeInstanceOf(Array);
-      expect(response.body.pagination).toHaveProperty('limit');
-      expect(response.body.pagination).toHaveProperty('offset');
-      expect(response.body.pagination).toHaveProperty('count');
+      expect(response.body).toHaveProperty('nextCursor');
 
       if (response.body.data.length > 0) {
         const match = response.body.data[0];
@@ -173,12 +171,18 @@ describe('Matching Integration Tests', () => {
 
     it('should handle pagination parameters', async () => {
       const response = await request(app)
-        .get('/api/matching/potential?limit=5&offset=0')
+        .get('/api/matching/potential?limit=5')
         .set('Authorization', `Bearer ${user1Token}`)
         .expect(200);
 
-      expect(response.body.pagination.limit).toBe(5);
-      expect(response.body.pagination.offset).toBe(0);
+      expect(response.body.data.length).toBeLessThanOrEqual(5);
+    });
+
+    it('should reject a cursor it did not issue', async () => {
+      await request(app)
+        .get('/api/matching/potential?cursor=not-a-cursor')
+        .set('Authorization', `Bearer ${user1Token}`)
+        .expect(400);
     });
 
     it('should return 401 without authentication', async () => {
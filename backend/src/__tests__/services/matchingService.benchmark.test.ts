@@ -0,0 +1,192 @@
+import { MatchingService } from '../../services/matchingService';
+
+// Benchmark discovery against an in-memory user base to make sure the number
+// of database round trips stays constant as the number of candidates grows.
+jest.mock('../../models/User');
+jest.mock('../../models/FitnessStats');
+jest.mock('../../models/MatchingPreferences');
+jest.mock('../../models/Match');
+jest.mock('../../models/Swipe');
+jest.mock('../../models/ScoringProfile');
+jest.mock('../../models/Block');
+jest.mock('../../services/messageService', () => ({
+  MessageService: { notifyUser: jest.fn() },
+}));
+jest.mock('../../config/database', () => ({
+  prisma: {
+    user: {
+      findMany: jest.fn(),
+    },
+    stravaActivity: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+import { UserModel } from '../../models/User';
+import { FitnessStatsModel } from '../../models/FitnessStats';
+import { MatchingPreferencesModel } from '../../models/MatchingPreferences';
+import { MatchModel } from '../../models/Match';
+import { SwipeModel } from '../../models/Swipe';
+import { ScoringProfileModel } from '../../models/ScoringProfile';
+import { BlockModel } from '../../models/Block';
+import { prisma } from '../../config/database';
+
+const mockUserModel = UserModel as jest.Mocked<typeof UserModel>;
+const mockFitnessStatsModel = FitnessStatsModel as jest.Mocked<
+  typeof FitnessStatsModel
+>;
+const mockMatchingPreferencesModel = MatchingPreferencesModel as jest.Mocked<
+  typeof MatchingPreferencesModel
+>;
+const mockMatchModel = MatchModel as jest.Mocked<typeof MatchModel>;
+const mockSwipeModel = SwipeModel as jest.Mocked<typeof SwipeModel>;
+const mockScoringProfileModel = ScoringProfileModel as jest.Mocked<
+  typeof ScoringProfileModel
+>;
+const mockBlockModel = BlockModel as jest.Mocked<typeof BlockModel>;
+const mockPrisma = prisma as any;
+
+const ACTIVITY_TYPES = ['Run', 'Ride', 'Swim', 'Hike', 'Walk', 'Yoga'];
+
+// Small deterministic PRNG so the seeded population is identical on every run
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const seedUsers = (count: number) => {
+  const random = createRandom(count);
+  const users = [];
+  const activities: Array<{ userId: string; type: string }> = [];
+
+  for (let i = 0; i < count; i++) {
+    const id = `user${i}`;
+    users.push({
+      id,
+      firstName: `Athlete${i}`,
+      lastName: 'Seed',
+      age: 20 + Math.floor(random() * 30),
+      gender: random() > 0.5 ? 'female' : 'male',
+      city: 'Denver',
+      state: 'CO',
+      latitude: 39.7392 + (random() - 0.5) * 0.5,
+      longitude: -104.9903 + (random() - 0.5) * 0.5,
+      photos: [],
+      bio: null,
+      matchingPreferences: null,
+      fitnessStats: {
+        weeklyDistance: 5000 + random() * 60000,
+        weeklyActivities: 1 + Math.floor(random() * 10),
+        averagePace: 240 + random() * 240,
+        favoriteActivities: [],
+        totalDistance: random() * 1000000,
+      },
+    });
+
+    ACTIVITY_TYPES.filter(() => random() > 0.6).forEach(type =>
+      activities.push({ userId: id, type })
+    );
+  }
+
+  return { users, activities };
+};
+
+const runDiscovery = async (userCount: number) => {
+  const { users, activities } = seedUsers(userCount);
+  const [viewer, ...candidates] = users;
+
+  mockUserModel.findById.mockResolvedValue({
+    ...viewer,
+    email: 'viewer@test.com',
+    stravaId: 1,
+    createdAt: new Date(),
+    lastActive: new Date(),
+  });
+  mockFitnessStatsModel.findByUserId.mockResolvedValue({
+    id: 'stats0',
+    userId: viewer.id,
+    ...viewer.fitnessStats,
+    longestRun: 20000,
+    lastSyncDate: new Date(),
+  });
+  mockPrisma.user.findMany.mockResolvedValue(candidates);
+  mockPrisma.stravaActivity.findMany.mockImplementation(
+    async (query: { where: { userId: { in: string[] } } }) => {
+      const ids = new Set(query.where.userId.in);
+      return activities.filter(activity => ids.has(activity.userId));
+    }
+  );
+
+  const start = Date.now();
+  const matches = await MatchingService.findPotentialMatches(viewer.id, 20, 0);
+  const elapsedMs = Date.now() - start;
+
+  return {
+    matches,
+    elapsedMs,
+    activityQueries: mockPrisma.stravaActivity.findMany.mock.calls.length,
+    userQueries: mockPrisma.user.findMany.mock.calls.length,
+  };
+};
+
+describe('MatchingService discovery benchmark', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockBlockModel.getBlockedUserIds.mockResolvedValue([]);
+    mockMatchModel.getUnmatchedUserIdsSince.mockResolvedValue([]);
+    mockMatchingPreferencesModel.findByUserId.mockResolvedValue(null);
+    mockMatchingPreferencesModel.getDefaultPreferences.mockImplementation(
+      userId => ({
+        userId,
+        minAge: 18,
+        maxAge: 65,
+        maxDistance: 100,
+        preferredActivities: [],
+        dealbreakerActivities: [],
+        minCompatibilityScore: 0,
+        interestedIn: [],
+      })
+    );
+    mockMatchModel.findByUserId.mockResolvedValue([]);
+    mockSwipeModel.getSwipedUserIds.mockResolvedValue([]);
+    mockScoringProfileModel.getCurrent.mockResolvedValue(null);
+    mockScoringProfileModel.getDefaultSettings.mockReturnValue({
+      weights: {
+        activityOverlap: 0.4,
+        performanceSimilarity: 0.3,
+        locationProximity: 0.2,
+        ageCompatibility: 0.1,
+        scheduleOverlap: 0,
+        trainingAreaOverlap: 0,
+      },
+      maxDistanceKm: 100,
+      maxAgeDifference: 20,
+      exposureStrength: 0,
+      diversityStrength: 0,
+    });
+  });
+
+  it('should score a few thousand users with a constant number of queries', async () => {
+    const result = await runDiscovery(3000);
+
+    expect(result.matches).toHaveLength(20);
+    expect(result.userQueries).toBe(1);
+    expect(result.activityQueries).toBe(1);
+    // Wall-clock budgets are flaky on shared CI runners, so the timing check
+    // only runs with BENCHMARK_TIMING set. The budget is generous: scoring is
+    // pure computation once data is loaded.
+    if (process.env.BENCHMARK_TIMING) {
+      expect(result.elapsedMs).toBeLessThan(2000);
+    }
+  });
+
+  it('should not issue more queries as the user base grows', async () => {
+    const small = await runDiscovery(200);
+    jest.clearAllMocks();
+    const large = await runDiscovery(4000);
+
+    expect(large.activityQueries).toBe(small.activityQueries);
+    expect(large.userQueries).toBe(small.userQueries);
+  });
+});
@@ -1,10 +1,20 @@
 import { MatchingService } from '../../services/matchingService';
+import { SafetyService } from '../../services/safetyService';
 
 // Mock all dependencies
 jest.mock('../../models/User');
 jest.mock('../../models/FitnessStats');
 jest.mock('../../models/MatchingPreferences');
 jest.mock('../../models/Match');
+jest.mock('../../models/Swipe');
+jest.mock('../../models/ScoringProfile');
+jest.mock('../../models/RecommendationQueue');
+jest.mock('../../models/Block');
+jest.mock('../../models/MatchScoreHistory');
+jest.mock('../../services/exposureService');
+jest.mock('../../services/messageService', () => ({
+  MessageService: { notifyUser: jest.fn() },
+}));
 jest.mock('../../config/database', () => ({
   prisma: {
     user: {
@@ -13,6 +23,9 @@ jest.mock('../../config/database', () => ({
     stravaActivity: {
       findMany: jest.fn(),
     },
+    match: {
+      findMany: jest.fn(),
+    },
   },
 }));
 
@@ -20,12 +33,51 @@ import { UserModel } from '../../models/User';
 import { FitnessStatsModel } from '../../models/FitnessStats';
 import { MatchingPreferencesModel } from '../../models/MatchingPreferences';
 import { MatchModel } from '../../models/Match';
+import { SwipeModel } from '../../models/Swipe';
+import { ScoringProfileModel } from '../../models/ScoringProfile';
+import { RecommendationQueueModel } from '../../models/RecommendationQueue';
+import { BlockModel } from '../../models/Block';
+import { MatchScoreHistoryModel } from '../../models/MatchScoreHistory';
+import { MessageService } from '../../services/messageService';
+import { ExposureService } from '../../services/exposureService';
 import { prisma } from '../../config/database';
+import { Prisma } from '../../generated/prisma';
+import { Gender, Match } from '../../types';
 
 const mockUserModel = UserModel as jest.Mocked<typeof UserModel>;
 const mockFitnessStatsModel = FitnessStatsModel as jest.Mocked<typeof FitnessStatsModel>;
 const mockMatchingPreferencesModel = MatchingPreferencesModel as jest.Mocked<typeof MatchingPreferencesModel>;
 const mockMatchModel = MatchModel as jest.Mocked<typeof MatchModel>;
+const mockSwipeModel = SwipeModel as jest.Mocked<typeof SwipeModel>;
+const mockScoringProfileModel = ScoringProfileModel as jest.Mocked<typeof ScoringProfileModel>;
+const mockRecommendationQueueModel = RecommendationQueueModel as jest.Mocked<typeof RecommendationQueueModel>;
+const mockBlockModel = BlockModel as jest.Mocked<typeof BlockModel>;
+const mockMatchScoreHistoryModel = MatchScoreHistoryModel as jest.Mocked<typeof MatchScoreHistoryModel>;
+const mockExposureService = ExposureService as jest.Mocked<typeof ExposureService>;
+
+const defaultScoringSettings = {
+  weights: {
+    activityOverlap: 0.4,
+    performanceSimilarity: 0.3,
+    locationProximity: 0.2,
+    ageCompatibility: 0.1,
+    scheduleOverlap: 0,
+    trainingAreaOverlap: 0,
+  },
+  maxDistanceKm: 100,
+  maxAgeDifference: 20,
+  exposureStrength: 0,
+  diversityStrength: 0,
+};
+
+const noFitnessRanges = {
+  minWeeklyDistance: null,
+  maxWeeklyDistance: null,
+  minWeeklyActivities: null,
+  maxWeeklyActivities: null,
+  minPace: null,
+  maxPace: null,
+};
 
 // Use the mocked prisma
 const mockPrisma = prisma as any;
@@ -34,6 +86,13 @@ describe('MatchingService', () => {
   beforeEach(() => {
     // Clear all mocks before each test
     jest.clearAllMocks();
+    mockScoringProfileModel.getCurrent.mockResolvedValue(null);
+    mockScoringProfileModel.getDefaultSettings.mockReturnValue(defaultScoringSettings);
+    mockBlockModel.getBlockedUserIds.mockResolvedValue([]);
+    mockBlockModel.isBlockedEitherWay.mockResolvedValue(false);
+    mockMatchModel.findByUserIds.mockResolvedValue(null);
+    mockMatchModel.findAllByUserIds.mockResolvedValue([]);
+    mockMatchModel.getUnmatchedUserIdsSince.mockResolvedValue([]);
   });
 
   describe('findPotentialMatches', () => {
@@ -74,7 +133,12 @@ describe('MatchingService', () => {
       maxAge: 40,
       maxDistance: 50,
       preferredActivities: ['Run'],
+      dealbreakerActivities: [],
       minCompatibilityScore: 50,
+      interestedIn: [] as Gender[],
+      partnerAnyGender: true,
+      partnerAnyAge: false,
+      ...noFitnessRanges,
     };
 
     beforeEach(() => {
@@ -82,6 +146,7 @@ describe('MatchingService', () => {
       mockFitnessStatsModel.findByUserId.mockResolvedValue(mockFitnessStats);
       mockMatchingPreferencesModel.findByUserId.mockResolvedValue(mockPreferences);
       mockMatchModel.findByUserId.mockResolvedValue([]);
+      mockSwipeModel.getSwipedUserIds.mockResolvedValue([]);
     });
 
     it('should find and rank potential matches for a user', async () => {
@@ -106,9 +171,10 @@ describe('MatchingService', () => {
       };
 
       mockPrisma.user.findMany.mockResolvedValue([potentialUser]);
-      mockPrisma.stravaActivity.findMany
-        .mockResolvedValueOnce([{ type: 'Run' }])
-        .mockResolvedValueOnce([{ type: 'Run' }]);
+      mockPrisma.stravaActivity.findMany.mockResolvedValue([
+        { userId: 'user1', type: 'Run' },
+        { userId: 'user2', type: 'Run' },
+      ]);
 
       const matches = await MatchingService.findPotentialMatches(userId, 10, 0);
 
@@ -121,6 +187,545 @@ describe('MatchingService', () => {
       expect(matches[0].compatibilityFactors).toHaveProperty('ageCompatibility');
     });
 
+    it('should load activity types for all candidates in a single query', async () => {
+      const candidate = (id: string) => ({
+        id,
+        firstName: 'Jane',
+        lastName: 'Smith',
+        age: 28,
+        city: 'New York',
+        state: 'NY',
+        latitude: 40.758,
+        longitude: -73.9855,
+        photos: [],
+        bio: null,
+        fitnessStats: {
+          weeklyDistance: 45000,
+          weeklyActivities: 4,
+          averagePace: 320,
+          favoriteActivities: ['Run'],
+          totalDistance: 800000,
+        },
+      });
+      mockPrisma.user.findMany.mockResolvedValue([
+        candidate('user2'),
+        candidate('user3'),
+        candidate('user4'),
+      ]);
+      mockPrisma.stravaActivity.findMany.mockResolvedValue([
+        { userId: 'user1', type: 'Run' },
+        { userId: 'user3', type: 'Run' },
+      ]);
+
+      const matches = await MatchingService.findPotentialMatches(userId, 10, 0);
+
+      expect(mockPrisma.stravaActivity.findMany).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.stravaActivity.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            userId: { in: ['user1', 'user2', 'user3', 'user4'] },
+          }),
+          distinct: ['userId', 'type'],
+        })
+      );
+      expect(matches[0].userId).toBe('user3');
+      expect(matches[0].compatibilityFactors.activityOverlap).toBe(100);
+    });
+
+    it('should exclude users that have already been swiped on', async () => {
+      mockSwipeModel.getSwipedUserIds.mockResolvedValue(['user3', 'user4']);
+      mockPrisma.user.findMany.mockResolvedValue([]);
+
+      await MatchingService.findPotentialMatches(userId, 10, 0);
+
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            id: { not: userId, notIn: ['user3', 'user4'] },
+          }),
+        })
+      );
+    });
+
+    it('should exclude users blocked in either direction', async () => {
+      mockSwipeModel.getSwipedUserIds.mockResolvedValue(['user3']);
+      mockBlockModel.getBlockedUserIds.mockResolvedValue(['user3', 'user5']);
+      mockPrisma.user.findMany.mockResolvedValue([]);
+
+      await MatchingService.findPotentialMatches(userId, 10, 0);
+
+      expect(mockBlockModel.getBlockedUserIds).toHaveBeenCalledWith(userId);
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            id: { not: userId, notIn: ['user3', 'user5'] },
+          }),
+        })
+      );
+    });
+
+    it('should exclude users unmatched within the rematch cooldown', async () => {
+      mockMatchModel.getUnmatchedUserIdsSince.mockResolvedValue(['user6']);
+      mockPrisma.user.findMany.mockResolvedValue([]);
+
+      await MatchingService.findPotentialMatches(userId, 10, 0);
+
+      const [, since] = mockMatchModel.getUnmatchedUserIdsSince.mock.calls[0];
+      const cooldownDays = (Date.now() - since.getTime()) / (24 * 60 * 60 * 1000);
+      expect(cooldownDays).toBeCloseTo(30, 2);
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            id: { not: userId, notIn: ['user6'] },
+          }),
+        })
+      );
+    });
+
+    it('should prefilter candidates with a bounding box around the user', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([]);
+
+      await MatchingService.findPotentialMatches(userId, 10, 0);
+
+      const { where } = mockPrisma.user.findMany.mock.calls[0][0];
+      expect(where.latitude.gte).toBeCloseTo(40.7128 - 0.4497, 3);
+      expect(where.latitude.lte).toBeCloseTo(40.7128 + 0.4497, 3);
+      expect(where.longitude.gte).toBeLessThan(-74.006);
+      expect(where.longitude.lte).toBeGreaterThan(-74.006);
+    });
+
+    it('should filter candidates by the fitness ranges the user set', async () => {
+      mockMatchingPreferencesModel.findByUserId.mockResolvedValue({
+        ...mockPreferences,
+        minWeeklyDistance: 30000,
+        maxWeeklyDistance: 80000,
+        minWeeklyActivities: 3,
+        minPace: 270,
+        maxPace: 330,
+      });
+      mockPrisma.user.findMany.mockResolvedValue([]);
+
+      await MatchingService.findPotentialMatches(userId, 10, 0);
+
+      const { where } = mockPrisma.user.findMany.mock.calls[0][0];
+      expect(where.fitnessStats).toEqual({
+        is: {
+          weeklyDistance: { gte: 30000, lte: 80000 },
+          weeklyActivities: { gte: 3 },
+          averagePace: { gte: 270, lte: 330 },
+        },
+      });
+    });
+
+    it('should not filter on fitness stats without fitness ranges', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([]);
+
+      await MatchingService.findPotentialMatches(userId, 10, 0);
+
+      const { where } = mockPrisma.user.findMany.mock.calls[0][0];
+      expect(where).not.toHaveProperty('fitnessStats');
+    });
+
+    it('should find candidates across the dateline', async () => {
+      mockUserModel.findById.mockResolvedValue({ ...mockUser, latitude: -17.7, longitude: 179.95 });
+      mockMatchingPreferencesModel.findByUserId.mockResolvedValue({
+        ...mockPreferences,
+        minCompatibilityScore: 0,
+      });
+      mockPrisma.stravaActivity.findMany.mockResolvedValue([]);
+      const neighbour = {
+        id: 'user2',
+        firstName: 'Sela',
+        lastName: 'Tui',
+        age: 29,
+        city: 'Taveuni',
+        state: 'Northern',
+        latitude: -17.7,
+        longitude: -179.95,
+        photos: [],
+        bio: null,
+        fitnessStats: {
+          weeklyDistance: 45000,
+          weeklyActivities: 4,
+          averagePace: 320,
+          favoriteActivities: [],
+          totalDistance: 800000,
+        },
+      };
+      mockPrisma.user.findMany.mockResolvedValue([neighbour]);
+
+      const matches = await MatchingService.findPotentialMatches(userId, 10, 0);
+
+      const { where } = mockPrisma.user.findMany.mock.calls[0][0];
+      expect(where.OR).toHaveLength(2);
+      expect(matches.map(match => match.userId)).toEqual(['user2']);
+    });
+
+    describe('gender preferences', () => {
+      const candidate = (id: string, gender: string | null, interestedIn: Gender[] | null) => ({
+        id,
+        firstName: 'Alex',
+        lastName: 'Smith',
+        age: 28,
+        gender,
+        city: 'New York',
+        state: 'NY',
+        latitude: 40.758,
+        longitude: -73.9855,
+        photos: [],
+        bio: null,
+        matchingPreferences: interestedIn ? { interestedIn } : null,
+        fitnessStats: {
+          weeklyDistance: 45000,
+          weeklyActivities: 4,
+          averagePace: 320,
+          favoriteActivities: ['Run'],
+          totalDistance: 800000,
+        },
+      });
+
+      beforeEach(() => {
+        mockUserModel.findById.mockResolvedValue({ ...mockUser, gender: 'non-binary' });
+        mockPrisma.stravaActivity.findMany.mockResolvedValue([]);
+      });
+
+      it('should only query genders the user wants to see', async () => {
+        mockMatchingPreferencesModel.findByUserId.mockResolvedValue({
+          ...mockPreferences,
+          minCompatibilityScore: 0,
+          interestedIn: ['female', 'non-binary'],
+        });
+        mockPrisma.user.findMany.mockResolvedValue([]);
+
+        await MatchingService.findPotentialMatches(userId, 10, 0);
+
+        expect(mockPrisma.user.findMany).toHaveBeenCalledWith(
+          expect.objectContaining({
+            where: expect.objectContaining({
+              gender: { in: ['female', 'non-binary'] },
+            }),
+          })
+        );
+      });
+
+      it('should not filter on gender when the user wants to see everyone', async () => {
+        mockPrisma.user.findMany.mockResolvedValue([]);
+
+        await MatchingService.findPotentialMatches(userId, 10, 0);
+
+        const query = mockPrisma.user.findMany.mock.calls[0][0];
+        expect(query.where).not.toHaveProperty('gender');
+      });
+
+      it('should exclude candidates who do not want to see the user', async () => {
+        mockMatchingPreferencesModel.findByUserId.mockResolvedValue({
+          ...mockPreferences,
+          minCompatibilityScore: 0,
+        });
+        mockPrisma.user.findMany.mockResolvedValue([
+          candidate('user2', 'female', ['male']),
+          candidate('user3', 'male', ['non-binary', 'female']),
+          candidate('user4', 'other', []),
+          candidate('user5', 'female', null),
+        ]);
+
+        const matches = await MatchingService.findPotentialMatches(userId, 10, 0);
+
+        expect(matches.map(match => match.userId).sort()).toEqual(['user3', 'user4', 'user5']);
+      });
+
+      it('should hide users without a gender from candidates with a preference', async () => {
+        mockUserModel.findById.mockResolvedValue({ ...mockUser, gender: null });
+        mockMatchingPreferencesModel.findByUserId.mockResolvedValue({
+          ...mockPreferences,
+          minCompatibilityScore: 0,
+        });
+        mockPrisma.user.findMany.mockResolvedValue([
+          candidate('user2', 'female', ['male']),
+          candidate('user3', 'female', []),
+        ]);
+
+        const matches = await MatchingService.findPotentialMatches(userId, 10, 0);
+
+        expect(matches.map(match => match.userId)).toEqual(['user3']);
+      });
+    });
+
+    describe('training-partner mode', () => {
+      const candidate = (
+        id: string,
+        gender: string,
+        preferences: { interestedIn: Gender[]; partnerAnyGender: boolean } | null
+      ) => ({
+        id,
+        firstName: 'Alex',
+        lastName: 'Smith',
+        age: 28,
+        gender,
+        city: 'New York',
+        state: 'NY',
+        latitude: 40.758,
+        longitude: -73.9855,
+        photos: [],
+        bio: null,
+        matchingPreferences: preferences,
+        fitnessStats: {
+          weeklyDistance: 45000,
+          weeklyActivities: 4,
+          averagePace: 320,
+          favoriteActivities: ['Run'],
+          totalDistance: 800000,
+        },
+      });
+
+      beforeEach(() => {
+        mockUserModel.findById.mockResolvedValue({
+          ...mockUser,
+          gender: 'male',
+          discoveryMode: 'both',
+        });
+        mockMatchingPreferencesModel.findByUserId.mockResolvedValue({
+          ...mockPreferences,
+          minCompatibilityScore: 0,
+          interestedIn: ['female'],
+        });
+        mockPrisma.stravaActivity.findMany.mockResolvedValue([]);
+        mockPrisma.user.findMany.mockResolvedValue([]);
+      });
+
+      it('should only show candidates looking in the same mode', async () => {
+        await MatchingService.findPotentialMatches(userId, 10, 0, undefined, 'partner');
+
+        const { where } = mockPrisma.user.findMany.mock.calls[0][0];
+        expect(where.discoveryMode).toEqual({ in: ['partner', 'both'] });
+      });
+
+      it('should default to dating for users looking for both', async () => {
+        await MatchingService.findPotentialMatches(userId, 10, 0);
+
+        const { where } = mockPrisma.user.findMany.mock.calls[0][0];
+        expect(where.discoveryMode).toEqual({ in: ['dating', 'both'] });
+        expect(mockSwipeModel.getSwipedUserIds).toHaveBeenCalledWith(userId, 'dating');
+      });
+
+      it('should refuse a mode the user has not turned on', async () => {
+        mockUserModel.findById.mockResolvedValue({ ...mockUser, discoveryMode: 'dating' });
+
+        await expect(
+          MatchingService.findPotentialMatches(userId, 10, 0, undefined, 'partner')
+        ).rejects.toThrow('Mode is not enabled for this user');
+      });
+
+      it('should only exclude users matched or swiped on in the same mode', async () => {
+        mockSwipeModel.getSwipedUserIds.mockResolvedValue(['user3']);
+        const match = (id: string, otherUserId: string, mode: 'dating' | 'partner') => ({
+          id,
+          user1Id: userId,
+          user2Id: otherUserId,
+          compatibilityScore: 80,
+          matchedAt: new Date(),
+          status: 'active' as const,
+          mode,
+        });
+        mockMatchModel.findByUserId.mockResolvedValue([
+          match('match1', 'user4', 'dating'),
+          match('match2', 'user5', 'partner'),
+        ]);
+
+        await MatchingService.findPotentialMatches(userId, 10, 0, undefined, 'partner');
+
+        expect(mockSwipeModel.getSwipedUserIds).toHaveBeenCalledWith(userId, 'partner');
+        const { where } = mockPrisma.user.findMany.mock.calls[0][0];
+        expect(where.id).toEqual({ not: userId, notIn: ['user5', 'user3'] });
+      });
+
+      it('should ignore gender preferences on both sides when relaxed', async () => {
+        mockPrisma.user.findMany.mockResolvedValue([
+          candidate('user2', 'male', { interestedIn: ['female'], partnerAnyGender: true }),
+          candidate('user3', 'female', { interestedIn: ['female'], partnerAnyGender: false }),
+          candidate('user4', 'non-binary', null),
+        ]);
+
+        const matches = await MatchingService.findPotentialMatches(userId, 10, 0, undefined, 'partner');
+
+        const { where } = mockPrisma.user.findMany.mock.calls[0][0];
+        expect(where).not.toHaveProperty('gender');
+        expect(matches.map(match => match.userId).sort()).toEqual(['user2', 'user4']);
+      });
+
+      it('should keep gender preferences in partner mode when not relaxed', async () => {
+        mockMatchingPreferencesModel.findByUserId.mockResolvedValue({
+          ...mockPreferences,
+          interestedIn: ['female'],
+          partnerAnyGender: false,
+        });
+
+        await MatchingService.findPotentialMatches(userId, 10, 0, undefined, 'partner');
+
+        const { where } = mockPrisma.user.findMany.mock.calls[0][0];
+        expect(where.gender).toEqual({ in: ['female'] });
+      });
+
+      it('should ignore the age range in partner mode only when relaxed', async () => {
+        mockMatchingPreferencesModel.findByUserId.mockResolvedValue({
+          ...mockPreferences,
+          partnerAnyAge: true,
+        });
+
+        await MatchingService.findPotentialMatches(userId, 10, 0, undefined, 'partner');
+        await MatchingService.findPotentialMatches(userId, 10, 0, undefined, 'dating');
+
+        const [[partnerQuery], [datingQuery]] = mockPrisma.user.findMany.mock.calls;
+        expect(partnerQuery.where).not.toHaveProperty('age');
+        expect(datingQuery.where.age).toEqual({ gte: 20, lte: 40 });
+      });
+    });
+
+    describe('activity preferences', () => {
+      const candidate = (id: string, favoriteActivities: string[]) => ({
+        id,
+        firstName: 'Jane',
+        lastName: 'Smith',
+        age: 30,
+        city: 'New York',
+        state: 'NY',
+        latitude: 40.7128,
+        longitude: -74.006,
+        photos: [],
+        bio: null,
+        fitnessStats: {
+          weeklyDistance: 50000,
+          weeklyActivities: 5,
+          averagePace: 300,
+          favoriteActivities,
+          totalDistance: 1000000,
+        },
+      });
+
+      const preferring = (preferredActivities: string[], dealbreakerActivities: string[]) => {
+        mockMatchingPreferencesModel.findByUserId.mockResolvedValue({
+          ...mockPreferences,
+          preferredActivities,
+          dealbreakerActivities,
+          minCompatibilityScore: 0,
+        });
+      };
+
+      beforeEach(() => {
+        mockPrisma.stravaActivity.findMany.mockResolvedValue([]);
+      });
+
+      it('should only show candidates who do every dealbreaker activity', async () => {
+        preferring(['Run', 'Swim', 'Yoga'], ['Run', 'Swim']);
+        mockPrisma.user.findMany.mockResolvedValue([
+          candidate('user2', ['Run']),
+          candidate('user3', ['Run', 'Swim']),
+          candidate('user4', []),
+        ]);
+        // user4 swam recently without listing it as a favorite
+        mockPrisma.stravaActivity.findMany.mockResolvedValue([
+          { userId: 'user4', type: 'Run' },
+          { userId: 'user4', type: 'Swim' },
+        ]);
+
+        const matches = await MatchingService.findPotentialMatches(userId, 10, 0);
+
+        expect(matches.map(match => match.userId).sort()).toEqual(['user3', 'user4']);
+      });
+
+      it('should ignore dealbreakers that are no longer preferred', async () => {
+        preferring(['Run'], ['Swim']);
+        mockPrisma.user.findMany.mockResolvedValue([candidate('user2', ['Run'])]);
+
+        const matches = await MatchingService.findPotentialMatches(userId, 10, 0);
+
+        expect(matches).toHaveLength(1);
+      });
+
+      it('should boost candidates who do nice-to-have activities', async () => {
+        preferring(['Run', 'Swim'], []);
+        mockPrisma.user.findMany.mockResolvedValue([
+          candidate('user2', []),
+          candidate('user3', ['Swim']),
+          candidate('user4', ['Run', 'Swim']),
+        ]);
+
+        const matches = await MatchingService.findPotentialMatches(userId, 10, 0);
+
+        const scores = Object.fromEntries(
+          matches.map(match => [match.userId, match.compatibilityScore])
+        );
+        expect(matches.map(match => match.userId)).toEqual(['user4', 'user3', 'user2']);
+        expect(scores.user3 - scores.user2).toBe(5);
+        expect(scores.user4 - scores.user2).toBe(10);
+        expect(matches[0].compatibilityReasons[0]).toEqual({
+          code: 'preferred_activities',
+          factor: 'activityOverlap',
+          params: { activities: ['Run', 'Swim'] },
+        });
+        expect(matches[2].compatibilityReasons.map(reason => reason.code)).not.toContain(
+          'preferred_activities'
+        );
+      });
+
+      it('should not boost for activities that are already dealbreakers', async () => {
+        preferring(['Run'], ['Run']);
+        mockPrisma.user.findMany.mockResolvedValue([candidate('user2', ['Run'])]);
+        const [filtered] = await MatchingService.findPotentialMatches(userId, 10, 0);
+
+        preferring([], []);
+        const [unfiltered] = await MatchingService.findPotentialMatches(userId, 10, 0);
+
+        expect(filtered.compatibilityScore).toBe(unfiltered.compatibilityScore);
+      });
+    });
+
+    describe('re-ranking', () => {
+      const candidate = (id: string) => ({
+        id,
+        firstName: 'Jane',
+        lastName: 'Smith',
+        age: 30,
+        city: 'New York',
+        state: 'NY',
+        latitude: 40.7128,
+        longitude: -74.006,
+        photos: [],
+        bio: null,
+        fitnessStats: {
+          weeklyDistance: 50000,
+          weeklyActivities: 5,
+          averagePace: 300,
+          favoriteActivities: ['Run'],
+          totalDistance: 1000000,
+        },
+      });
+
+      beforeEach(() => {
+        mockPrisma.stravaActivity.findMany.mockResolvedValue([]);
+        mockPrisma.user.findMany.mockResolvedValue([candidate('user2'), candidate('user3')]);
+        mockExposureService.getImpressionCounts.mockResolvedValue(new Map([['user2', 500]]));
+      });
+
+      it('should lift rarely shown candidates without changing their scores', async () => {
+        const matches = await MatchingService.findPotentialMatches(userId, 10, 0, {
+          ...defaultScoringSettings,
+          exposureStrength: 1,
+        });
+
+        expect(mockExposureService.getImpressionCounts).toHaveBeenCalledWith(['user2', 'user3']);
+        expect(matches.map(match => match.userId)).toEqual(['user3', 'user2']);
+        expect(matches[0].compatibilityScore).toBe(matches[1].compatibilityScore);
+      });
+
+      it('should keep pure score order when re-ranking is turned off', async () => {
+        const matches = await MatchingService.findPotentialMatches(userId, 10, 0);
+
+        expect(mockExposureService.getImpressionCounts).not.toHaveBeenCalled();
+        expect(matches.map(match => match.userId)).toEqual(['user2', 'user3']);
+      });
+    });
+
     it('should throw error if user not found', async () => {
       mockUserModel.findById.mockResolvedValue(null);
 
@@ -137,6 +742,7 @@ describe('MatchingService', () => {
         maxAge: 65,
         maxDistance: 50,
         preferredActivities: [],
+        dealbreakerActivities: [],
         minCompatibilityScore: 0,
       });
 
@@ -178,9 +784,12 @@ describe('MatchingService', () => {
         favoriteActivities: ['Run', 'Swim'],
       };
 
-      mockPrisma.stravaActivity.findMany
-        .mockResolvedValueOnce([{ type: 'Run' }, { type: 'Bike' }])
-        .mockResolvedValueOnce([{ type: 'Run' }, { type: 'Swim' }]);
+      mockPrisma.stravaActivity.findMany.mockResolvedValue([
+        { userId: 'user1', type: 'Run' },
+        { userId: 'user1', type: 'Bike' },
+        { userId: 'user2', type: 'Run' },
+        { userId: 'user2', type: 'Swim' },
+      ]);
 
       const result = await MatchingService.calculateCompatibilityScore(
         user1,
@@ -195,6 +804,8 @@ describe('MatchingService', () => {
       expect(result.factors).toHaveProperty('performanceSimilarity');
       expect(result.factors).toHaveProperty('locationProximity');
       expect(result.factors).toHaveProperty('ageCompatibility');
+      // Run is shared out of Run, Bike and Swim
+      expect(result.factors.activityOverlap).toBe(33);
     });
 
     it('should return 0 for activity overlap when no activities exist', async () => {
@@ -209,6 +820,261 @@ describe('MatchingService', () => {
 
       expect(result.factors.activityOverlap).toBe(0);
     });
+
+    it('should compare performance only over the sports both users do', async () => {
+      mockPrisma.stravaActivity.findMany.mockResolvedValue([]);
+      const runningProfile = {
+        weeklyDistance: 40000,
+        weeklyActivities: 4,
+        weeklyMovingTime: 4 * 3600,
+        averageSpeed: 3,
+      };
+
+      // A 200 km/week cyclist who also runs 40 km/week, against a pure runner
+      const result = await MatchingService.calculateCompatibilityScore(
+        { id: 'user1', age: 30, latitude: 0, longitude: 0 },
+        {
+          weeklyDistance: 240000,
+          weeklyActivities: 9,
+          averagePace: 333,
+          sportProfiles: {
+            Ride: { weeklyDistance: 200000, weeklyActivities: 5, weeklyMovingTime: 7 * 3600, averageSpeed: 8 },
+            Run: runningProfile,
+          },
+        },
+        { id: 'user2', age: 30, latitude: 0, longitude: 0 },
+        {
+          weeklyDistance: 40000,
+          weeklyActivities: 4,
+          averagePace: 333,
+          sportProfiles: { Run: runningProfile },
+        }
+      );
+
+      expect(result.factors.performanceSimilarity).toBe(100);
+    });
+
+    it('should weight shared sports by how much each user does them', async () => {
+      mockPrisma.stravaActivity.findMany.mockResolvedValue([]);
+      const profile = (weeklyDistance: number, weeklyMovingTime: number) => ({
+        weeklyDistance,
+        weeklyActivities: 3,
+        weeklyMovingTime,
+        averageSpeed: 3,
+      });
+
+      const result = await MatchingService.calculateCompatibilityScore(
+        { id: 'user1', age: 30, latitude: 0, longitude: 0 },
+        {
+          weeklyDistance: 0,
+          weeklyActivities: 6,
+          averagePace: null,
+          // Mostly runs, swims a little
+          sportProfiles: { Run: profile(30000, 9000), Swim: profile(1000, 1000) },
+        },
+        { id: 'user2', age: 30, latitude: 0, longitude: 0 },
+        {
+          weeklyDistance: 0,
+          weeklyActivities: 6,
+          averagePace: null,
+          sportProfiles: { Run: profile(30000, 9000), Swim: profile(4000, 1000) },
+        }
+      );
+
+      // Run is identical (weight 0.9), swim distance is 25% of the other's (weight 0.1):
+      // 0.9 * 1 + 0.1 * (0.4 * 0.25 + 0.4 + 0.2) = 0.97
+      expect(result.factors.performanceSimilarity).toBe(97);
+    });
+
+    it('should score no performance similarity when users share no sport', async () => {
+      mockPrisma.stravaActivity.findMany.mockResolvedValue([]);
+      const profile = { weeklyDistance: 40000, weeklyActivities: 4, weeklyMovingTime: 14400, averageSpeed: 3 };
+
+      const result = await MatchingService.calculateCompatibilityScore(
+        { id: 'user1', age: 30, latitude: 0, longitude: 0 },
+        { weeklyDistance: 40000, weeklyActivities: 4, averagePace: null, sportProfiles: { Run: profile } },
+        { id: 'user2', age: 30, latitude: 0, longitude: 0 },
+        { weeklyDistance: 40000, weeklyActivities: 4, averagePace: null, sportProfiles: { Ride: profile } }
+      );
+
+      expect(result.factors.performanceSimilarity).toBe(0);
+    });
+
+    it('should score and explain overlapping training schedules', async () => {
+      mockPrisma.stravaActivity.findMany.mockResolvedValue([]);
+      // Rows are days from Sunday, columns are early morning to night
+      const scheduleAt = (day: number, slot: number) =>
+        Array.from({ length: 7 }, (_, d) => [0, 0, 0, 0, 0].map((_, s) => (d === day && s === slot ? 1 : 0)));
+
+      const result = await MatchingService.calculateCompatibilityScore(
+        { id: 'user1', age: 25, latitude: 0, longitude: 0 },
+        { weeklyDistance: 0, weeklyActivities: 0, averagePace: null, trainingSchedule: scheduleAt(1, 0) },
+        { id: 'user2', age: 40, latitude: 0, longitude: 0 },
+        { weeklyDistance: 0, weeklyActivities: 0, averagePace: null, trainingSchedule: scheduleAt(4, 0) },
+        {
+          ...defaultScoringSettings,
+          weights: {
+            activityOverlap: 0,
+            performanceSimilarity: 0,
+            locationProximity: 0,
+            ageCompatibility: 0,
+            scheduleOverlap: 1,
+            trainingAreaOverlap: 0,
+          },
+        }
+      );
+
+      // Same time of day on different days earns half the overlap
+      expect(result.factors.scheduleOverlap).toBe(50);
+      expect(result.score).toBe(50);
+      expect(result.reasons).toContainEqual({
+        code: 'similar_schedule',
+        factor: 'scheduleOverlap',
+        params: { timeOfDay: 'early_morning' },
+      });
+    });
+
+    it('should reward training in the same places regardless of profile location', async () => {
+      mockPrisma.stravaActivity.findMany.mockResolvedValue([]);
+      const trail = { latitude: 40.01, longitude: -105.27, share: 1 };
+
+      // Profiles say New York and Denver, but both train on the same Boulder trail
+      const result = await MatchingService.calculateCompatibilityScore(
+        { id: 'user1', age: 25, latitude: 40.7128, longitude: -74.0060 },
+        { weeklyDistance: 0, weeklyActivities: 0, averagePace: null, trainingAreas: [trail] },
+        { id: 'user2', age: 40, latitude: 39.7392, longitude: -104.9903 },
+        { weeklyDistance: 0, weeklyActivities: 0, averagePace: null, trainingAreas: [trail] }
+      );
+
+      expect(result.factors.locationProximity).toBe(0);
+      expect(result.factors.trainingAreaOverlap).toBe(100);
+      expect(result.reasons).toContainEqual({
+        code: 'shared_training_areas',
+        factor: 'trainingAreaOverlap',
+        params: { percent: 100 },
+      });
+    });
+
+    it('should not score schedules for users without synced activity times', async () => {
+      mockPrisma.stravaActivity.findMany.mockResolvedValue([]);
+
+      const result = await MatchingService.calculateCompatibilityScore(
+        { id: 'user1', age: 30, latitude: 0, longitude: 0 },
+        { weeklyDistance: 0, weeklyActivities: 0, averagePace: null, trainingSchedule: [] },
+        { id: 'user2', age: 30, latitude: 0, longitude: 0 },
+        { weeklyDistance: 0, weeklyActivities: 0, averagePace: null }
+      );
+
+      expect(result.factors.scheduleOverlap).toBe(0);
+      expect(result.reasons.map(reason => reason.code)).not.toContain('similar_schedule');
+    });
+
+    it('should explain the score with localizable reasons', async () => {
+      mockPrisma.stravaActivity.findMany.mockResolvedValue([
+        { userId: 'user1', type: 'Run' },
+        { userId: 'user1', type: 'Ride' },
+        { userId: 'user2', type: 'Ride' },
+        { userId: 'user2', type: 'Run' },
+        { userId: 'user2', type: 'Swim' },
+      ]);
+
+      const result = await MatchingService.calculateCompatibilityScore(
+        { id: 'user1', age: 30, latitude: 40.7128, longitude: -74.0060 },
+        { weeklyDistance: 50000, weeklyActivities: 5, averagePace: 300 },
+        { id: 'user2', age: 28, latitude: 40.7580, longitude: -73.9855 },
+        { weeklyDistance: 45000, weeklyActivities: 4, averagePace: 320 }
+      );
+
+      expect(result.reasons).toEqual(
+        expect.arrayContaining([
+          { code: 'shared_activities', factor: 'activityOverlap', params: { activities: ['Ride', 'Run'] } },
+          { code: 'similar_training_frequency', factor: 'performanceSimilarity', params: { timesPerWeek: 4 } },
+          { code: 'similar_weekly_distance', factor: 'performanceSimilarity', params: { distanceKm: 48 } },
+          { code: 'similar_pace', factor: 'performanceSimilarity', params: { withinSeconds: 20 } },
+          { code: 'nearby', factor: 'locationProximity', params: { distanceKm: 6 } },
+          { code: 'similar_age', factor: 'ageCompatibility', params: { years: 2 } },
+        ])
+      );
+      expect(result.reasons).toHaveLength(6);
+      // Activity overlap contributes most to this score, so its reason leads
+      expect(result.reasons[0].code).toBe('shared_activities');
+    });
+
+    it('should not give reasons for users with little in common', async () => {
+      mockPrisma.stravaActivity.findMany.mockResolvedValue([
+        { userId: 'user1', type: 'Run' },
+        { userId: 'user2', type: 'Swim' },
+      ]);
+
+      const result = await MatchingService.calculateCompatibilityScore(
+        { id: 'user1', age: 25, latitude: 40.7128, longitude: -74.0060 },
+        { weeklyDistance: 80000, weeklyActivities: 8, averagePace: 270 },
+        { id: 'user2', age: 40, latitude: 41.2, longitude: -74.0060 },
+        { weeklyDistance: 10000, weeklyActivities: 1, averagePace: null }
+      );
+
+      expect(result.reasons).toEqual([]);
+    });
+
+    it('should apply the live scoring profile weights and decay constants', async () => {
+      mockPrisma.stravaActivity.findMany.mockResolvedValue([]);
+      mockScoringProfileModel.getCurrent.mockResolvedValue({
+        id: 'profile1',
+        version: 1,
+        weights: {
+          activityOverlap: 0,
+          performanceSimilarity: 0,
+          locationProximity: 0.5,
+          ageCompatibility: 0.5,
+          scheduleOverlap: 0,
+          trainingAreaOverlap: 0,
+        },
+        maxDistanceKm: 200,
+        maxAgeDifference: 10,
+        exposureStrength: 0,
+        diversityStrength: 0,
+        notes: null,
+        createdAt: new Date(),
+        createdBy: 'admin@test.com',
+      });
+
+      const result = await MatchingService.calculateCompatibilityScore(
+        { id: 'user1', age: 30, latitude: 0, longitude: 0 },
+        { weeklyDistance: 0, weeklyActivities: 0, averagePace: null },
+        { id: 'user2', age: 35, latitude: 0, longitude: 0 },
+        { weeklyDistance: 0, weeklyActivities: 0, averagePace: null }
+      );
+
+      // Same location scores 100, a 5 year gap is halfway to the 10 year cutoff
+      expect(result.factors.locationProximity).toBe(100);
+      expect(result.factors.ageCompatibility).toBe(50);
+      expect(result.score).toBe(75);
+    });
+
+    it('should prefer explicitly passed scoring settings', async () => {
+      mockPrisma.stravaActivity.findMany.mockResolvedValue([]);
+
+      const result = await MatchingService.calculateCompatibilityScore(
+        { id: 'user1', age: 30, latitude: 0, longitude: 0 },
+        { weeklyDistance: 0, weeklyActivities: 0, averagePace: null },
+        { id: 'user2', age: 30, latitude: 0, longitude: 0 },
+        { weeklyDistance: 0, weeklyActivities: 0, averagePace: null },
+        {
+          ...defaultScoringSettings,
+          weights: {
+            activityOverlap: 1,
+            performanceSimilarity: 0,
+            locationProximity: 0,
+            ageCompatibility: 0,
+            scheduleOverlap: 0,
+            trainingAreaOverlap: 0,
+          },
+        }
+      );
+
+      expect(result.score).toBe(0);
+      expect(mockScoringProfileModel.getCurrent).not.toHaveBeenCalled();
+    });
   });
 
   describe('createMatch', () => {
@@ -224,6 +1090,7 @@ describe('MatchingService', () => {
         compatibilityScore,
         matchedAt: new Date(),
         status: 'active' as const,
+        mode: 'dating' as const,
       };
 
       mockMatchModel.findByUserIds.mockResolvedValue(null);
@@ -236,11 +1103,18 @@ describe('MatchingService', () => {
       );
 
       expect(result).toEqual(mockMatch);
+      expect(mockMatchModel.findByUserIds).toHaveBeenCalledWith(user1Id, user2Id, 'dating');
       expect(mockMatchModel.create).toHaveBeenCalledWith({
         user1Id,
         user2Id,
         compatibilityScore,
+        mode: 'dating',
       });
+      expect(mockMatchScoreHistoryModel.create).toHaveBeenCalledWith(
+        'match1',
+        compatibilityScore,
+        undefined
+      );
     });
 
     it('should throw error if match already exists', async () => {
@@ -251,6 +1125,7 @@ describe('MatchingService', () => {
         compatibilityScore: 85,
         matchedAt: new Date(),
         status: 'active' as const,
+        mode: 'dating' as const,
       };
 
       mockMatchModel.findByUserIds.mockResolvedValue(existingMatch);
@@ -259,6 +1134,600 @@ describe('MatchingService', () => {
         MatchingService.createMatch('user1', 'user2', 85)
       ).rejects.toThrow('Match already exists between these users');
     });
+
+    it('should return the match created by a like from the other side at the same moment', async () => {
+      const concurrentMatch = {
+        id: 'match1',
+        user1Id: 'user1',
+        user2Id: 'user2',
+        compatibilityScore: 85,
+        matchedAt: new Date(),
+        status: 'active' as const,
+        mode: 'dating' as const,
+      };
+
+      mockMatchModel.findByUserIds
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(concurrentMatch);
+      mockMatchModel.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        })
+      );
+
+      const result = await MatchingService.createMatch('user2', 'user1', 85);
+
+      expect(result).toBe(concurrentMatch);
+      expect(mockMatchScoreHistoryModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordSwipe', () => {
+    const swipe = (swiperId: string, targetId: string, decision: 'like' | 'pass' | 'super_like') => ({
+      id: `${swiperId}-${targetId}`,
+      swiperId,
+      targetId,
+      decision,
+      mode: 'dating' as const,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    const mockMatch = {
+      id: 'match1',
+      user1Id: 'user1',
+      user2Id: 'user2',
+      compatibilityScore: 85,
+      matchedAt: new Date(),
+      status: 'active' as const,
+      mode: 'dating' as const,
+    };
+
+    it('should refuse to swipe on a blocked user', async () => {
+      mockBlockModel.isBlockedEitherWay.mockResolvedValue(true);
+
+      await expect(MatchingService.recordSwipe('user1', 'user2', 'like')).rejects.toThrow(
+        'Cannot swipe on a blocked user'
+      );
+      expect(mockSwipeModel.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should not create a match for a one-sided like', async () => {
+      mockSwipeModel.upsert.mockResolvedValue(swipe('user1', 'user2', 'like'));
+      mockSwipeModel.hasLiked.mockResolvedValue(false);
+
+      const result = await MatchingService.recordSwipe('user1', 'user2', 'like');
+
+      expect(result.isMatch).toBe(false);
+      expect(result.match).toBeNull();
+      expect(mockSwipeModel.hasLiked).toHaveBeenCalledWith('user2', 'user1', 'dating');
+      expect(mockMatchModel.create).not.toHaveBeenCalled();
+    });
+
+    const mockUser = (id: string) => ({
+      id,
+      email: `${id}@test.com`,
+      stravaId: 1,
+      firstName: 'Test',
+      lastName: 'User',
+      age: 30,
+      city: 'New York',
+      state: 'NY',
+      latitude: 40.7128,
+      longitude: -74.006,
+      photos: [],
+      createdAt: new Date(),
+      lastActive: new Date(),
+    });
+
+    beforeEach(() => {
+      mockUserModel.findById.mockImplementation(async id => mockUser(id));
+      mockFitnessStatsModel.findByUserId.mockResolvedValue(null);
+      mockPrisma.stravaActivity.findMany.mockResolvedValue([
+        { userId: 'user1', type: 'Run' },
+        { userId: 'user2', type: 'Run' },
+      ]);
+    });
+
+    it('should create a match with a server-computed score when the like is reciprocated', async () => {
+      mockSwipeModel.upsert.mockResolvedValue(swipe('user1', 'user2', 'like'));
+      mockSwipeModel.hasLiked.mockResolvedValue(true);
+      mockMatchModel.create.mockResolvedValue(mockMatch);
+
+      const result = await MatchingService.recordSwipe('user1', 'user2', 'like');
+
+      expect(result.isMatch).toBe(true);
+      expect(result.match).toEqual(mockMatch);
+      expect(mockMatchModel.create).toHaveBeenCalledWith({
+        user1Id: 'user1',
+        user2Id: 'user2',
+        compatibilityScore: 100,
+        mode: 'dating',
+        compatibilityFactors: {
+          activityOverlap: 100,
+          performanceSimilarity: 100,
+          locationProximity: 100,
+          ageCompatibility: 100,
+          scheduleOverlap: 0,
+          trainingAreaOverlap: 0,
+        },
+      });
+    });
+
+    it('should treat a super-like as a like', async () => {
+      mockSwipeModel.upsert.mockResolvedValue(swipe('user1', 'user2', 'super_like'));
+      mockSwipeModel.hasLiked.mockResolvedValue(true);
+      mockMatchModel.create.mockResolvedValue(mockMatch);
+
+      const result = await MatchingService.recordSwipe('user1', 'user2', 'super_like');
+
+      expect(result.isMatch).toBe(true);
+    });
+
+    it('should record a pass without checking for reciprocity', async () => {
+      const passSwipe = swipe('user1', 'user2', 'pass');
+      mockSwipeModel.upsert.mockResolvedValue(passSwipe);
+
+      const result = await MatchingService.recordSwipe('user1', 'user2', 'pass');
+
+      expect(result).toEqual({ swipe: passSwipe, isMatch: false, match: null });
+      expect(mockSwipeModel.hasLiked).not.toHaveBeenCalled();
+      expect(mockMatchModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should not create a duplicate match', async () => {
+      mockSwipeModel.upsert.mockResolvedValue(swipe('user1', 'user2', 'like'));
+      mockSwipeModel.hasLiked.mockResolvedValue(true);
+      mockMatchModel.findAllByUserIds.mockResolvedValue([mockMatch]);
+
+      const result = await MatchingService.recordSwipe('user1', 'user2', 'like');
+
+      expect(result.isMatch).toBe(false);
+      expect(result.match).toEqual(mockMatch);
+      expect(mockMatchModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to swipe on a user unmatched within the rematch cooldown in any mode', async () => {
+      mockMatchModel.findAllByUserIds.mockResolvedValue([
+        {
+          ...mockMatch,
+          status: 'unmatched',
+          unmatchedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
+        },
+      ]);
+
+      await expect(MatchingService.recordSwipe('user1', 'user2', 'like')).rejects.toThrow(
+        'Cannot swipe on this user until the rematch cooldown ends'
+      );
+      expect(mockSwipeModel.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should reopen an unmatched pair's match once the cooldown has passed", async () => {
+      const unmatched = {
+        ...mockMatch,
+        status: 'unmatched' as const,
+        unmatchedAt: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000),
+      };
+      mockSwipeModel.upsert.mockResolvedValue(swipe('user1', 'user2', 'like'));
+      mockSwipeModel.hasLiked.mockResolvedValue(true);
+      mockMatchModel.findAllByUserIds.mockResolvedValue([unmatched]);
+      mockMatchModel.findByUserIds.mockResolvedValue(unmatched);
+      mockMatchModel.reactivate.mockResolvedValue(mockMatch);
+
+      const result = await MatchingService.recordSwipe('user1', 'user2', 'like');
+
+      expect(result.isMatch).toBe(true);
+      expect(mockMatchModel.reactivate).toHaveBeenCalledWith(
+        'match1',
+        expect.objectContaining({ user1Id: 'user1', user2Id: 'user2', compatibilityScore: 100 })
+      );
+      expect(mockMatchModel.create).not.toHaveBeenCalled();
+    });
+
+    describe('after a block is lifted', () => {
+      let stored: Match;
+      // Swipes by swiper and target, so the pair's earlier likes can be checked
+      let likes: Set<string>;
+
+      beforeEach(() => {
+        stored = mockMatch;
+        likes = new Set(['user1>user2', 'user2>user1']);
+        mockMatchModel.findAllByUserIds.mockImplementation(async () => [stored]);
+        mockMatchModel.findByUserIds.mockImplementation(async () => stored);
+        mockMatchModel.update.mockImplementation(
+          async (_id, data) => (stored = { ...stored, ...data })
+        );
+        mockMatchModel.reactivate.mockImplementation(
+          async () => (stored = { ...stored, status: 'active' })
+        );
+        mockSwipeModel.upsert.mockImplementation(async data => {
+          likes.add(`${data.swiperId}>${data.targetId}`);
+          return swipe(data.swiperId, data.targetId, data.decision);
+        });
+        mockSwipeModel.hasLiked.mockImplementation(async (swiperId, targetId) =>
+          likes.has(`${swiperId}>${targetId}`)
+        );
+        mockSwipeModel.deleteAllBetween.mockImplementation(async () => {
+          const count = likes.size;
+          likes.clear();
+          return count;
+        });
+        mockBlockModel.delete.mockResolvedValue(true);
+      });
+
+      const blockAndUnblock = async (): Promise<void> => {
+        await SafetyService.blockUser('user1', 'user2');
+        expect(stored.status).toBe('blocked');
+        await SafetyService.unblockUser('user1', 'user2');
+      };
+
+      it('should not reopen the match on a single like', async () => {
+        await blockAndUnblock();
+
+        const result = await MatchingService.recordSwipe('user2', 'user1', 'like');
+
+        expect(result.isMatch).toBe(false);
+        expect(stored.status).toBe('blocked');
+        expect(mockMatchModel.reactivate).not.toHaveBeenCalled();
+      });
+
+      it('should reopen the match once both users like each other again', async () => {
+        await blockAndUnblock();
+
+        const firstLike = await MatchingService.recordSwipe('user2', 'user1', 'like');
+        const secondLike = await MatchingService.recordSwipe('user1', 'user2', 'like');
+
+        expect(firstLike.isMatch).toBe(false);
+        expect(secondLike.isMatch).toBe(true);
+        expect(stored.status).toBe('active');
+        expect(mockMatchModel.create).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('training-partner mode', () => {
+      const withModes = (modes: Record<string, string>) =>
+        mockUserModel.findById.mockImplementation(async id => ({
+          ...mockUser(id),
+          discoveryMode: modes[id],
+        }));
+
+      it('should keep partner swipes and matches separate from dating ones', async () => {
+        withModes({ user1: 'both', user2: 'partner' });
+        mockSwipeModel.upsert.mockResolvedValue(swipe('user1', 'user2', 'like'));
+        mockSwipeModel.hasLiked.mockResolvedValue(true);
+        // A dating match between the pair does not stop a partner match
+        mockMatchModel.findAllByUserIds.mockResolvedValue([mockMatch]);
+        mockMatchModel.create.mockResolvedValue({ ...mockMatch, mode: 'partner' });
+
+        const result = await MatchingService.recordSwipe('user1', 'user2', 'like', 'partner');
+
+        expect(result.isMatch).toBe(true);
+        expect(mockSwipeModel.upsert).toHaveBeenCalledWith({
+          swiperId: 'user1',
+          targetId: 'user2',
+          decision: 'like',
+          mode: 'partner',
+        });
+        expect(mockSwipeModel.hasLiked).toHaveBeenCalledWith('user2', 'user1', 'partner');
+        expect(mockMatchModel.findByUserIds).toHaveBeenCalledWith('user1', 'user2', 'partner');
+        expect(mockMatchModel.create).toHaveBeenCalledWith(
+          expect.objectContaining({ mode: 'partner' })
+        );
+      });
+
+      it("should swipe in the swiper's own mode by default", async () => {
+        withModes({ user1: 'partner', user2: 'both' });
+        mockSwipeModel.upsert.mockResolvedValue(swipe('user1', 'user2', 'pass'));
+
+        await MatchingService.recordSwipe('user1', 'user2', 'pass');
+
+        expect(mockSwipeModel.upsert).toHaveBeenCalledWith(
+          expect.objectContaining({ mode: 'partner' })
+        );
+      });
+
+      it('should refuse a mode the swiper has not turned on', async () => {
+        withModes({ user1: 'dating', user2: 'both' });
+
+        await expect(
+          MatchingService.recordSwipe('user1', 'user2', 'like', 'partner')
+        ).rejects.toThrow('Mode is not enabled for this user');
+        expect(mockSwipeModel.upsert).not.toHaveBeenCalled();
+      });
+
+      it('should refuse to swipe on a user who is not looking in the mode', async () => {
+        withModes({ user1: 'both', user2: 'dating' });
+
+        await expect(
+          MatchingService.recordSwipe('user1', 'user2', 'like', 'partner')
+        ).rejects.toThrow('Cannot swipe on a user who is not looking in this mode');
+        expect(mockSwipeModel.upsert).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('unmatch', () => {
+    const activeMatch = {
+      id: 'match1',
+      user1Id: 'user1',
+      user2Id: 'user2',
+      compatibilityScore: 85,
+      matchedAt: new Date(),
+      status: 'active' as const,
+      mode: 'dating' as const,
+    };
+    const mockMessageService = MessageService as jest.Mocked<typeof MessageService>;
+
+    afterEach(() => {
+      delete process.env.REMATCH_COOLDOWN_DAYS;
+    });
+
+    it('should close the match, clear the swipes and notify the other user', async () => {
+      const unmatchedAt = new Date();
+      mockMatchModel.findById.mockResolvedValue(activeMatch);
+      mockMatchModel.unmatch.mockResolvedValue({
+        ...activeMatch,
+        status: 'unmatched',
+        unmatchedAt,
+        unmatchedBy: 'user2',
+        unmatchReason: 'no_chemistry',
+      });
+
+      const result = await MatchingService.unmatch('match1', 'user2', 'no_chemistry');
+
+      expect(mockMatchModel.unmatch).toHaveBeenCalledWith('match1', 'user2', 'no_chemistry');
+      expect(mockSwipeModel.deleteBetween).toHaveBeenCalledWith('user2', 'user1', 'dating');
+      expect(mockMessageService.notifyUser).toHaveBeenCalledWith('user1', 'match-removed', {
+        matchId: 'match1',
+      });
+      expect(result.rematchAvailableAt.getTime() - unmatchedAt.getTime()).toBeCloseTo(
+        30 * 24 * 60 * 60 * 1000,
+        -3
+      );
+    });
+
+    it('should use the configured rematch cooldown', async () => {
+      process.env.REMATCH_COOLDOWN_DAYS = '7';
+      const unmatchedAt = new Date();
+      mockMatchModel.findById.mockResolvedValue(activeMatch);
+      mockMatchModel.unmatch.mockResolvedValue({ ...activeMatch, status: 'unmatched', unmatchedAt });
+
+      const result = await MatchingService.unmatch('match1', 'user1');
+
+      expect(result.rematchAvailableAt.getTime() - unmatchedAt.getTime()).toBeCloseTo(
+        7 * 24 * 60 * 60 * 1000,
+        -3
+      );
+    });
+
+    it('should not let someone outside the match unmatch it', async () => {
+      mockMatchModel.findById.mockResolvedValue(activeMatch);
+
+      await expect(MatchingService.unmatch('match1', 'user3')).rejects.toThrow(
+        'Not authorized to unmatch'
+      );
+      expect(mockMatchModel.unmatch).not.toHaveBeenCalled();
+      expect(mockMessageService.notifyUser).not.toHaveBeenCalled();
+    });
+
+    it('should not unmatch a match that is already closed', async () => {
+      mockMatchModel.findById.mockResolvedValue({ ...activeMatch, status: 'blocked' });
+
+      await expect(MatchingService.unmatch('match1', 'user1')).rejects.toThrow(
+        'Match is no longer active'
+      );
+      expect(mockMatchModel.unmatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('backfillCompatibilityScores', () => {
+    beforeEach(() => {
+      mockUserModel.findById.mockImplementation(async id => ({
+        id,
+        email: `${id}@test.com`,
+        stravaId: 1,
+        firstName: 'Test',
+        lastName: 'User',
+        age: 30,
+        city: 'New York',
+        state: 'NY',
+        latitude: 40.7128,
+        longitude: -74.006,
+        photos: [],
+        createdAt: new Date(),
+        lastActive: new Date(),
+      }));
+      mockFitnessStatsModel.findByUserId.mockResolvedValue(null);
+      mockPrisma.stravaActivity.findMany.mockResolvedValue([]);
+    });
+
+    it('should recompute and store scores for matches missing a breakdown', async () => {
+      mockPrisma.match.findMany
+        .mockResolvedValueOnce([
+          { id: 'match1', user1Id: 'user1', user2Id: 'user2' },
+          { id: 'match2', user1Id: 'user1', user2Id: 'user3' },
+        ])
+        .mockResolvedValueOnce([]);
+
+      const result = await MatchingService.backfillCompatibilityScores({ batchSize: 2 });
+
+      expect(result).toEqual({ processed: 2, updated: 2, failed: 0 });
+      expect(mockMatchModel.update).toHaveBeenCalledWith('match1', {
+        compatibilityScore: 60,
+        compatibilityFactors: {
+          activityOverlap: 0,
+          performanceSimilarity: 100,
+          locationProximity: 100,
+          ageCompatibility: 100,
+          scheduleOverlap: 0,
+          trainingAreaOverlap: 0,
+        },
+      });
+      expect(mockPrisma.match.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ id: { gt: 'match2' } }),
+        })
+      );
+    });
+
+    it('should count failures and continue', async () => {
+      mockPrisma.match.findMany
+        .mockResolvedValueOnce([
+          { id: 'match1', user1Id: 'user1', user2Id: 'missing' },
+          { id: 'match2', user1Id: 'user1', user2Id: 'user2' },
+        ])
+        .mockResolvedValueOnce([]);
+      mockUserModel.findById.mockImplementation(async id =>
+        id === 'missing' ? null : ({ id, age: 30, latitude: 0, longitude: 0 } as any)
+      );
+
+      const result = await MatchingService.backfillCompatibilityScores();
+
+      expect(result).toEqual({ processed: 2, updated: 1, failed: 1 });
+    });
+
+    it('should run a started backfill in the background, one at a time', async () => {
+      let releaseBatch: (matches: unknown[]) => void = () => undefined;
+      mockPrisma.match.findMany
+        .mockReturnValueOnce(new Promise(resolve => (releaseBatch = resolve)))
+        .mockResolvedValueOnce([]);
+
+      const job = MatchingService.startCompatibilityBackfill('admin@test.com');
+
+      expect(job.status).toBe('running');
+      expect(() => MatchingService.startCompatibilityBackfill('admin@test.com')).toThrow(
+        'A compatibility backfill is already running'
+      );
+
+      releaseBatch([{ id: 'match1', user1Id: 'user1', user2Id: 'user2' }]);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(MatchingService.getCompatibilityBackfillJob()).toMatchObject({
+        status: 'completed',
+        startedBy: 'admin@test.com',
+        result: { processed: 1, updated: 1, failed: 0 },
+      });
+    });
+  });
+
+  describe('recalculateMatchScores', () => {
+    const activeMatch = (id: string, user2Id: string, compatibilityScore: number) => ({
+      id,
+      user1Id: 'user1',
+      user2Id,
+      compatibilityScore,
+      matchedAt: new Date(),
+      status: 'active' as const,
+      mode: 'dating' as const,
+    });
+
+    beforeEach(() => {
+      mockUserModel.findById.mockImplementation(async id =>
+        id === 'missing' ? null : ({ id, age: 30, latitude: 0, longitude: 0 } as any)
+      );
+      mockFitnessStatsModel.findByUserId.mockResolvedValue(null);
+      mockPrisma.stravaActivity.findMany.mockResolvedValue([]);
+    });
+
+    it('should store and record only the scores that moved', async () => {
+      mockMatchModel.findByUserId.mockResolvedValue([
+        activeMatch('match1', 'user2', 60),
+        activeMatch('match2', 'user3', 80),
+        activeMatch('match3', 'missing', 70),
+      ]);
+
+      const result = await MatchingService.recalculateMatchScores('user1');
+
+      expect(result).toEqual({ updated: 1, unchanged: 1, failed: 1 });
+      expect(mockMatchModel.update).toHaveBeenCalledTimes(1);
+      expect(mockMatchModel.update).toHaveBeenCalledWith('match2', {
+        compatibilityScore: 60,
+        compatibilityFactors: expect.objectContaining({ locationProximity: 100 }),
+      });
+      expect(mockMatchScoreHistoryModel.create).toHaveBeenCalledTimes(1);
+      expect(mockMatchScoreHistoryModel.create).toHaveBeenCalledWith(
+        'match2',
+        60,
+        expect.objectContaining({ locationProximity: 100 })
+      );
+    });
+
+    it('should not load the scoring profile for a user without matches', async () => {
+      mockMatchModel.findByUserId.mockResolvedValue([]);
+
+      const result = await MatchingService.recalculateMatchScores('user1');
+
+      expect(result).toEqual({ updated: 0, unchanged: 0, failed: 0 });
+      expect(mockScoringProfileModel.getCurrent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getMatchScoreTrend', () => {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS);
+    const entry = (compatibilityScore: number, days: number) => ({
+      id: `entry-${days}`,
+      matchId: 'match1',
+      compatibilityScore,
+      compatibilityFactors: null,
+      recordedAt: daysAgo(days),
+    });
+    const matchedAt = (days: number, compatibilityScore: number) => {
+      mockMatchModel.findById.mockResolvedValue({
+        id: 'match1',
+        user1Id: 'user1',
+        user2Id: 'user2',
+        compatibilityScore,
+        matchedAt: daysAgo(days),
+        status: 'active',
+        mode: 'dating',
+      });
+    };
+
+    it('should compare against the last score from before the month', async () => {
+      matchedAt(40, 75);
+      mockMatchScoreHistoryModel.findByMatchId.mockResolvedValue([
+        entry(75, 2),
+        entry(70, 20),
+        entry(62, 35),
+        entry(60, 40),
+      ]);
+
+      const trend = await MatchingService.getMatchScoreTrend('match1', 'user2');
+
+      expect(trend.recentChange).toBe(13);
+      expect(trend.history).toHaveLength(4);
+      const [, since] = mockMatchScoreHistoryModel.findByMatchId.mock.calls[0];
+      expect(since.getTime()).toBeCloseTo(daysAgo(40).getTime(), -3);
+    });
+
+    it('should compare against the score at matching for newer matches', async () => {
+      matchedAt(5, 70);
+      mockMatchScoreHistoryModel.findByMatchId.mockResolvedValue([entry(70, 1), entry(65, 5)]);
+
+      const trend = await MatchingService.getMatchScoreTrend('match1', 'user1');
+
+      expect(trend.recentChange).toBe(5);
+    });
+
+    it('should report no change without history', async () => {
+      matchedAt(5, 70);
+      mockMatchScoreHistoryModel.findByMatchId.mockResolvedValue([]);
+
+      const trend = await MatchingService.getMatchScoreTrend('match1', 'user1');
+
+      expect(trend).toEqual({ matchId: 'match1', currentScore: 70, recentChange: null, history: [] });
+    });
+
+    it("should not show another pair's match", async () => {
+      matchedAt(5, 70);
+
+      await expect(MatchingService.getMatchScoreTrend('match1', 'user3')).rejects.toThrow(
+        'Not authorized to view this match'
+      );
+      expect(mockMatchScoreHistoryModel.findByMatchId).not.toHaveBeenCalled();
+    });
   });
 
   describe('updateMatchingPreferences', () => {
@@ -269,7 +1738,17 @@ describe('MatchingService', () => {
         maxAge: 35,
         maxDistance: 100,
         preferredActivities: ['Run', 'Bike', 'Swim'],
+        dealbreakerActivities: ['Run'],
         minCompatibilityScore: 60,
+        interestedIn: ['female', 'non-binary'] as Gender[],
+        partnerAnyGender: false,
+        partnerAnyAge: true,
+        minWeeklyDistance: 30000,
+        maxWeeklyDistance: 80000,
+        minWeeklyActivities: null,
+        maxWeeklyActivities: null,
+        minPace: 270,
+        maxPace: 330,
       };
 
       const updatedPreferences = {
@@ -290,6 +1769,7 @@ describe('MatchingService', () => {
         userId,
         ...preferences,
       });
+      expect(mockRecommendationQueueModel.invalidate).toHaveBeenCalledWith(userId);
     });
   });
 
@@ -303,7 +1783,12 @@ describe('MatchingService', () => {
         maxAge: 35,
         maxDistance: 100,
         preferredActivities: ['Run'],
+        dealbreakerActivities: [],
         minCompatibilityScore: 60,
+        interestedIn: [] as Gender[],
+        partnerAnyGender: true,
+        partnerAnyAge: false,
+        ...noFitnessRanges,
       };
 
       mockMatchingPreferencesModel.findByUserId.mockResolvedValue(preferences);
@@ -321,6 +1806,7 @@ describe('MatchingService', () => {
         maxAge: 65,
         maxDistance: 50,
         preferredActivities: [],
+        dealbreakerActivities: [],
         minCompatibilityScore: 0,
       };
 
@@ -0,0 +1,140 @@
+import { MessageService } from '../../services/messageService';
+import { prisma } from '../../config/database';
+import { Server as SocketServer } from 'socket.io';
+
+jest.mock('../../models/Block');
+jest.mock('../../config/database', () => ({
+  prisma: {
+    match: {
+      findFirst: jest.fn(),
+    },
+    message: {
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as unknown as {
+  match: { findFirst: jest.Mock };
+  message: { findFirst: jest.Mock; update: jest.Mock };
+};
+
+type Handler = (data: unknown) => unknown;
+
+interface Connection {
+  socket: { join: jest.Mock };
+  handlers: Record<string, Handler>;
+  emit: jest.Mock;
+}
+
+// A connected socket authenticated as a user, with the handlers the service
+// registers on it
+const connect = (userId: string): Connection => {
+  let onConnection: (socket: unknown) => void = () => undefined;
+  const io = {
+    on: jest.fn((_event: string, handler: (socket: unknown) => void) => {
+      onConnection = handler;
+    }),
+    to: jest.fn(() => ({ emit: jest.fn() })),
+  };
+  MessageService.initializeSocket(io as unknown as SocketServer);
+
+  const handlers: Record<string, Handler> = {};
+  const emit = jest.fn();
+  const rooms = new Set<string>();
+  const socket = {
+    id: 'socket1',
+    data: { userId },
+    rooms,
+    on: (event: string, handler: Handler): void => {
+      handlers[event] = handler;
+    },
+    join: jest.fn((room: string) => rooms.add(room)),
+    to: jest.fn(() => ({ emit })),
+  };
+  onConnection(socket);
+
+  return { socket, handlers, emit };
+};
+
+describe('MessageService socket handlers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('join-match-room', () => {
+    it('should let a user join the room of their active match', async () => {
+      mockPrisma.match.findFirst.mockResolvedValue({ id: 'match1' });
+      const { socket, handlers } = connect('user1');
+
+      await handlers['join-match-room']('match1');
+
+      expect(mockPrisma.match.findFirst).toHaveBeenCalledWith({
+        where: {
+          id: 'match1',
+          status: 'active',
+          OR: [{ user1Id: 'user1' }, { user2Id: 'user1' }],
+        },
+        select: { id: true },
+      });
+      expect(socket.join).toHaveBeenCalledWith('match-match1');
+    });
+
+    it('should not let a user join the room of a match they are not in', async () => {
+      mockPrisma.match.findFirst.mockResolvedValue(null);
+      const { socket, handlers } = connect('intruder');
+
+      await handlers['join-match-room']('match1');
+
+      expect(socket.join).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('typing indicators', () => {
+    it('should report typing as the authenticated user, not the one sent', async () => {
+      mockPrisma.match.findFirst.mockResolvedValue({ id: 'match1' });
+      const { handlers, emit } = connect('user1');
+      await handlers['join-match-room']('match1');
+
+      handlers['typing-start']({ matchId: 'match1', userId: 'user2' });
+
+      expect(emit).toHaveBeenCalledWith('user-typing', {
+        userId: 'user1',
+        isTyping: true,
+      });
+    });
+
+    it('should ignore typing in a room the socket has not joined', () => {
+      const { handlers, emit } = connect('intruder');
+
+      handlers['typing-start']({ matchId: 'match1' });
+
+      expect(emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mark-as-read', () => {
+    it('should mark messages read as the authenticated user, not the one sent', async () => {
+      mockPrisma.message.findFirst.mockResolvedValue(null);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const { handlers } = connect('user2');
+
+      await handlers['mark-as-read']({ messageId: 'msg1', userId: 'user1' });
+
+      expect(mockPrisma.message.findFirst).toHaveBeenCalledWith({
+        where: {
+          id: 'msg1',
+          senderId: { not: 'user2' },
+          match: { OR: [{ user1Id: 'user2' }, { user2Id: 'user2' }] },
+        },
+      });
+      expect(mockPrisma.message.update).not.toHaveBeenCalled();
+    });
+  });
+});
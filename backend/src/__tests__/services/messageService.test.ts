@@ -1,10 +1,12 @@
 import { MessageService } from '../../services/messageService';
 import { MessageModel } from '../../models/Message';
+import { BlockModel } from '../../models/Block';
 import { prisma } from '../../config/database';
 import { Server as SocketServer } from 'socket.io';
 
 // Mock dependencies
 jest.mock('../../models/Message');
+jest.mock('../../models/Block');
 jest.mock('../../config/database', () => ({
   prisma: {
     message: {
@@ -22,6 +24,7 @@ jest.mock('../../config/database', () => ({
 }));
 
 const mockMessageModel = MessageModel as jest.Mocked<typeof MessageModel>;
+const mockBlockModel = BlockModel as jest.Mocked<typeof BlockModel>;
 const mockPrisma = prisma as any;
 
 // Mock crypto for consistent tests
@@ -40,6 +43,7 @@ describe('MessageService', () => {
     jest.clearAllMocks();
     // Reset static properties
     (MessageService as any).io = null;
+    mockBlockModel.isBlockedEitherWay.mockResolvedValue(false);
   });
 
   describe('initializeSocket', () => {
@@ -105,6 +109,15 @@ describe('MessageService', () => {
       }));
     });
 
+    it('should reject messages between blocked users like a closed match', async () => {
+      mockBlockModel.isBlockedEitherWay.mockResolvedValue(true);
+
+      await expect(MessageService.sendMessage(mockMessageInput)).rejects.toThrow(
+        'Users are not matched or match is not active'
+      );
+      expect(mockMessageModel.create).not.toHaveBeenCalled();
+    });
+
     it('should throw error when match is not found', async () => {
       mockPrisma.match.findUnique.mockResolvedValue(null);
 
@@ -49,6 +49,10 @@ describe('AdminController', () => {
         weeklyActivities: 3,
         averagePace: 360,
         allowedActivityTypes: ['Run', 'Ride'],
+        rules: null,
+        sportFamily: null,
+        effectiveFrom: new Date(),
+        restoredFromId: null,
         updatedAt: new Date(),
         updatedBy: 'admin',
       };
@@ -70,6 +74,10 @@ describe('AdminController', () => {
         weeklyActivities: 3,
         averagePace: 360,
         allowedActivityTypes: ['Run', 'Ride', 'Swim', 'Hike', 'Walk'],
+        rules: null,
+        sportFamily: null,
+        effectiveFrom: new Date(),
+        restoredFromId: null,
         updatedAt: new Date(),
         updatedBy: 'system',
       };
@@ -107,6 +115,10 @@ describe('AdminController', () => {
         weeklyActivities: 4,
         averagePace: 300,
         allowedActivityTypes: ['Run'],
+        rules: null,
+        sportFamily: null,
+        effectiveFrom: new Date(),
+        restoredFromId: null,
         updatedAt: new Date(),
         updatedBy: 'admin@test.com',
       };
@@ -156,6 +168,56 @@ describe('AdminController', () => {
     });
   });
 
+  describe('rollbackThreshold', () => {
+    it('should republish a version at the requested time', async () => {
+      const effectiveFrom = '2030-01-01T00:00:00.000Z';
+      const restored: FitnessThreshold = {
+        id: 'threshold3',
+        weeklyDistance: 10000,
+        weeklyActivities: 3,
+        averagePace: null,
+        allowedActivityTypes: [],
+        rules: null,
+        sportFamily: null,
+        effectiveFrom: new Date(effectiveFrom),
+        restoredFromId: 'threshold1',
+        updatedAt: new Date(),
+        updatedBy: 'admin@test.com',
+      };
+      mockRequest.params = { thresholdId: 'threshold1' };
+      mockRequest.body = { effectiveFrom };
+      mockFitnessEvaluationService.rollbackThreshold.mockResolvedValue(restored);
+
+      await AdminController.rollbackThreshold(mockRequest as AdminRequest, mockResponse as Response);
+
+      expect(mockFitnessEvaluationService.rollbackThreshold).toHaveBeenCalledWith(
+        'threshold1',
+        'admin@test.com',
+        new Date(effectiveFrom)
+      );
+      expect(mockJson).toHaveBeenCalledWith({
+        success: true,
+        data: restored,
+        message: 'Fitness threshold version republished successfully',
+      });
+    });
+
+    it('should return 404 for an unknown version', async () => {
+      mockRequest.params = { thresholdId: 'missing' };
+      mockFitnessEvaluationService.rollbackThreshold.mockRejectedValue(
+        new Error('Threshold version not found')
+      );
+
+      await AdminController.rollbackThreshold(mockRequest as AdminRequest, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(404);
+      expect(mockJson).toHaveBeenCalledWith({
+        success: false,
+        error: 'Threshold version not found',
+      });
+    });
+  });
+
   describe('evaluateUserFitness', () => {
     it('should evaluate user fitness successfully', async () => {
       const mockEvaluation = {
@@ -165,13 +227,16 @@ describe('AdminController', () => {
           weeklyActivities: 4,
           averagePace: 350,
           activityTypes: ['Run'],
+          weeklyTotalsByType: {},
           totalDistance: 156000,
           longestActivity: 21000,
           consistencyScore: 85,
         },
         threshold: null,
+        sportFamily: 'run' as const,
         reasons: ['All requirements met'],
         score: 95,
+        ruleResults: null,
       };
 
       mockRequest.params = { userId: 'user123' };
@@ -206,15 +271,19 @@ describe('AdminController', () => {
           meets: true,
           metrics: {} as any,
           threshold: null,
+          sportFamily: null,
           reasons: [],
           score: 90,
+          ruleResults: null,
         }],
         ['user2', {
           meets: false,
           metrics: {} as any,
           threshold: null,
+          sportFamily: null,
           reasons: [],
           score: 60,
+          ruleResults: null,
         }],
       ]);
 
@@ -279,6 +348,10 @@ describe('AdminController', () => {
         weeklyActivities: 3,
         averagePace: 360,
         allowedActivityTypes: ['Run', 'Ride', 'Swim', 'Hike', 'Walk'],
+        rules: null,
+        sportFamily: null,
+        effectiveFrom: new Date(),
+        restoredFromId: null,
         updatedAt: new Date(),
         updatedBy: 'admin@test.com',
       };
@@ -300,6 +373,7 @@ describe('AdminController', () => {
         weeklyActivities: 3,
         averagePace: 360,
         allowedActivityTypes: ['Run', 'Ride', 'Swim', 'Hike', 'Walk'],
+        rules: null,
         updatedBy: 'admin@test.com',
       });
 
@@ -324,6 +398,10 @@ describe('AdminController', () => {
         weeklyActivities: 4,
         averagePace: null,
         allowedActivityTypes: [],
+        rules: null,
+        sportFamily: null,
+        effectiveFrom: new Date(),
+        restoredFromId: null,
         updatedAt: new Date(),
         updatedBy: 'validation',
       };
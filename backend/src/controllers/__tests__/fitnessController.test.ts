@@ -1,29 +1,20 @@
 import { Response } from 'express';
 import { FitnessController, AuthenticatedRequest } from '../fitnessController';
-import { FitnessEvaluationService } from '../../services/fitnessEvaluationService';
-import { it } from 'node:test';
-import { it } from 'node:test';
-import { it } from 'node:test';
-import { describe } from 'node:test';
-import { it } from 'node:test';
-import { it } from 'node:test';
-import { describe } from 'node:test';
-import { it } from 'node:test';
-import { it } from 'node:test';
-import { it } from 'node:test';
-import { describe } from 'node:test';
-import { it } from 'node:test';
-import { it } from 'node:test';
-import { it } from 'node:test';
-import { describe } from 'node:test';
-import { beforeEach } from 'node:test';
-import { describe } from 'node:test';
+import {
+  FitnessEvaluationService,
+  ThresholdEvaluationResult,
+} from '../../services/fitnessEvaluationService';
+import { UserModel } from '../../models/User';
+import { getThresholdRules } from '../../utils/eligibilityRules';
+import { User } from '../../types';
 
 // Mock the dependencies
 jest.mock('../../services/fitnessEvaluationService');
+jest.mock('../../models/User');
 jest.mock('../../utils/logger');
 
 const mockFitnessEvaluationService = FitnessEvaluationService as jest.Mocked<typeof FitnessEvaluationService>;
+const mockUserModel = UserModel as jest.Mocked<typeof UserModel>;
 
 describe('FitnessController', () => {
   let mockRequest: Partial<AuthenticatedRequest>;
@@ -65,13 +56,16 @@ describe('FitnessController', () => {
             weeklyActivities: 4,
             averagePace: 350,
             activityTypes: ['Run'],
+            weeklyTotalsByType: { Run: { weeklyDistance: 12000, weeklyActivities: 4 } },
             totalDistance: 156000,
             longestActivity: 21000,
             consistencyScore: 85,
           },
           threshold: null,
+          sportFamily: null,
           reasons: ['All requirements met'],
           score: 95,
+          ruleResults: null,
         },
         message: 'Congratulations! Your fitness level meets our community standards. Score: 95/100',
       };
@@ -127,6 +121,10 @@ describe('FitnessController', () => {
           weeklyActivities: 3,
           averagePace: 360,
           allowedActivityTypes: ['Run', 'Ride'],
+          rules: null,
+          sportFamily: null,
+          effectiveFrom: new Date(),
+          restoredFromId: null,
           updatedAt: new Date(),
           updatedBy: 'admin',
         },
@@ -148,6 +146,7 @@ describe('FitnessController', () => {
             weeklyActivities: 3,
             averagePace: 360,
             allowedActivityTypes: ['Run', 'Ride'],
+            rules: getThresholdRules(mockStatistics.currentThreshold),
           },
           description: {
             weeklyDistance: 'Minimum 10km per week',
@@ -187,6 +186,10 @@ describe('FitnessController', () => {
           weeklyActivities: 3,
           averagePace: null,
           allowedActivityTypes: [],
+          rules: null,
+          sportFamily: null,
+          effectiveFrom: new Date(),
+          restoredFromId: null,
           updatedAt: new Date(),
           updatedBy: 'admin',
         },
@@ -208,6 +211,7 @@ describe('FitnessController', () => {
             weeklyActivities: 3,
             averagePace: null,
             allowedActivityTypes: [],
+            rules: getThresholdRules(mockStatistics.currentThreshold),
           },
           description: {
             weeklyDistance: 'Minimum 10km per week',
@@ -229,13 +233,16 @@ describe('FitnessController', () => {
           weeklyActivities: 4,
           averagePace: 350,
           activityTypes: ['Run'],
+          weeklyTotalsByType: { Run: { weeklyDistance: 12000, weeklyActivities: 4 } },
           totalDistance: 156000,
           longestActivity: 21000,
           consistencyScore: 85,
         },
         threshold: null,
+        sportFamily: null,
         reasons: [],
         score: 95,
+        ruleResults: null,
       };
 
       mockFitnessEvaluationService.evaluateUserFitness.mockResolvedValue(mockEvaluation);
@@ -265,16 +272,46 @@ describe('FitnessController', () => {
   });
 
   describe('checkEligibility', () => {
-    it('should return eligibility for qualified user', async () => {
-      const mockEvaluation = {
-        meets: true,
-        metrics: {} as any,
-        threshold: null,
-        reasons: [],
-        score: 95,
-      };
+    const storedUser = (eligibilityStatus: string, graceEndsAt: Date | null = null): User => ({
+      id: 'user123',
+      email: 'user@test.com',
+      stravaId: 12345,
+      firstName: 'Test',
+      lastName: 'User',
+      age: 30,
+      city: 'Boulder',
+      state: 'CO',
+      latitude: 40,
+      longitude: -105,
+      photos: [],
+      createdAt: new Date(),
+      lastActive: new Date(),
+      eligibilityStatus,
+      graceEndsAt,
+    });
 
-      mockFitnessEvaluationService.evaluateUserFitness.mockResolvedValue(mockEvaluation);
+    const evaluation = (meets: boolean, score: number): ThresholdEvaluationResult => ({
+      meets,
+      metrics: {
+        weeklyDistance: 12000,
+        weeklyActivities: 4,
+        averagePace: 350,
+        activityTypes: ['Run'],
+        weeklyTotalsByType: { Run: { weeklyDistance: 12000, weeklyActivities: 4 } },
+        totalDistance: 156000,
+        longestActivity: 21000,
+        consistencyScore: 85,
+      },
+      threshold: null,
+      sportFamily: null,
+      reasons: [],
+      score,
+      ruleResults: null,
+    });
+
+    it('should return eligibility for qualified user', async () => {
+      mockUserModel.findById.mockResolvedValue(storedUser('eligible'));
+      mockFitnessEvaluationService.evaluateUserFitness.mockResolvedValue(evaluation(true, 95));
 
       await FitnessController.checkEligibility(mockRequest as AuthenticatedRequest, mockResponse as Response);
 
@@ -283,21 +320,17 @@ describe('FitnessController', () => {
         data: {
           eligible: true,
           score: 95,
+          status: 'eligible',
+          graceEndsAt: null,
           summary: 'You meet the fitness requirements!',
         },
       });
     });
 
     it('should return eligibility for unqualified user', async () => {
-      const mockEvaluation = {
-        meets: false,
-        metrics: {} as any,
-        threshold: null,
-        reasons: [],
-        score: 45,
-      };
-
-      mockFitnessEvaluationService.evaluateUserFitness.mockResolvedValue(mockEvaluation);
+      const graceEndsAt = new Date('2025-09-20');
+      mockUserModel.findById.mockResolvedValue(storedUser('grace_period', graceEndsAt));
+      mockFitnessEvaluationService.evaluateUserFitness.mockResolvedValue(evaluation(false, 45));
 
       await FitnessController.checkEligibility(mockRequest as AuthenticatedRequest, mockResponse as Response);
 
@@ -306,11 +339,27 @@ describe('FitnessController', () => {
         data: {
           eligible: false,
           score: 45,
+          status: 'grace_period',
+          graceEndsAt,
           summary: 'You do not currently meet the fitness requirements.',
         },
       });
     });
 
+    it('should report the stored status without updating it', async () => {
+      mockUserModel.findById.mockResolvedValue(storedUser('ineligible'));
+      mockFitnessEvaluationService.evaluateUserFitness.mockResolvedValue(evaluation(true, 95));
+
+      await FitnessController.checkEligibility(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(mockJson).toHaveBeenCalledWith({
+        success: true,
+        data: expect.objectContaining({ eligible: true, status: 'ineligible' }),
+      });
+      expect(mockUserModel.updateEligibility).not.toHaveBeenCalled();
+      expect(mockUserModel.setEligibilityNotice).not.toHaveBeenCalled();
+    });
+
     it('should handle unauthenticated user', async () => {
       delete mockRequest.user;
 
@@ -1,15 +1,18 @@
 import { Request, Response } from 'express';
 import { MatchingController } from '../matchingController';
 import { MatchingService } from '../../services/matchingService';
+import { DiscoveryService } from '../../services/discoveryService';
 import { MatchModel } from '../../models/Match';
 import { logger } from '../../utils/logger';
 
 // Mock dependencies
 jest.mock('../../services/matchingService');
+jest.mock('../../services/discoveryService');
 jest.mock('../../models/Match');
 jest.mock('../../utils/logger');
 
 const mockMatchingService = MatchingService as jest.Mocked<typeof MatchingService>;
+const mockDiscoveryService = DiscoveryService as jest.Mocked<typeof DiscoveryService>;
 const mockMatchModel = MatchModel as jest.Mocked<typeof MatchModel>;
 const mockLogger = logger as jest.Mocked<typeof logger>;
 
@@ -24,7 +27,7 @@ describe('MatchingController', () => {
     mockStatus = jest.fn().mockReturnValue({ json: mockJson });
     
     mockRequest = {
-      user: { id: 'user1' },
+      user: { userId: 'user1', stravaId: 1, email: 'user1@test.com' },
       query: {},
       body: {},
       params: {},
@@ -59,6 +62,8 @@ describe('MatchingController', () => {
             performanceSimilarity: 90,
             locationProximity: 85,
             ageCompatibility: 85,
+            scheduleOverlap: 0,
+            trainingAreaOverlap: 0,
           },
           fitnessStats: {
             weeklyDistance: 50000,
@@ -67,36 +72,95 @@ describe('MatchingController', () => {
             favoriteActivities: ['Run'],
             totalDistance: 1000000,
           },
+          compatibilityReasons: [],
         },
       ];
 
-      mockMatchingService.findPotentialMatches.mockResolvedValue(mockMatches);
+      mockDiscoveryService.getPage.mockResolvedValue({
+        data: mockMatches,
+        nextCursor: 'cursor2',
+        mode: 'dating',
+        modes: ['dating'],
+      });
 
       await MatchingController.getPotentialMatches(mockRequest as Request, mockResponse as Response);
 
-      expect(mockMatchingService.findPotentialMatches).toHaveBeenCalledWith('user1', 20, 0);
+      expect(mockDiscoveryService.getPage).toHaveBeenCalledWith('user1', 20, undefined, undefined);
       expect(mockJson).toHaveBeenCalledWith({
         success: true,
         data: mockMatches,
-        pagination: {
-          limit: 20,
-          offset: 0,
-          count: 1,
-        },
+        nextCursor: 'cursor2',
+        mode: 'dating',
+        modes: ['dating'],
+      });
+    });
+
+    it('should read later pages by cursor', async () => {
+      mockRequest.query = { limit: '10', cursor: 'cursor2' };
+      mockDiscoveryService.getPage.mockResolvedValue({
+        data: [],
+        nextCursor: null,
+        mode: 'dating',
+        modes: ['dating'],
+      });
+
+      await MatchingController.getPotentialMatches(mockRequest as Request, mockResponse as Response);
+
+      expect(mockDiscoveryService.getPage).toHaveBeenCalledWith('user1', 10, 'cursor2', undefined);
+    });
+
+    it('should browse the training-partner deck when asked', async () => {
+      mockRequest.query = { mode: 'partner' };
+      mockDiscoveryService.getPage.mockResolvedValue({
+        data: [],
+        nextCursor: null,
+        mode: 'partner',
+        modes: ['dating', 'partner'],
+      });
+
+      await MatchingController.getPotentialMatches(mockRequest as Request, mockResponse as Response);
+
+      expect(mockDiscoveryService.getPage).toHaveBeenCalledWith('user1', 20, undefined, 'partner');
+    });
+
+    it('should leave a user looking in both modes on their default deck', async () => {
+      mockDiscoveryService.getPage.mockResolvedValue({
+        data: [],
+        nextCursor: null,
+        mode: 'dating',
+        modes: ['dating', 'partner'],
       });
+
+      await MatchingController.getPotentialMatches(mockRequest as Request, mockResponse as Response);
+
+      expect(mockDiscoveryService.getPage).toHaveBeenCalledWith('user1', 20, undefined, undefined);
+      expect(mockJson).toHaveBeenCalledWith(
+        expect.objectContaining({ mode: 'dating', modes: ['dating', 'partner'] })
+      );
+    });
+
+    it('should reject an unknown mode', async () => {
+      mockRequest.query = { mode: 'friends' };
+
+      await MatchingController.getPotentialMatches(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith({ error: 'Mode must be one of: dating, partner' });
+      expect(mockDiscoveryService.getPage).not.toHaveBeenCalled();
     });
 
-    it('should handle custom pagination parameters', async () => {
-      mockRequest.query = { limit: '10', offset: '5' };
-      mockMatchingService.findPotentialMatches.mockResolvedValue([]);
+    it('should reject a mode the user has not turned on', async () => {
+      mockRequest.query = { mode: 'partner' };
+      mockDiscoveryService.getPage.mockRejectedValue(new Error('Mode is not enabled for this user'));
 
       await MatchingController.getPotentialMatches(mockRequest as Request, mockResponse as Response);
 
-      expect(mockMatchingService.findPotentialMatches).toHaveBeenCalledWith('user1', 10, 5);
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith({ error: 'Mode is not enabled for this user' });
     });
 
     it('should return 401 if user not authenticated', async () => {
-      mockRequest.user = undefined;
+      delete mockRequest.user;
 
       await MatchingController.getPotentialMatches(mockRequest as Request, mockResponse as Response);
 
@@ -113,18 +177,19 @@ describe('MatchingController', () => {
       expect(mockJson).toHaveBeenCalledWith({ error: 'Limit must be between 1 and 100' });
     });
 
-    it('should validate offset parameter', async () => {
-      mockRequest.query = { offset: '-1' };
+    it('should ask the client to start over when its cursor has expired', async () => {
+      mockRequest.query = { cursor: 'cursor2' };
+      mockDiscoveryService.getPage.mockRejectedValue(new Error('Cursor has expired'));
 
       await MatchingController.getPotentialMatches(mockRequest as Request, mockResponse as Response);
 
-      expect(mockStatus).toHaveBeenCalledWith(400);
-      expect(mockJson).toHaveBeenCalledWith({ error: 'Offset must be non-negative' });
+      expect(mockStatus).toHaveBeenCalledWith(410);
+      expect(mockJson).toHaveBeenCalledWith({ error: 'Cursor has expired' });
     });
 
     it('should handle service errors', async () => {
       const error = new Error('Service error');
-      mockMatchingService.findPotentialMatches.mockRejectedValue(error);
+      mockDiscoveryService.getPage.mockRejectedValue(error);
 
       await MatchingController.getPotentialMatches(mockRequest as Request, mockResponse as Response);
 
@@ -138,14 +203,27 @@ describe('MatchingController', () => {
   });
 
   describe('createMatch', () => {
-    it('should create match successfully', async () => {
-      const mockMatch = {
-        id: 'match1',
-        user1Id: 'user1',
-        user2Id: 'user2',
-        compatibilityScore: 85,
-        matchedAt: new Date(),
-        status: 'active',
+    it('should create match when the like is mutual', async () => {
+      const mockResult = {
+        swipe: {
+          id: 'swipe1',
+          swiperId: 'user1',
+          targetId: 'user2',
+          decision: 'like' as const,
+          mode: 'dating' as const,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+        isMatch: true,
+        match: {
+          id: 'match1',
+          user1Id: 'user1',
+          user2Id: 'user2',
+          compatibilityScore: 85,
+          matchedAt: new Date(),
+          status: 'active' as const,
+          mode: 'dating' as const,
+        },
       };
 
       mockRequest.body = {
@@ -153,21 +231,53 @@ describe('MatchingController', () => {
         compatibilityScore: 85,
       };
 
-      mockMatchingService.createMatch.mockResolvedValue(mockMatch);
+      mockMatchingService.recordSwipe.mockResolvedValue(mockResult);
 
       await MatchingController.createMatch(mockRequest as Request, mockResponse as Response);
 
-      expect(mockMatchingService.createMatch).toHaveBeenCalledWith('user1', 'user2', 85);
+      expect(mockMatchingService.recordSwipe).toHaveBeenCalledWith('user1', 'user2', 'like', undefined);
       expect(mockStatus).toHaveBeenCalledWith(201);
       expect(mockJson).toHaveBeenCalledWith({
         success: true,
-        data: mockMatch,
-        message: 'Match created successfully',
+        data: mockResult,
+        message: "It's a match!",
       });
     });
 
+    it('should like in the mode asked for', async () => {
+      mockRequest.body = { targetUserId: 'user2', mode: 'partner' };
+      mockMatchingService.recordSwipe.mockResolvedValue({
+        swipe: {
+          id: 'swipe1',
+          swiperId: 'user1',
+          targetId: 'user2',
+          decision: 'like',
+          mode: 'partner',
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+        isMatch: false,
+        match: null,
+      });
+
+      await MatchingController.createMatch(mockRequest as Request, mockResponse as Response);
+
+      expect(mockMatchingService.recordSwipe).toHaveBeenCalledWith('user1', 'user2', 'like', 'partner');
+      expect(mockStatus).toHaveBeenCalledWith(200);
+    });
+
+    it('should reject an unknown mode', async () => {
+      mockRequest.body = { targetUserId: 'user2', mode: 'both' };
+
+      await MatchingController.createMatch(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith({ error: 'Mode must be one of: dating, partner' });
+      expect(mockMatchingService.recordSwipe).not.toHaveBeenCalled();
+    });
+
     it('should return 401 if user not authenticated', async () => {
-      mockRequest.user = undefined;
+      delete mockRequest.user;
 
       await MatchingController.createMatch(mockRequest as Request, mockResponse as Response);
 
@@ -196,20 +306,6 @@ describe('MatchingController', () => {
       expect(mockJson).toHaveBeenCalledWith({ error: 'Cannot match with yourself' });
     });
 
-    it('should validate compatibility score', async () => {
-      mockRequest.body = {
-        targetUserId: 'user2',
-        compatibilityScore: 150,
-      };
-
-      await MatchingController.createMatch(mockRequest as Request, mockResponse as Response);
-
-      expect(mockStatus).toHaveBeenCalledWith(400);
-      expect(mockJson).toHaveBeenCalledWith({ 
-        error: 'Compatibility score must be a number between 0 and 100' 
-      });
-    });
-
     it('should handle duplicate match error', async () => {
       mockRequest.body = {
         targetUserId: 'user2',
@@ -217,7 +313,7 @@ describe('MatchingController', () => {
       };
 
       const error = new Error('Match already exists between these users');
-      mockMatchingService.createMatch.mockRejectedValue(error);
+      mockMatchingService.recordSwipe.mockRejectedValue(error);
 
       await MatchingController.createMatch(mockRequest as Request, mockResponse as Response);
 
@@ -229,6 +325,44 @@ describe('MatchingController', () => {
     });
   });
 
+  describe('swipe', () => {
+    it('should record a swipe in the mode asked for', async () => {
+      mockRequest.body = { targetUserId: 'user2', decision: 'pass', mode: 'partner' };
+      mockMatchingService.recordSwipe.mockResolvedValue({
+        swipe: {
+          id: 'swipe1',
+          swiperId: 'user1',
+          targetId: 'user2',
+          decision: 'pass',
+          mode: 'partner',
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+        isMatch: false,
+        match: null,
+      });
+
+      await MatchingController.swipe(mockRequest as Request, mockResponse as Response);
+
+      expect(mockMatchingService.recordSwipe).toHaveBeenCalledWith('user1', 'user2', 'pass', 'partner');
+      expect(mockStatus).toHaveBeenCalledWith(200);
+    });
+
+    it('should reject swiping on a user who is not looking in that mode', async () => {
+      mockRequest.body = { targetUserId: 'user2', decision: 'like', mode: 'partner' };
+      mockMatchingService.recordSwipe.mockRejectedValue(
+        new Error('Cannot swipe on a user who is not looking in this mode')
+      );
+
+      await MatchingController.swipe(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith({
+        error: 'Cannot swipe on a user who is not looking in this mode',
+      });
+    });
+  });
+
   describe('getUserMatches', () => {
     it('should return user matches successfully', async () => {
       const mockMatches = {
@@ -239,7 +373,8 @@ describe('MatchingController', () => {
             user2Id: 'user2',
             compatibilityScore: 85,
             matchedAt: new Date(),
-            status: 'active',
+            status: 'active' as const,
+            mode: 'dating' as const,
           },
         ],
         pagination: {
@@ -263,7 +398,10 @@ describe('MatchingController', () => {
 
     it('should handle custom pagination', async () => {
       mockRequest.query = { page: '2', limit: '10' };
-      mockMatchModel.findByUserId.mockResolvedValue({ data: [], pagination: {} });
+      mockMatchModel.findByUserId.mockResolvedValue({
+        data: [],
+        pagination: { page: 2, limit: 10, total: 0, totalPages: 0 },
+      });
 
       await MatchingController.getUserMatches(mockRequest as Request, mockResponse as Response);
 
@@ -271,7 +409,8 @@ describe('MatchingController', () => {
     });
 
     it('should validate page parameter', async () => {
-      mockRequest.query = { page: '0' };
+      // A page of 0 falls back to the first page
+      mockRequest.query = { page: '-1' };
 
       await MatchingController.getUserMatches(mockRequest as Request, mockResponse as Response);
 
@@ -309,10 +448,11 @@ describe('MatchingController', () => {
         user2Id: 'user2',
         compatibilityScore: 85,
         matchedAt: new Date(),
-        status: 'active',
+        status: 'active' as const,
+        mode: 'dating' as const,
       };
 
-      const archivedMatch = { ...mockMatch, status: 'archived' };
+      const archivedMatch = { ...mockMatch, status: 'archived' as const };
 
       mockRequest.params = { matchId: 'match1' };
       mockMatchModel.findById.mockResolvedValue(mockMatch);
@@ -346,7 +486,8 @@ describe('MatchingController', () => {
         user2Id: 'user4',
         compatibilityScore: 85,
         matchedAt: new Date(),
-        status: 'active',
+        status: 'active' as const,
+        mode: 'dating' as const,
       };
 
       mockRequest.params = { matchId: 'match1' };
@@ -357,6 +498,51 @@ describe('MatchingController', () => {
       expect(mockStatus).toHaveBeenCalledWith(403);
       expect(mockJson).toHaveBeenCalledWith({ error: 'Not authorized to archive this match' });
     });
+
+    it('should return 409 if the match is no longer active', async () => {
+      const mockMatch = {
+        id: 'match1',
+        user1Id: 'user1',
+        user2Id: 'user2',
+        compatibilityScore: 85,
+        matchedAt: new Date(),
+        status: 'unmatched' as const,
+        mode: 'dating' as const,
+      };
+
+      mockRequest.params = { matchId: 'match1' };
+      mockMatchModel.findById.mockResolvedValue(mockMatch);
+
+      await MatchingController.archiveMatch(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(409);
+      expect(mockMatchModel.archive).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getMatchScoreHistory', () => {
+    it('should return the score trend for the match', async () => {
+      const trend = { matchId: 'match1', currentScore: 80, recentChange: 6, history: [] };
+      mockRequest.params = { matchId: 'match1' };
+      mockMatchingService.getMatchScoreTrend.mockResolvedValue(trend);
+
+      await MatchingController.getMatchScoreHistory(mockRequest as Request, mockResponse as Response);
+
+      expect(mockMatchingService.getMatchScoreTrend).toHaveBeenCalledWith('match1', 'user1');
+      expect(mockJson).toHaveBeenCalledWith({ success: true, data: trend });
+    });
+
+    it("should return 403 for another pair's match", async () => {
+      mockRequest.params = { matchId: 'match1' };
+      mockMatchingService.getMatchScoreTrend.mockRejectedValue(
+        new Error('Not authorized to view this match')
+      );
+
+      await MatchingController.getMatchScoreHistory(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(403);
+      expect(mockJson).toHaveBeenCalledWith({ error: 'Not authorized to view this match' });
+    });
   });
 
   describe('updateMatchingPreferences', () => {
@@ -369,6 +555,7 @@ describe('MatchingController', () => {
         maxDistance: 30,
         preferredActivities: ['Run', 'Bike'],
         minCompatibilityScore: 70,
+        interestedIn: ['female', 'non-binary'],
       };
 
       mockRequest.body = {
@@ -377,6 +564,7 @@ describe('MatchingController', () => {
         maxDistance: 30,
         preferredActivities: ['Run', 'Bike'],
         minCompatibilityScore: 70,
+        interestedIn: ['female', 'non-binary'],
       };
 
       mockMatchingService.updateMatchingPreferences.mockResolvedValue(updatedPreferences);
@@ -389,6 +577,7 @@ describe('MatchingController', () => {
         maxDistance: 30,
         preferredActivities: ['Run', 'Bike'],
         minCompatibilityScore: 70,
+        interestedIn: ['female', 'non-binary'],
       });
       expect(mockJson).toHaveBeenCalledWith({
         success: true,
@@ -406,6 +595,17 @@ describe('MatchingController', () => {
       expect(mockJson).toHaveBeenCalledWith({ error: 'Minimum age must be between 18 and 100' });
     });
 
+    it('should validate gender preferences', async () => {
+      mockRequest.body = { interestedIn: ['female', 'robot'] };
+
+      await MatchingController.updateMatchingPreferences(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith({
+        error: 'Interested in must be an array of: male, female, non-binary, other',
+      });
+    });
+
     it('should validate age range', async () => {
       mockRequest.body = { minAge: 35, maxAge: 25 };
 
@@ -432,6 +632,26 @@ describe('MatchingController', () => {
       expect(mockStatus).toHaveBeenCalledWith(400);
       expect(mockJson).toHaveBeenCalledWith({ error: 'Preferred activities must be an array' });
     });
+
+    it('should validate fitness range bounds', async () => {
+      mockRequest.body = { minWeeklyActivities: 2.5 };
+
+      await MatchingController.updateMatchingPreferences(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith({
+        error: 'Weekly activities must be a whole number between 0 and 50',
+      });
+    });
+
+    it('should validate fitness ranges', async () => {
+      mockRequest.body = { minPace: 330, maxPace: 270 };
+
+      await MatchingController.updateMatchingPreferences(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith({ error: 'Minimum pace cannot be greater than maximum pace' });
+    });
   });
 
   describe('getMatchingPreferences', () => {
@@ -1,8 +1,15 @@
 import { Request, Response } from 'express';
 import { FitnessEvaluationService, AdminThresholdUpdate } from '../services/fitnessEvaluationService';
 import { FitnessThresholdModel } from '../models/FitnessThreshold';
+import { MatchingService } from '../services/matchingService';
+import { ScoringProfileService } from '../services/scoringProfileService';
+import { SafetyService } from '../services/safetyService';
+import { ThresholdSimulationService } from '../services/thresholdSimulationService';
+import { REPORT_ACTIONS, ReportAction, ReportStatus } from '../types';
 import { logger } from '../utils/logger';
 
+const REPORT_STATUSES: ReportStatus[] = ['pending', 'dismissed', 'actioned'];
+
 export interface AdminRequest extends Request {
   user?: {
     userId: string;
@@ -48,7 +55,15 @@ export class AdminController {
    */
   static async updateThreshold(req: AdminRequest, res: Response): Promise<void> {
     try {
-      const { weeklyDistance, weeklyActivities, averagePace, allowedActivityTypes } = req.body;
+      const {
+        weeklyDistance,
+        weeklyActivities,
+        averagePace,
+        allowedActivityTypes,
+        rules,
+        sportFamily,
+        effectiveFrom,
+      } = req.body;
       const updatedBy = req.user?.email || 'unknown';
 
       const update: AdminThresholdUpdate = {
@@ -59,13 +74,19 @@ export class AdminController {
       if (weeklyActivities !== undefined) update.weeklyActivities = weeklyActivities;
       if (averagePace !== undefined) update.averagePace = averagePace;
       if (allowedActivityTypes !== undefined) update.allowedActivityTypes = allowedActivityTypes;
+      if (rules !== undefined) update.rules = rules;
+      if (sportFamily !== undefined) update.sportFamily = sportFamily;
+      if (effectiveFrom !== undefined) update.effectiveFrom = new Date(effectiveFrom);
 
       const updatedThreshold = await FitnessEvaluationService.updateThreshold(update);
 
       res.json({
         success: true,
         data: updatedThreshold,
-        message: 'Fitness threshold updated successfully',
+        message:
+          updatedThreshold.effectiveFrom.getTime() > Date.now()
+            ? 'Fitness threshold scheduled successfully'
+            : 'Fitness threshold updated successfully',
       });
     } catch (error) {
       logger.error('Failed to update threshold:', error);
@@ -105,6 +126,75 @@ export class AdminController {
     }
   }
 
+  /**
+   * Republish an earlier threshold version, immediately or at a given time
+   */
+  static async rollbackThreshold(req: AdminRequest, res: Response): Promise<void> {
+    try {
+      const { thresholdId } = req.params;
+      const { effectiveFrom } = req.body ?? {};
+
+      if (!thresholdId) {
+        res.status(400).json({
+          success: false,
+          error: 'Threshold ID is required',
+        });
+        return;
+      }
+
+      const restored = await FitnessEvaluationService.rollbackThreshold(
+        thresholdId,
+        req.user?.email || 'unknown',
+        effectiveFrom !== undefined ? new Date(effectiveFrom) : undefined
+      );
+
+      res.json({
+        success: true,
+        data: restored,
+        message: 'Fitness threshold version republished successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to roll back threshold:', error);
+
+      if (error instanceof Error && error.message === 'Threshold version not found') {
+        res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      } else if (error instanceof Error) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to roll back fitness threshold',
+        });
+      }
+    }
+  }
+
+  /**
+   * Get the general and per-sport threshold profiles
+   */
+  static async getThresholdProfiles(_req: AdminRequest, res: Response): Promise<void> {
+    try {
+      const profiles = await FitnessEvaluationService.getThresholdProfiles();
+
+      res.json({
+        success: true,
+        data: profiles,
+      });
+    } catch (error) {
+      logger.error('Failed to get threshold profiles:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve threshold profiles',
+      });
+    }
+  }
+
   /**
    * Get threshold statistics
    */
@@ -216,6 +306,7 @@ export class AdminController {
         weeklyActivities: defaultValues.weeklyActivities,
         averagePace: defaultValues.averagePace || undefined,
         allowedActivityTypes: defaultValues.allowedActivityTypes,
+        rules: null,
         updatedBy,
       };
 
@@ -240,7 +331,15 @@ export class AdminController {
    */
   static async validateThreshold(req: AdminRequest, res: Response): Promise<void> {
     try {
-      const { weeklyDistance, weeklyActivities, averagePace, allowedActivityTypes } = req.body;
+      const {
+        weeklyDistance,
+        weeklyActivities,
+        averagePace,
+        allowedActivityTypes,
+        rules,
+        sportFamily,
+        effectiveFrom,
+      } = req.body;
       
       const update: AdminThresholdUpdate = {
         updatedBy: 'validation',
@@ -250,6 +349,9 @@ export class AdminController {
       if (weeklyActivities !== undefined) update.weeklyActivities = weeklyActivities;
       if (averagePace !== undefined) update.averagePace = averagePace;
       if (allowedActivityTypes !== undefined) update.allowedActivityTypes = allowedActivityTypes;
+      if (rules !== undefined) update.rules = rules;
+      if (sportFamily !== undefined) update.sportFamily = sportFamily;
+      if (effectiveFrom !== undefined) update.effectiveFrom = new Date(effectiveFrom);
 
       // This will throw an error if validation fails
       // We don't actually save it, just validate
@@ -279,4 +381,333 @@ export class AdminController {
       }
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Dry-run threshold values against existing users before publishing them
+   */
+  static async simulateThreshold(req: AdminRequest, res: Response): Promise<void> {
+    try {
+      const {
+        weeklyDistance,
+        weeklyActivities,
+        averagePace,
+        allowedActivityTypes,
+        rules,
+        sportFamily,
+        sampleSize,
+      } = req.body;
+
+      const update: AdminThresholdUpdate = {
+        updatedBy: req.user?.email || 'unknown',
+      };
+
+      if (weeklyDistance !== undefined) update.weeklyDistance = weeklyDistance;
+      if (weeklyActivities !== undefined) update.weeklyActivities = weeklyActivities;
+      if (averagePace !== undefined) update.averagePace = averagePace;
+      if (allowedActivityTypes !== undefined) update.allowedActivityTypes = allowedActivityTypes;
+      if (rules !== undefined) update.rules = rules;
+      if (sportFamily !== undefined) update.sportFamily = sportFamily;
+
+      const simulation = await ThresholdSimulationService.simulate(
+        update,
+        parseInt(sampleSize) || undefined
+      );
+
+      res.json({
+        success: true,
+        data: simulation,
+      });
+    } catch (error) {
+      logger.error('Failed to simulate threshold:', error);
+
+      if (error instanceof Error) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to simulate threshold',
+        });
+      }
+    }
+  }
+
+  /**
+   * Start recomputing compatibility scores for historical matches. The job runs
+   * in the background; its progress is reported in the admin stats.
+   */
+  static async backfillMatchCompatibility(req: AdminRequest, res: Response): Promise<void> {
+    try {
+      const recomputeAll = req.body?.recomputeAll === true;
+      const startedBy = req.user?.email || 'unknown';
+
+      const job = MatchingService.startCompatibilityBackfill(startedBy, { recomputeAll });
+
+      logger.info(`Match compatibility backfill started by ${startedBy}`, { recomputeAll });
+
+      res.status(202).json({
+        success: true,
+        data: job,
+        message: 'Compatibility backfill started',
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'A compatibility backfill is already running') {
+        res.status(409).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+      logger.error('Failed to start match compatibility backfill:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to backfill match compatibility',
+      });
+    }
+  }
+
+  /**
+   * Get the live compatibility scoring profile
+   */
+  static async getScoringProfile(_req: AdminRequest, res: Response): Promise<void> {
+    try {
+      const profile = await ScoringProfileService.getCurrentProfile();
+
+      res.json({
+        success: true,
+        data: profile,
+      });
+    } catch (error) {
+      logger.error('Failed to get scoring profile:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve scoring profile',
+      });
+    }
+  }
+
+  /**
+   * Publish a new compatibility scoring profile version
+   */
+  static async updateScoringProfile(req: AdminRequest, res: Response): Promise<void> {
+    try {
+      const {
+        weights,
+        maxDistanceKm,
+        maxAgeDifference,
+        exposureStrength,
+        diversityStrength,
+        notes,
+      } = req.body;
+      const updatedBy = req.user?.email || 'unknown';
+
+      const profile = await ScoringProfileService.updateProfile({
+        weights,
+        ...(maxDistanceKm !== undefined && { maxDistanceKm }),
+        ...(maxAgeDifference !== undefined && { maxAgeDifference }),
+        ...(exposureStrength !== undefined && { exposureStrength }),
+        ...(diversityStrength !== undefined && { diversityStrength }),
+        ...(notes && { notes }),
+        updatedBy,
+      });
+
+      res.json({
+        success: true,
+        data: profile,
+        message: `Scoring profile v${profile.version} published`,
+      });
+    } catch (error) {
+      logger.error('Failed to update scoring profile:', error);
+
+      if (error instanceof Error) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to update scoring profile',
+        });
+      }
+    }
+  }
+
+  /**
+   * Get scoring profile version history
+   */
+  static async getScoringProfileHistory(req: AdminRequest, res: Response): Promise<void> {
+    try {
+      const limit = parseInt(req.query.limit as string) || 20;
+      const history = await ScoringProfileService.getProfileHistory(limit);
+
+      res.json({
+        success: true,
+        data: history,
+      });
+    } catch (error) {
+      logger.error('Failed to get scoring profile history:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve scoring profile history',
+      });
+    }
+  }
+
+  /**
+   * Preview how a sample user's top candidates reorder under a draft profile
+   */
+  static async previewScoringProfile(req: AdminRequest, res: Response): Promise<void> {
+    try {
+      const {
+        userId,
+        limit,
+        weights,
+        maxDistanceKm,
+        maxAgeDifference,
+        exposureStrength,
+        diversityStrength,
+      } = req.body;
+
+      if (!userId) {
+        res.status(400).json({
+          success: false,
+          error: 'User ID is required',
+        });
+        return;
+      }
+
+      const preview = await ScoringProfileService.previewProfile(
+        userId,
+        {
+          weights,
+          ...(maxDistanceKm !== undefined && { maxDistanceKm }),
+          ...(maxAgeDifference !== undefined && { maxAgeDifference }),
+          ...(exposureStrength !== undefined && { exposureStrength }),
+          ...(diversityStrength !== undefined && { diversityStrength }),
+        },
+        Math.min(parseInt(limit) || 20, 100)
+      );
+
+      res.json({
+        success: true,
+        data: preview,
+      });
+    } catch (error) {
+      logger.error('Failed to preview scoring profile:', error);
+
+      if (error instanceof Error) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to preview scoring profile',
+        });
+      }
+    }
+  }
+
+  /**
+   * Get the report moderation queue
+   */
+  static async getReports(req: AdminRequest, res: Response): Promise<void> {
+    try {
+      const status = (req.query.status as string) || 'pending';
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+      if (!REPORT_STATUSES.includes(status as ReportStatus)) {
+        res.status(400).json({
+          success: false,
+          error: `Status must be one of: ${REPORT_STATUSES.join(', ')}`,
+        });
+        return;
+      }
+
+      const reports = await SafetyService.getReports(status as ReportStatus, page, limit);
+
+      res.json({
+        success: true,
+        data: reports,
+      });
+    } catch (error) {
+      logger.error('Failed to get reports:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve reports',
+      });
+    }
+  }
+
+  /**
+   * Dismiss a report or take action on it
+   */
+  static async reviewReport(req: AdminRequest, res: Response): Promise<void> {
+    try {
+      const { reportId } = req.params;
+      const { status, action, notes } = req.body;
+      const reviewedBy = req.user?.email || 'unknown';
+
+      if (!reportId) {
+        res.status(400).json({
+          success: false,
+          error: 'Report ID is required',
+        });
+        return;
+      }
+
+      if (status !== 'dismissed' && status !== 'actioned') {
+        res.status(400).json({
+          success: false,
+          error: 'Status must be dismissed or actioned',
+        });
+        return;
+      }
+
+      if (action !== undefined && !REPORT_ACTIONS.includes(action)) {
+        res.status(400).json({
+          success: false,
+          error: `Action must be one of: ${REPORT_ACTIONS.join(', ')}`,
+        });
+        return;
+      }
+
+      const report = await SafetyService.reviewReport(reportId, {
+        status,
+        ...(action && { action: action as ReportAction }),
+        ...(notes && { notes }),
+        reviewedBy,
+      });
+
+      res.json({
+        success: true,
+        data: report,
+        message: `Report ${status}`,
+      });
+    } catch (error) {
+      logger.error('Failed to review report:', error);
+
+      if (error instanceof Error && error.message === 'Report not found') {
+        res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      } else if (error instanceof Error) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to review report',
+        });
+      }
+    }
+  }
+}
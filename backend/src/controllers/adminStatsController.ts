@@ -1,5 +1,8 @@
 import { Request, Response } from 'express';
 import { prisma } from '../config/database';
+import { MatchModel } from '../models/Match';
+import { ExposureService } from '../services/exposureService';
+import { MatchingService } from '../services/matchingService';
 import { logger } from '../utils/logger';
 
 export class AdminStatsController {
@@ -29,6 +32,8 @@ export class AdminStatsController {
           weeklyActivities: t.weeklyActivities,
           averagePace: t.averagePace,
           allowedActivityTypes: t.allowedActivityTypes,
+          rules: t.rules,
+          sportFamily: t.sportFamily,
           updatedAt: t.updatedAt,
           updatedBy: t.updatedBy,
         })),
@@ -79,6 +84,24 @@ export class AdminStatsController {
         },
       });
 
+      // Silent matches that were sent a last-chance reminder but not expired yet
+      const [expiredMatches, expiringMatches] = await Promise.all([
+        prisma.match.count({ where: { status: 'expired' } }),
+        prisma.match.count({
+          where: {
+            status: 'active',
+            expiryReminderSentAt: { not: null },
+            messages: { none: {} },
+          },
+        }),
+      ]);
+
+      const unmatchReasons = await MatchModel.getUnmatchReasonCounts();
+      const unmatchedMatches = Object.values(unmatchReasons).reduce((sum, count) => sum + count, 0);
+
+      // How evenly the deck spreads attention, to measure exposure balancing
+      const exposure = await ExposureService.getExposureStats();
+
       res.json({
         success: true,
         data: {
@@ -86,6 +109,12 @@ export class AdminStatsController {
           activeUsers,
           totalMatches,
           activeMatches,
+          unmatchedMatches,
+          unmatchReasons,
+          expiredMatches,
+          expiringMatches,
+          exposure,
+          compatibilityBackfill: MatchingService.getCompatibilityBackfillJob(),
           avgCompatibilityScore: 75, // Mock value
           totalMessages,
           pendingApprovals: 0,
@@ -364,12 +364,17 @@ export class AuthController {
             stravaId: user.stravaId,
             age: user.age,
             gender: user.gender,
+            discoveryMode: user.discoveryMode,
             city: user.city,
             state: user.state,
             bio: user.bio,
             photos: user.photos,
             lastActive: user.lastActive,
             createdAt: user.createdAt,
+            eligibilityStatus: user.eligibilityStatus,
+            graceEndsAt: user.graceEndsAt,
+            // Shown until dismissed, as users offline at the change missed it
+            eligibilityNotice: user.eligibilityNotice,
           },
           session: sessionData,
         },
@@ -401,7 +406,7 @@ export class AuthController {
         return;
       }
 
-      const { age, bio, city, state, gender } = req.body;
+      const { age, bio, city, state, gender, discoveryMode } = req.body;
 
       const updatedUser = await UserRegistrationService.updateUserProfile(userId, {
         age,
@@ -409,6 +414,7 @@ export class AuthController {
         city,
         state,
         gender,
+        discoveryMode,
       });
 
       res.json({
@@ -421,6 +427,7 @@ export class AuthController {
             lastName: updatedUser.lastName,
             age: updatedUser.age,
             gender: updatedUser.gender,
+            discoveryMode: updatedUser.discoveryMode,
             city: updatedUser.city,
             state: updatedUser.state,
             bio: updatedUser.bio,
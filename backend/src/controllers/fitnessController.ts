@@ -1,5 +1,8 @@
 import { Request, Response } from 'express';
 import { FitnessEvaluationService } from '../services/fitnessEvaluationService';
+import { UserModel } from '../models/User';
+import { getThresholdRules } from '../utils/eligibilityRules';
+import { parseEligibilityStatus } from '../utils/eligibilityStatus';
 import { logger } from '../utils/logger';
 
 export interface AuthenticatedRequest extends Request {
@@ -71,6 +74,7 @@ export class FitnessController {
             weeklyActivities: threshold.currentThreshold.weeklyActivities,
             averagePace: threshold.currentThreshold.averagePace,
             allowedActivityTypes: threshold.currentThreshold.allowedActivityTypes,
+            rules: getThresholdRules(threshold.currentThreshold),
           },
           description: {
             weeklyDistance: `Minimum ${Math.round(threshold.currentThreshold.weeklyDistance / 1000)}km per week`,
@@ -127,7 +131,8 @@ export class FitnessController {
   }
 
   /**
-   * Check if user meets current threshold (quick check)
+   * Check if user meets current threshold (quick check). The stored status is
+   * only updated by syncs and the grace period job, so it can lag the check.
    */
   static async checkEligibility(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
@@ -141,6 +146,15 @@ export class FitnessController {
         return;
       }
 
+      const user = await UserModel.findById(userId);
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found',
+        });
+        return;
+      }
+
       const evaluation = await FitnessEvaluationService.evaluateUserFitness(userId);
 
       res.json({
@@ -148,6 +162,8 @@ export class FitnessController {
         data: {
           eligible: evaluation.meets,
           score: evaluation.score,
+          status: parseEligibilityStatus(user.eligibilityStatus),
+          graceEndsAt: user.graceEndsAt ?? null,
           summary: evaluation.meets 
             ? 'You meet the fitness requirements!'
             : 'You do not currently meet the fitness requirements.',
@@ -161,4 +177,34 @@ export class FitnessController {
       });
     }
   }
+
+  /**
+   * Dismiss the user's last eligibility status notification
+   */
+  static async dismissEligibilityNotice(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      await UserModel.setEligibilityNotice(userId, null);
+
+      res.json({
+        success: true,
+        message: 'Eligibility notice dismissed',
+      });
+    } catch (error) {
+      logger.error('Failed to dismiss eligibility notice:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to dismiss eligibility notice',
+      });
+    }
+  }
 }
\ No newline at end of file
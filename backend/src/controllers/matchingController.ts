@@ -1,11 +1,89 @@
 import { Request, Response } from 'express';
 import { MatchingService } from '../services/matchingService';
+import { DiscoveryService } from '../services/discoveryService';
 import { MatchModel } from '../models/Match';
 import { logger } from '../utils/logger';
+import { GENDERS, MATCH_MODES, MatchMode, SwipeDecision, UNMATCH_REASONS } from '../types';
+
+const SWIPE_DECISIONS: SwipeDecision[] = ['like', 'pass', 'super_like'];
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isMatchMode = (value: unknown): value is MatchMode =>
+  typeof value === 'string' && (MATCH_MODES as readonly string[]).includes(value);
+
+const MODE_ERROR = `Mode must be one of: ${MATCH_MODES.join(', ')}`;
+
+// Swiping or browsing in a mode the user or target has not turned on
+const isModeError = (error: unknown): error is Error =>
+  error instanceof Error &&
+  (error.message === 'Mode is not enabled for this user' ||
+    error.message === 'Cannot swipe on a user who is not looking in this mode');
+
+// Accepted fitness range bounds, in the units FitnessStats stores
+const FITNESS_RANGE_RULES = [
+  {
+    min: 'minWeeklyDistance',
+    max: 'maxWeeklyDistance',
+    label: 'weekly distance',
+    lowest: 0,
+    highest: 1000000,
+    integer: false,
+    error: 'Weekly distance must be between 0 and 1,000,000 meters',
+  },
+  {
+    min: 'minWeeklyActivities',
+    max: 'maxWeeklyActivities',
+    label: 'weekly activities',
+    lowest: 0,
+    highest: 50,
+    integer: true,
+    error: 'Weekly activities must be a whole number between 0 and 50',
+  },
+  {
+    min: 'minPace',
+    max: 'maxPace',
+    label: 'pace',
+    lowest: 120,
+    highest: 1200,
+    integer: false,
+    error: 'Pace must be between 120 and 1200 seconds per km',
+  },
+] as const;
+
+/**
+ * Check the optional fitness range bounds in a preferences update, where null
+ * clears a bound. Returns the first problem found, if any.
+ */
+const validateFitnessRanges = (body: Record<string, unknown>): string | null => {
+  for (const rule of FITNESS_RANGE_RULES) {
+    const lower = body[rule.min];
+    const upper = body[rule.max];
+
+    const isValidBound = (bound: unknown): boolean =>
+      bound === undefined ||
+      bound === null ||
+      (typeof bound === 'number' &&
+        bound >= rule.lowest &&
+        bound <= rule.highest &&
+        (!rule.integer || Number.isInteger(bound)));
+    if (!isValidBound(lower) || !isValidBound(upper)) {
+      return rule.error;
+    }
+
+    if (typeof lower === 'number' && typeof upper === 'number' && lower > upper) {
+      return `Minimum ${rule.label} cannot be greater than maximum ${rule.label}`;
+    }
+  }
+  return null;
+};
 
 export class MatchingController {
   /**
-   * Get potential matches for the authenticated user
+   * Get a page of potential matches for the authenticated user, in the mode
+   * asked for or their default one. Pages after the first are read with the
+   * cursor returned by the previous page.
    */
   static async getPotentialMatches(req: Request, res: Response): Promise<void> {
     try {
@@ -16,7 +94,7 @@ export class MatchingController {
       }
 
       const limit = parseInt(req.query.limit as string) || 20;
-      const offset = parseInt(req.query.offset as string) || 0;
+      const { cursor, mode } = req.query;
 
       // Validate pagination parameters
       if (limit < 1 || limit > 100) {
@@ -24,23 +102,42 @@ export class MatchingController {
         return;
       }
 
-      if (offset < 0) {
-        res.status(400).json({ error: 'Offset must be non-negative' });
+      if (cursor !== undefined && (typeof cursor !== 'string' || cursor.length === 0)) {
+        res.status(400).json({ error: 'Cursor must be a non-empty string' });
+        return;
+      }
+
+      if (mode !== undefined && !isMatchMode(mode)) {
+        res.status(400).json({ error: MODE_ERROR });
         return;
       }
 
-      const matches = await MatchingService.findPotentialMatches(userId, limit, offset);
+      const page = await DiscoveryService.getPage(userId, limit, cursor, mode);
 
       res.json({
         success: true,
-        data: matches,
-        pagination: {
-          limit,
-          offset,
-          count: matches.length,
-        },
+        data: page.data,
+        nextCursor: page.nextCursor,
+        mode: page.mode,
+        modes: page.modes,
       });
     } catch (error) {
+      if (isModeError(error)) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+
+      if (error instanceof Error && error.message === 'Invalid cursor') {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+
+      // The client starts again from the first page
+      if (error instanceof Error && error.message === 'Cursor has expired') {
+        res.status(410).json({ error: error.message });
+        return;
+      }
+
       logger.error('Error getting potential matches:', error);
       res.status(500).json({ 
         error: 'Failed to get potential matches',
@@ -50,7 +147,7 @@ export class MatchingController {
   }
 
   /**
-   * Create a match (like/swipe right)
+   * Like a user (swipe right). A match is only created when the like is mutual.
    */
   static async createMatch(req: Request, res: Response): Promise<void> {
     try {
@@ -60,7 +157,8 @@ export class MatchingController {
         return;
       }
 
-      const { targetUserId, compatibilityScore } = req.body;
+      // Any client-supplied compatibilityScore is ignored; the score is computed server-side
+      const { targetUserId, mode } = req.body;
 
       if (!targetUserId) {
         res.status(400).json({ error: 'Target user ID is required' });
@@ -72,17 +170,17 @@ export class MatchingController {
         return;
       }
 
-      if (typeof compatibilityScore !== 'number' || compatibilityScore < 0 || compatibilityScore > 100) {
-        res.status(400).json({ error: 'Compatibility score must be a number between 0 and 100' });
+      if (mode !== undefined && !isMatchMode(mode)) {
+        res.status(400).json({ error: MODE_ERROR });
         return;
       }
 
-      const match = await MatchingService.createMatch(userId, targetUserId, compatibilityScore);
+      const result = await MatchingService.recordSwipe(userId, targetUserId, 'like', mode);
 
-      res.status(201).json({
+      res.status(result.isMatch ? 201 : 200).json({
         success: true,
-        data: match,
-        message: 'Match created successfully',
+        data: result,
+        message: result.isMatch ? "It's a match!" : 'Like recorded',
       });
     } catch (error) {
       logger.error('Error creating match:', error);
@@ -95,6 +193,24 @@ export class MatchingController {
         return;
       }
 
+      if (
+        error instanceof Error &&
+        (error.message.includes('blocked') || error.message === 'User not found')
+      ) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      if (error instanceof Error && error.message.includes('rematch cooldown')) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+
+      if (isModeError(error)) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+
       res.status(500).json({ 
         error: 'Failed to create match',
         message: error instanceof Error ? error.message : 'Unknown error'
@@ -102,6 +218,75 @@ export class MatchingController {
     }
   }
 
+  /**
+   * Record a swipe decision (like, pass or super-like)
+   */
+  static async swipe(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const { targetUserId, decision, mode } = req.body;
+
+      if (!targetUserId) {
+        res.status(400).json({ error: 'Target user ID is required' });
+        return;
+      }
+
+      if (targetUserId === userId) {
+        res.status(400).json({ error: 'Cannot swipe on yourself' });
+        return;
+      }
+
+      if (!SWIPE_DECISIONS.includes(decision)) {
+        res.status(400).json({ error: `Decision must be one of: ${SWIPE_DECISIONS.join(', ')}` });
+        return;
+      }
+
+      if (mode !== undefined && !isMatchMode(mode)) {
+        res.status(400).json({ error: MODE_ERROR });
+        return;
+      }
+
+      const result = await MatchingService.recordSwipe(userId, targetUserId, decision, mode);
+
+      res.status(result.isMatch ? 201 : 200).json({
+        success: true,
+        data: result,
+        message: result.isMatch ? "It's a match!" : 'Swipe recorded',
+      });
+    } catch (error) {
+      logger.error('Error recording swipe:', error);
+
+      // Look the same as a missing user, so nobody can tell they were blocked
+      if (
+        error instanceof Error &&
+        (error.message.includes('blocked') || error.message === 'User not found')
+      ) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      if (error instanceof Error && error.message.includes('rematch cooldown')) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+
+      if (isModeError(error)) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+
+      res.status(500).json({ 
+        error: 'Failed to record swipe',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   /**
    * Get user's matches
    */
@@ -198,6 +383,12 @@ export class MatchingController {
         return;
       }
 
+      // Archiving a closed match would keep the pair from ever matching again
+      if (match.status !== 'active') {
+        res.status(409).json({ error: 'Match is no longer active' });
+        return;
+      }
+
       const archivedMatch = await MatchModel.archive(matchId);
 
       res.json({
@@ -214,6 +405,104 @@ export class MatchingController {
     }
   }
 
+  /**
+   * Unmatch: remove the match and conversation for both users
+   */
+  static async unmatch(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const { matchId } = req.params;
+      const { reason } = req.body;
+
+      if (!matchId) {
+        res.status(400).json({ error: 'Match ID is required' });
+        return;
+      }
+
+      if (reason !== undefined && !UNMATCH_REASONS.includes(reason)) {
+        res.status(400).json({ error: `Reason must be one of: ${UNMATCH_REASONS.join(', ')}` });
+        return;
+      }
+
+      const result = await MatchingService.unmatch(matchId, userId, reason);
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Unmatched successfully',
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Match not found') {
+        res.status(404).json({ error: 'Match not found' });
+        return;
+      }
+
+      if (error instanceof Error && error.message.startsWith('Not authorized')) {
+        res.status(403).json({ error: 'Not authorized to unmatch this match' });
+        return;
+      }
+
+      if (error instanceof Error && error.message === 'Match is no longer active') {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+
+      logger.error('Error unmatching:', error);
+      res.status(500).json({ 
+        error: 'Failed to unmatch',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get how a match's compatibility has changed since the pair matched
+   */
+  static async getMatchScoreHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const { matchId } = req.params;
+
+      if (!matchId) {
+        res.status(400).json({ error: 'Match ID is required' });
+        return;
+      }
+
+      const trend = await MatchingService.getMatchScoreTrend(matchId, userId);
+
+      res.json({
+        success: true,
+        data: trend,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Match not found') {
+        res.status(404).json({ error: 'Match not found' });
+        return;
+      }
+
+      if (error instanceof Error && error.message.startsWith('Not authorized')) {
+        res.status(403).json({ error: 'Not authorized to view this match' });
+        return;
+      }
+
+      logger.error('Error getting match score history:', error);
+      res.status(500).json({ 
+        error: 'Failed to get match score history',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   /**
    * Get user's matching preferences
    */
@@ -251,7 +540,23 @@ export class MatchingController {
         return;
       }
 
-      const { minAge, maxAge, maxDistance, preferredActivities, minCompatibilityScore } = req.body;
+      const {
+        minAge,
+        maxAge,
+        maxDistance,
+        preferredActivities,
+        dealbreakerActivities,
+        minCompatibilityScore,
+        interestedIn,
+        partnerAnyGender,
+        partnerAnyAge,
+        minWeeklyDistance,
+        maxWeeklyDistance,
+        minWeeklyActivities,
+        maxWeeklyActivities,
+        minPace,
+        maxPace,
+      } = req.body;
 
       // Validate input
       if (minAge !== undefined && (typeof minAge !== 'number' || minAge < 18 || minAge > 100)) {
@@ -274,22 +579,67 @@ export class MatchingController {
         return;
       }
 
-      if (preferredActivities !== undefined && !Array.isArray(preferredActivities)) {
+      if (preferredActivities !== undefined && !isStringArray(preferredActivities)) {
         res.status(400).json({ error: 'Preferred activities must be an array' });
         return;
       }
 
+      if (dealbreakerActivities !== undefined && !isStringArray(dealbreakerActivities)) {
+        res.status(400).json({ error: 'Dealbreaker activities must be an array' });
+        return;
+      }
+
+      if (
+        preferredActivities !== undefined &&
+        dealbreakerActivities !== undefined &&
+        !dealbreakerActivities.every((activity: string) => preferredActivities.includes(activity))
+      ) {
+        res.status(400).json({ error: 'Dealbreaker activities must also be preferred activities' });
+        return;
+      }
+
       if (minCompatibilityScore !== undefined && (typeof minCompatibilityScore !== 'number' || minCompatibilityScore < 0 || minCompatibilityScore > 100)) {
         res.status(400).json({ error: 'Minimum compatibility score must be between 0 and 100' });
         return;
       }
 
+      if (interestedIn !== undefined && (!Array.isArray(interestedIn) || !interestedIn.every(gender => GENDERS.includes(gender)))) {
+        res.status(400).json({ error: `Interested in must be an array of: ${GENDERS.join(', ')}` });
+        return;
+      }
+
+      if (partnerAnyGender !== undefined && typeof partnerAnyGender !== 'boolean') {
+        res.status(400).json({ error: 'Partner any gender must be true or false' });
+        return;
+      }
+
+      if (partnerAnyAge !== undefined && typeof partnerAnyAge !== 'boolean') {
+        res.status(400).json({ error: 'Partner any age must be true or false' });
+        return;
+      }
+
+      const fitnessRangeError = validateFitnessRanges(req.body);
+      if (fitnessRangeError) {
+        res.status(400).json({ error: fitnessRangeError });
+        return;
+      }
+
       const preferences = await MatchingService.updateMatchingPreferences(userId, {
         minAge,
         maxAge,
         maxDistance,
         preferredActivities,
+        dealbreakerActivities,
         minCompatibilityScore,
+        interestedIn,
+        partnerAnyGender,
+        partnerAnyAge,
+        minWeeklyDistance,
+        maxWeeklyDistance,
+        minWeeklyActivities,
+        maxWeeklyActivities,
+        minPace,
+        maxPace,
       });
 
       res.json({
@@ -307,7 +657,7 @@ export class MatchingController {
   }
 
   /**
-   * Calculate compatibility score between current user and target user
+   * Calculate compatibility score and the reasons behind it between current user and target user
    */
   static async calculateCompatibility(req: Request, res: Response): Promise<void> {
     try {
@@ -329,13 +679,26 @@ export class MatchingController {
         return;
       }
 
-      // This would require additional service methods to get user data
-      // For now, we'll return a placeholder response
-      res.status(501).json({ 
-        error: 'Not implemented',
-        message: 'Compatibility calculation endpoint not yet implemented'
+      const compatibility = await MatchingService.calculateCompatibilityForUsers(
+        userId,
+        targetUserId
+      );
+
+      res.json({
+        success: true,
+        data: {
+          targetUserId,
+          compatibilityScore: compatibility.score,
+          compatibilityFactors: compatibility.factors,
+          compatibilityReasons: compatibility.reasons,
+        },
       });
     } catch (error) {
+      if (error instanceof Error && error.message === 'User not found') {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
       logger.error('Error calculating compatibility:', error);
       res.status(500).json({ 
         error: 'Failed to calculate compatibility',
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { MessageService } from '../services/messageService';
+import { MatchExpiryService } from '../services/matchExpiryService';
 import { logger } from '../utils/logger';
 
 export class MessageController {
@@ -307,9 +308,19 @@ export class MessageController {
 
       const conversations = await MessageService.getConversations(userId);
 
+      // Silent matches carry their expiry, so users who were offline for the
+      // last-chance reminder still see it
       res.json({
         success: true,
-        data: conversations,
+        data: conversations.map(({ expiryReminderSentAt, ...conversation }) => ({
+          ...conversation,
+          expiresAt: conversation.lastMessage
+            ? null
+            : MatchExpiryService.getExpiresAt({
+                matchedAt: conversation.matchedAt,
+                expiryReminderSentAt,
+              }),
+        })),
       });
     } catch (error) {
       logger.error('Error getting conversations:', error);
@@ -0,0 +1,203 @@
+import { Request, Response } from 'express';
+import { SafetyService } from '../services/safetyService';
+import { logger } from '../utils/logger';
+import { REPORT_CATEGORIES, ReportCategory } from '../types';
+
+const MAX_REPORT_DESCRIPTION_LENGTH = 2000;
+const MAX_REPORT_MESSAGES = 20;
+
+export class SafetyController {
+  /**
+   * Get the users the authenticated user has blocked
+   */
+  static async getBlockedUsers(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const blockedUsers = await SafetyService.getBlockedUsers(userId);
+
+      res.json({
+        success: true,
+        data: blockedUsers,
+      });
+    } catch (error) {
+      logger.error('Error getting blocked users:', error);
+      res.status(500).json({
+        error: 'Failed to get blocked users',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Block a user
+   */
+  static async blockUser(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const { userId: blockedUserId } = req.body;
+
+      if (!blockedUserId) {
+        res.status(400).json({ error: 'User ID is required' });
+        return;
+      }
+
+      if (blockedUserId === userId) {
+        res.status(400).json({ error: 'Cannot block yourself' });
+        return;
+      }
+
+      const block = await SafetyService.blockUser(userId, blockedUserId);
+
+      res.status(201).json({
+        success: true,
+        data: block,
+        message: 'User blocked',
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'User not found') {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      logger.error('Error blocking user:', error);
+      res.status(500).json({
+        error: 'Failed to block user',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Unblock a user
+   */
+  static async unblockUser(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const { blockedUserId } = req.params;
+
+      if (!blockedUserId) {
+        res.status(400).json({ error: 'User ID is required' });
+        return;
+      }
+
+      await SafetyService.unblockUser(userId, blockedUserId);
+
+      res.json({
+        success: true,
+        message: 'User unblocked',
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Block not found') {
+        res.status(404).json({ error: 'Block not found' });
+        return;
+      }
+
+      logger.error('Error unblocking user:', error);
+      res.status(500).json({
+        error: 'Failed to unblock user',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Report a user, optionally attaching messages as evidence and blocking them
+   */
+  static async reportUser(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const { reportedUserId, category, description, messageIds, block } =
+        req.body;
+
+      if (!reportedUserId) {
+        res.status(400).json({ error: 'Reported user ID is required' });
+        return;
+      }
+
+      if (reportedUserId === userId) {
+        res.status(400).json({ error: 'Cannot report yourself' });
+        return;
+      }
+
+      if (!REPORT_CATEGORIES.includes(category)) {
+        res.status(400).json({
+          error: `Category must be one of: ${REPORT_CATEGORIES.join(', ')}`,
+        });
+        return;
+      }
+
+      if (
+        description !== undefined &&
+        (typeof description !== 'string' ||
+          description.length > MAX_REPORT_DESCRIPTION_LENGTH)
+      ) {
+        res.status(400).json({
+          error: `Description must be text of at most ${MAX_REPORT_DESCRIPTION_LENGTH} characters`,
+        });
+        return;
+      }
+
+      if (
+        messageIds !== undefined &&
+        (!Array.isArray(messageIds) ||
+          messageIds.length > MAX_REPORT_MESSAGES ||
+          messageIds.some((id: unknown) => typeof id !== 'string'))
+      ) {
+        res.status(400).json({
+          error: `Message IDs must be a list of at most ${MAX_REPORT_MESSAGES} IDs`,
+        });
+        return;
+      }
+
+      const report = await SafetyService.reportUser(userId, {
+        reportedUserId,
+        category: category as ReportCategory,
+        ...(description?.trim() && { description: description.trim() }),
+        ...(messageIds && { messageIds }),
+        block: block === true,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: report,
+        message: 'Report submitted. Our team will review it shortly.',
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'User not found') {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      if (error instanceof Error && error.message.startsWith('Evidence')) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+
+      logger.error('Error reporting user:', error);
+      res.status(500).json({
+        error: 'Failed to submit report',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
@@ -2,6 +2,8 @@
 import './config/env';
 
 import express from 'express';
+import { createServer } from 'http';
+import { Server as SocketServer } from 'socket.io';
 import cors from 'cors';
 import helmet from 'helmet';
 import fs from 'fs/promises';
@@ -13,11 +15,15 @@ import matchingRoutes from './routes/matchingRoutes';
 import { webhookRoutes } from './routes/webhookRoutes';
 import { syncRoutes } from './routes/syncRoutes';
 import usersRoutes from './routes/users';
+import safetyRoutes from './routes/safetyRoutes';
 import devRoutes from './routes/dev';
 import { schedulerService } from './services/schedulerService';
+import { MessageService } from './services/messageService';
+import { authService } from './services/authService';
 import { logger } from './utils/logger';
 
 const app = express();
+const server = createServer(app);
 const PORT = process.env.PORT || 3001;
 
 // Ensure upload directory exists
@@ -52,6 +58,7 @@ app.use('/api/matching', matchingRoutes);
 app.use('/api/webhooks', webhookRoutes);
 app.use('/api/sync', syncRoutes);
 app.use('/api/users', usersRoutes);
+app.use('/api/safety', safetyRoutes);
 
 // Development-only routes
 if (process.env.NODE_ENV !== 'production') {
@@ -63,6 +70,26 @@ app.get('/health', (_req, res) => {
   res.status(200).json({ status: 'OK', timestamp: new Date().toISOString() });
 });
 
+// Real-time messaging and match notifications
+const io = new SocketServer(server, {
+  cors: {
+    origin: process.env.FRONTEND_URL || 'http://localhost:3000',
+    credentials: true,
+  },
+});
+
+// Only authenticated users can connect; the client sends its token in the handshake
+io.use((socket, next) => {
+  try {
+    const payload = authService.verifyAccessToken(socket.handshake.auth?.token);
+    socket.data.userId = payload.userId;
+    next();
+  } catch {
+    next(new Error('Authentication required'));
+  }
+});
+MessageService.initializeSocket(io);
+
 // Initialize scheduler service
 schedulerService.init();
 
@@ -86,7 +113,7 @@ process.on('SIGINT', () => {
 });
 
 // Start server
-app.listen(PORT, () => {
+server.listen(PORT, () => {
   console.log(`Server running on port ${PORT} in ${process.env.NODE_ENV || 'development'} mode`);
 });
 
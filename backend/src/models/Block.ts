@@ -0,0 +1,84 @@
+import { prisma } from '../config/database';
+import { Block, BlockedUser } from '../types';
+
+export class BlockModel {
+  /**
+   * Block a user (blocking the same user again keeps the original block)
+   */
+  static async create(blockerId: string, blockedId: string): Promise<Block> {
+    return await prisma.block.upsert({
+      where: {
+        blockerId_blockedId: { blockerId, blockedId },
+      },
+      update: {},
+      create: { blockerId, blockedId },
+    });
+  }
+
+  /**
+   * Remove a block; returns false if there was none
+   */
+  static async delete(blockerId: string, blockedId: string): Promise<boolean> {
+    const result = await prisma.block.deleteMany({
+      where: { blockerId, blockedId },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Check whether either user has blocked the other
+   */
+  static async isBlockedEitherWay(
+    user1Id: string,
+    user2Id: string
+  ): Promise<boolean> {
+    const count = await prisma.block.count({
+      where: {
+        OR: [
+          { blockerId: user1Id, blockedId: user2Id },
+          { blockerId: user2Id, blockedId: user1Id },
+        ],
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Get IDs of every user the given user has blocked or been blocked by
+   */
+  static async getBlockedUserIds(userId: string): Promise<string[]> {
+    const results = await prisma.block.findMany({
+      where: {
+        OR: [{ blockerId: userId }, { blockedId: userId }],
+      },
+      select: { blockerId: true, blockedId: true },
+    });
+    return results.map(result =>
+      result.blockerId === userId ? result.blockedId : result.blockerId
+    );
+  }
+
+  /**
+   * List the users a user has blocked, most recent first
+   */
+  static async findByBlocker(blockerId: string): Promise<BlockedUser[]> {
+    const results = await prisma.block.findMany({
+      where: { blockerId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        blocked: {
+          select: { id: true, firstName: true, lastName: true, photos: true },
+        },
+      },
+    });
+    return results.map(result => ({
+      userId: result.blocked.id,
+      firstName: result.blocked.firstName,
+      lastName: result.blocked.lastName,
+      photos: Array.isArray(result.blocked.photos)
+        ? (result.blocked.photos as string[])
+        : [],
+      blockedAt: result.createdAt,
+    }));
+  }
+}
@@ -0,0 +1,73 @@
+import { prisma } from '../config/database';
+import {
+  DiscoverySnapshot,
+  MatchMode,
+  RecommendationQueueEntry,
+} from '../types';
+import { DiscoverySnapshot as PrismaDiscoverySnapshot } from '../generated/prisma';
+
+// Helper function to convert Prisma model to our type
+const convertPrismaToDiscoverySnapshot = (
+  prismaSnapshot: PrismaDiscoverySnapshot
+): DiscoverySnapshot => ({
+  ...prismaSnapshot,
+  mode: prismaSnapshot.mode as MatchMode,
+  candidates: Array.isArray(prismaSnapshot.candidates)
+    ? (prismaSnapshot.candidates as unknown as RecommendationQueueEntry[])
+    : [],
+  shownUserIds: Array.isArray(prismaSnapshot.shownUserIds)
+    ? (prismaSnapshot.shownUserIds as string[])
+    : [],
+});
+
+export class DiscoverySnapshotModel {
+  /**
+   * Store a ranked candidate list for a user to page through in a mode,
+   * continuing a deck whose earlier snapshots ranked the given users
+   */
+  static async create(
+    userId: string,
+    mode: MatchMode,
+    candidates: RecommendationQueueEntry[],
+    expiresAt: Date,
+    shownUserIds: string[] = []
+  ): Promise<DiscoverySnapshot> {
+    const result = await prisma.discoverySnapshot.create({
+      data: {
+        userId,
+        mode,
+        candidates: candidates.map(candidate => ({
+          ...candidate,
+          compatibilityFactors: { ...candidate.compatibilityFactors },
+          compatibilityReasons: candidate.compatibilityReasons.map(reason => ({
+            ...reason,
+            params: { ...reason.params },
+          })),
+        })),
+        shownUserIds,
+        expiresAt,
+      },
+    });
+    return convertPrismaToDiscoverySnapshot(result);
+  }
+
+  /**
+   * Find a snapshot by ID
+   */
+  static async findById(id: string): Promise<DiscoverySnapshot | null> {
+    const result = await prisma.discoverySnapshot.findUnique({
+      where: { id },
+    });
+    return result ? convertPrismaToDiscoverySnapshot(result) : null;
+  }
+
+  /**
+   * Delete snapshots that expired before the given time
+   */
+  static async deleteExpired(before: Date = new Date()): Promise<number> {
+    const result = await prisma.discoverySnapshot.deleteMany({
+      where: { expiresAt: { lt: before } },
+    });
+    return result.count;
+  }
+}
@@ -1,5 +1,24 @@
 import { prisma } from '../config/database';
-import { FitnessStats, CreateFitnessStatsInput, UpdateFitnessStatsInput } from '../types';
+import {
+  FitnessStats,
+  CreateFitnessStatsInput,
+  UpdateFitnessStatsInput,
+  SportProfiles,
+  TrainingSchedule,
+  TrainingArea,
+} from '../types';
+
+// Helper function to read the per-sport profiles JSON column
+export const parseSportProfiles = (value: unknown): SportProfiles =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as SportProfiles : {};
+
+// Helper function to read the training schedule JSON column
+export const parseTrainingSchedule = (value: unknown): TrainingSchedule =>
+  Array.isArray(value) ? value as TrainingSchedule : [];
+
+// Helper function to read the training areas JSON column
+export const parseTrainingAreas = (value: unknown): TrainingArea[] =>
+  Array.isArray(value) ? value as TrainingArea[] : [];
 
 export class FitnessStatsModel {
   /**
@@ -16,6 +35,9 @@ export class FitnessStatsModel {
     return {
       ...stats,
       favoriteActivities: Array.isArray(stats.favoriteActivities) ? stats.favoriteActivities as string[] : [],
+      sportProfiles: parseSportProfiles(stats.sportProfiles),
+      trainingSchedule: parseTrainingSchedule(stats.trainingSchedule),
+      trainingAreas: parseTrainingAreas(stats.trainingAreas),
     };
   }
 
@@ -32,6 +54,9 @@ export class FitnessStatsModel {
     return {
       ...stats,
       favoriteActivities: Array.isArray(stats.favoriteActivities) ? stats.favoriteActivities as string[] : [],
+      sportProfiles: parseSportProfiles(stats.sportProfiles),
+      trainingSchedule: parseTrainingSchedule(stats.trainingSchedule),
+      trainingAreas: parseTrainingAreas(stats.trainingAreas),
     };
   }
 
@@ -50,6 +75,9 @@ export class FitnessStatsModel {
     return {
       ...stats,
       favoriteActivities: Array.isArray(stats.favoriteActivities) ? stats.favoriteActivities as string[] : [],
+      sportProfiles: parseSportProfiles(stats.sportProfiles),
+      trainingSchedule: parseTrainingSchedule(stats.trainingSchedule),
+      trainingAreas: parseTrainingAreas(stats.trainingAreas),
     };
   }
 
@@ -81,6 +109,9 @@ export class FitnessStatsModel {
     return {
       ...stats,
       favoriteActivities: Array.isArray(stats.favoriteActivities) ? stats.favoriteActivities as string[] : [],
+      sportProfiles: parseSportProfiles(stats.sportProfiles),
+      trainingSchedule: parseTrainingSchedule(stats.trainingSchedule),
+      trainingAreas: parseTrainingAreas(stats.trainingAreas),
     };
   }
 
@@ -114,6 +145,9 @@ export class FitnessStatsModel {
     return results.map(result => ({
       ...result,
       favoriteActivities: (result.favoriteActivities as string[]) || [],
+      sportProfiles: parseSportProfiles(result.sportProfiles),
+      trainingSchedule: parseTrainingSchedule(result.trainingSchedule),
+      trainingAreas: parseTrainingAreas(result.trainingAreas),
     })) as FitnessStats[];
   }
 
@@ -142,6 +176,9 @@ export class FitnessStatsModel {
     return {
       ...result,
       favoriteActivities: (result.favoriteActivities as string[]) || [],
+      sportProfiles: parseSportProfiles(result.sportProfiles),
+      trainingSchedule: parseTrainingSchedule(result.trainingSchedule),
+      trainingAreas: parseTrainingAreas(result.trainingAreas),
       user: {
         ...result.user,
         photos: (result.user.photos as string[]) || [],
@@ -1,6 +1,14 @@
 import { prisma } from '../config/database';
-import { FitnessThreshold, CreateFitnessThresholdInput, UpdateFitnessThresholdInput } from '../types';
-import { FitnessThreshold as PrismaFitnessThreshold } from '../generated/prisma';
+import {
+  FitnessThreshold,
+  ThresholdVersion,
+  CreateFitnessThresholdInput,
+  UpdateFitnessThresholdInput,
+  EligibilityRule,
+  SportFamily,
+} from '../types';
+import { Prisma, FitnessThreshold as PrismaFitnessThreshold } from '../generated/prisma';
+import { getThresholdVersions } from '../utils/thresholdVersions';
 
 // Helper function to convert Prisma model to our type
 const convertPrismaToFitnessThreshold = (prismaThreshold: PrismaFitnessThreshold): FitnessThreshold => ({
@@ -8,8 +16,18 @@ const convertPrismaToFitnessThreshold = (prismaThreshold: PrismaFitnessThreshold
   allowedActivityTypes: Array.isArray(prismaThreshold.allowedActivityTypes) 
     ? prismaThreshold.allowedActivityTypes as string[]
     : [],
+  rules: prismaThreshold.rules && typeof prismaThreshold.rules === 'object'
+    ? prismaThreshold.rules as unknown as EligibilityRule
+    : null,
+  sportFamily: prismaThreshold.sportFamily as SportFamily | null,
 });
 
+// Helper function to write the rule tree JSON column
+const toRulesInput = (
+  rules: EligibilityRule | null | undefined
+): Prisma.InputJsonValue | typeof Prisma.DbNull =>
+  rules ? rules as unknown as Prisma.InputJsonValue : Prisma.DbNull;
+
 export class FitnessThresholdModel {
   /**
    * Create a new fitness threshold
@@ -19,34 +37,101 @@ export class FitnessThresholdModel {
       data: {
         ...data,
         allowedActivityTypes: data.allowedActivityTypes || [],
+        rules: toRulesInput(data.rules),
       },
     });
     return convertPrismaToFitnessThreshold(result);
   }
 
   /**
-   * Get the current active fitness threshold
+   * Get the fitness threshold active in a sport's profile, or in the general
+   * profile by default, now or at a given time
    */
-  static async getCurrent(): Promise<FitnessThreshold | null> {
+  static async getCurrent(
+    sportFamily: SportFamily | null = null,
+    at: Date = new Date()
+  ): Promise<FitnessThreshold | null> {
     const result = await prisma.fitnessThreshold.findFirst({
-      orderBy: { updatedAt: 'desc' },
+      where: { sportFamily, effectiveFrom: { lte: at } },
+      orderBy: [{ effectiveFrom: 'desc' }, { updatedAt: 'desc' }],
     });
     return result ? convertPrismaToFitnessThreshold(result) : null;
   }
 
   /**
-   * Update fitness threshold (creates a new record for audit trail)
+   * Get a profile's versions that have yet to take effect, soonest first
+   */
+  static async getScheduled(sportFamily: SportFamily | null = null): Promise<FitnessThreshold[]> {
+    const results = await prisma.fitnessThreshold.findMany({
+      where: { sportFamily, effectiveFrom: { gt: new Date() } },
+      orderBy: [{ effectiveFrom: 'asc' }, { updatedAt: 'asc' }],
+    });
+    return results.map(convertPrismaToFitnessThreshold);
+  }
+
+  /**
+   * Update a profile's fitness threshold (creates a new record for audit trail).
+   * An update with an effective time builds on the version active at that time.
    */
   static async update(data: UpdateFitnessThresholdInput): Promise<FitnessThreshold> {
-    const current = await this.getCurrent();
-    
+    const current = await this.getCurrent(data.sportFamily ?? null, data.effectiveFrom);
+    const next = this.mergeUpdate(current, data);
+
+    const result = await prisma.fitnessThreshold.create({
+      data: {
+        ...next,
+        rules: toRulesInput(next.rules),
+      },
+    });
+    return convertPrismaToFitnessThreshold(result);
+  }
+
+  /**
+   * Build a profile's next threshold from its current one, keeping the fields
+   * an update leaves out
+   */
+  static mergeUpdate(
+    current: FitnessThreshold | null,
+    data: UpdateFitnessThresholdInput
+  ): Omit<FitnessThreshold, 'id' | 'updatedAt'> {
+    return {
+      weeklyDistance: data.weeklyDistance ?? current?.weeklyDistance ?? 0,
+      weeklyActivities: data.weeklyActivities ?? current?.weeklyActivities ?? 0,
+      averagePace: data.averagePace ?? current?.averagePace ?? null,
+      allowedActivityTypes: data.allowedActivityTypes ?? current?.allowedActivityTypes ?? [],
+      rules: data.rules !== undefined ? data.rules : current?.rules ?? null,
+      sportFamily: data.sportFamily ?? null,
+      effectiveFrom: data.effectiveFrom ?? new Date(),
+      restoredFromId: null,
+      updatedBy: data.updatedBy ?? 'system',
+    };
+  }
+
+  /**
+   * Publish a copy of an earlier version as its profile's newest version,
+   * immediately or at a given time. Returns null when the version is not found.
+   */
+  static async republish(
+    id: string,
+    updatedBy: string,
+    effectiveFrom: Date = new Date()
+  ): Promise<FitnessThreshold | null> {
+    const version = await this.findById(id);
+    if (!version) {
+      return null;
+    }
+
     const result = await prisma.fitnessThreshold.create({
       data: {
-        weeklyDistance: data.weeklyDistance ?? current?.weeklyDistance ?? 0,
-        weeklyActivities: data.weeklyActivities ?? current?.weeklyActivities ?? 0,
-        averagePace: data.averagePace ?? current?.averagePace ?? null,
-        allowedActivityTypes: data.allowedActivityTypes ?? current?.allowedActivityTypes ?? [],
-        updatedBy: data.updatedBy ?? 'system',
+        weeklyDistance: version.weeklyDistance,
+        weeklyActivities: version.weeklyActivities,
+        averagePace: version.averagePace,
+        allowedActivityTypes: version.allowedActivityTypes,
+        rules: toRulesInput(version.rules),
+        sportFamily: version.sportFamily,
+        effectiveFrom,
+        restoredFromId: version.id,
+        updatedBy,
       },
     });
     return convertPrismaToFitnessThreshold(result);
@@ -72,71 +157,6 @@ export class FitnessThresholdModel {
     return result ? convertPrismaToFitnessThreshold(result) : null;
   }
 
-  /**
-   * Check if user meets current fitness threshold
-   */
-  static async checkUserMeetsThreshold(
-    weeklyDistance: number,
-    weeklyActivities: number,
-    averagePace?: number,
-    activityTypes: string[] = []
-  ): Promise<{
-    meets: boolean;
-    threshold: FitnessThreshold | null;
-    reasons: string[];
-  }> {
-    const threshold = await this.getCurrent();
-    
-    if (!threshold) {
-      return {
-        meets: true,
-        threshold: null,
-        reasons: ['No fitness threshold configured'],
-      };
-    }
-
-    const reasons: string[] = [];
-    let meets = true;
-
-    // Check weekly distance
-    if (weeklyDistance < threshold.weeklyDistance) {
-      meets = false;
-      reasons.push(`Weekly distance ${weeklyDistance}m is below required ${threshold.weeklyDistance}m`);
-    }
-
-    // Check weekly activities
-    if (weeklyActivities < threshold.weeklyActivities) {
-      meets = false;
-      reasons.push(`Weekly activities ${weeklyActivities} is below required ${threshold.weeklyActivities}`);
-    }
-
-    // Check average pace if specified
-    if (threshold.averagePace && averagePace && averagePace > threshold.averagePace) {
-      meets = false;
-      reasons.push(`Average pace ${averagePace}s/km is slower than required ${threshold.averagePace}s/km`);
-    }
-
-    // Check activity types if specified
-    const allowedTypes = threshold.allowedActivityTypes as string[];
-    if (allowedTypes.length > 0) {
-      const hasAllowedActivity = activityTypes.some(type => allowedTypes.includes(type));
-      if (!hasAllowedActivity) {
-        meets = false;
-        reasons.push(`No activities match allowed types: ${allowedTypes.join(', ')}`);
-      }
-    }
-
-    if (meets) {
-      reasons.push('All fitness requirements met');
-    }
-
-    return {
-      meets,
-      threshold,
-      reasons,
-    };
-  }
-
   /**
    * Get default fitness threshold values
    */
@@ -163,38 +183,43 @@ export class FitnessThresholdModel {
   }
 
   /**
-   * Get threshold history for a specific time period
+   * Get threshold history for a specific time period, with where each version
+   * is in its profile's timeline. Scheduled and active versions are always
+   * included.
    */
-  static async getHistory(days: number = 30): Promise<FitnessThreshold[]> {
+  static async getHistory(days: number = 30): Promise<ThresholdVersion[]> {
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
 
-    const results = await prisma.fitnessThreshold.findMany({
-      where: {
-        updatedAt: {
-          gte: startDate,
-        },
-      },
-      orderBy: { updatedAt: 'desc' },
-    });
-    return results.map(convertPrismaToFitnessThreshold);
+    // Statuses depend on neighbouring versions, so the whole timeline is read
+    const versions = getThresholdVersions(await this.getAll(), new Date());
+    return versions.filter(
+      version =>
+        version.updatedAt >= startDate ||
+        version.status === 'scheduled' ||
+        version.status === 'active'
+    );
   }
 
   /**
-   * Delete old threshold records (keep last N records)
+   * Delete old threshold records that never took effect (keep last N records
+   * of each profile). Versions that were ever active are kept for the audit
+   * trail and for rollback.
    */
   static async cleanupOldRecords(keepCount: number = 10): Promise<number> {
-    const thresholds = await prisma.fitnessThreshold.findMany({
-      orderBy: { updatedAt: 'desc' },
-      skip: keepCount,
-      select: { id: true },
-    });
-
-    if (thresholds.length === 0) {
+    const keptByProfile = new Map<SportFamily | null, number>();
+    const idsToDelete = getThresholdVersions(await this.getAll(), new Date())
+      .filter(version => {
+        const kept = keptByProfile.get(version.sportFamily) ?? 0;
+        keptByProfile.set(version.sportFamily, kept + 1);
+        return kept >= keepCount && version.status === 'never_active';
+      })
+      .map(version => version.id);
+
+    if (idsToDelete.length === 0) {
       return 0;
     }
 
-    const idsToDelete = thresholds.map(t => t.id);
     const result = await prisma.fitnessThreshold.deleteMany({
       where: {
         id: {
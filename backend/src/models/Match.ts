@@ -1,13 +1,29 @@
 import { prisma } from '../config/database';
-import { Match, CreateMatchInput, UpdateMatchInput, PaginationOptions, PaginatedResponse } from '../types';
+import {
+  Match,
+  CreateMatchInput,
+  UpdateMatchInput,
+  PaginationOptions,
+  PaginatedResponse,
+  MatchMode,
+  UnmatchReason,
+} from '../types';
 
 export class MatchModel {
   /**
-   * Create a new match
+   * Create a new match. The pair is stored with the lower user id first, so
+   * the unique key on (user1Id, user2Id, mode) holds whichever user liked first.
    */
   static async create(data: CreateMatchInput): Promise<Match> {
+    const { compatibilityFactors, ...matchData } = data;
+    const [user1Id, user2Id] = [data.user1Id, data.user2Id].sort();
     const result = await prisma.match.create({
-      data,
+      data: {
+        ...matchData,
+        user1Id,
+        user2Id,
+        ...(compatibilityFactors && { compatibilityFactors: { ...compatibilityFactors } }),
+      },
     });
     return result as Match;
   }
@@ -116,11 +132,16 @@ export class MatchModel {
   }
 
   /**
-   * Find match between two users
+   * Find the match between two users in a mode
    */
-  static async findByUserIds(user1Id: string, user2Id: string): Promise<Match | null> {
+  static async findByUserIds(
+    user1Id: string,
+    user2Id: string,
+    mode: MatchMode
+  ): Promise<Match | null> {
     const result = await prisma.match.findFirst({
       where: {
+        mode,
         OR: [
           { user1Id, user2Id },
           { user1Id: user2Id, user2Id: user1Id },
@@ -134,9 +155,13 @@ export class MatchModel {
    * Update match
    */
   static async update(id: string, data: UpdateMatchInput): Promise<Match> {
+    const { compatibilityFactors, ...matchData } = data;
     const result = await prisma.match.update({
       where: { id },
-      data,
+      data: {
+        ...matchData,
+        ...(compatibilityFactors && { compatibilityFactors: { ...compatibilityFactors } }),
+      },
     });
     return result as Match;
   }
@@ -152,6 +177,146 @@ export class MatchModel {
     return result as Match;
   }
 
+  /**
+   * Unmatch: close the match and delete its conversation for both users
+   */
+  static async unmatch(id: string, unmatchedBy: string, reason?: UnmatchReason): Promise<Match> {
+    const [, result] = await prisma.$transaction([
+      prisma.message.deleteMany({
+        where: { matchId: id },
+      }),
+      prisma.match.update({
+        where: { id },
+        data: {
+          status: 'unmatched',
+          unmatchedAt: new Date(),
+          unmatchedBy,
+          unmatchReason: reason ?? null,
+        },
+      }),
+    ]);
+    return result as Match;
+  }
+
+  /**
+   * Reopen an unmatched or unblocked pair's match record when they match again.
+   * Its silent expiry starts over, reminder included.
+   */
+  static async reactivate(id: string, data: CreateMatchInput): Promise<Match> {
+    const { compatibilityFactors, ...matchData } = data;
+    const [user1Id, user2Id] = [data.user1Id, data.user2Id].sort();
+    const result = await prisma.match.update({
+      where: { id },
+      data: {
+        ...matchData,
+        user1Id,
+        user2Id,
+        ...(compatibilityFactors && { compatibilityFactors: { ...compatibilityFactors } }),
+        status: 'active',
+        matchedAt: new Date(),
+        unmatchedAt: null,
+        unmatchedBy: null,
+        unmatchReason: null,
+        expiryReminderSentAt: null,
+        expiredAt: null,
+      },
+    });
+    return result as Match;
+  }
+
+  /**
+   * Get IDs of users the given user has unmatched with (either side) since a date
+   */
+  static async getUnmatchedUserIdsSince(userId: string, since: Date): Promise<string[]> {
+    const results = await prisma.match.findMany({
+      where: {
+        OR: [
+          { user1Id: userId },
+          { user2Id: userId },
+        ],
+        status: 'unmatched',
+        unmatchedAt: { gte: since },
+      },
+      select: { user1Id: true, user2Id: true },
+    });
+    return results.map(result =>
+      result.user1Id === userId ? result.user2Id : result.user1Id
+    );
+  }
+
+  /**
+   * Count unmatches by the reason given, for analytics
+   */
+  static async getUnmatchReasonCounts(): Promise<Record<string, number>> {
+    const results = await prisma.match.groupBy({
+      by: ['unmatchReason'],
+      where: { status: 'unmatched' },
+      _count: { _all: true },
+    });
+    return Object.fromEntries(
+      results.map(result => [result.unmatchReason ?? 'unspecified', result._count._all])
+    );
+  }
+
+  /**
+   * Find active matches without a single message, matched before a date,
+   * that have not been sent an expiry reminder yet
+   */
+  static async findSilentMatchesToRemind(matchedBefore: Date): Promise<Match[]> {
+    const results = await prisma.match.findMany({
+      where: {
+        status: 'active',
+        matchedAt: { lte: matchedBefore },
+        expiryReminderSentAt: null,
+        messages: { none: {} },
+      },
+    });
+    return results as Match[];
+  }
+
+  /**
+   * Find active matches still without messages, matched before a date, whose
+   * expiry reminder went out before the given time
+   */
+  static async findSilentMatchesToExpire(matchedBefore: Date, remindedBefore: Date): Promise<Match[]> {
+    const results = await prisma.match.findMany({
+      where: {
+        status: 'active',
+        matchedAt: { lte: matchedBefore },
+        expiryReminderSentAt: { lte: remindedBefore },
+        messages: { none: {} },
+      },
+    });
+    return results as Match[];
+  }
+
+  /**
+   * Record that the expiry reminder was sent for matches
+   */
+  static async markExpiryReminderSent(ids: string[]): Promise<number> {
+    const result = await prisma.match.updateMany({
+      where: { id: { in: ids } },
+      data: { expiryReminderSentAt: new Date() },
+    });
+    return result.count;
+  }
+
+  /**
+   * Expire a match unless it got a message since it was selected; returns
+   * whether it was expired
+   */
+  static async expireIfSilent(id: string): Promise<boolean> {
+    const result = await prisma.match.updateMany({
+      where: {
+        id,
+        status: 'active',
+        messages: { none: {} },
+      },
+      data: { status: 'expired', expiredAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
   /**
    * Delete match
    */
@@ -197,11 +362,26 @@ export class MatchModel {
   }
 
   /**
-   * Check if users are matched
+   * Find every match between two users, across modes
+   */
+  static async findAllByUserIds(user1Id: string, user2Id: string): Promise<Match[]> {
+    const results = await prisma.match.findMany({
+      where: {
+        OR: [
+          { user1Id, user2Id },
+          { user1Id: user2Id, user2Id: user1Id },
+        ],
+      },
+    });
+    return results as Match[];
+  }
+
+  /**
+   * Check if users are matched in any mode
    */
   static async areUsersMatched(user1Id: string, user2Id: string): Promise<boolean> {
-    const match = await this.findByUserIds(user1Id, user2Id);
-    return match !== null && match.status === 'active';
+    const matches = await this.findAllByUserIds(user1Id, user2Id);
+    return matches.some(match => match.status === 'active');
   }
 
   /**
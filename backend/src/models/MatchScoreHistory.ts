@@ -0,0 +1,52 @@
+import { prisma } from '../config/database';
+import { CompatibilityFactors, MatchScoreHistoryEntry } from '../types';
+import { MatchScoreHistory as PrismaMatchScoreHistory } from '../generated/prisma';
+
+// Entries returned per match, which covers months of daily syncs
+const MAX_HISTORY_ENTRIES = 100;
+
+// Helper function to convert Prisma model to our type
+const convertPrismaToMatchScoreHistory = (
+  prismaEntry: PrismaMatchScoreHistory
+): MatchScoreHistoryEntry => ({
+  ...prismaEntry,
+  compatibilityFactors:
+    prismaEntry.compatibilityFactors as CompatibilityFactors | null,
+});
+
+export class MatchScoreHistoryModel {
+  /**
+   * Record a match's compatibility at this point in time
+   */
+  static async create(
+    matchId: string,
+    compatibilityScore: number,
+    compatibilityFactors?: CompatibilityFactors
+  ): Promise<MatchScoreHistoryEntry> {
+    const result = await prisma.matchScoreHistory.create({
+      data: {
+        matchId,
+        compatibilityScore,
+        ...(compatibilityFactors && {
+          compatibilityFactors: { ...compatibilityFactors },
+        }),
+      },
+    });
+    return convertPrismaToMatchScoreHistory(result);
+  }
+
+  /**
+   * Get a match's score history since a date, newest first
+   */
+  static async findByMatchId(
+    matchId: string,
+    since: Date
+  ): Promise<MatchScoreHistoryEntry[]> {
+    const results = await prisma.matchScoreHistory.findMany({
+      where: { matchId, recordedAt: { gte: since } },
+      orderBy: { recordedAt: 'desc' },
+      take: MAX_HISTORY_ENTRIES,
+    });
+    return results.map(convertPrismaToMatchScoreHistory);
+  }
+}
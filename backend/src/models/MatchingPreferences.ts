@@ -1,5 +1,6 @@
 import { prisma } from '../config/database';
-import { MatchingPreferences, CreateMatchingPreferencesInput, UpdateMatchingPreferencesInput } from '../types';
+import { MatchingPreferences, CreateMatchingPreferencesInput, UpdateMatchingPreferencesInput, Gender } from '../types';
+import { boundingBoxWhere, calculateDistanceKm, getBoundingBox } from '../utils/geo';
 
 export class MatchingPreferencesModel {
   /**
@@ -10,12 +11,16 @@ export class MatchingPreferencesModel {
       data: {
         ...data,
         preferredActivities: data.preferredActivities || [],
+        dealbreakerActivities: data.dealbreakerActivities || [],
+        interestedIn: data.interestedIn || [],
       },
     });
     
     return {
       ...result,
       preferredActivities: (result.preferredActivities as string[]) || [],
+      dealbreakerActivities: (result.dealbreakerActivities as string[]) || [],
+      interestedIn: (result.interestedIn as Gender[]) || [],
     } as MatchingPreferences;
   }
 
@@ -32,6 +37,8 @@ export class MatchingPreferencesModel {
     return {
       ...result,
       preferredActivities: (result.preferredActivities as string[]) || [],
+      dealbreakerActivities: (result.dealbreakerActivities as string[]) || [],
+      interestedIn: (result.interestedIn as Gender[]) || [],
     } as MatchingPreferences;
   }
 
@@ -47,6 +54,8 @@ export class MatchingPreferencesModel {
     return {
       ...result,
       preferredActivities: (result.preferredActivities as string[]) || [],
+      dealbreakerActivities: (result.dealbreakerActivities as string[]) || [],
+      interestedIn: (result.interestedIn as Gender[]) || [],
     } as MatchingPreferences;
   }
 
@@ -69,12 +78,16 @@ export class MatchingPreferencesModel {
       create: {
         ...data,
         preferredActivities: data.preferredActivities || [],
+        dealbreakerActivities: data.dealbreakerActivities || [],
+        interestedIn: data.interestedIn || [],
       },
     });
     
     return {
       ...result,
       preferredActivities: (result.preferredActivities as string[]) || [],
+      dealbreakerActivities: (result.dealbreakerActivities as string[]) || [],
+      interestedIn: (result.interestedIn as Gender[]) || [],
     } as MatchingPreferences;
   }
 
@@ -88,7 +101,11 @@ export class MatchingPreferencesModel {
       maxAge: 65,
       maxDistance: 50, // 50km
       preferredActivities: [],
+      dealbreakerActivities: [],
       minCompatibilityScore: 0,
+      interestedIn: [],
+      partnerAnyGender: true,
+      partnerAnyAge: false,
     };
   }
 
@@ -113,6 +130,9 @@ export class MatchingPreferencesModel {
         userId: { not: userId },
         minAge: { lte: userAge },
         maxAge: { gte: userAge },
+        user: boundingBoxWhere(
+          getBoundingBox(userLatitude, userLongitude, userPreferences.maxDistance)
+        ),
       },
       include: {
         user: {
@@ -136,7 +156,7 @@ export class MatchingPreferencesModel {
       }
 
       // Calculate distance using Haversine formula
-      const distance = this.calculateDistance(
+      const distance = calculateDistanceKm(
         userLatitude,
         userLongitude,
         user.latitude,
@@ -150,35 +170,6 @@ export class MatchingPreferencesModel {
     return filteredUsers.map(pref => pref.userId);
   }
 
-  /**
-   * Calculate distance between two points using Haversine formula
-   */
-  private static calculateDistance(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number
-  ): number {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = this.toRadians(lat2 - lat1);
-    const dLon = this.toRadians(lon2 - lon1);
-    
-    const a = 
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.toRadians(lat1)) * Math.cos(this.toRadians(lat2)) *
-      Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  }
-
-  /**
-   * Convert degrees to radians
-   */
-  private static toRadians(degrees: number): number {
-    return degrees * (Math.PI / 180);
-  }
-
   /**
    * Check if two users have compatible activity preferences
    */
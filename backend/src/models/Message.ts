@@ -283,4 +283,33 @@ export class MessageModel {
     });
     return result.count;
   }
-}
\ No newline at end of file
+
+  /**
+   * Find messages by ID, keeping only those exchanged between two users
+   */
+  static async findBetweenUsers(ids: string[], user1Id: string, user2Id: string): Promise<Message[]> {
+    return await prisma.message.findMany({
+      where: {
+        id: { in: ids },
+        match: {
+          OR: [
+            { user1Id, user2Id },
+            { user1Id: user2Id, user2Id: user1Id },
+          ],
+        },
+      },
+      orderBy: { sentAt: 'asc' },
+    });
+  }
+
+  /**
+   * Replace the content of a sender's messages, e.g. when a moderator removes them
+   */
+  static async redact(ids: string[], senderId: string, content: string): Promise<number> {
+    const result = await prisma.message.updateMany({
+      where: { id: { in: ids }, senderId },
+      data: { content },
+    });
+    return result.count;
+  }
+}
@@ -0,0 +1,73 @@
+import { prisma } from '../config/database';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Impressions are counted per UTC day
+const startOfDay = (date: Date): Date =>
+  new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+
+export class ProfileExposureModel {
+  /**
+   * Count one impression for each profile shown
+   */
+  static async recordImpressions(
+    userIds: string[],
+    shownAt: Date = new Date()
+  ): Promise<void> {
+    const day = startOfDay(shownAt);
+    await prisma.$transaction(
+      [...new Set(userIds)].map(userId =>
+        prisma.profileExposure.upsert({
+          where: { userId_day: { userId, day } },
+          create: { userId, day, impressions: 1 },
+          update: { impressions: { increment: 1 } },
+        })
+      )
+    );
+  }
+
+  /**
+   * Get impressions per profile since a date. Profiles that were not shown
+   * are left out.
+   */
+  static async getImpressionCounts(
+    userIds: string[],
+    since: Date
+  ): Promise<Map<string, number>> {
+    if (userIds.length === 0) {
+      return new Map();
+    }
+
+    const results = await prisma.profileExposure.groupBy({
+      by: ['userId'],
+      where: { userId: { in: userIds }, day: { gte: startOfDay(since) } },
+      _sum: { impressions: true },
+    });
+    return new Map(
+      results.map(result => [result.userId, result._sum.impressions ?? 0])
+    );
+  }
+
+  /**
+   * Get the impressions of every profile shown since a date, most shown first
+   */
+  static async getImpressionTotals(since: Date): Promise<number[]> {
+    const results = await prisma.profileExposure.groupBy({
+      by: ['userId'],
+      where: { day: { gte: startOfDay(since) } },
+      _sum: { impressions: true },
+      orderBy: { _sum: { impressions: 'desc' } },
+    });
+    return results.map(result => result._sum.impressions ?? 0);
+  }
+
+  /**
+   * Delete daily counts from before the given time
+   */
+  static async deleteBefore(before: Date): Promise<number> {
+    const result = await prisma.profileExposure.deleteMany({
+      where: { day: { lt: startOfDay(before) } },
+    });
+    return result.count;
+  }
+}
@@ -0,0 +1,94 @@
+import { prisma } from '../config/database';
+import { RecommendationQueue, RecommendationQueueEntry } from '../types';
+import { RecommendationQueue as PrismaRecommendationQueue } from '../generated/prisma';
+
+// Helper function to convert Prisma model to our type
+const convertPrismaToRecommendationQueue = (
+  prismaQueue: PrismaRecommendationQueue
+): RecommendationQueue => ({
+  ...prismaQueue,
+  candidates: Array.isArray(prismaQueue.candidates)
+    ? (prismaQueue.candidates as unknown as RecommendationQueueEntry[])
+    : [],
+});
+
+export class RecommendationQueueModel {
+  /**
+   * Get a user's precomputed recommendation queue
+   */
+  static async findByUserId(
+    userId: string
+  ): Promise<RecommendationQueue | null> {
+    const result = await prisma.recommendationQueue.findUnique({
+      where: { userId },
+    });
+    return result ? convertPrismaToRecommendationQueue(result) : null;
+  }
+
+  /**
+   * Replace a user's queue with a freshly ranked candidate list
+   */
+  static async replace(
+    userId: string,
+    candidates: RecommendationQueueEntry[]
+  ): Promise<RecommendationQueue> {
+    const data = {
+      candidates: candidates.map(candidate => ({
+        ...candidate,
+        compatibilityFactors: { ...candidate.compatibilityFactors },
+        compatibilityReasons: candidate.compatibilityReasons.map(reason => ({
+          ...reason,
+          params: { ...reason.params },
+        })),
+      })),
+      generatedAt: new Date(),
+      isStale: false,
+    };
+
+    const result = await prisma.recommendationQueue.upsert({
+      where: { userId },
+      update: data,
+      create: { userId, ...data },
+    });
+    return convertPrismaToRecommendationQueue(result);
+  }
+
+  /**
+   * Mark a user's queue as stale so it is rebuilt before it is served again
+   */
+  static async invalidate(userId: string): Promise<void> {
+    await prisma.recommendationQueue.updateMany({
+      where: { userId },
+      data: { isStale: true },
+    });
+  }
+
+  /**
+   * Get recently active users whose queue is missing, stale or older than the cutoff
+   */
+  static async findUserIdsNeedingRefresh(
+    activeSince: Date,
+    generatedBefore: Date,
+    limit: number
+  ): Promise<string[]> {
+    const results = await prisma.user.findMany({
+      where: {
+        lastActive: { gte: activeSince },
+        fitnessStats: { isNot: null },
+        OR: [
+          { recommendationQueue: { is: null } },
+          { recommendationQueue: { is: { isStale: true } } },
+          {
+            recommendationQueue: {
+              is: { generatedAt: { lt: generatedBefore } },
+            },
+          },
+        ],
+      },
+      select: { id: true },
+      orderBy: { lastActive: 'desc' },
+      take: limit,
+    });
+    return results.map(result => result.id);
+  }
+}
@@ -0,0 +1,116 @@
+import { prisma } from '../config/database';
+import {
+  CreateReportInput,
+  PaginatedResponse,
+  PaginationOptions,
+  Report,
+  ReportEvidence,
+  ReportStatus,
+  ReportWithUsers,
+  ReviewReportInput,
+} from '../types';
+import { Report as PrismaReport } from '../generated/prisma';
+
+const reportUserSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+};
+
+// Helper function to convert Prisma model to our type
+const convertPrismaToReport = (prismaReport: PrismaReport): Report => ({
+  ...prismaReport,
+  category: prismaReport.category as Report['category'],
+  status: prismaReport.status as ReportStatus,
+  action: prismaReport.action as Report['action'],
+  evidence: Array.isArray(prismaReport.evidence)
+    ? (prismaReport.evidence as unknown as ReportEvidence[])
+    : [],
+});
+
+export class ReportModel {
+  /**
+   * File a new report
+   */
+  static async create(data: CreateReportInput): Promise<Report> {
+    const result = await prisma.report.create({
+      data: {
+        ...data,
+        evidence: data.evidence.map(item => ({
+          ...item,
+          sentAt: item.sentAt.toISOString(),
+        })),
+      },
+    });
+    return convertPrismaToReport(result);
+  }
+
+  /**
+   * Find report by ID
+   */
+  static async findById(id: string): Promise<Report | null> {
+    const result = await prisma.report.findUnique({
+      where: { id },
+    });
+    return result ? convertPrismaToReport(result) : null;
+  }
+
+  /**
+   * List reports with the users involved, oldest first so the queue is worked in order
+   */
+  static async findByStatus(
+    status: ReportStatus,
+    options: PaginationOptions
+  ): Promise<PaginatedResponse<ReportWithUsers>> {
+    const { page, limit } = options;
+    const skip = (page - 1) * limit;
+
+    const [reports, total] = await Promise.all([
+      prisma.report.findMany({
+        where: { status },
+        skip,
+        take: limit,
+        orderBy: { createdAt: status === 'pending' ? 'asc' : 'desc' },
+        include: {
+          reporter: { select: reportUserSelect },
+          reported: { select: reportUserSelect },
+        },
+      }),
+      prisma.report.count({
+        where: { status },
+      }),
+    ]);
+
+    return {
+      data: reports.map(({ reporter, reported, ...report }) => ({
+        ...convertPrismaToReport(report),
+        reporter,
+        reported,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Record an admin's decision on a report
+   */
+  static async review(id: string, data: ReviewReportInput): Promise<Report> {
+    const result = await prisma.report.update({
+      where: { id },
+      data: {
+        status: data.status,
+        action: data.action ?? null,
+        resolutionNotes: data.notes ?? null,
+        reviewedBy: data.reviewedBy,
+        reviewedAt: new Date(),
+      },
+    });
+    return convertPrismaToReport(result);
+  }
+}
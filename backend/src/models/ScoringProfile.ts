@@ -0,0 +1,118 @@
+import { prisma } from '../config/database';
+import {
+  CompatibilityWeights,
+  CreateScoringProfileInput,
+  ScoringProfile,
+  ScoringProfileSettings,
+} from '../types';
+import {
+  Prisma,
+  ScoringProfile as PrismaScoringProfile,
+} from '../generated/prisma';
+
+// Saves that race for the same version number retry with the next one
+const MAX_CREATE_ATTEMPTS = 3;
+
+// Helper function to convert Prisma model to our type. Factors added after a
+// profile was published get no weight, so old profiles keep scoring the same.
+const convertPrismaToScoringProfile = (
+  prismaProfile: PrismaScoringProfile
+): ScoringProfile => ({
+  ...prismaProfile,
+  weights: {
+    scheduleOverlap: 0,
+    trainingAreaOverlap: 0,
+    ...(prismaProfile.weights as Partial<CompatibilityWeights>),
+  } as CompatibilityWeights,
+});
+
+export class ScoringProfileModel {
+  /**
+   * Create a new profile version (profiles are never edited in place). The
+   * version number is unique, so when two admins save at once the second save
+   * is retried with the next number.
+   */
+  static async create(
+    data: CreateScoringProfileInput
+  ): Promise<ScoringProfile> {
+    for (let attempt = 1; ; attempt++) {
+      const latest = await prisma.scoringProfile.findFirst({
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+
+      try {
+        const result = await prisma.scoringProfile.create({
+          data: {
+            ...data,
+            weights: { ...data.weights },
+            version: (latest?.version ?? 0) + 1,
+          },
+        });
+        return convertPrismaToScoringProfile(result);
+      } catch (error) {
+        if (
+          attempt < MAX_CREATE_ATTEMPTS &&
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002'
+        ) {
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Get the live scoring profile (the highest version)
+   */
+  static async getCurrent(): Promise<ScoringProfile | null> {
+    const result = await prisma.scoringProfile.findFirst({
+      orderBy: { version: 'desc' },
+    });
+    return result ? convertPrismaToScoringProfile(result) : null;
+  }
+
+  /**
+   * Get a specific profile version
+   */
+  static async findByVersion(version: number): Promise<ScoringProfile | null> {
+    const result = await prisma.scoringProfile.findUnique({
+      where: { version },
+    });
+    return result ? convertPrismaToScoringProfile(result) : null;
+  }
+
+  /**
+   * Get profile versions, newest first (for audit trail)
+   */
+  static async getHistory(limit: number = 20): Promise<ScoringProfile[]> {
+    const results = await prisma.scoringProfile.findMany({
+      orderBy: { version: 'desc' },
+      take: limit,
+    });
+    return results.map(convertPrismaToScoringProfile);
+  }
+
+  /**
+   * Get the built-in scoring settings used until an admin saves a profile
+   */
+  static getDefaultSettings(): ScoringProfileSettings {
+    return {
+      weights: {
+        activityOverlap: 0.3,
+        performanceSimilarity: 0.25,
+        locationProximity: 0.15,
+        ageCompatibility: 0.1,
+        scheduleOverlap: 0.1,
+        trainingAreaOverlap: 0.1,
+      },
+      maxDistanceKm: 100,
+      maxAgeDifference: 20,
+      // Re-ranking is off, as for profiles saved without it, until an admin
+      // turns it on
+      exposureStrength: 0,
+      diversityStrength: 0,
+    };
+  }
+}
@@ -91,6 +91,26 @@ export class StravaActivityModel {
     });
   }
 
+  /**
+   * Find activities of several users within date range
+   */
+  static async findByUserIdsAndDateRange(
+    userIds: string[],
+    startDate: Date,
+    endDate: Date
+  ): Promise<StravaActivity[]> {
+    return await prisma.stravaActivity.findMany({
+      where: {
+        userId: { in: userIds },
+        startDate: {
+          gte: startDate,
+          lte: endDate,
+        },
+      },
+      orderBy: { startDate: 'desc' },
+    });
+  }
+
   /**
    * Find activities by type
    */
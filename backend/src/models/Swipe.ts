@@ -0,0 +1,91 @@
+import { prisma } from '../config/database';
+import { Swipe, CreateSwipeInput, MatchMode, SwipeDecision } from '../types';
+
+const POSITIVE_DECISIONS: SwipeDecision[] = ['like', 'super_like'];
+
+export class SwipeModel {
+  /**
+   * Record a swipe decision (re-swiping the same user in the same mode
+   * overwrites the previous decision)
+   */
+  static async upsert(data: CreateSwipeInput): Promise<Swipe> {
+    const result = await prisma.swipe.upsert({
+      where: {
+        swiperId_targetId_mode: {
+          swiperId: data.swiperId,
+          targetId: data.targetId,
+          mode: data.mode,
+        },
+      },
+      update: { decision: data.decision },
+      create: data,
+    });
+    return result as Swipe;
+  }
+
+  /**
+   * Find the swipe one user made on another in a mode
+   */
+  static async findBySwiperAndTarget(
+    swiperId: string,
+    targetId: string,
+    mode: MatchMode
+  ): Promise<Swipe | null> {
+    const result = await prisma.swipe.findUnique({
+      where: {
+        swiperId_targetId_mode: { swiperId, targetId, mode },
+      },
+    });
+    return result ? (result as Swipe) : null;
+  }
+
+  /**
+   * Check whether a user has liked (or super-liked) another user in a mode
+   */
+  static async hasLiked(swiperId: string, targetId: string, mode: MatchMode): Promise<boolean> {
+    const swipe = await this.findBySwiperAndTarget(swiperId, targetId, mode);
+    return swipe !== null && POSITIVE_DECISIONS.includes(swipe.decision);
+  }
+
+  /**
+   * Get IDs of every user the given user has already swiped on in a mode
+   */
+  static async getSwipedUserIds(swiperId: string, mode: MatchMode): Promise<string[]> {
+    const results = await prisma.swipe.findMany({
+      where: { swiperId, mode },
+      select: { targetId: true },
+    });
+    return results.map(result => result.targetId);
+  }
+
+  /**
+   * Delete the swipes two users made on each other in a mode, in both directions
+   */
+  static async deleteBetween(user1Id: string, user2Id: string, mode: MatchMode): Promise<number> {
+    const result = await prisma.swipe.deleteMany({
+      where: {
+        mode,
+        OR: [
+          { swiperId: user1Id, targetId: user2Id },
+          { swiperId: user2Id, targetId: user1Id },
+        ],
+      },
+    });
+    return result.count;
+  }
+
+  /**
+   * Delete the swipes two users made on each other in every mode, in both directions
+   */
+  static async deleteAllBetween(user1Id: string, user2Id: string): Promise<number> {
+    const result = await prisma.swipe.deleteMany({
+      where: {
+        OR: [
+          { swiperId: user1Id, targetId: user2Id },
+          { swiperId: user2Id, targetId: user1Id },
+        ],
+      },
+    });
+    return result.count;
+  }
+}
@@ -1,6 +1,15 @@
 import { prisma } from '../config/database';
-import { User, CreateUserInput, UpdateUserInput, PaginationOptions, PaginatedResponse } from '../types';
+import {
+  User,
+  CreateUserInput,
+  UpdateUserInput,
+  PaginationOptions,
+  PaginatedResponse,
+  EligibilityStatus,
+  EligibilityNotice,
+} from '../types';
 import { Prisma } from '../generated/prisma';
+import { boundingBoxWhere, calculateDistanceKm, getBoundingBox } from '../utils/geo';
 
 export class UserModel {
   /**
@@ -139,41 +148,76 @@ export class UserModel {
   }
 
   /**
-   * Find users within distance
+   * Find users within distance, nearest first
    */
   static async findUsersWithinDistance(
     latitude: number,
     longitude: number,
     maxDistanceKm: number,
     excludeUserId?: string
-  ): Promise<User[]> {
-    // Using Haversine formula for distance calculation
-    const query = `
-      SELECT *, (
-        6371 * acos(
-          cos(radians($1)) * cos(radians(latitude)) * 
-          cos(radians(longitude) - radians($2)) + 
-          sin(radians($1)) * sin(radians(latitude))
-        )
-      ) AS distance
-      FROM users
-      WHERE (
-        6371 * acos(
-          cos(radians($1)) * cos(radians(latitude)) * 
-          cos(radians(longitude) - radians($2)) + 
-          sin(radians($1)) * sin(radians(latitude))
-        )
-      ) <= $3
-      ${excludeUserId ? 'AND id != $4' : ''}
-      ORDER BY distance;
-    `;
-
-    const params = excludeUserId 
-      ? [latitude, longitude, maxDistanceKm, excludeUserId]
-      : [latitude, longitude, maxDistanceKm];
-
-    const users = await prisma.$queryRawUnsafe(query, ...params) as User[];
-    return users;
+  ): Promise<Array<User & { distance: number }>> {
+    // Bounding-box prefilter on the indexed coordinates, then exact Haversine
+    const rawUsers = await prisma.user.findMany({
+      where: {
+        ...boundingBoxWhere(getBoundingBox(latitude, longitude, maxDistanceKm)),
+        ...(excludeUserId && { id: { not: excludeUserId } }),
+      },
+    });
+
+    return rawUsers
+      .map(user => ({
+        ...user,
+        photos: Array.isArray(user.photos) ? user.photos as string[] : [],
+        bio: user.bio,
+        distance: calculateDistanceKm(latitude, longitude, user.latitude, user.longitude),
+      }))
+      .filter(user => user.distance <= maxDistanceKm)
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Store the outcome of an eligibility evaluation
+   */
+  static async updateEligibility(
+    id: string,
+    eligibilityStatus: EligibilityStatus,
+    graceEndsAt: Date | null
+  ): Promise<void> {
+    await prisma.user.update({
+      where: { id },
+      data: {
+        eligibilityStatus,
+        graceEndsAt,
+        eligibilityCheckedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Store the eligibility notification a user has yet to dismiss, or clear it
+   */
+  static async setEligibilityNotice(
+    id: string,
+    eligibilityNotice: EligibilityNotice | null
+  ): Promise<void> {
+    await prisma.user.update({
+      where: { id },
+      data: { eligibilityNotice },
+    });
+  }
+
+  /**
+   * Get the IDs of users whose grace period has ended
+   */
+  static async findEndedGracePeriodUserIds(now: Date): Promise<string[]> {
+    const users = await prisma.user.findMany({
+      where: {
+        eligibilityStatus: 'grace_period',
+        OR: [{ graceEndsAt: { lte: now } }, { graceEndsAt: null }],
+      },
+      select: { id: true },
+    });
+    return users.map(user => user.id);
   }
 
   /**
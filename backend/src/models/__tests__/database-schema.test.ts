@@ -68,7 +68,6 @@ describe('Database Schema and Models', () => {
       expect(typeof FitnessThresholdModel.create).toBe('function');
       expect(typeof FitnessThresholdModel.getCurrent).toBe('function');
       expect(typeof FitnessThresholdModel.update).toBe('function');
-      expect(typeof FitnessThresholdModel.checkUserMeetsThreshold).toBe('function');
       expect(typeof FitnessThresholdModel.initializeDefault).toBe('function');
       expect(typeof FitnessThresholdModel.getDefaultThreshold).toBe('function');
     });
@@ -0,0 +1,73 @@
+import { ScoringProfileModel } from '../ScoringProfile';
+import { prisma } from '../../config/database';
+import { Prisma } from '../../generated/prisma';
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    scoringProfile: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+  },
+}));
+
+const mockScoringProfile = prisma.scoringProfile as unknown as {
+  findFirst: jest.Mock;
+  create: jest.Mock;
+};
+
+const versionTaken = (): Prisma.PrismaClientKnownRequestError =>
+  new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+    code: 'P2002',
+    clientVersion: 'test',
+  });
+
+describe('ScoringProfileModel', () => {
+  const input = {
+    ...ScoringProfileModel.getDefaultSettings(),
+    createdBy: 'admin@test.com',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockScoringProfile.create.mockImplementation(async ({ data }) => ({
+      id: `profile-${data.version}`,
+      notes: null,
+      createdAt: new Date(),
+      ...data,
+    }));
+  });
+
+  describe('getDefaultSettings', () => {
+    it('should leave exposure and diversity re-ranking off, as the columns do', () => {
+      expect(ScoringProfileModel.getDefaultSettings()).toMatchObject({
+        exposureStrength: 0,
+        diversityStrength: 0,
+      });
+    });
+  });
+
+  describe('create', () => {
+    it('should retry with the next version when another save took it', async () => {
+      mockScoringProfile.findFirst
+        .mockResolvedValueOnce({ version: 3 })
+        .mockResolvedValueOnce({ version: 4 });
+      mockScoringProfile.create.mockRejectedValueOnce(versionTaken());
+
+      const profile = await ScoringProfileModel.create(input);
+
+      expect(profile.version).toBe(5);
+      expect(mockScoringProfile.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after repeated version conflicts', async () => {
+      mockScoringProfile.findFirst.mockResolvedValue({ version: 3 });
+      mockScoringProfile.create.mockRejectedValue(versionTaken());
+
+      await expect(ScoringProfileModel.create(input)).rejects.toThrow(
+        'Unique constraint failed'
+      );
+      expect(mockScoringProfile.create).toHaveBeenCalledTimes(3);
+    });
+  });
+});
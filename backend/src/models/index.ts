@@ -4,8 +4,13 @@ export { FitnessStatsModel } from './FitnessStats';
 export { StravaActivityModel } from './StravaActivity';
 export { MatchModel } from './Match';
 export { MatchingPreferencesModel } from './MatchingPreferences';
+export { SwipeModel } from './Swipe';
 export { MessageModel } from './Message';
 export { FitnessThresholdModel } from './FitnessThreshold';
+export { ScoringProfileModel } from './ScoringProfile';
+export { RecommendationQueueModel } from './RecommendationQueue';
+export { BlockModel } from './Block';
+export { ReportModel } from './Report';
 
 // Re-export Prisma client for direct access when needed
 export { prisma } from '../config/database';
\ No newline at end of file
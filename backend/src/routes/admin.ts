@@ -56,8 +56,17 @@ router.get('/thresholds', AdminStatsController.getAllThresholds); // List all th
 router.put('/threshold', AdminController.updateThreshold);
 router.post('/threshold/reset', AdminController.resetToDefault);
 router.post('/threshold/validate', AdminController.validateThreshold);
+router.post('/threshold/simulate', AdminController.simulateThreshold); // Impact on existing users
 router.get('/threshold/history', AdminController.getThresholdHistory);
 router.get('/threshold/statistics', AdminController.getThresholdStatistics);
+router.get('/threshold/profiles', AdminController.getThresholdProfiles); // General and per-sport profiles
+router.post('/threshold/:thresholdId/rollback', AdminController.rollbackThreshold); // Republish a version
+
+// Compatibility scoring profile routes
+router.get('/scoring-profile', AdminController.getScoringProfile);
+router.put('/scoring-profile', AdminController.updateScoringProfile);
+router.get('/scoring-profile/history', AdminController.getScoringProfileHistory);
+router.post('/scoring-profile/preview', AdminController.previewScoringProfile);
 
 // Dashboard and stats routes
 router.get('/stats', AdminStatsController.getStats);
@@ -68,4 +77,11 @@ router.get('/users', AdminStatsController.getUsers);
 router.get('/users/:userId/fitness', AdminController.evaluateUserFitness);
 router.post('/users/batch-evaluate', AdminController.batchEvaluateUsers);
 
+// Match maintenance routes
+router.post('/matches/backfill-compatibility', AdminController.backfillMatchCompatibility);
+
+// Report moderation routes
+router.get('/reports', AdminController.getReports);
+router.put('/reports/:reportId', AdminController.reviewReport);
+
 export default router;
\ No newline at end of file
@@ -12,5 +12,6 @@ router.use(authenticateToken);
 router.get('/evaluate', FitnessController.evaluateMyFitness);
 router.get('/metrics', FitnessController.getMyMetrics);
 router.get('/eligibility', FitnessController.checkEligibility);
+router.delete('/eligibility/notice', FitnessController.dismissEligibilityNotice);
 
 export default router;
\ No newline at end of file
@@ -9,22 +9,35 @@ router.use(authenticateToken);
 
 /**
  * @route GET /api/matching/potential
- * @desc Get potential matches for the authenticated user
+ * @desc Get a page of potential matches for the authenticated user. The first page
+ *       ranks the candidate pool into a snapshot that later pages are read from.
  * @access Private
  * @query limit - Number of matches to return (default: 20, max: 100)
- * @query offset - Number of matches to skip (default: 0)
+ * @query cursor - nextCursor from the previous page; omit for the first page.
+ *        An expired cursor returns 410 and the client should start over.
+ * @query mode - dating or partner (default: the first mode the user's discovery mode covers)
  */
 router.get('/potential', MatchingController.getPotentialMatches);
 
 /**
  * @route POST /api/matching/match
- * @desc Create a match (like/swipe right)
+ * @desc Like a user (swipe right); creates a match only when the like is mutual
  * @access Private
- * @body targetUserId - ID of the user to match with
- * @body compatibilityScore - Calculated compatibility score (0-100)
+ * @body targetUserId - ID of the user to like
+ * @body mode - Optional: dating or partner; matches in each mode are separate
  */
 router.post('/match', MatchingController.createMatch);
 
+/**
+ * @route POST /api/matching/swipe
+ * @desc Record a swipe decision; returns the match if it completes a mutual like
+ * @access Private
+ * @body targetUserId - ID of the user being swiped on
+ * @body decision - One of: like, pass, super_like
+ * @body mode - Optional: dating or partner; matches in each mode are separate
+ */
+router.post('/swipe', MatchingController.swipe);
+
 /**
  * @route GET /api/matching/matches
  * @desc Get user's existing matches
@@ -49,6 +62,25 @@ router.get('/stats', MatchingController.getMatchStats);
  */
 router.put('/matches/:matchId/archive', MatchingController.archiveMatch);
 
+/**
+ * @route POST /api/matching/matches/:matchId/unmatch
+ * @desc Unmatch: removes the match and conversation for both users and keeps
+ *       the pair out of each other's deck until the rematch cooldown ends
+ * @access Private
+ * @param matchId - ID of the match to remove
+ * @body reason - Optional: no_chemistry, not_responsive, met_someone, no_longer_looking, other
+ */
+router.post('/matches/:matchId/unmatch', MatchingController.unmatch);
+
+/**
+ * @route GET /api/matching/matches/:matchId/score-history
+ * @desc Get how the match's compatibility score has changed as both users
+ *       kept training, newest first
+ * @access Private
+ * @param matchId - ID of the match
+ */
+router.get('/matches/:matchId/score-history', MatchingController.getMatchScoreHistory);
+
 /**
  * @route GET /api/matching/preferences
  * @desc Get user's matching preferences
@@ -64,13 +96,20 @@ router.get('/preferences', MatchingController.getMatchingPreferences);
  * @body maxAge - Maximum age preference (18-100)
  * @body maxDistance - Maximum distance in km (1-1000)
  * @body preferredActivities - Array of preferred activity types
+ * @body dealbreakerActivities - Preferred activities a candidate must do; the others only boost the score
  * @body minCompatibilityScore - Minimum compatibility score (0-100)
+ * @body interestedIn - Genders to show (male, female, non-binary, other); empty shows everyone
+ * @body partnerAnyGender - Show every gender in partner mode, ignoring interestedIn (default: true)
+ * @body partnerAnyAge - Show every age in partner mode, ignoring minAge and maxAge (default: false)
+ * @body minWeeklyDistance, maxWeeklyDistance - Candidate weekly distance range in meters; null clears a bound
+ * @body minWeeklyActivities, maxWeeklyActivities - Candidate weekly activity count range
+ * @body minPace, maxPace - Candidate average pace range in seconds per km
  */
 router.put('/preferences', MatchingController.updateMatchingPreferences);
 
 /**
  * @route GET /api/matching/compatibility/:targetUserId
- * @desc Calculate compatibility score with target user
+ * @desc Calculate compatibility score with target user, with the reasons behind it
  * @access Private
  * @param targetUserId - ID of the user to calculate compatibility with
  */
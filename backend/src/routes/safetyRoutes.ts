@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { SafetyController } from '../controllers/safetyController';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+
+// Apply authentication middleware to all safety routes
+router.use(authenticateToken);
+
+/**
+ * @route GET /api/safety/blocks
+ * @desc Get the users the authenticated user has blocked
+ * @access Private
+ */
+router.get('/blocks', SafetyController.getBlockedUsers);
+
+/**
+ * @route POST /api/safety/blocks
+ * @desc Block a user; hides them from discovery, matches and messaging in both directions
+ * @access Private
+ * @body userId - ID of the user to block
+ */
+router.post('/blocks', SafetyController.blockUser);
+
+/**
+ * @route DELETE /api/safety/blocks/:blockedUserId
+ * @desc Unblock a user
+ * @access Private
+ * @param blockedUserId - ID of the user to unblock
+ */
+router.delete('/blocks/:blockedUserId', SafetyController.unblockUser);
+
+/**
+ * @route POST /api/safety/reports
+ * @desc Report a user to the moderation team
+ * @access Private
+ * @body reportedUserId - ID of the user being reported
+ * @body category - One of: harassment, inappropriate_content, spam, fake_profile, underage, safety_concern, other
+ * @body description - Optional details (max 2000 characters)
+ * @body messageIds - Optional IDs of messages from the conversation to attach as evidence (max 20)
+ * @body block - Also block the user (default: false)
+ */
+router.post('/reports', SafetyController.reportUser);
+
+export default router;
@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { authenticateToken } from '../middleware/auth';
 import { FitnessStatsModel } from '../models/FitnessStats';
 import { UserModel } from '../models/User';
+import { RecommendationQueueModel } from '../models/RecommendationQueue';
+import { RecommendationService } from '../services/recommendationService';
 import { stravaIntegrationService } from '../services/stravaIntegrationService';
 
 const router = Router();
@@ -37,6 +39,7 @@ router.get('/fitness-stats', authenticateToken, async (req, res): Promise<void>
           userId,
           ...syncResult.fitnessMetrics,
         });
+        await RecommendationQueueModel.invalidate(userId);
 
         res.json({
           success: true,
@@ -148,7 +151,8 @@ router.get('/profile/:userId', authenticateToken, async (req, res): Promise<void
 
 /**
  * @route   GET /users/recommendations
- * @desc    Get recommended matches for current user
+ * @desc    Get recommended matches for current user from their precomputed queue
+ * @query   limit - Number of recommendations (1-100, default 20)
  * @access  Private
  */
 router.get('/recommendations', authenticateToken, async (req, res): Promise<void> => {
@@ -164,12 +168,24 @@ router.get('/recommendations', authenticateToken, async (req, res): Promise<void
       return;
     }
 
-    // For now, return empty recommendations
-    // This will be implemented with the matching algorithm
+    const limit = parseInt(req.query.limit as string) || 20;
+    if (limit < 1 || limit > 100) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid limit',
+        message: 'Limit must be between 1 and 100',
+      });
+      return;
+    }
+
+    const recommendations = await RecommendationService.getRecommendations(userId, limit);
+
     res.json({
       success: true,
-      data: [],
-      message: 'No recommendations available yet',
+      data: recommendations,
+      message: recommendations.length > 0
+        ? 'Recommendations retrieved successfully'
+        : 'No recommendations available yet',
     });
   } catch (error) {
     console.error('Error fetching recommendations:', error);
@@ -0,0 +1,386 @@
+import { DiscoveryService } from '../discoveryService';
+import { DiscoverySnapshotModel } from '../../models/DiscoverySnapshot';
+import { UserModel } from '../../models/User';
+import { MatchingService, PotentialMatch } from '../matchingService';
+import { RecommendationService } from '../recommendationService';
+import { ExposureService } from '../exposureService';
+import { DiscoverySnapshot, RecommendationQueueEntry } from '../../types';
+
+// Mock the dependencies
+jest.mock('../../models/DiscoverySnapshot');
+jest.mock('../../models/User');
+jest.mock('../matchingService');
+jest.mock('../recommendationService');
+jest.mock('../exposureService');
+jest.mock('../../utils/logger');
+
+const mockDiscoverySnapshotModel = DiscoverySnapshotModel as jest.Mocked<
+  typeof DiscoverySnapshotModel
+>;
+const mockUserModel = UserModel as jest.Mocked<typeof UserModel>;
+const mockMatchingService = MatchingService as jest.Mocked<
+  typeof MatchingService
+>;
+const mockRecommendationService = RecommendationService as jest.Mocked<
+  typeof RecommendationService
+>;
+const mockExposureService = ExposureService as jest.Mocked<
+  typeof ExposureService
+>;
+
+const factors = (score: number) => ({
+  activityOverlap: score,
+  performanceSimilarity: score,
+  locationProximity: score,
+  ageCompatibility: score,
+  scheduleOverlap: score,
+  trainingAreaOverlap: score,
+});
+
+const potentialMatch = (userId: string, score: number): PotentialMatch => ({
+  userId,
+  user: {
+    id: userId,
+    firstName: userId,
+    lastName: 'Test',
+    age: 30,
+    city: 'Boulder',
+    state: 'CO',
+    photos: [],
+    bio: null,
+  },
+  compatibilityScore: score,
+  compatibilityFactors: factors(score),
+  compatibilityReasons: [],
+  fitnessStats: {
+    weeklyDistance: 20000,
+    weeklyActivities: 4,
+    averagePace: 300,
+    favoriteActivities: ['Run'],
+    totalDistance: 260000,
+  },
+});
+
+const snapshotOf = (
+  userIds: string[],
+  overrides: Partial<DiscoverySnapshot> = {}
+): DiscoverySnapshot => ({
+  id: 'snapshot1',
+  userId: 'user1',
+  candidates: userIds.map((userId, index) => ({
+    userId,
+    compatibilityScore: 90 - index * 10,
+    compatibilityFactors: factors(90 - index * 10),
+    compatibilityReasons: [],
+  })),
+  mode: 'dating',
+  shownUserIds: [],
+  createdAt: new Date(),
+  expiresAt: new Date(Date.now() + 30 * 60 * 1000),
+  ...overrides,
+});
+
+const userIdsOf = (matches: PotentialMatch[]): string[] =>
+  matches.map(match => match.userId);
+
+describe('DiscoveryService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.DISCOVERY_SNAPSHOT_TTL_MINUTES;
+    mockUserModel.findById.mockResolvedValue({
+      id: 'user1',
+      email: 'user1@test.com',
+      stravaId: 1,
+      firstName: 'Test',
+      lastName: 'User',
+      age: 30,
+      city: 'Boulder',
+      state: 'CO',
+      latitude: 40.015,
+      longitude: -105.27,
+      photos: [],
+      discoveryMode: 'both',
+      createdAt: new Date(),
+      lastActive: new Date(),
+    });
+    mockMatchingService.getMatchModes.mockReturnValue(['dating', 'partner']);
+    mockMatchingService.resolveMatchMode.mockImplementation(
+      (_user, mode) => mode ?? 'dating'
+    );
+    mockDiscoverySnapshotModel.create.mockImplementation(
+      async (userId, mode, candidates, expiresAt, shownUserIds = []) => ({
+        id: 'snapshot1',
+        userId,
+        mode,
+        candidates,
+        shownUserIds,
+        createdAt: new Date(),
+        expiresAt,
+      })
+    );
+    mockRecommendationService.removeSeenCandidates.mockImplementation(
+      async (_userId, candidates) => candidates
+    );
+    mockRecommendationService.hydrateCandidates.mockImplementation(
+      async (candidates: RecommendationQueueEntry[]) =>
+        candidates.map(candidate =>
+          potentialMatch(candidate.userId, candidate.compatibilityScore)
+        )
+    );
+  });
+
+  describe('getPage', () => {
+    it('should rank the pool into a snapshot for the first page', async () => {
+      mockMatchingService.findPotentialMatches.mockResolvedValue([
+        potentialMatch('alice', 90),
+        potentialMatch('bob', 80),
+        potentialMatch('carol', 70),
+      ]);
+
+      const page = await DiscoveryService.getPage('user1', 2);
+
+      expect(mockMatchingService.findPotentialMatches).toHaveBeenCalledWith(
+        'user1',
+        100,
+        0,
+        undefined,
+        'dating'
+      );
+      const [, mode, candidates, expiresAt] =
+        mockDiscoverySnapshotModel.create.mock.calls[0];
+      expect(mode).toBe('dating');
+      expect(userIdsOf(candidates as unknown as PotentialMatch[])).toEqual([
+        'alice',
+        'bob',
+        'carol',
+      ]);
+      expect((expiresAt.getTime() - Date.now()) / 60000).toBeCloseTo(30, 1);
+      expect(userIdsOf(page.data)).toEqual(['alice', 'bob']);
+      expect(page.nextCursor).toEqual(expect.any(String));
+      expect(page.mode).toBe('dating');
+      expect(page.modes).toEqual(['dating', 'partner']);
+    });
+
+    it('should keep a separate deck for training partners', async () => {
+      mockMatchingService.findPotentialMatches.mockResolvedValue([
+        potentialMatch('alice', 90),
+      ]);
+
+      const page = await DiscoveryService.getPage(
+        'user1',
+        20,
+        undefined,
+        'partner'
+      );
+
+      expect(mockMatchingService.findPotentialMatches).toHaveBeenCalledWith(
+        'user1',
+        100,
+        0,
+        undefined,
+        'partner'
+      );
+      expect(mockDiscoverySnapshotModel.create.mock.calls[0][1]).toBe(
+        'partner'
+      );
+      expect(
+        mockRecommendationService.removeSeenCandidates
+      ).toHaveBeenCalledWith('user1', expect.any(Array), 'partner');
+      expect(page.mode).toBe('partner');
+    });
+
+    it('should read later pages from the snapshot without rescoring', async () => {
+      mockMatchingService.findPotentialMatches.mockResolvedValue([
+        potentialMatch('alice', 90),
+        potentialMatch('bob', 80),
+        potentialMatch('carol', 70),
+      ]);
+      const firstPage = await DiscoveryService.getPage('user1', 2);
+      mockDiscoverySnapshotModel.findById.mockResolvedValue(
+        snapshotOf(['alice', 'bob', 'carol'])
+      );
+
+      const secondPage = await DiscoveryService.getPage(
+        'user1',
+        2,
+        firstPage.nextCursor!
+      );
+
+      expect(mockMatchingService.findPotentialMatches).toHaveBeenCalledTimes(1);
+      expect(mockDiscoverySnapshotModel.findById).toHaveBeenCalledWith(
+        'snapshot1'
+      );
+      expect(userIdsOf(secondPage.data)).toEqual(['carol']);
+      expect(secondPage.nextCursor).toBeNull();
+    });
+
+    it('should carry on past a full snapshot without repeating anyone', async () => {
+      const ranked = Array.from({ length: 150 }, (_, i) =>
+        potentialMatch(`user-${i}`, 100 - i / 2)
+      );
+      mockMatchingService.findPotentialMatches.mockImplementation(
+        async (_userId, limit = 20) => ranked.slice(0, limit)
+      );
+      const firstSnapshotIds = ranked.slice(0, 100).map(match => match.userId);
+      mockDiscoverySnapshotModel.findById.mockResolvedValue(
+        snapshotOf(firstSnapshotIds)
+      );
+      const lastPage = await DiscoveryService.getPage(
+        'user1',
+        20,
+        Buffer.from(
+          JSON.stringify({ snapshotId: 'snapshot1', position: 80 })
+        ).toString('base64url')
+      );
+      expect(lastPage.nextCursor).toEqual(expect.any(String));
+
+      const continued = await DiscoveryService.getPage(
+        'user1',
+        20,
+        lastPage.nextCursor!
+      );
+
+      expect(mockMatchingService.findPotentialMatches).toHaveBeenCalledWith(
+        'user1',
+        200,
+        0,
+        undefined,
+        'dating'
+      );
+      const [, , candidates, , shownUserIds] =
+        mockDiscoverySnapshotModel.create.mock.calls[0];
+      expect(candidates).toHaveLength(50);
+      expect(shownUserIds).toEqual(firstSnapshotIds);
+      expect(userIdsOf(continued.data)[0]).toBe('user-100');
+    });
+
+    it('should end the deck when a continuation finds nobody new', async () => {
+      const ranked = Array.from({ length: 100 }, (_, i) =>
+        potentialMatch(`user-${i}`, 100 - i / 2)
+      );
+      mockMatchingService.findPotentialMatches.mockResolvedValue(ranked);
+      mockDiscoverySnapshotModel.findById.mockResolvedValue(
+        snapshotOf(ranked.map(match => match.userId))
+      );
+
+      const page = await DiscoveryService.getPage(
+        'user1',
+        20,
+        Buffer.from(
+          JSON.stringify({ snapshotId: 'snapshot1', position: 100 })
+        ).toString('base64url')
+      );
+
+      expect(page.data).toEqual([]);
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it('should drop candidates seen since the snapshot without moving pages', async () => {
+      mockMatchingService.findPotentialMatches.mockResolvedValue([]);
+      mockDiscoverySnapshotModel.create.mockResolvedValue(
+        snapshotOf(['alice', 'bob', 'carol', 'dave'])
+      );
+      mockRecommendationService.removeSeenCandidates.mockImplementation(
+        async (_userId, candidates) =>
+          candidates.filter(candidate => candidate.userId !== 'bob')
+      );
+
+      const firstPage = await DiscoveryService.getPage('user1', 2);
+      mockDiscoverySnapshotModel.findById.mockResolvedValue(
+        snapshotOf(['alice', 'bob', 'carol', 'dave'])
+      );
+      const secondPage = await DiscoveryService.getPage(
+        'user1',
+        2,
+        firstPage.nextCursor!
+      );
+
+      expect(userIdsOf(firstPage.data)).toEqual(['alice']);
+      expect(userIdsOf(secondPage.data)).toEqual(['carol', 'dave']);
+      // Only profiles actually served count as impressions
+      expect(mockExposureService.recordImpressions).toHaveBeenNthCalledWith(1, [
+        'alice',
+      ]);
+      expect(mockExposureService.recordImpressions).toHaveBeenNthCalledWith(2, [
+        'carol',
+        'dave',
+      ]);
+    });
+
+    it("should reject another user's cursor", async () => {
+      mockMatchingService.findPotentialMatches.mockResolvedValue([
+        potentialMatch('alice', 90),
+        potentialMatch('bob', 80),
+      ]);
+      const { nextCursor } = await DiscoveryService.getPage('user1', 1);
+      mockDiscoverySnapshotModel.findById.mockResolvedValue(
+        snapshotOf(['alice', 'bob'])
+      );
+
+      await expect(
+        DiscoveryService.getPage('user2', 1, nextCursor!)
+      ).rejects.toThrow('Invalid cursor');
+    });
+
+    it('should reject a cursor it did not issue', async () => {
+      await expect(
+        DiscoveryService.getPage('user1', 20, 'not-a-cursor')
+      ).rejects.toThrow('Invalid cursor');
+      expect(mockDiscoverySnapshotModel.findById).not.toHaveBeenCalled();
+    });
+
+    it('should reject a cursor whose snapshot has expired', async () => {
+      mockMatchingService.findPotentialMatches.mockResolvedValue([
+        potentialMatch('alice', 90),
+        potentialMatch('bob', 80),
+      ]);
+      const { nextCursor } = await DiscoveryService.getPage('user1', 1);
+      mockDiscoverySnapshotModel.findById.mockResolvedValue(
+        snapshotOf(['alice', 'bob'], { expiresAt: new Date(Date.now() - 1000) })
+      );
+
+      await expect(
+        DiscoveryService.getPage('user1', 1, nextCursor!)
+      ).rejects.toThrow('Cursor has expired');
+    });
+
+    it('should reject a cursor from the deck of another mode', async () => {
+      mockMatchingService.findPotentialMatches.mockResolvedValue([
+        potentialMatch('alice', 90),
+        potentialMatch('bob', 80),
+      ]);
+      const { nextCursor } = await DiscoveryService.getPage('user1', 1);
+      mockDiscoverySnapshotModel.findById.mockResolvedValue(
+        snapshotOf(['alice', 'bob'])
+      );
+
+      await expect(
+        DiscoveryService.getPage('user1', 1, nextCursor!, 'partner')
+      ).rejects.toThrow('Invalid cursor');
+    });
+
+    it('should expire a deck for a mode the user no longer browses', async () => {
+      mockMatchingService.findPotentialMatches.mockResolvedValue([
+        potentialMatch('alice', 90),
+        potentialMatch('bob', 80),
+      ]);
+      const { nextCursor } = await DiscoveryService.getPage('user1', 1);
+      mockMatchingService.getMatchModes.mockReturnValue(['partner']);
+      mockDiscoverySnapshotModel.findById.mockResolvedValue(
+        snapshotOf(['alice', 'bob'])
+      );
+
+      await expect(
+        DiscoveryService.getPage('user1', 1, nextCursor!)
+      ).rejects.toThrow('Cursor has expired');
+    });
+  });
+
+  describe('getSnapshotTtlMinutes', () => {
+    it('should use the configured snapshot lifetime', () => {
+      process.env.DISCOVERY_SNAPSHOT_TTL_MINUTES = '10';
+
+      expect(DiscoveryService.getSnapshotTtlMinutes()).toBe(10);
+    });
+  });
+});
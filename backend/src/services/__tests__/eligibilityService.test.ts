@@ -0,0 +1,264 @@
+import { EligibilityService } from '../eligibilityService';
+import {
+  FitnessEvaluationService,
+  FitnessMetrics,
+  ThresholdEvaluationResult,
+} from '../fitnessEvaluationService';
+import { MessageService } from '../messageService';
+import { UserModel } from '../../models/User';
+import { FitnessThreshold, User } from '../../types';
+
+// Mock the dependencies
+jest.mock('../../models/User');
+jest.mock('../fitnessEvaluationService');
+jest.mock('../messageService', () => ({
+  MessageService: { notifyUser: jest.fn() },
+}));
+jest.mock('../../utils/logger');
+
+const mockUserModel = UserModel as jest.Mocked<typeof UserModel>;
+const mockFitnessEvaluationService = FitnessEvaluationService as jest.Mocked<
+  typeof FitnessEvaluationService
+>;
+const mockMessageService = MessageService as jest.Mocked<typeof MessageService>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const threshold: FitnessThreshold = {
+  id: 'threshold-1',
+  weeklyDistance: 10000,
+  weeklyActivities: 2,
+  averagePace: null,
+  allowedActivityTypes: [],
+  rules: null,
+  sportFamily: null,
+  effectiveFrom: new Date('2025-09-01'),
+  restoredFromId: null,
+  updatedAt: new Date('2025-09-01'),
+  updatedBy: 'admin@example.com',
+};
+
+const user = (
+  eligibilityStatus: string,
+  graceEndsAt: Date | null = null
+): User => ({
+  id: 'user-1',
+  email: 'user-1@example.com',
+  stravaId: 1,
+  firstName: 'Alex',
+  lastName: 'Test',
+  age: 30,
+  city: 'Boulder',
+  state: 'CO',
+  latitude: 40,
+  longitude: -105,
+  photos: [],
+  createdAt: new Date(),
+  lastActive: new Date(),
+  eligibilityStatus,
+  graceEndsAt,
+});
+
+// An evaluation of a user training this much a week
+const evaluationFor = (
+  weeklyDistance: number,
+  weeklyActivities: number
+): ThresholdEvaluationResult => {
+  const metrics: FitnessMetrics = {
+    weeklyDistance,
+    weeklyActivities,
+    averagePace: undefined,
+    activityTypes: ['Run'],
+    weeklyTotalsByType: { Run: { weeklyDistance, weeklyActivities } },
+    totalDistance: weeklyDistance * 13,
+    longestActivity: 0,
+    consistencyScore: 0,
+  };
+  const evaluation = FitnessEvaluationService.evaluateMetricsAgainstThreshold(
+    metrics,
+    threshold
+  );
+  return { ...evaluation, metrics, threshold, sportFamily: 'run' };
+};
+
+const trainingWeekly = (
+  weeklyDistance: number,
+  weeklyActivities: number
+): void => {
+  mockFitnessEvaluationService.evaluateUserFitness.mockResolvedValue(
+    evaluationFor(weeklyDistance, weeklyActivities)
+  );
+};
+
+describe('EligibilityService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.ELIGIBILITY_GRACE_DAYS;
+    mockFitnessEvaluationService.evaluateMetricsAgainstThreshold.mockImplementation(
+      jest.requireActual('../fitnessEvaluationService').FitnessEvaluationService
+        .evaluateMetricsAgainstThreshold
+    );
+  });
+
+  describe('updateUserEligibility', () => {
+    it('should keep a user who meets the threshold eligible without notifying them', async () => {
+      mockUserModel.findById.mockResolvedValue(user('eligible'));
+      trainingWeekly(20000, 4);
+
+      const update = await EligibilityService.updateUserEligibility('user-1');
+
+      expect(update.status).toBe('eligible');
+      expect(mockUserModel.updateEligibility).toHaveBeenCalledWith(
+        'user-1',
+        'eligible',
+        null
+      );
+      expect(mockMessageService.notifyUser).not.toHaveBeenCalled();
+    });
+
+    it('should warn a user who meets the threshold with little to spare', async () => {
+      mockUserModel.findById.mockResolvedValue(user('eligible'));
+      trainingWeekly(10500, 4);
+
+      const update = await EligibilityService.updateUserEligibility('user-1');
+
+      expect(update.status).toBe('at_risk');
+      expect(mockMessageService.notifyUser).toHaveBeenCalledWith(
+        'user-1',
+        'eligibility-at-risk',
+        expect.objectContaining({ status: 'at_risk' })
+      );
+    });
+
+    it('should start a grace period when a user stops meeting the threshold', async () => {
+      mockUserModel.findById.mockResolvedValue(user('at_risk'));
+      trainingWeekly(5000, 1);
+      process.env.ELIGIBILITY_GRACE_DAYS = '7';
+
+      const update = await EligibilityService.updateUserEligibility('user-1');
+
+      expect(update.status).toBe('grace_period');
+      expect((update.graceEndsAt!.getTime() - Date.now()) / DAY_MS).toBeCloseTo(
+        7,
+        3
+      );
+      expect(mockMessageService.notifyUser).toHaveBeenCalledWith(
+        'user-1',
+        'eligibility-grace-period',
+        expect.objectContaining({ graceEndsAt: update.graceEndsAt })
+      );
+    });
+
+    it('should keep a user visible until their grace period ends', async () => {
+      const graceEndsAt = new Date(Date.now() + DAY_MS);
+      mockUserModel.findById.mockResolvedValue(
+        user('grace_period', graceEndsAt)
+      );
+      trainingWeekly(5000, 1);
+
+      const update = await EligibilityService.updateUserEligibility('user-1');
+
+      expect(update.status).toBe('grace_period');
+      expect(update.graceEndsAt).toBe(graceEndsAt);
+      expect(mockMessageService.notifyUser).not.toHaveBeenCalled();
+    });
+
+    it('should make a user ineligible once their grace period has ended', async () => {
+      mockUserModel.findById.mockResolvedValue(
+        user('grace_period', new Date(Date.now() - DAY_MS))
+      );
+      trainingWeekly(5000, 1);
+
+      const update = await EligibilityService.updateUserEligibility('user-1');
+
+      expect(update.status).toBe('ineligible');
+      expect(mockMessageService.notifyUser).toHaveBeenCalledWith(
+        'user-1',
+        'eligibility-lost',
+        expect.anything()
+      );
+    });
+
+    it('should reinstate an ineligible user who meets the threshold again', async () => {
+      mockUserModel.findById.mockResolvedValue(user('ineligible'));
+      trainingWeekly(20000, 4);
+
+      const update = await EligibilityService.updateUserEligibility('user-1');
+
+      expect(update.status).toBe('eligible');
+      expect(mockMessageService.notifyUser).toHaveBeenCalledWith(
+        'user-1',
+        'eligibility-restored',
+        expect.objectContaining({ status: 'eligible' })
+      );
+    });
+
+    it('should store the notification for users who are offline', async () => {
+      mockUserModel.findById.mockResolvedValue(user('at_risk'));
+      trainingWeekly(5000, 1);
+
+      await EligibilityService.updateUserEligibility('user-1');
+
+      expect(mockUserModel.setEligibilityNotice).toHaveBeenCalledWith(
+        'user-1',
+        'eligibility-grace-period'
+      );
+    });
+
+    it('should clear a stored at-risk warning once the user is no longer at risk', async () => {
+      mockUserModel.findById.mockResolvedValue(user('at_risk'));
+      trainingWeekly(20000, 4);
+
+      await EligibilityService.updateUserEligibility('user-1');
+
+      expect(mockUserModel.setEligibilityNotice).toHaveBeenCalledWith(
+        'user-1',
+        null
+      );
+      expect(mockMessageService.notifyUser).not.toHaveBeenCalled();
+    });
+
+    it('should leave the stored notification alone while the status is unchanged', async () => {
+      mockUserModel.findById.mockResolvedValue(user('eligible'));
+      trainingWeekly(20000, 4);
+
+      await EligibilityService.updateUserEligibility('user-1');
+
+      expect(mockUserModel.setEligibilityNotice).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processEndedGracePeriods', () => {
+    it('should count users made ineligible, reinstated or that failed', async () => {
+      mockUserModel.findEndedGracePeriodUserIds.mockResolvedValue([
+        'user-1',
+        'user-2',
+        'user-3',
+      ]);
+      mockUserModel.findById
+        .mockResolvedValueOnce(user('grace_period'))
+        .mockResolvedValueOnce(user('grace_period'))
+        .mockResolvedValueOnce(null);
+      mockFitnessEvaluationService.evaluateUserFitness
+        .mockResolvedValueOnce(evaluationFor(20000, 4))
+        .mockResolvedValueOnce(evaluationFor(5000, 1));
+
+      const result = await EligibilityService.processEndedGracePeriods();
+
+      expect(result).toEqual({
+        processed: 3,
+        reinstated: 1,
+        ineligible: 1,
+        failed: 1,
+      });
+    });
+  });
+
+  describe('getGraceDays', () => {
+    it('should always give at least a day of grace', () => {
+      process.env.ELIGIBILITY_GRACE_DAYS = '0';
+
+      expect(EligibilityService.getGraceDays()).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { ExposureService } from '../exposureService';
+import { ProfileExposureModel } from '../../models/ProfileExposure';
+import { logger } from '../../utils/logger';
+
+// Mock the dependencies
+jest.mock('../../models/ProfileExposure');
+jest.mock('../../utils/logger');
+
+const mockProfileExposureModel = ProfileExposureModel as jest.Mocked<
+  typeof ProfileExposureModel
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBeforeNow = (date: Date): number =>
+  (Date.now() - date.getTime()) / DAY_MS;
+
+describe('ExposureService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.EXPOSURE_WINDOW_DAYS;
+    mockProfileExposureModel.recordImpressions.mockResolvedValue();
+    mockProfileExposureModel.getImpressionTotals.mockResolvedValue([]);
+  });
+
+  describe('recordImpressions', () => {
+    it('should not fail the deck when counting fails', async () => {
+      mockProfileExposureModel.recordImpressions.mockRejectedValue(
+        new Error('Database unavailable')
+      );
+
+      await expect(
+        ExposureService.recordImpressions(['alice'])
+      ).resolves.toBeUndefined();
+      expect(logger.warn).toHaveBeenCalled();
+    });
+
+    it('should skip empty pages', async () => {
+      await ExposureService.recordImpressions([]);
+
+      expect(mockProfileExposureModel.recordImpressions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getImpressionCounts', () => {
+    it('should count impressions within the configured window', async () => {
+      process.env.EXPOSURE_WINDOW_DAYS = '14';
+      mockProfileExposureModel.getImpressionCounts.mockResolvedValue(
+        new Map([['alice', 3]])
+      );
+
+      const counts = await ExposureService.getImpressionCounts(['alice']);
+
+      const [userIds, since] =
+        mockProfileExposureModel.getImpressionCounts.mock.calls[0];
+      expect(userIds).toEqual(['alice']);
+      expect(daysBeforeNow(since)).toBeCloseTo(14, 3);
+      expect(counts.get('alice')).toBe(3);
+    });
+  });
+
+  describe('getExposureStats', () => {
+    it('should report the share of impressions going to the most shown profiles', async () => {
+      mockProfileExposureModel.getImpressionTotals.mockResolvedValue([
+        40, 20, 10, 5, 5, 5, 5, 4, 3, 2, 1,
+      ]);
+
+      const stats = await ExposureService.getExposureStats();
+
+      // 11 profiles shown, so the top 10% rounds up to the two most shown
+      expect(stats).toEqual({
+        windowDays: 7,
+        totalImpressions: 100,
+        profilesShown: 11,
+        topDecileShare: 0.6,
+      });
+    });
+
+    it('should report no concentration before anyone is shown', async () => {
+      const stats = await ExposureService.getExposureStats();
+
+      expect(stats.topDecileShare).toBe(0);
+      expect(stats.totalImpressions).toBe(0);
+    });
+  });
+});
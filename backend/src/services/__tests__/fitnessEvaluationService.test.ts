@@ -26,6 +26,7 @@ describe('FitnessEvaluationService', () => {
         weeklyActivities: 0,
         averagePace: undefined,
         activityTypes: [],
+        weeklyTotalsByType: {},
         totalDistance: 0,
         longestActivity: 0,
         consistencyScore: 0,
@@ -78,6 +79,8 @@ describe('FitnessEvaluationService', () => {
       expect(metrics.weeklyDistance).toBeCloseTo(35000 / (90/7), 1); // ~2692
       expect(metrics.weeklyActivities).toBeCloseTo(3 / (90/7), 1); // ~0.23
       expect(metrics.activityTypes).toEqual(['Run', 'Ride']);
+      expect(metrics.weeklyTotalsByType.Run.weeklyDistance).toBeCloseTo(15000 / (90/7), 1);
+      expect(metrics.weeklyTotalsByType.Ride.weeklyActivities).toBeCloseTo(1 / (90/7), 3);
       expect(metrics.longestActivity).toBe(20000);
       expect(metrics.averagePace).toBeDefined();
       expect(metrics.consistencyScore).toBeGreaterThan(0);
@@ -180,6 +183,10 @@ describe('FitnessEvaluationService', () => {
       weeklyActivities: 3,
       averagePace: 360, // 6:00/km
       allowedActivityTypes: ['Run', 'Ride'],
+      rules: null,
+      sportFamily: null,
+      effectiveFrom: new Date(),
+      restoredFromId: null,
       updatedAt: new Date(),
       updatedBy: 'admin',
     };
@@ -290,6 +297,72 @@ describe('FitnessEvaluationService', () => {
       expect(result.reasons).toContain('No fitness threshold configured');
     });
 
+    it('should evaluate a rule tree with per-rule reasons', async () => {
+      // 140km of running over 90 days is ~10.9km a week, too little for 20km of running,
+      // so only the cycling branch can pass
+      mockFitnessThresholdModel.getCurrent.mockResolvedValue({
+        ...mockThreshold,
+        rules: {
+          type: 'group',
+          operator: 'or',
+          rules: [
+            { type: 'condition', metric: 'weeklyDistance', min: 20000, activityType: 'Run' },
+            { type: 'condition', metric: 'weeklyActivities', min: 1, activityType: 'Ride' },
+          ],
+        },
+      });
+
+      const result = await FitnessEvaluationService.evaluateUserFitness('user1');
+
+      expect(result.meets).toBe(false);
+      expect(result.ruleResults?.results?.map(rule => rule.status)).toEqual(['failed', 'failed']);
+      expect(result.reasons).toContain('✗ Weekly Run distance: 10889m below requirement (20000m)');
+      expect(result.reasons).toContain('✗ Weekly Ride activities: 0 below requirement (1)');
+
+      const rides = mockActivities.map(activity => ({ ...activity, type: 'Ride' }));
+      mockStravaActivityModel.findByUserIdAndDateRange.mockResolvedValue(rides);
+
+      const rideResult = await FitnessEvaluationService.evaluateUserFitness('user1');
+
+      expect(rideResult.meets).toBe(true);
+      expect(rideResult.score).toBeGreaterThan(90);
+    });
+
+    it('should evaluate swimmers against the swim profile', async () => {
+      const swimThreshold: FitnessThreshold = {
+        ...mockThreshold,
+        id: 'swim1',
+        weeklyDistance: 3000,
+        averagePace: null,
+        allowedActivityTypes: ['Swim'],
+        sportFamily: 'swim',
+      };
+      mockFitnessThresholdModel.getCurrent.mockImplementation(async sportFamily =>
+        sportFamily === 'swim' ? swimThreshold : mockThreshold
+      );
+      // 140km of swimming would fail the general profile's allowed types
+      const swims = mockActivities.map(activity => ({ ...activity, type: 'Swim' }));
+      mockStravaActivityModel.findByUserIdAndDateRange.mockResolvedValue(swims);
+
+      const result = await FitnessEvaluationService.evaluateUserFitness('user1');
+
+      expect(mockFitnessThresholdModel.getCurrent).toHaveBeenCalledWith('swim');
+      expect(result.sportFamily).toBe('swim');
+      expect(result.threshold).toEqual(swimThreshold);
+      expect(result.meets).toBe(true);
+    });
+
+    it('should fall back to the general profile for sports without one', async () => {
+      mockFitnessThresholdModel.getCurrent.mockImplementation(async sportFamily =>
+        sportFamily ? null : mockThreshold
+      );
+
+      const result = await FitnessEvaluationService.evaluateUserFitness('user1');
+
+      expect(result.sportFamily).toBe('run');
+      expect(result.threshold).toEqual(mockThreshold);
+    });
+
     it('should handle user with no activities', async () => {
       mockStravaActivityModel.findByUserIdAndDateRange.mockResolvedValue([]);
 
@@ -309,6 +382,10 @@ describe('FitnessEvaluationService', () => {
         weeklyActivities: 4,
         averagePace: 300,
         allowedActivityTypes: ['Run'],
+        rules: null,
+        sportFamily: null,
+        effectiveFrom: new Date(),
+        restoredFromId: null,
         updatedAt: new Date(),
         updatedBy: 'admin@test.com',
       };
@@ -342,6 +419,17 @@ describe('FitnessEvaluationService', () => {
       ).rejects.toThrow('Weekly distance must be between 0 and 100,000 meters');
     });
 
+    it('should not schedule a threshold in the past', async () => {
+      await expect(
+        FitnessEvaluationService.updateThreshold({
+          weeklyDistance: 15000,
+          effectiveFrom: new Date(Date.now() - 60000),
+          updatedBy: 'admin',
+        })
+      ).rejects.toThrow('Effective date cannot be in the past');
+      expect(mockFitnessThresholdModel.update).not.toHaveBeenCalled();
+    });
+
     it('should throw error for invalid weekly activities', async () => {
       await expect(
         FitnessEvaluationService.updateThreshold({
@@ -360,6 +448,59 @@ describe('FitnessEvaluationService', () => {
       ).rejects.toThrow('Average pace must be between 3:00 and 20:00 per km');
     });
 
+    it('should save a valid rule tree', async () => {
+      const rules = {
+        type: 'group' as const,
+        operator: 'or' as const,
+        rules: [
+          { type: 'condition' as const, metric: 'weeklyDistance' as const, min: 20000, activityType: 'Run' },
+          { type: 'condition' as const, metric: 'weeklyDistance' as const, min: 80000, activityType: 'Ride' },
+        ],
+      };
+
+      await FitnessEvaluationService.updateThreshold({ rules, updatedBy: 'admin' });
+
+      expect(mockFitnessThresholdModel.update).toHaveBeenCalledWith(
+        expect.objectContaining({ rules })
+      );
+    });
+
+    it('should reject rule trees with invalid groups or values', async () => {
+      await expect(
+        FitnessEvaluationService.updateThreshold({
+          rules: { type: 'group', operator: 'or', rules: [] },
+          updatedBy: 'admin',
+        })
+      ).rejects.toThrow('Rule groups must contain at least one rule');
+
+      await expect(
+        FitnessEvaluationService.updateThreshold({
+          rules: {
+            type: 'group',
+            operator: 'and',
+            rules: [{ type: 'condition', metric: 'averagePace', max: 60 }],
+          },
+          updatedBy: 'admin',
+        })
+      ).rejects.toThrow('Average pace must be between 3:00 and 20:00 per km');
+
+      await expect(
+        FitnessEvaluationService.updateThreshold({
+          rules: { type: 'condition', metric: 'weeklyDistance', min: 5000, activityType: 'Surf' },
+          updatedBy: 'admin',
+        })
+      ).rejects.toThrow('Invalid activity types: Surf');
+    });
+
+    it('should throw error for an unknown sport family', async () => {
+      await expect(
+        FitnessEvaluationService.updateThreshold({
+          sportFamily: 'surf' as never,
+          updatedBy: 'admin',
+        })
+      ).rejects.toThrow('Sport family must be one of: run, ride, swim, multisport, strength');
+    });
+
     it('should throw error for invalid activity types', async () => {
       await expect(
         FitnessEvaluationService.updateThreshold({
@@ -370,6 +511,90 @@ describe('FitnessEvaluationService', () => {
     });
   });
 
+  describe('rollbackThreshold', () => {
+    it('should republish an earlier version at the requested time', async () => {
+      const effectiveFrom = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+      const restored: FitnessThreshold = {
+        id: 'threshold3',
+        weeklyDistance: 10000,
+        weeklyActivities: 3,
+        averagePace: null,
+        allowedActivityTypes: [],
+        rules: null,
+        sportFamily: null,
+        effectiveFrom,
+        restoredFromId: 'threshold1',
+        updatedAt: new Date(),
+        updatedBy: 'admin',
+      };
+      mockFitnessThresholdModel.republish.mockResolvedValue(restored);
+
+      const result = await FitnessEvaluationService.rollbackThreshold(
+        'threshold1',
+        'admin',
+        effectiveFrom
+      );
+
+      expect(result).toBe(restored);
+      expect(mockFitnessThresholdModel.republish).toHaveBeenCalledWith(
+        'threshold1',
+        'admin',
+        effectiveFrom
+      );
+    });
+
+    it('should throw when the version does not exist', async () => {
+      mockFitnessThresholdModel.republish.mockResolvedValue(null);
+
+      await expect(
+        FitnessEvaluationService.rollbackThreshold('missing', 'admin')
+      ).rejects.toThrow('Threshold version not found');
+    });
+  });
+
+  describe('getThresholdProfiles', () => {
+    it('should list the general profile and every sport with the rules each uses', async () => {
+      const rideThreshold: FitnessThreshold = {
+        id: 'ride1',
+        weeklyDistance: 80000,
+        weeklyActivities: 2,
+        averagePace: null,
+        allowedActivityTypes: [],
+        rules: null,
+        sportFamily: 'ride',
+        effectiveFrom: new Date(),
+        restoredFromId: null,
+        updatedAt: new Date(),
+        updatedBy: 'admin',
+      };
+      mockFitnessThresholdModel.getCurrent.mockImplementation(async sportFamily =>
+        sportFamily === 'ride' ? rideThreshold : null
+      );
+      mockFitnessThresholdModel.getScheduled.mockResolvedValue([]);
+
+      const profiles = await FitnessEvaluationService.getThresholdProfiles();
+
+      expect(profiles.map(profile => profile.sportFamily)).toEqual([
+        null, 'run', 'ride', 'swim', 'multisport', 'strength',
+      ]);
+      expect(profiles[2].threshold).toEqual(rideThreshold);
+      expect(profiles[2].rules).toEqual({
+        type: 'group',
+        operator: 'and',
+        rules: [
+          { type: 'condition', metric: 'weeklyDistance', min: 80000 },
+          { type: 'condition', metric: 'weeklyActivities', min: 2 },
+        ],
+      });
+      expect(profiles[1]).toEqual({
+        sportFamily: 'run',
+        threshold: null,
+        rules: null,
+        scheduled: [],
+      });
+    });
+  });
+
   describe('getUserAdmissionDecision', () => {
     it('should return admission decision for qualified user', async () => {
       const mockThreshold: FitnessThreshold = {
@@ -378,6 +603,10 @@ describe('FitnessEvaluationService', () => {
         weeklyActivities: 2,
         averagePace: null,
         allowedActivityTypes: [],
+        rules: null,
+        sportFamily: null,
+        effectiveFrom: new Date(),
+        restoredFromId: null,
         updatedAt: new Date(),
         updatedBy: 'admin',
       };
@@ -420,6 +649,10 @@ describe('FitnessEvaluationService', () => {
         weeklyActivities: 10,
         averagePace: null,
         allowedActivityTypes: [],
+        rules: null,
+        sportFamily: null,
+        effectiveFrom: new Date(),
+        restoredFromId: null,
         updatedAt: new Date(),
         updatedBy: 'admin',
       };
@@ -442,6 +675,10 @@ describe('FitnessEvaluationService', () => {
         weeklyActivities: 2,
         averagePace: null,
         allowedActivityTypes: [],
+        rules: null,
+        sportFamily: null,
+        effectiveFrom: new Date(),
+        restoredFromId: null,
         updatedAt: new Date(),
         updatedBy: 'admin',
       };
@@ -0,0 +1,193 @@
+import { MatchExpiryService } from '../matchExpiryService';
+import { MatchModel } from '../../models/Match';
+import { MessageService } from '../messageService';
+import { prisma } from '../../config/database';
+import { Match } from '../../types';
+
+// Mock the dependencies
+jest.mock('../../models/Match');
+jest.mock('../messageService', () => ({
+  MessageService: { notifyUser: jest.fn() },
+}));
+jest.mock('../../config/database', () => ({
+  prisma: {
+    match: {
+      update: jest.fn(),
+    },
+  },
+}));
+jest.mock('../../utils/logger');
+
+const mockMatchModel = MatchModel as jest.Mocked<typeof MatchModel>;
+const mockMessageService = MessageService as jest.Mocked<typeof MessageService>;
+const mockPrismaMatch = prisma.match as unknown as { update: jest.Mock };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const match = (id: string, daysAgo: number): Match => ({
+  id,
+  user1Id: `${id}-a`,
+  user2Id: `${id}-b`,
+  compatibilityScore: 80,
+  matchedAt: new Date(Date.now() - daysAgo * DAY_MS),
+  status: 'active',
+  mode: 'dating',
+});
+
+const daysBeforeNow = (date: Date): number =>
+  (Date.now() - date.getTime()) / DAY_MS;
+
+describe('MatchExpiryService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.SILENT_MATCH_EXPIRY_DAYS;
+    mockMatchModel.findSilentMatchesToRemind.mockResolvedValue([]);
+    mockMatchModel.findSilentMatchesToExpire.mockResolvedValue([]);
+    mockMatchModel.expireIfSilent.mockResolvedValue(true);
+  });
+
+  describe('processSilentMatches', () => {
+    it('should remind both users a day before a silent match expires', async () => {
+      mockMatchModel.findSilentMatchesToRemind.mockResolvedValue([
+        match('match1', 6),
+      ]);
+
+      const result = await MatchExpiryService.processSilentMatches();
+
+      const [matchedBefore] =
+        mockMatchModel.findSilentMatchesToRemind.mock.calls[0];
+      expect(daysBeforeNow(matchedBefore)).toBeCloseTo(6, 3);
+      expect(mockMatchModel.markExpiryReminderSent).toHaveBeenCalledWith([
+        'match1',
+      ]);
+      expect(mockMessageService.notifyUser).toHaveBeenCalledWith(
+        'match1-a',
+        'match-expiring',
+        expect.objectContaining({ matchId: 'match1' })
+      );
+      expect(mockMessageService.notifyUser).toHaveBeenCalledWith(
+        'match1-b',
+        'match-expiring',
+        expect.objectContaining({ matchId: 'match1' })
+      );
+      expect(result).toEqual({ reminded: 1, expired: 0 });
+    });
+
+    it('should give a full day of warning to matches already past expiry', async () => {
+      mockMatchModel.findSilentMatchesToRemind.mockResolvedValue([
+        match('match1', 20),
+      ]);
+
+      await MatchExpiryService.processSilentMatches();
+
+      const [, , data] = mockMessageService.notifyUser.mock.calls[0];
+      const { expiresAt } = data as { expiresAt: Date };
+      expect(daysBeforeNow(expiresAt)).toBeCloseTo(-1, 3);
+    });
+
+    it('should expire silent matches whose reminder is a day old', async () => {
+      mockMatchModel.findSilentMatchesToExpire.mockResolvedValue([
+        match('match1', 8),
+        match('match2', 9),
+      ]);
+      // match2 got a message after it was selected
+      mockMatchModel.expireIfSilent.mockImplementation(
+        async id => id === 'match1'
+      );
+
+      const result = await MatchExpiryService.processSilentMatches();
+
+      const [matchedBefore, remindedBefore] =
+        mockMatchModel.findSilentMatchesToExpire.mock.calls[0];
+      expect(daysBeforeNow(matchedBefore)).toBeCloseTo(7, 3);
+      expect(daysBeforeNow(remindedBefore)).toBeCloseTo(1, 3);
+      expect(mockMessageService.notifyUser).toHaveBeenCalledTimes(2);
+      expect(mockMessageService.notifyUser).toHaveBeenCalledWith(
+        'match1-a',
+        'match-removed',
+        { matchId: 'match1' }
+      );
+      expect(result).toEqual({ reminded: 0, expired: 1 });
+    });
+
+    it('should use the configured expiry window', async () => {
+      process.env.SILENT_MATCH_EXPIRY_DAYS = '14';
+
+      await MatchExpiryService.processSilentMatches();
+
+      const [remindBefore] =
+        mockMatchModel.findSilentMatchesToRemind.mock.calls[0];
+      const [expireBefore] =
+        mockMatchModel.findSilentMatchesToExpire.mock.calls[0];
+      expect(daysBeforeNow(remindBefore)).toBeCloseTo(13, 3);
+      expect(daysBeforeNow(expireBefore)).toBeCloseTo(14, 3);
+      expect(mockMatchModel.markExpiryReminderSent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reopened matches', () => {
+    // The real model, to check what reopening a match stores
+    const { MatchModel: ActualMatchModel } =
+      jest.requireActual<typeof import('../../models/Match')>(
+        '../../models/Match'
+      );
+
+    it('should be reminded again before they expire', async () => {
+      const expired: Match = {
+        ...match('match1', 30),
+        status: 'blocked',
+        expiryReminderSentAt: new Date(Date.now() - 24 * DAY_MS),
+        expiredAt: new Date(Date.now() - 23 * DAY_MS),
+      };
+      mockPrismaMatch.update.mockImplementation(async ({ data }) => ({
+        ...expired,
+        ...data,
+      }));
+
+      const reopened = await ActualMatchModel.reactivate('match1', {
+        user1Id: expired.user1Id,
+        user2Id: expired.user2Id,
+        compatibilityScore: 80,
+      });
+
+      expect(reopened.status).toBe('active');
+      expect(reopened.expiryReminderSentAt).toBeNull();
+      expect(reopened.expiredAt).toBeNull();
+      // So it is picked up for a new reminder rather than shown as expiring
+      expect(MatchExpiryService.getExpiresAt(reopened)).toBeNull();
+    });
+  });
+
+  describe('getExpiresAt', () => {
+    it('should give the expiry of a reminded match for users who missed the reminder', () => {
+      const reminded = {
+        ...match('m1', 6),
+        expiryReminderSentAt: new Date(Date.now() - 0.5 * DAY_MS),
+      };
+
+      expect(
+        daysBeforeNow(MatchExpiryService.getExpiresAt(reminded)!)
+      ).toBeCloseTo(-1, 3);
+      expect(MatchExpiryService.getExpiresAt(match('m2', 6))).toBeNull();
+    });
+
+    it('should keep a full day after a late reminder', () => {
+      const remindedLate = {
+        ...match('m1', 10),
+        expiryReminderSentAt: new Date(Date.now() - 0.25 * DAY_MS),
+      };
+
+      expect(
+        daysBeforeNow(MatchExpiryService.getExpiresAt(remindedLate)!)
+      ).toBeCloseTo(-0.75, 3);
+    });
+  });
+
+  describe('getExpiryDays', () => {
+    it('should never leave less than a day between reminder and expiry', () => {
+      process.env.SILENT_MATCH_EXPIRY_DAYS = '1';
+
+      expect(MatchExpiryService.getExpiryDays()).toBe(2);
+    });
+  });
+});
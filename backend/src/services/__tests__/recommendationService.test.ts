@@ -0,0 +1,312 @@
+import { RecommendationService } from '../recommendationService';
+import { RecommendationQueueModel } from '../../models/RecommendationQueue';
+import { MatchModel } from '../../models/Match';
+import { SwipeModel } from '../../models/Swipe';
+import { BlockModel } from '../../models/Block';
+import { MatchingService, PotentialMatch } from '../matchingService';
+import { ExposureService } from '../exposureService';
+import {
+  CompatibilityReason,
+  RecommendationQueue,
+  ScoringProfileSettings,
+} from '../../types';
+import { prisma } from '../../config/database';
+
+// Mock the dependencies
+jest.mock('../../models/RecommendationQueue');
+jest.mock('../../models/Match');
+jest.mock('../../models/Swipe');
+jest.mock('../../models/Block');
+jest.mock('../matchingService');
+jest.mock('../exposureService');
+jest.mock('../../utils/logger');
+jest.mock('../../config/database', () => ({
+  prisma: {
+    user: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+const mockRecommendationQueueModel = RecommendationQueueModel as jest.Mocked<
+  typeof RecommendationQueueModel
+>;
+const mockMatchModel = MatchModel as jest.Mocked<typeof MatchModel>;
+const mockSwipeModel = SwipeModel as jest.Mocked<typeof SwipeModel>;
+const mockBlockModel = BlockModel as jest.Mocked<typeof BlockModel>;
+const mockMatchingService = MatchingService as jest.Mocked<
+  typeof MatchingService
+>;
+const mockExposureService = ExposureService as jest.Mocked<
+  typeof ExposureService
+>;
+const mockPrisma = prisma as any;
+
+const defaultSettings: ScoringProfileSettings = {
+  weights: {
+    activityOverlap: 0.4,
+    performanceSimilarity: 0.3,
+    locationProximity: 0.2,
+    ageCompatibility: 0.1,
+    scheduleOverlap: 0,
+    trainingAreaOverlap: 0,
+  },
+  maxDistanceKm: 100,
+  maxAgeDifference: 20,
+  exposureStrength: 0,
+  diversityStrength: 0,
+};
+
+const factors = (score: number) => ({
+  activityOverlap: score,
+  performanceSimilarity: score,
+  locationProximity: score,
+  ageCompatibility: score,
+  scheduleOverlap: score,
+  trainingAreaOverlap: score,
+});
+
+const reasons: CompatibilityReason[] = [
+  { code: 'nearby', factor: 'locationProximity', params: { distanceKm: 3 } },
+];
+
+const queueOf = (
+  userIds: string[],
+  overrides: Partial<RecommendationQueue> = {}
+): RecommendationQueue => ({
+  id: 'queue1',
+  userId: 'user1',
+  candidates: userIds.map((userId, index) => ({
+    userId,
+    compatibilityScore: 90 - index * 10,
+    compatibilityFactors: factors(90 - index * 10),
+    compatibilityReasons: reasons,
+  })),
+  generatedAt: new Date(),
+  isStale: false,
+  ...overrides,
+});
+
+const candidateRow = (id: string) => ({
+  id,
+  firstName: id,
+  lastName: 'Test',
+  age: 30,
+  city: 'Boulder',
+  state: 'CO',
+  photos: ['https://example.com/photo.jpg'],
+  bio: null,
+  fitnessStats: {
+    weeklyDistance: 20000,
+    weeklyActivities: 4,
+    averagePace: 300,
+    favoriteActivities: ['Run'],
+    totalDistance: 260000,
+  },
+});
+
+const potentialMatch = (userId: string, score: number): PotentialMatch => ({
+  userId,
+  user: {
+    id: userId,
+    firstName: userId,
+    lastName: 'Test',
+    age: 30,
+    city: 'Boulder',
+    state: 'CO',
+    photos: [],
+    bio: null,
+  },
+  compatibilityScore: score,
+  compatibilityFactors: factors(score),
+  compatibilityReasons: reasons,
+  fitnessStats: candidateRow(userId).fitnessStats,
+});
+
+describe('RecommendationService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockMatchModel.findByUserId.mockResolvedValue([]);
+    mockSwipeModel.getSwipedUserIds.mockResolvedValue([]);
+    mockBlockModel.getBlockedUserIds.mockResolvedValue([]);
+    mockMatchModel.getUnmatchedUserIdsSince.mockResolvedValue([]);
+    mockMatchingService.getScoringSettings.mockResolvedValue(defaultSettings);
+    mockMatchingService.getDefaultMatchMode.mockResolvedValue('dating');
+    mockPrisma.user.findMany.mockImplementation(
+      async (query: { where: { id: { in: string[] } } }) =>
+        query.where.id.in.map(candidateRow)
+    );
+  });
+
+  describe('getRecommendations', () => {
+    it('should serve a fresh queue without rescoring the pool', async () => {
+      mockRecommendationQueueModel.findByUserId.mockResolvedValue(
+        queueOf(['alice', 'bob', 'carol'])
+      );
+
+      const result = await RecommendationService.getRecommendations('user1', 2);
+
+      expect(mockMatchingService.findPotentialMatches).not.toHaveBeenCalled();
+      expect(result.map(match => match.userId)).toEqual(['alice', 'bob']);
+      expect(mockExposureService.recordImpressions).toHaveBeenCalledWith([
+        'alice',
+        'bob',
+      ]);
+      expect(result[0]).toMatchObject({
+        compatibilityScore: 90,
+        compatibilityReasons: reasons,
+        user: { photos: ['https://example.com/photo.jpg'] },
+        fitnessStats: { favoriteActivities: ['Run'] },
+      });
+    });
+
+    it('should rebuild a stale queue before serving it', async () => {
+      mockRecommendationQueueModel.findByUserId.mockResolvedValue(
+        queueOf(['alice'], { isStale: true })
+      );
+      mockMatchingService.findPotentialMatches.mockResolvedValue([
+        potentialMatch('dave', 95),
+        potentialMatch('alice', 70),
+      ]);
+      mockRecommendationQueueModel.replace.mockResolvedValue(
+        queueOf(['dave', 'alice'])
+      );
+
+      const result = await RecommendationService.getRecommendations('user1');
+
+      expect(mockMatchingService.findPotentialMatches).toHaveBeenCalledWith(
+        'user1',
+        100,
+        0,
+        undefined
+      );
+      expect(mockRecommendationQueueModel.replace).toHaveBeenCalledWith(
+        'user1',
+        [
+          {
+            userId: 'dave',
+            compatibilityScore: 95,
+            compatibilityFactors: factors(95),
+            compatibilityReasons: reasons,
+          },
+          {
+            userId: 'alice',
+            compatibilityScore: 70,
+            compatibilityFactors: factors(70),
+            compatibilityReasons: reasons,
+          },
+        ]
+      );
+      expect(result.map(match => match.userId)).toEqual(['dave', 'alice']);
+    });
+
+    it('should build a queue for a user who does not have one yet', async () => {
+      mockRecommendationQueueModel.findByUserId.mockResolvedValue(null);
+      mockMatchingService.findPotentialMatches.mockResolvedValue([]);
+      mockRecommendationQueueModel.replace.mockResolvedValue(queueOf([]));
+
+      const result = await RecommendationService.getRecommendations('user1');
+
+      expect(mockRecommendationQueueModel.replace).toHaveBeenCalledWith(
+        'user1',
+        []
+      );
+      expect(result).toEqual([]);
+      expect(mockPrisma.user.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should skip candidates swiped on or matched in the same mode since the queue was built', async () => {
+      mockRecommendationQueueModel.findByUserId.mockResolvedValue(
+        queueOf(['alice', 'bob', 'carol', 'dave'])
+      );
+      mockSwipeModel.getSwipedUserIds.mockResolvedValue(['alice']);
+      mockMatchModel.findByUserId.mockResolvedValue([
+        {
+          id: 'match1',
+          user1Id: 'carol',
+          user2Id: 'user1',
+          compatibilityScore: 80,
+          matchedAt: new Date(),
+          status: 'active',
+          mode: 'dating',
+        },
+        {
+          id: 'match2',
+          user1Id: 'user1',
+          user2Id: 'dave',
+          compatibilityScore: 80,
+          matchedAt: new Date(),
+          status: 'active',
+          mode: 'partner',
+        },
+      ]);
+
+      const result = await RecommendationService.getRecommendations('user1');
+
+      expect(mockSwipeModel.getSwipedUserIds).toHaveBeenCalledWith(
+        'user1',
+        'dating'
+      );
+      expect(result.map(match => match.userId)).toEqual(['bob', 'dave']);
+    });
+
+    it('should skip candidates blocked since the queue was built', async () => {
+      mockRecommendationQueueModel.findByUserId.mockResolvedValue(
+        queueOf(['alice', 'bob', 'carol'])
+      );
+      mockBlockModel.getBlockedUserIds.mockResolvedValue(['bob']);
+
+      const result = await RecommendationService.getRecommendations('user1');
+
+      expect(result.map(match => match.userId)).toEqual(['alice', 'carol']);
+    });
+
+    it('should skip candidates unmatched within the rematch cooldown', async () => {
+      mockRecommendationQueueModel.findByUserId.mockResolvedValue(
+        queueOf(['alice', 'bob', 'carol'])
+      );
+      mockMatchModel.getUnmatchedUserIdsSince.mockResolvedValue(['carol']);
+
+      const result = await RecommendationService.getRecommendations('user1');
+
+      expect(result.map(match => match.userId)).toEqual(['alice', 'bob']);
+    });
+
+    it('should drop candidates whose accounts no longer exist', async () => {
+      mockRecommendationQueueModel.findByUserId.mockResolvedValue(
+        queueOf(['alice', 'bob'])
+      );
+      mockPrisma.user.findMany.mockResolvedValue([candidateRow('bob')]);
+
+      const result = await RecommendationService.getRecommendations('user1');
+
+      expect(result.map(match => match.userId)).toEqual(['bob']);
+    });
+  });
+
+  describe('refreshQueues', () => {
+    it('should rebuild every queue needing refresh with one scoring profile', async () => {
+      mockRecommendationQueueModel.findUserIdsNeedingRefresh.mockResolvedValue([
+        'user1',
+        'user2',
+        'user3',
+      ]);
+      mockMatchingService.findPotentialMatches
+        .mockResolvedValueOnce([potentialMatch('alice', 80)])
+        .mockRejectedValueOnce(new Error('User or fitness stats not found'))
+        .mockResolvedValueOnce([]);
+
+      const result = await RecommendationService.refreshQueues();
+
+      expect(result).toEqual({ refreshed: 2, failed: 1 });
+      expect(mockMatchingService.getScoringSettings).toHaveBeenCalledTimes(1);
+      expect(mockMatchingService.findPotentialMatches).toHaveBeenCalledWith(
+        'user2',
+        100,
+        0,
+        defaultSettings
+      );
+      expect(mockRecommendationQueueModel.replace).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import { SafetyService } from '../safetyService';
+import { BlockModel } from '../../models/Block';
+import { ReportModel } from '../../models/Report';
+import { MatchModel } from '../../models/Match';
+import { MessageModel } from '../../models/Message';
+import { SwipeModel } from '../../models/Swipe';
+import { UserModel } from '../../models/User';
+import { Message, Report, User } from '../../types';
+
+// Mock the dependencies
+jest.mock('../../models/Block');
+jest.mock('../../models/Report');
+jest.mock('../../models/Match');
+jest.mock('../../models/Message');
+jest.mock('../../models/Swipe');
+jest.mock('../../models/User');
+jest.mock('../../utils/logger');
+
+const mockBlockModel = BlockModel as jest.Mocked<typeof BlockModel>;
+const mockReportModel = ReportModel as jest.Mocked<typeof ReportModel>;
+const mockMatchModel = MatchModel as jest.Mocked<typeof MatchModel>;
+const mockMessageModel = MessageModel as jest.Mocked<typeof MessageModel>;
+const mockSwipeModel = SwipeModel as jest.Mocked<typeof SwipeModel>;
+const mockUserModel = UserModel as jest.Mocked<typeof UserModel>;
+
+const reportedUser = { id: 'user2' } as User;
+
+const message = (id: string, senderId: string): Message => ({
+  id,
+  matchId: 'match1',
+  senderId,
+  content: `message ${id}`,
+  sentAt: new Date('2025-08-01T10:00:00Z'),
+  isRead: true,
+});
+
+const report = (overrides: Partial<Report> = {}): Report => ({
+  id: 'report1',
+  reporterId: 'user1',
+  reportedId: 'user2',
+  category: 'harassment',
+  description: null,
+  evidence: [
+    {
+      messageId: 'msg1',
+      senderId: 'user2',
+      content: 'message msg1',
+      sentAt: new Date('2025-08-01T10:00:00Z'),
+    },
+  ],
+  status: 'pending',
+  action: null,
+  resolutionNotes: null,
+  reviewedBy: null,
+  reviewedAt: null,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+describe('SafetyService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUserModel.findById.mockResolvedValue(reportedUser);
+    mockBlockModel.create.mockResolvedValue({
+      id: 'block1',
+      blockerId: 'user1',
+      blockedId: 'user2',
+      createdAt: new Date(),
+    });
+    mockMatchModel.findAllByUserIds.mockResolvedValue([]);
+  });
+
+  describe('blockUser', () => {
+    it("should close the users' matches in every mode", async () => {
+      const match = (id: string, mode: 'dating' | 'partner') => ({
+        id,
+        user1Id: 'user1',
+        user2Id: 'user2',
+        compatibilityScore: 80,
+        matchedAt: new Date(),
+        status: 'active' as const,
+        mode,
+      });
+      mockMatchModel.findAllByUserIds.mockResolvedValue([
+        match('match1', 'dating'),
+        match('match2', 'partner'),
+      ]);
+
+      await SafetyService.blockUser('user1', 'user2');
+
+      expect(mockBlockModel.create).toHaveBeenCalledWith('user1', 'user2');
+      expect(mockMatchModel.update).toHaveBeenCalledWith('match1', {
+        status: 'blocked',
+      });
+      expect(mockMatchModel.update).toHaveBeenCalledWith('match2', {
+        status: 'blocked',
+      });
+    });
+
+    it("should forget the users' likes so they must like each other again", async () => {
+      await SafetyService.blockUser('user1', 'user2');
+
+      expect(mockSwipeModel.deleteAllBetween).toHaveBeenCalledWith(
+        'user1',
+        'user2'
+      );
+    });
+
+    it('should leave unmatched matches alone so their rematch cooldown applies', async () => {
+      mockMatchModel.findAllByUserIds.mockResolvedValue([
+        {
+          id: 'match1',
+          user1Id: 'user1',
+          user2Id: 'user2',
+          compatibilityScore: 80,
+          matchedAt: new Date(),
+          status: 'unmatched',
+          unmatchedAt: new Date(),
+          mode: 'dating',
+        },
+      ]);
+
+      await SafetyService.blockUser('user1', 'user2');
+
+      expect(mockMatchModel.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject blocking a user that does not exist', async () => {
+      mockUserModel.findById.mockResolvedValue(null);
+
+      await expect(SafetyService.blockUser('user1', 'ghost')).rejects.toThrow(
+        'User not found'
+      );
+      expect(mockBlockModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reportUser', () => {
+    it('should snapshot messages from the conversation as evidence', async () => {
+      mockMessageModel.findBetweenUsers.mockResolvedValue([
+        message('msg1', 'user2'),
+        message('msg2', 'user1'),
+      ]);
+      mockReportModel.create.mockResolvedValue(report());
+
+      await SafetyService.reportUser('user1', {
+        reportedUserId: 'user2',
+        category: 'harassment',
+        messageIds: ['msg1', 'msg2', 'msg1'],
+      });
+
+      expect(mockMessageModel.findBetweenUsers).toHaveBeenCalledWith(
+        ['msg1', 'msg2'],
+        'user1',
+        'user2'
+      );
+      expect(mockReportModel.create).toHaveBeenCalledWith({
+        reporterId: 'user1',
+        reportedId: 'user2',
+        category: 'harassment',
+        evidence: [
+          expect.objectContaining({ messageId: 'msg1', senderId: 'user2' }),
+          expect.objectContaining({ messageId: 'msg2', senderId: 'user1' }),
+        ],
+      });
+      expect(mockBlockModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject evidence from outside the conversation', async () => {
+      mockMessageModel.findBetweenUsers.mockResolvedValue([
+        message('msg1', 'user2'),
+      ]);
+
+      await expect(
+        SafetyService.reportUser('user1', {
+          reportedUserId: 'user2',
+          category: 'harassment',
+          messageIds: ['msg1', 'someone-elses-message'],
+        })
+      ).rejects.toThrow(
+        'Evidence must be messages from your conversation with this user'
+      );
+      expect(mockReportModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should block the reported user when asked to', async () => {
+      mockReportModel.create.mockResolvedValue(report({ evidence: [] }));
+
+      await SafetyService.reportUser('user1', {
+        reportedUserId: 'user2',
+        category: 'fake_profile',
+        block: true,
+      });
+
+      expect(mockMessageModel.findBetweenUsers).not.toHaveBeenCalled();
+      expect(mockBlockModel.create).toHaveBeenCalledWith('user1', 'user2');
+    });
+  });
+
+  describe('reviewReport', () => {
+    it("should remove only the reported user's messages", async () => {
+      mockReportModel.findById.mockResolvedValue(report());
+      mockMessageModel.redact.mockResolvedValue(1);
+      mockReportModel.review.mockResolvedValue(
+        report({ status: 'actioned', action: 'remove_content' })
+      );
+
+      await SafetyService.reviewReport('report1', {
+        status: 'actioned',
+        action: 'remove_content',
+        reviewedBy: 'admin@test.com',
+      });
+
+      expect(mockMessageModel.redact).toHaveBeenCalledWith(
+        ['msg1'],
+        'user2',
+        '[Message removed by moderator]'
+      );
+      expect(mockReportModel.review).toHaveBeenCalledWith('report1', {
+        status: 'actioned',
+        action: 'remove_content',
+        reviewedBy: 'admin@test.com',
+      });
+    });
+
+    it('should drop the action when a report is dismissed', async () => {
+      mockReportModel.findById.mockResolvedValue(report());
+      mockReportModel.review.mockResolvedValue(report({ status: 'dismissed' }));
+
+      await SafetyService.reviewReport('report1', {
+        status: 'dismissed',
+        action: 'remove_content',
+        notes: 'Friendly banter',
+        reviewedBy: 'admin@test.com',
+      });
+
+      expect(mockMessageModel.redact).not.toHaveBeenCalled();
+      expect(mockReportModel.review).toHaveBeenCalledWith('report1', {
+        status: 'dismissed',
+        notes: 'Friendly banter',
+        reviewedBy: 'admin@test.com',
+      });
+    });
+
+    it('should require an action to action a report', async () => {
+      mockReportModel.findById.mockResolvedValue(report());
+
+      await expect(
+        SafetyService.reviewReport('report1', {
+          status: 'actioned',
+          reviewedBy: 'admin@test.com',
+        })
+      ).rejects.toThrow('An action is required to action a report');
+    });
+
+    it('should not review a report twice', async () => {
+      mockReportModel.findById.mockResolvedValue(
+        report({ status: 'dismissed' })
+      );
+
+      await expect(
+        SafetyService.reviewReport('report1', {
+          status: 'actioned',
+          action: 'warning',
+          reviewedBy: 'admin@test.com',
+        })
+      ).rejects.toThrow('Report has already been reviewed');
+      expect(mockReportModel.review).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,14 +1,26 @@
 import * as cron from 'node-cron';
 import { SchedulerService } from '../schedulerService';
 import { syncService } from '../syncService';
+import { MatchExpiryService } from '../matchExpiryService';
+import { DiscoveryService } from '../discoveryService';
+import { ExposureService } from '../exposureService';
+import { EligibilityService } from '../eligibilityService';
 
 // Mock dependencies
 jest.mock('node-cron');
 jest.mock('../syncService');
+jest.mock('../matchExpiryService');
+jest.mock('../discoveryService');
+jest.mock('../exposureService');
+jest.mock('../eligibilityService');
 jest.mock('../../utils/logger');
 
 const mockCron = cron as jest.Mocked<typeof cron>;
 const mockSyncService = syncService as jest.Mocked<typeof syncService>;
+const mockMatchExpiryService = MatchExpiryService as jest.Mocked<typeof MatchExpiryService>;
+const mockDiscoveryService = DiscoveryService as jest.Mocked<typeof DiscoveryService>;
+const mockExposureService = ExposureService as jest.Mocked<typeof ExposureService>;
+const mockEligibilityService = EligibilityService as jest.Mocked<typeof EligibilityService>;
 
 describe('SchedulerService', () => {
   let service: SchedulerService;
@@ -205,6 +217,63 @@ describe('SchedulerService', () => {
     });
   });
 
+  describe('triggerMatchExpiry', () => {
+    it('should manually trigger silent match expiry', async () => {
+      // Arrange
+      mockMatchExpiryService.processSilentMatches.mockResolvedValue({ reminded: 1, expired: 2 });
+
+      // Act
+      await service.triggerMatchExpiry();
+
+      // Assert
+      expect(mockMatchExpiryService.processSilentMatches).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('triggerDiscoverySnapshotCleanup', () => {
+    it('should manually trigger discovery snapshot cleanup', async () => {
+      // Arrange
+      mockDiscoveryService.cleanupExpiredSnapshots.mockResolvedValue(3);
+
+      // Act
+      await service.triggerDiscoverySnapshotCleanup();
+
+      // Assert
+      expect(mockDiscoveryService.cleanupExpiredSnapshots).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('triggerExposureCleanup', () => {
+    it('should manually trigger profile exposure cleanup', async () => {
+      // Arrange
+      mockExposureService.cleanupOldExposures.mockResolvedValue(12);
+
+      // Act
+      await service.triggerExposureCleanup();
+
+      // Assert
+      expect(mockExposureService.cleanupOldExposures).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('triggerGracePeriodExpiry', () => {
+    it('should manually trigger eligibility grace period expiry', async () => {
+      // Arrange
+      mockEligibilityService.processEndedGracePeriods.mockResolvedValue({
+        processed: 2,
+        reinstated: 1,
+        ineligible: 1,
+        failed: 0,
+      });
+
+      // Act
+      await service.triggerGracePeriodExpiry();
+
+      // Assert
+      expect(mockEligibilityService.processEndedGracePeriods).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('addCustomJob', () => {
     it('should add a custom job successfully', () => {
       // Arrange
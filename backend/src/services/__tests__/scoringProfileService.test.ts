@@ -0,0 +1,278 @@
+import { ScoringProfileService } from '../scoringProfileService';
+import { ScoringProfileModel } from '../../models/ScoringProfile';
+import { MatchingService, PotentialMatch } from '../matchingService';
+import { ScoringProfile, ScoringProfileSettings } from '../../types';
+
+// Mock the dependencies
+jest.mock('../../models/ScoringProfile');
+jest.mock('../matchingService');
+jest.mock('../../utils/logger');
+
+const mockScoringProfileModel = ScoringProfileModel as jest.Mocked<
+  typeof ScoringProfileModel
+>;
+const mockMatchingService = MatchingService as jest.Mocked<
+  typeof MatchingService
+>;
+
+const defaultSettings: ScoringProfileSettings = {
+  weights: {
+    activityOverlap: 0.4,
+    performanceSimilarity: 0.3,
+    locationProximity: 0.2,
+    ageCompatibility: 0.1,
+    scheduleOverlap: 0,
+    trainingAreaOverlap: 0,
+  },
+  maxDistanceKm: 100,
+  maxAgeDifference: 20,
+  exposureStrength: 0,
+  diversityStrength: 0,
+};
+
+const candidate = (userId: string, score: number): PotentialMatch => ({
+  userId,
+  user: {
+    id: userId,
+    firstName: userId,
+    lastName: 'Test',
+    age: 30,
+    city: 'Boulder',
+    state: 'CO',
+    photos: [],
+    bio: null,
+  },
+  compatibilityScore: score,
+  compatibilityFactors: {
+    activityOverlap: score,
+    performanceSimilarity: score,
+    locationProximity: score,
+    ageCompatibility: score,
+    scheduleOverlap: score,
+    trainingAreaOverlap: score,
+  },
+  compatibilityReasons: [],
+  fitnessStats: {
+    weeklyDistance: 20000,
+    weeklyActivities: 4,
+    averagePace: 300,
+    favoriteActivities: ['Run'],
+    totalDistance: 260000,
+  },
+});
+
+describe('ScoringProfileService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockScoringProfileModel.getDefaultSettings.mockReturnValue(defaultSettings);
+    mockMatchingService.getScoringSettings.mockResolvedValue(defaultSettings);
+  });
+
+  describe('validateSettings', () => {
+    it('should accept weights that sum to 1', () => {
+      expect(() =>
+        ScoringProfileService.validateSettings(defaultSettings)
+      ).not.toThrow();
+    });
+
+    it('should reject weights that do not sum to 1', () => {
+      expect(() =>
+        ScoringProfileService.validateSettings({
+          ...defaultSettings,
+          weights: { ...defaultSettings.weights, activityOverlap: 0.5 },
+        })
+      ).toThrow('Weights must sum to 1 (currently 1.100)');
+    });
+
+    it('should reject missing and unknown factors', () => {
+      const { ageCompatibility: _age, ...partial } = defaultSettings.weights;
+
+      expect(() =>
+        ScoringProfileService.validateSettings({
+          ...defaultSettings,
+          weights: partial as ScoringProfileSettings['weights'],
+        })
+      ).toThrow('Missing weights for: ageCompatibility');
+
+      expect(() =>
+        ScoringProfileService.validateSettings({
+          ...defaultSettings,
+          weights: {
+            ...defaultSettings.weights,
+            vibes: 0,
+          } as ScoringProfileSettings['weights'],
+        })
+      ).toThrow('Unknown compatibility factors: vibes');
+    });
+
+    it('should reject negative weights', () => {
+      expect(() =>
+        ScoringProfileService.validateSettings({
+          ...defaultSettings,
+          weights: {
+            activityOverlap: 1.1,
+            performanceSimilarity: -0.1,
+            locationProximity: 0,
+            ageCompatibility: 0,
+            scheduleOverlap: 0,
+            trainingAreaOverlap: 0,
+          },
+        })
+      ).toThrow('Weight for activityOverlap must be a number between 0 and 1');
+    });
+
+    it('should reject out of range decay constants', () => {
+      expect(() =>
+        ScoringProfileService.validateSettings({
+          ...defaultSettings,
+          maxDistanceKm: 0,
+        })
+      ).toThrow('Location decay distance must be between 1 and 1000 km');
+    });
+
+    it('should reject re-ranking strengths outside 0 to 1', () => {
+      expect(() =>
+        ScoringProfileService.validateSettings({
+          ...defaultSettings,
+          exposureStrength: 1.5,
+        })
+      ).toThrow('Exposure strength must be between 0 and 1');
+      expect(() =>
+        ScoringProfileService.validateSettings({
+          ...defaultSettings,
+          diversityStrength: -0.1,
+        })
+      ).toThrow('Diversity strength must be between 0 and 1');
+    });
+  });
+
+  describe('updateProfile', () => {
+    it('should publish a new version recording who changed it', async () => {
+      const weights = {
+        activityOverlap: 0.25,
+        performanceSimilarity: 0.25,
+        locationProximity: 0.25,
+        ageCompatibility: 0.25,
+        scheduleOverlap: 0,
+        trainingAreaOverlap: 0,
+      };
+      const savedProfile: ScoringProfile = {
+        id: 'profile2',
+        version: 2,
+        weights,
+        maxDistanceKm: 100,
+        maxAgeDifference: 20,
+        exposureStrength: 0,
+        diversityStrength: 0,
+        notes: 'Flatten weights',
+        createdAt: new Date(),
+        createdBy: 'admin@test.com',
+      };
+      mockScoringProfileModel.create.mockResolvedValue(savedProfile);
+
+      const result = await ScoringProfileService.updateProfile({
+        weights,
+        notes: 'Flatten weights',
+        updatedBy: 'admin@test.com',
+      });
+
+      expect(result).toEqual(savedProfile);
+      expect(mockScoringProfileModel.create).toHaveBeenCalledWith({
+        weights,
+        maxDistanceKm: 100,
+        maxAgeDifference: 20,
+        exposureStrength: 0,
+        diversityStrength: 0,
+        notes: 'Flatten weights',
+        createdBy: 'admin@test.com',
+      });
+    });
+
+    it('should not save an invalid profile', async () => {
+      await expect(
+        ScoringProfileService.updateProfile({
+          weights: { ...defaultSettings.weights, ageCompatibility: 0.5 },
+          updatedBy: 'admin@test.com',
+        })
+      ).rejects.toThrow('Weights must sum to 1');
+
+      expect(mockScoringProfileModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('previewProfile', () => {
+    it('should report how candidates reorder under the draft', async () => {
+      const draftWeights = {
+        activityOverlap: 0.1,
+        performanceSimilarity: 0.1,
+        locationProximity: 0.7,
+        ageCompatibility: 0.1,
+        scheduleOverlap: 0,
+        trainingAreaOverlap: 0,
+      };
+      mockMatchingService.findPotentialMatches
+        .mockResolvedValueOnce([
+          candidate('alice', 90),
+          candidate('bob', 80),
+          candidate('carol', 70),
+        ])
+        .mockResolvedValueOnce([
+          candidate('carol', 95),
+          candidate('alice', 85),
+          candidate('dave', 60),
+        ]);
+
+      const preview = await ScoringProfileService.previewProfile(
+        'user1',
+        { weights: draftWeights },
+        3
+      );
+
+      expect(mockMatchingService.findPotentialMatches).toHaveBeenNthCalledWith(
+        1,
+        'user1',
+        3,
+        0,
+        defaultSettings
+      );
+      expect(mockMatchingService.findPotentialMatches).toHaveBeenNthCalledWith(
+        2,
+        'user1',
+        3,
+        0,
+        { ...defaultSettings, weights: draftWeights }
+      );
+      expect(preview.map(entry => entry.userId)).toEqual([
+        'carol',
+        'alice',
+        'dave',
+        'bob',
+      ]);
+      expect(preview[0]).toMatchObject({
+        currentRank: 3,
+        draftRank: 1,
+        rankChange: 2,
+      });
+      expect(preview[2]).toMatchObject({
+        currentRank: null,
+        draftRank: 3,
+        rankChange: null,
+      });
+      expect(preview[3]).toMatchObject({
+        currentRank: 2,
+        draftRank: null,
+        rankChange: null,
+      });
+    });
+
+    it('should reject an invalid draft without scoring', async () => {
+      await expect(
+        ScoringProfileService.previewProfile('user1', {
+          weights: { ...defaultSettings.weights, activityOverlap: 0 },
+        })
+      ).rejects.toThrow('Weights must sum to 1');
+
+      expect(mockMatchingService.findPotentialMatches).not.toHaveBeenCalled();
+    });
+  });
+});
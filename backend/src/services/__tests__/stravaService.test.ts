@@ -206,6 +206,9 @@ describe('StravaService', () => {
             moving_time: 1800,
             average_speed: 2.78,
             start_date: '2024-01-01T08:00:00Z',
+            utc_offset: -18000,
+            start_latlng: [37.774929, -122.419416],
+            end_latlng: [37.771234, -122.412345],
             total_elevation_gain: 100,
           },
           {
@@ -246,9 +249,19 @@ describe('StravaService', () => {
         movingTime: 1800,
         averageSpeed: 2.78,
         startDate: new Date('2024-01-01T08:00:00Z'),
+        utcOffset: -18000,
+        startLatitude: 37.77,
+        startLongitude: -122.42,
+        endLatitude: 37.77,
+        endLongitude: -122.41,
         elevationGain: 100,
         syncedAt: expect.any(Date),
       });
+      expect(result[1]).toMatchObject({
+        utcOffset: 0,
+        startLatitude: null,
+        startLongitude: null,
+      });
     });
 
     it('should handle date parameters correctly', async () => {
@@ -405,10 +418,104 @@ describe('StravaService', () => {
         favoriteActivities: [],
         totalDistance: 0,
         longestRun: 0,
+        sportProfiles: {},
+        trainingSchedule: [],
+        trainingAreas: [],
+        homeAreaLatitude: null,
+        homeAreaLongitude: null,
         lastSyncDate: expect.any(Date),
       });
     });
 
+    it('should build weekly volume and speed profiles per sport', () => {
+      const activity = (id: number, type: string, distance: number, movingTime: number): StravaActivity => ({
+        id,
+        userId: 'user1',
+        name: `${type} ${id}`,
+        type,
+        distance,
+        movingTime,
+        averageSpeed: distance / movingTime,
+        startDate: new Date('2024-01-01'),
+        elevationGain: 0,
+        syncedAt: new Date(),
+      });
+
+      const result = stravaService.calculateFitnessMetrics([
+        activity(1, 'Run', 10000, 3000),
+        activity(2, 'Run', 5000, 2000),
+        activity(3, 'Ride', 52000, 7800),
+      ]);
+
+      expect(Object.keys(result.sportProfiles!)).toEqual(['Run', 'Ride']);
+      expect(result.sportProfiles!.Run).toEqual({
+        weeklyDistance: 15000 / 13,
+        weeklyActivities: 2 / 13,
+        weeklyMovingTime: 5000 / 13,
+        averageSpeed: 3, // 15 km in 5000 s
+      });
+      expect(result.sportProfiles!.Ride!.averageSpeed).toBeCloseTo(6.67, 2);
+      expect(result.sportProfiles!.Ride!.weeklyDistance).toBe(4000);
+    });
+
+    it('should build the training schedule in local time', () => {
+      const activity = (id: number, startDate: string, utcOffset: number): StravaActivity => ({
+        id,
+        userId: 'user1',
+        name: `Run ${id}`,
+        type: 'Run',
+        distance: 5000,
+        movingTime: 1800,
+        averageSpeed: 2.78,
+        startDate: new Date(startDate),
+        utcOffset,
+        elevationGain: 0,
+        syncedAt: new Date(),
+      });
+
+      // Both are 6am Monday where they were recorded
+      const result = stravaService.calculateFitnessMetrics([
+        activity(1, '2024-01-01T11:00:00Z', -5 * 3600),
+        activity(2, '2024-01-01T06:00:00Z', 0),
+      ]);
+
+      expect(result.trainingSchedule).toHaveLength(7);
+      expect(result.trainingSchedule![1]![0]).toBe(1);
+    });
+
+    it('should derive training areas and a home area from activity locations', () => {
+      const activity = (id: number, latitude: number | null, longitude: number | null): StravaActivity => ({
+        id,
+        userId: 'user1',
+        name: `Run ${id}`,
+        type: 'Run',
+        distance: 5000,
+        movingTime: 1800,
+        averageSpeed: 2.78,
+        startDate: new Date('2024-01-01'),
+        startLatitude: latitude,
+        startLongitude: longitude,
+        endLatitude: latitude,
+        endLongitude: longitude,
+        elevationGain: 0,
+        syncedAt: new Date(),
+      });
+
+      const result = stravaService.calculateFitnessMetrics([
+        activity(1, 40.01, -105.27),
+        activity(2, 40.01, -105.27),
+        activity(3, 39.74, -104.99),
+        activity(4, null, null), // treadmill
+      ]);
+
+      expect(result.trainingAreas).toEqual([
+        { latitude: 40.01, longitude: -105.27, share: 2 / 3 },
+        { latitude: 39.74, longitude: -104.99, share: 1 / 3 },
+      ]);
+      expect(result.homeAreaLatitude).toBe(40.01);
+      expect(result.homeAreaLongitude).toBe(-105.27);
+    });
+
     it('should calculate average pace correctly for running activities', () => {
       const mockActivities: StravaActivity[] = [
         {
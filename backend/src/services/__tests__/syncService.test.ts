@@ -4,6 +4,7 @@ import { SyncService } from '../syncService';
 jest.mock('../stravaService');
 jest.mock('../../models/StravaActivity');
 jest.mock('../../models/FitnessStats');
+jest.mock('../matchingService');
 jest.mock('../../config/database');
 jest.mock('../../utils/logger');
 
@@ -0,0 +1,178 @@
+import { ThresholdSimulationService } from '../thresholdSimulationService';
+import { FitnessThresholdModel } from '../../models/FitnessThreshold';
+import { StravaActivityModel } from '../../models/StravaActivity';
+import { UserModel } from '../../models/User';
+import { FitnessThreshold, StravaActivity, User } from '../../types';
+
+// Mock the dependencies
+jest.mock('../../models/FitnessThreshold');
+jest.mock('../../models/StravaActivity');
+jest.mock('../../models/User');
+jest.mock('../../utils/logger');
+
+const mockFitnessThresholdModel = FitnessThresholdModel as jest.Mocked<
+  typeof FitnessThresholdModel
+>;
+const mockStravaActivityModel = StravaActivityModel as jest.Mocked<
+  typeof StravaActivityModel
+>;
+const mockUserModel = UserModel as jest.Mocked<typeof UserModel>;
+
+const generalThreshold: FitnessThreshold = {
+  id: 'threshold-1',
+  weeklyDistance: 10000,
+  weeklyActivities: 2,
+  averagePace: null,
+  allowedActivityTypes: [],
+  rules: null,
+  sportFamily: null,
+  effectiveFrom: new Date('2025-09-01'),
+  restoredFromId: null,
+  updatedAt: new Date('2025-09-01'),
+  updatedBy: 'admin@example.com',
+};
+
+const user = (id: string, age: number, city: string): User => ({
+  id,
+  email: `${id}@example.com`,
+  stravaId: 1,
+  firstName: id,
+  lastName: 'Test',
+  age,
+  city,
+  state: 'CO',
+  latitude: 40,
+  longitude: -105,
+  photos: [],
+  createdAt: new Date(),
+  lastActive: new Date(),
+});
+
+// A user's activities over the evaluation window
+const activities = (
+  userId: string,
+  type: string,
+  count: number,
+  distance: number
+): StravaActivity[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: i,
+    userId,
+    name: `${type} ${i}`,
+    type,
+    distance,
+    movingTime: distance / 3,
+    averageSpeed: 3,
+    startDate: new Date(),
+    elevationGain: 0,
+    syncedAt: new Date(),
+  }));
+
+const users = [
+  user('runner', 29, 'Boulder'),
+  user('casual', 41, 'Denver'),
+  user('cyclist', 58, 'Boulder'),
+];
+
+describe('ThresholdSimulationService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFitnessThresholdModel.getCurrent.mockImplementation(
+      async sportFamily => (sportFamily === null ? generalThreshold : null)
+    );
+    mockFitnessThresholdModel.mergeUpdate.mockImplementation(
+      jest.requireActual('../../models/FitnessThreshold').FitnessThresholdModel
+        .mergeUpdate
+    );
+    mockUserModel.findMany.mockResolvedValue({
+      data: users,
+      pagination: { page: 1, limit: 200, total: 3, totalPages: 1 },
+    });
+    // ~31km and ~3 runs, ~5km and ~1 run, ~62km and ~2 rides a week
+    mockStravaActivityModel.findByUserIdsAndDateRange.mockResolvedValue([
+      ...activities('runner', 'Run', 40, 10000),
+      ...activities('casual', 'Run', 13, 5000),
+      ...activities('cyclist', 'Ride', 26, 30000),
+    ]);
+  });
+
+  it('should count users who would start passing a lower threshold', async () => {
+    const simulation = await ThresholdSimulationService.simulate({
+      weeklyDistance: 5000,
+      weeklyActivities: 1,
+      updatedBy: 'admin@example.com',
+    });
+
+    expect(simulation.summary).toEqual({
+      total: 3,
+      passingBefore: 2,
+      passingAfter: 3,
+      newlyPassing: 1,
+      newlyFailing: 0,
+    });
+    expect(simulation.bySport.run.newlyPassing).toBe(1);
+    expect(simulation.byCity['Denver, CO'].newlyPassing).toBe(1);
+    expect(simulation.byAgeBand['35-44'].newlyPassing).toBe(1);
+    expect(simulation.sample).toEqual([
+      expect.objectContaining({
+        userId: 'casual',
+        change: 'newly_passing',
+        sportFamily: 'run',
+      }),
+    ]);
+  });
+
+  it('should count users who would stop passing a rule tree', async () => {
+    const simulation = await ThresholdSimulationService.simulate({
+      rules: {
+        type: 'condition',
+        metric: 'weeklyDistance',
+        min: 20000,
+        activityType: 'Run',
+      },
+      updatedBy: 'admin@example.com',
+    });
+
+    expect(simulation.summary.newlyFailing).toBe(1);
+    expect(simulation.bySport.ride.newlyFailing).toBe(1);
+    expect(simulation.byAgeBand['55+'].newlyFailing).toBe(1);
+    expect(simulation.sample[0]).toMatchObject({
+      userId: 'cyclist',
+      change: 'newly_failing',
+    });
+    expect(simulation.sample[0].reasons[0]).toMatch(/^✗ Weekly Run distance/);
+  });
+
+  it('should only change users evaluated with the drafted profile', async () => {
+    const simulation = await ThresholdSimulationService.simulate({
+      weeklyDistance: 100000,
+      sportFamily: 'ride',
+      updatedBy: 'admin@example.com',
+    });
+
+    expect(simulation.sportFamily).toBe('ride');
+    expect(simulation.summary.newlyFailing).toBe(1);
+    expect(simulation.bySport.run.newlyFailing).toBe(0);
+    expect(simulation.sample.map(sample => sample.userId)).toEqual(['cyclist']);
+  });
+
+  it('should cap the sample size', async () => {
+    const simulation = await ThresholdSimulationService.simulate(
+      { weeklyDistance: 100000, updatedBy: 'admin@example.com' },
+      1
+    );
+
+    expect(simulation.summary.newlyFailing).toBe(2);
+    expect(simulation.sample).toHaveLength(1);
+  });
+
+  it('should reject invalid threshold values without loading users', async () => {
+    await expect(
+      ThresholdSimulationService.simulate({
+        weeklyDistance: -1,
+        updatedBy: 'admin@example.com',
+      })
+    ).rejects.toThrow('Weekly distance must be between 0 and 100,000 meters');
+    expect(mockUserModel.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,194 @@
+import { DiscoverySnapshotModel } from '../models/DiscoverySnapshot';
+import { UserModel } from '../models/User';
+import { MatchingService, PotentialMatch } from './matchingService';
+import { RecommendationService } from './recommendationService';
+import { ExposureService } from './exposureService';
+import { DiscoverySnapshot, MatchMode } from '../types';
+import { logger } from '../utils/logger';
+
+// Number of ranked candidates frozen into each snapshot. A deck with more
+// candidates carries on in another snapshot once one is used up.
+const SNAPSHOT_SIZE = 100;
+
+// How long a snapshot can be paged through before the deck is ranked again
+const DEFAULT_SNAPSHOT_TTL_MINUTES = 30;
+
+export interface DiscoveryPage {
+  data: PotentialMatch[];
+  // Pass back to get the next page; null once the deck is used up
+  nextCursor: string | null;
+  // The mode this deck is for, and every mode the user can switch to
+  mode: MatchMode;
+  modes: MatchMode[];
+}
+
+interface DiscoveryCursor {
+  snapshotId: string;
+  position: number;
+}
+
+export class DiscoveryService {
+  /**
+   * Get a page of the discovery deck in a mode, by default the user's first.
+   * The first page ranks the candidate pool into a snapshot and later pages
+   * read from it by cursor, so scores changing between requests can't repeat
+   * or skip anyone.
+   */
+  static async getPage(
+    userId: string,
+    limit: number,
+    cursor?: string,
+    mode?: MatchMode
+  ): Promise<DiscoveryPage> {
+    const user = await UserModel.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    const modes = MatchingService.getMatchModes(user.discoveryMode);
+
+    let snapshot: DiscoverySnapshot;
+    let position = 0;
+
+    if (cursor) {
+      const decoded = this.decodeCursor(cursor);
+      const found = await DiscoverySnapshotModel.findById(decoded.snapshotId);
+      if (
+        !found ||
+        found.userId !== userId ||
+        (mode !== undefined && found.mode !== mode)
+      ) {
+        throw new Error('Invalid cursor');
+      }
+      // Switching discovery mode retires decks for modes no longer browsed
+      if (
+        found.expiresAt.getTime() <= Date.now() ||
+        !modes.includes(found.mode)
+      ) {
+        throw new Error('Cursor has expired');
+      }
+      snapshot = found;
+      position = decoded.position;
+    } else {
+      snapshot = await this.createSnapshot(
+        userId,
+        MatchingService.resolveMatchMode(user, mode)
+      );
+    }
+
+    // A full snapshot may have left candidates out, so once it is used up the
+    // deck carries on in a snapshot of everyone not ranked into it yet
+    if (
+      position >= snapshot.candidates.length &&
+      snapshot.candidates.length >= SNAPSHOT_SIZE
+    ) {
+      snapshot = await this.createSnapshot(userId, snapshot.mode, [
+        ...snapshot.shownUserIds,
+        ...snapshot.candidates.map(candidate => candidate.userId),
+      ]);
+      position = 0;
+    }
+
+    const entries = snapshot.candidates.slice(position, position + limit);
+    const nextPosition = position + entries.length;
+
+    // Candidates swiped on, matched with or blocked since the snapshot was
+    // taken are dropped rather than replaced, so page boundaries never move
+    const unseen = await RecommendationService.removeSeenCandidates(
+      userId,
+      entries,
+      snapshot.mode
+    );
+
+    const data = await RecommendationService.hydrateCandidates(unseen);
+    await ExposureService.recordImpressions(data.map(match => match.userId));
+
+    return {
+      data,
+      nextCursor:
+        nextPosition < snapshot.candidates.length ||
+        snapshot.candidates.length >= SNAPSHOT_SIZE
+          ? this.encodeCursor({
+              snapshotId: snapshot.id,
+              position: nextPosition,
+            })
+          : null,
+      mode: snapshot.mode,
+      modes,
+    };
+  }
+
+  /**
+   * Delete snapshots nobody can page through any more
+   */
+  static async cleanupExpiredSnapshots(): Promise<number> {
+    const deleted = await DiscoverySnapshotModel.deleteExpired();
+    logger.info(`Deleted ${deleted} expired discovery snapshots`);
+    return deleted;
+  }
+
+  /**
+   * Minutes a snapshot stays readable
+   */
+  static getSnapshotTtlMinutes(): number {
+    const minutes = parseInt(
+      process.env.DISCOVERY_SNAPSHOT_TTL_MINUTES || '',
+      10
+    );
+    return Number.isNaN(minutes) || minutes < 1
+      ? DEFAULT_SNAPSHOT_TTL_MINUTES
+      : minutes;
+  }
+
+  private static async createSnapshot(
+    userId: string,
+    mode: MatchMode,
+    shownUserIds: string[] = []
+  ): Promise<DiscoverySnapshot> {
+    const shown = new Set(shownUserIds);
+    const matches = await MatchingService.findPotentialMatches(
+      userId,
+      SNAPSHOT_SIZE + shown.size,
+      0,
+      undefined,
+      mode
+    );
+
+    return await DiscoverySnapshotModel.create(
+      userId,
+      mode,
+      matches
+        .filter(match => !shown.has(match.userId))
+        .slice(0, SNAPSHOT_SIZE)
+        .map(match => ({
+          userId: match.userId,
+          compatibilityScore: match.compatibilityScore,
+          compatibilityFactors: match.compatibilityFactors,
+          compatibilityReasons: match.compatibilityReasons,
+        })),
+      new Date(Date.now() + this.getSnapshotTtlMinutes() * 60 * 1000),
+      shownUserIds
+    );
+  }
+
+  private static encodeCursor(cursor: DiscoveryCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private static decodeCursor(cursor: string): DiscoveryCursor {
+    try {
+      const decoded = JSON.parse(
+        Buffer.from(cursor, 'base64url').toString('utf8')
+      );
+      if (
+        typeof decoded.snapshotId === 'string' &&
+        Number.isInteger(decoded.position) &&
+        decoded.position >= 0
+      ) {
+        return { snapshotId: decoded.snapshotId, position: decoded.position };
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new Error('Invalid cursor');
+  }
+}
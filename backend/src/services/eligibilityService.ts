@@ -0,0 +1,157 @@
+import { UserModel } from '../models/User';
+import { FitnessEvaluationService } from './fitnessEvaluationService';
+import { MessageService } from './messageService';
+import {
+  EligibilityNotice,
+  EligibilityStatus,
+  EligibilityStatusUpdate,
+  GracePeriodExpiryResult,
+} from '../types';
+import {
+  getNextEligibilityState,
+  parseEligibilityStatus,
+  scaleEligibilityMetrics,
+} from '../utils/eligibilityStatus';
+import { logger } from '../utils/logger';
+
+// Days a user who stops meeting the threshold stays visible
+const DEFAULT_ELIGIBILITY_GRACE_DAYS = 14;
+
+// Leaves time for the grace period notification to be seen
+const MIN_ELIGIBILITY_GRACE_DAYS = 1;
+
+// Users who would fail with 10% less distance and fewer activities are at risk
+const AT_RISK_FACTOR = 0.9;
+
+export class EligibilityService {
+  /**
+   * Re-evaluate a user against the threshold for their sport and store their
+   * eligibility status, notifying them when it changes. Configured with
+   * ELIGIBILITY_GRACE_DAYS.
+   */
+  static async updateUserEligibility(
+    userId: string
+  ): Promise<EligibilityStatusUpdate> {
+    const user = await UserModel.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const evaluation =
+      await FitnessEvaluationService.evaluateUserFitness(userId);
+    const atRisk =
+      evaluation.meets &&
+      !FitnessEvaluationService.evaluateMetricsAgainstThreshold(
+        scaleEligibilityMetrics(evaluation.metrics, AT_RISK_FACTOR),
+        evaluation.threshold
+      ).meets;
+
+    const previousStatus = parseEligibilityStatus(user.eligibilityStatus);
+    const next = getNextEligibilityState(
+      { status: previousStatus, graceEndsAt: user.graceEndsAt ?? null },
+      { meets: evaluation.meets, atRisk },
+      new Date(),
+      this.getGraceDays()
+    );
+
+    await UserModel.updateEligibility(userId, next.status, next.graceEndsAt);
+
+    const update: EligibilityStatusUpdate = {
+      userId,
+      meets: evaluation.meets,
+      score: evaluation.score,
+      previousStatus,
+      status: next.status,
+      graceEndsAt: next.graceEndsAt,
+      reasons: evaluation.reasons,
+    };
+    if (next.status !== previousStatus) {
+      logger.info(
+        `Eligibility of user ${userId} changed from ${previousStatus} to ${next.status}`
+      );
+      await this.notifyStatusChange(update);
+    }
+    return update;
+  }
+
+  /**
+   * Re-evaluate users whose grace period has ended, so they are hidden even if
+   * their syncs stopped, or reinstated if they meet the threshold again
+   */
+  static async processEndedGracePeriods(): Promise<GracePeriodExpiryResult> {
+    const result: GracePeriodExpiryResult = {
+      processed: 0,
+      reinstated: 0,
+      ineligible: 0,
+      failed: 0,
+    };
+
+    const userIds = await UserModel.findEndedGracePeriodUserIds(new Date());
+    for (const userId of userIds) {
+      result.processed++;
+      try {
+        const update = await this.updateUserEligibility(userId);
+        if (update.status === 'ineligible') {
+          result.ineligible++;
+        } else {
+          result.reinstated++;
+        }
+      } catch (error) {
+        result.failed++;
+        logger.error(`Failed to update eligibility of user ${userId}:`, error);
+      }
+    }
+
+    logger.info('Ended grace periods processed', result);
+    return result;
+  }
+
+  /**
+   * Days a user who stops meeting the threshold stays visible
+   */
+  static getGraceDays(): number {
+    const days = parseInt(process.env.ELIGIBILITY_GRACE_DAYS || '', 10);
+    return Number.isNaN(days)
+      ? DEFAULT_ELIGIBILITY_GRACE_DAYS
+      : Math.max(MIN_ELIGIBILITY_GRACE_DAYS, days);
+  }
+
+  /**
+   * Notify a user of a status change. The notification is also stored, since
+   * the socket event only reaches users who are online; a change that needs
+   * no notification clears any earlier one, which is now out of date.
+   */
+  private static async notifyStatusChange(
+    update: EligibilityStatusUpdate
+  ): Promise<void> {
+    const event = this.getNotificationEvent(
+      update.previousStatus,
+      update.status
+    );
+    await UserModel.setEligibilityNotice(update.userId, event);
+    if (event) {
+      MessageService.notifyUser(update.userId, event, {
+        status: update.status,
+        graceEndsAt: update.graceEndsAt,
+        reasons: update.reasons,
+      });
+    }
+  }
+
+  private static getNotificationEvent(
+    previous: EligibilityStatus,
+    status: EligibilityStatus
+  ): EligibilityNotice | null {
+    const wasFailing = previous === 'grace_period' || previous === 'ineligible';
+    switch (status) {
+      case 'eligible':
+        return wasFailing ? 'eligibility-restored' : null;
+      case 'at_risk':
+        return wasFailing ? 'eligibility-restored' : 'eligibility-at-risk';
+      case 'grace_period':
+        return 'eligibility-grace-period';
+      case 'ineligible':
+        return 'eligibility-lost';
+    }
+  }
+}
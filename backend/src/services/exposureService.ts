@@ -0,0 +1,95 @@
+import { ProfileExposureModel } from '../models/ProfileExposure';
+import { ExposureStats } from '../types';
+import { logger } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days of impressions that count towards how exposed a profile is
+const DEFAULT_EXPOSURE_WINDOW_DAYS = 7;
+
+// Daily counts older than this are deleted
+const EXPOSURE_RETENTION_DAYS = 30;
+
+// The most shown slice of profiles reported on in analytics
+const TOP_SHARE_FRACTION = 0.1;
+
+export class ExposureService {
+  /**
+   * Count an impression for each profile served in a deck. Failures are only
+   * logged so a counting problem never stops the deck from loading.
+   */
+  static async recordImpressions(userIds: string[]): Promise<void> {
+    if (userIds.length === 0) {
+      return;
+    }
+
+    try {
+      await ProfileExposureModel.recordImpressions(userIds);
+    } catch (error) {
+      logger.warn('Failed to record profile impressions', error);
+    }
+  }
+
+  /**
+   * Get how often each profile was shown within the exposure window
+   */
+  static async getImpressionCounts(
+    userIds: string[]
+  ): Promise<Map<string, number>> {
+    return await ProfileExposureModel.getImpressionCounts(
+      userIds,
+      this.getWindowStart()
+    );
+  }
+
+  /**
+   * Measure how concentrated impressions were within the exposure window
+   */
+  static async getExposureStats(): Promise<ExposureStats> {
+    const totals = await ProfileExposureModel.getImpressionTotals(
+      this.getWindowStart()
+    );
+    const totalImpressions = totals.reduce((sum, count) => sum + count, 0);
+    const topCount = Math.ceil(totals.length * TOP_SHARE_FRACTION);
+    const topImpressions = totals
+      .slice(0, topCount)
+      .reduce((sum, count) => sum + count, 0);
+
+    return {
+      windowDays: this.getWindowDays(),
+      totalImpressions,
+      profilesShown: totals.length,
+      topDecileShare:
+        totalImpressions > 0
+          ? Math.round((topImpressions / totalImpressions) * 1000) / 1000
+          : 0,
+    };
+  }
+
+  /**
+   * Delete daily counts that are past retention
+   */
+  static async cleanupOldExposures(): Promise<number> {
+    const retentionDays = Math.max(
+      EXPOSURE_RETENTION_DAYS,
+      this.getWindowDays()
+    );
+    const deleted = await ProfileExposureModel.deleteBefore(
+      new Date(Date.now() - retentionDays * DAY_MS)
+    );
+    logger.info(`Deleted ${deleted} old profile exposure counts`);
+    return deleted;
+  }
+
+  /**
+   * Days of impressions that count towards how exposed a profile is
+   */
+  static getWindowDays(): number {
+    const days = parseInt(process.env.EXPOSURE_WINDOW_DAYS || '', 10);
+    return Number.isNaN(days) || days < 1 ? DEFAULT_EXPOSURE_WINDOW_DAYS : days;
+  }
+
+  private static getWindowStart(): Date {
+    return new Date(Date.now() - this.getWindowDays() * DAY_MS);
+  }
+}
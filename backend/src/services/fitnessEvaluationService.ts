@@ -1,14 +1,37 @@
 import { StravaActivity } from '../types/strava';
-import { FitnessThreshold } from '../types/fitness';
+import {
+  ELIGIBILITY_METRICS,
+  EligibilityRule,
+  FitnessThreshold,
+  RuleEvaluation,
+  SPORT_FAMILIES,
+  SportFamily,
+  ThresholdVersion,
+  UpdateFitnessThresholdInput,
+} from '../types/fitness';
 import { FitnessThresholdModel } from '../models/FitnessThreshold';
 import { StravaActivityModel } from '../models/StravaActivity';
+import {
+  evaluateEligibilityRule,
+  flattenRuleReasons,
+  getThresholdRules,
+  scoreRuleEvaluation,
+  WeeklyTypeTotals,
+} from '../utils/eligibilityRules';
 import { logger } from '../utils/logger';
+import { getDominantSportFamily } from '../utils/sportFamilies';
+
+// Deepest nesting of groups an admin can build
+const MAX_RULE_DEPTH = 4;
+
+const VALID_ACTIVITY_TYPES = ['Run', 'Ride', 'Swim', 'Walk', 'Hike', 'WeightTraining', 'Yoga', 'Crossfit'];
 
 export interface FitnessMetrics {
   weeklyDistance: number;
   weeklyActivities: number;
   averagePace: number | undefined;
   activityTypes: string[];
+  weeklyTotalsByType: Record<string, WeeklyTypeTotals>;
   totalDistance: number;
   longestActivity: number;
   consistencyScore: number;
@@ -18,8 +41,12 @@ export interface ThresholdEvaluationResult {
   meets: boolean;
   metrics: FitnessMetrics;
   threshold: FitnessThreshold | null;
+  // The user's dominant sport, whose profile was used when it has one
+  sportFamily: SportFamily | null;
   reasons: string[];
   score: number;
+  // Outcome of every rule in the threshold's tree, null without a threshold
+  ruleResults: RuleEvaluation | null;
 }
 
 export interface AdminThresholdUpdate {
@@ -27,9 +54,24 @@ export interface AdminThresholdUpdate {
   weeklyActivities?: number;
   averagePace?: number | undefined;
   allowedActivityTypes?: string[];
+  // A rule tree replaces the fields above; null goes back to them
+  rules?: EligibilityRule | null;
+  // The profile to update, the general one when null or left out
+  sportFamily?: SportFamily | null;
+  // Announce the change in advance instead of applying it immediately
+  effectiveFrom?: Date;
   updatedBy: string;
 }
 
+export interface ThresholdProfile {
+  sportFamily: SportFamily | null;
+  // Null when the sport has no profile of its own and uses the general one
+  threshold: FitnessThreshold | null;
+  rules: EligibilityRule | null;
+  // Versions announced in advance, soonest first
+  scheduled: FitnessThreshold[];
+}
+
 export class FitnessEvaluationService {
   /**
    * Calculate fitness metrics from 90 days of Strava activity data
@@ -41,6 +83,7 @@ export class FitnessEvaluationService {
         weeklyActivities: 0,
         averagePace: undefined,
         activityTypes: [],
+        weeklyTotalsByType: {},
         totalDistance: 0,
         longestActivity: 0,
         consistencyScore: 0,
@@ -81,6 +124,15 @@ export class FitnessEvaluationService {
     // Get unique activity types
     const activityTypes = [...new Set(sortedActivities.map(activity => activity.type))];
 
+    // Weekly averages per activity type, for rules about a single sport
+    const weeklyTotalsByType: Record<string, WeeklyTypeTotals> = {};
+    sortedActivities.forEach(activity => {
+      const totals = weeklyTotalsByType[activity.type] ?? { weeklyDistance: 0, weeklyActivities: 0 };
+      totals.weeklyDistance += activity.distance / weeksInPeriod;
+      totals.weeklyActivities += 1 / weeksInPeriod;
+      weeklyTotalsByType[activity.type] = totals;
+    });
+
     // Find longest activity
     const longestActivity = Math.max(...sortedActivities.map(activity => activity.distance));
 
@@ -92,6 +144,7 @@ export class FitnessEvaluationService {
       weeklyActivities,
       averagePace,
       activityTypes,
+      weeklyTotalsByType,
       totalDistance,
       longestActivity,
       consistencyScore,
@@ -142,9 +195,6 @@ export class FitnessEvaluationService {
    */
   static async evaluateUserFitness(userId: string): Promise<ThresholdEvaluationResult> {
     try {
-      // Get current fitness threshold
-      const threshold = await FitnessThresholdModel.getCurrent();
-      
       // Get user's activities from last 90 days
       const endDate = new Date();
       const startDate = new Date();
@@ -159,15 +209,18 @@ export class FitnessEvaluationService {
       // Calculate fitness metrics
       const metrics = this.calculateFitnessMetrics(activities);
 
-      // Evaluate against threshold
-      const evaluation = await this.evaluateMetricsAgainstThreshold(metrics, threshold);
+      // Evaluate against the threshold for the user's sport
+      const { sportFamily, threshold } = await this.getThresholdForMetrics(metrics);
+      const evaluation = this.evaluateMetricsAgainstThreshold(metrics, threshold);
 
       return {
         meets: evaluation.meets,
         metrics,
         threshold,
+        sportFamily,
         reasons: evaluation.reasons,
         score: evaluation.score,
+        ruleResults: evaluation.ruleResults,
       };
     } catch (error) {
       logger.error('Failed to evaluate user fitness:', error);
@@ -176,105 +229,68 @@ export class FitnessEvaluationService {
   }
 
   /**
-   * Evaluate fitness metrics against threshold
+   * Get the threshold for a user's dominant sport, falling back to the general
+   * profile when that sport has none
+   */
+  static async getThresholdForMetrics(
+    metrics: FitnessMetrics
+  ): Promise<{ sportFamily: SportFamily | null; threshold: FitnessThreshold | null }> {
+    const sportFamily = getDominantSportFamily(metrics.activityTypes, metrics.weeklyTotalsByType);
+    const threshold =
+      (sportFamily && (await FitnessThresholdModel.getCurrent(sportFamily))) ||
+      (await FitnessThresholdModel.getCurrent());
+    return { sportFamily, threshold };
+  }
+
+  /**
+   * Admin: Get the general profile and every sport's profile with the rule
+   * tree each is evaluated with
+   */
+  static async getThresholdProfiles(): Promise<ThresholdProfile[]> {
+    return await Promise.all(
+      [null, ...SPORT_FAMILIES].map(async sportFamily => {
+        const [threshold, scheduled] = await Promise.all([
+          FitnessThresholdModel.getCurrent(sportFamily),
+          FitnessThresholdModel.getScheduled(sportFamily),
+        ]);
+        return {
+          sportFamily,
+          threshold,
+          rules: threshold ? getThresholdRules(threshold) : null,
+          scheduled,
+        };
+      })
+    );
+  }
+
+  /**
+   * Evaluate fitness metrics against a threshold's rule tree. The score is the
+   * share of the tree met, with up to 10 bonus points for consistency.
    */
-  private static async evaluateMetricsAgainstThreshold(
+  static evaluateMetricsAgainstThreshold(
     metrics: FitnessMetrics,
     threshold: FitnessThreshold | null
-  ): Promise<{ meets: boolean; reasons: string[]; score: number }> {
+  ): { meets: boolean; reasons: string[]; score: number; ruleResults: RuleEvaluation | null } {
     if (!threshold) {
       return {
         meets: true,
         reasons: ['No fitness threshold configured'],
         score: 100,
+        ruleResults: null,
       };
     }
 
-    const reasons: string[] = [];
-    let score = 0;
-    let totalChecks = 0;
-
-    // Check weekly distance
-    totalChecks++;
-    if (metrics.weeklyDistance >= threshold.weeklyDistance) {
-      score += 25;
-      reasons.push(`✓ Weekly distance: ${Math.round(metrics.weeklyDistance)}m meets requirement (${threshold.weeklyDistance}m)`);
-    } else {
-      reasons.push(`✗ Weekly distance: ${Math.round(metrics.weeklyDistance)}m below requirement (${threshold.weeklyDistance}m)`);
-    }
+    const ruleResults = evaluateEligibilityRule(getThresholdRules(threshold), metrics);
+    const reasons = flattenRuleReasons(ruleResults);
 
-    // Check weekly activities
-    totalChecks++;
-    if (metrics.weeklyActivities >= threshold.weeklyActivities) {
-      score += 25;
-      reasons.push(`✓ Weekly activities: ${Math.round(metrics.weeklyActivities)} meets requirement (${threshold.weeklyActivities})`);
-    } else {
-      reasons.push(`✗ Weekly activities: ${Math.round(metrics.weeklyActivities)} below requirement (${threshold.weeklyActivities})`);
-    }
-
-    // Check average pace if specified and user has pace data
-    if (threshold.averagePace && metrics.averagePace) {
-      totalChecks++;
-      if (metrics.averagePace <= threshold.averagePace) {
-        score += 25;
-        const userPaceMin = Math.floor(metrics.averagePace / 60);
-        const userPaceSec = Math.round(metrics.averagePace % 60);
-        const reqPaceMin = Math.floor(threshold.averagePace / 60);
-        const reqPaceSec = Math.round(threshold.averagePace % 60);
-        reasons.push(`✓ Average pace: ${userPaceMin}:${userPaceSec.toString().padStart(2, '0')}/km meets requirement (${reqPaceMin}:${reqPaceSec.toString().padStart(2, '0')}/km)`);
-      } else {
-        const userPaceMin = Math.floor(metrics.averagePace / 60);
-        const userPaceSec = Math.round(metrics.averagePace % 60);
-        const reqPaceMin = Math.floor(threshold.averagePace / 60);
-        const reqPaceSec = Math.round(threshold.averagePace % 60);
-        reasons.push(`✗ Average pace: ${userPaceMin}:${userPaceSec.toString().padStart(2, '0')}/km slower than requirement (${reqPaceMin}:${reqPaceSec.toString().padStart(2, '0')}/km)`);
-      }
-    }
-
-    // Check activity types if specified
-    const allowedTypes = threshold.allowedActivityTypes as string[];
-    if (allowedTypes.length > 0) {
-      totalChecks++;
-      const hasAllowedActivity = metrics.activityTypes.some(type => allowedTypes.includes(type));
-      if (hasAllowedActivity) {
-        score += 25;
-        const matchingTypes = metrics.activityTypes.filter(type => allowedTypes.includes(type));
-        reasons.push(`✓ Activity types: ${matchingTypes.join(', ')} match allowed types`);
-      } else {
-        reasons.push(`✗ No activities match allowed types: ${allowedTypes.join(', ')}`);
-      }
-    }
-
-    // Add consistency bonus (up to 10 points)
     const consistencyBonus = Math.round(metrics.consistencyScore * 0.1);
-    score += consistencyBonus;
     reasons.push(`Consistency score: ${metrics.consistencyScore}/100 (+${consistencyBonus} bonus points)`);
 
-    // Calculate final score as percentage
-    const maxScore = (totalChecks * 25) + 10; // Base points + consistency bonus
-    const finalScore = Math.round((score / maxScore) * 100);
-
-    // User meets threshold if they pass all required checks
-    const requiredChecks = [
-      metrics.weeklyDistance >= threshold.weeklyDistance,
-      metrics.weeklyActivities >= threshold.weeklyActivities,
-    ];
-
-    // Add optional checks
-    if (threshold.averagePace && metrics.averagePace) {
-      requiredChecks.push(metrics.averagePace <= threshold.averagePace);
-    }
-
-    if (allowedTypes.length > 0) {
-      requiredChecks.push(metrics.activityTypes.some(type => allowedTypes.includes(type)));
-    }
-
-    const meets = requiredChecks.every(check => check);
-
     return {
-      meets,
+      meets: ruleResults.status !== 'failed',
       reasons,
-      score: finalScore,
+      score: Math.round(scoreRuleEvaluation(ruleResults) * 90) + consistencyBonus,
+      ruleResults,
     };
   }
 
@@ -328,16 +344,13 @@ export class FitnessEvaluationService {
       // Validate threshold values
       this.validateThresholdValues(update);
 
-      // Convert AdminThresholdUpdate to UpdateFitnessThresholdInput
-      const updateInput = {
-        ...update,
-        averagePace: update.averagePace === undefined ? null : update.averagePace,
-      };
-
-      const updatedThreshold = await FitnessThresholdModel.update(updateInput);
+      const updatedThreshold = await FitnessThresholdModel.update(
+        this.toUpdateInput(update)
+      );
       
       logger.info(`Fitness threshold updated by ${update.updatedBy}`, {
         thresholdId: updatedThreshold.id,
+        effectiveFrom: updatedThreshold.effectiveFrom,
         changes: update,
       });
 
@@ -348,10 +361,50 @@ export class FitnessEvaluationService {
     }
   }
 
+  /**
+   * Admin: Republish an earlier threshold version, immediately or at a given time
+   */
+  static async rollbackThreshold(
+    thresholdId: string,
+    updatedBy: string,
+    effectiveFrom?: Date
+  ): Promise<FitnessThreshold> {
+    this.validateEffectiveFrom(effectiveFrom);
+
+    const restored = await FitnessThresholdModel.republish(thresholdId, updatedBy, effectiveFrom);
+    if (!restored) {
+      throw new Error('Threshold version not found');
+    }
+
+    logger.info(`Fitness threshold ${thresholdId} republished by ${updatedBy}`, {
+      thresholdId: restored.id,
+      effectiveFrom: restored.effectiveFrom,
+    });
+    return restored;
+  }
+
+  /**
+   * Convert AdminThresholdUpdate to UpdateFitnessThresholdInput
+   */
+  static toUpdateInput(update: AdminThresholdUpdate): UpdateFitnessThresholdInput {
+    return {
+      ...update,
+      averagePace: update.averagePace === undefined ? null : update.averagePace,
+    };
+  }
+
   /**
    * Validate threshold values
    */
-  private static validateThresholdValues(update: AdminThresholdUpdate): void {
+  static validateThresholdValues(update: AdminThresholdUpdate): void {
+    if (
+      update.sportFamily !== undefined &&
+      update.sportFamily !== null &&
+      !SPORT_FAMILIES.includes(update.sportFamily)
+    ) {
+      throw new Error(`Sport family must be one of: ${SPORT_FAMILIES.join(', ')}`);
+    }
+
     if (update.weeklyDistance !== undefined) {
       if (update.weeklyDistance < 0 || update.weeklyDistance > 100000) {
         throw new Error('Weekly distance must be between 0 and 100,000 meters');
@@ -371,18 +424,101 @@ export class FitnessEvaluationService {
     }
 
     if (update.allowedActivityTypes !== undefined) {
-      const validTypes = ['Run', 'Ride', 'Swim', 'Walk', 'Hike', 'WeightTraining', 'Yoga', 'Crossfit'];
-      const invalidTypes = update.allowedActivityTypes.filter(type => !validTypes.includes(type));
-      if (invalidTypes.length > 0) {
-        throw new Error(`Invalid activity types: ${invalidTypes.join(', ')}`);
+      this.validateActivityTypes(update.allowedActivityTypes);
+    }
+
+    if (update.rules !== undefined && update.rules !== null) {
+      this.validateRule(update.rules, 1);
+    }
+
+    this.validateEffectiveFrom(update.effectiveFrom);
+  }
+
+  private static validateEffectiveFrom(effectiveFrom: Date | undefined): void {
+    if (effectiveFrom === undefined) {
+      return;
+    }
+    if (Number.isNaN(effectiveFrom.getTime())) {
+      throw new Error('Effective date must be a valid date');
+    }
+    if (effectiveFrom.getTime() < Date.now()) {
+      throw new Error('Effective date cannot be in the past');
+    }
+  }
+
+  private static validateActivityTypes(types: string[]): void {
+    const invalidTypes = types.filter(type => !VALID_ACTIVITY_TYPES.includes(type));
+    if (invalidTypes.length > 0) {
+      throw new Error(`Invalid activity types: ${invalidTypes.join(', ')}`);
+    }
+  }
+
+  /**
+   * Validate a rule tree sent by an admin, using the same limits as the fixed fields
+   */
+  private static validateRule(rule: unknown, depth: number): void {
+    if (!rule || typeof rule !== 'object') {
+      throw new Error('Each rule must be a condition or a group');
+    }
+    const candidate = rule as Record<string, unknown>;
+
+    if (candidate.type === 'group') {
+      if (depth > MAX_RULE_DEPTH) {
+        throw new Error(`Rule groups can be nested at most ${MAX_RULE_DEPTH} deep`);
+      }
+      if (candidate.operator !== 'and' && candidate.operator !== 'or') {
+        throw new Error('Rule groups must use "and" or "or"');
+      }
+      if (!Array.isArray(candidate.rules) || candidate.rules.length === 0) {
+        throw new Error('Rule groups must contain at least one rule');
       }
+      candidate.rules.forEach(child => this.validateRule(child, depth + 1));
+      return;
+    }
+
+    if (candidate.type !== 'condition') {
+      throw new Error('Each rule must be a condition or a group');
+    }
+
+    switch (candidate.metric) {
+      case 'weeklyDistance':
+      case 'weeklyActivities':
+        if (typeof candidate.min !== 'number') {
+          throw new Error('Distance and activity rules need a numeric minimum');
+        }
+        this.validateThresholdValues({ [candidate.metric]: candidate.min, updatedBy: '' });
+        if (candidate.activityType !== undefined) {
+          if (typeof candidate.activityType !== 'string') {
+            throw new Error('Rule activity type must be a string');
+          }
+          this.validateActivityTypes([candidate.activityType]);
+        }
+        return;
+      case 'averagePace':
+        if (typeof candidate.max !== 'number') {
+          throw new Error('Pace rules need a numeric maximum');
+        }
+        this.validateThresholdValues({ averagePace: candidate.max, updatedBy: '' });
+        return;
+      case 'activityTypes':
+        if (
+          !Array.isArray(candidate.anyOf) ||
+          candidate.anyOf.length === 0 ||
+          !candidate.anyOf.every(type => typeof type === 'string')
+        ) {
+          throw new Error('Activity type rules need at least one activity type');
+        }
+        this.validateActivityTypes(candidate.anyOf);
+        return;
+      default:
+        throw new Error(`Rule metric must be one of: ${ELIGIBILITY_METRICS.join(', ')}`);
     }
   }
 
   /**
    * Admin: Get threshold history
    */
-  static async getThresholdHistory(days: number = 30): Promise<FitnessThreshold[]> {
+  static async getThresholdHistory(days: number = 30): Promise<ThresholdVersion[]> {
     return await FitnessThresholdModel.getHistory(days);
   }
 
@@ -0,0 +1,93 @@
+import { MatchModel } from '../models/Match';
+import { MessageService } from './messageService';
+import { Match, MatchExpiryResult } from '../types';
+import { logger } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days a match can go without a message before it expires
+const DEFAULT_SILENT_MATCH_EXPIRY_DAYS = 7;
+
+// Leaves at least a day between the reminder and the match being old enough
+// to expire
+const MIN_SILENT_MATCH_EXPIRY_DAYS = 2;
+
+export class MatchExpiryService {
+  /**
+   * Remind both users of matches that will expire within a day for lack of
+   * messages, then expire matches that are still silent a day after their
+   * reminder. Configured with SILENT_MATCH_EXPIRY_DAYS.
+   */
+  static async processSilentMatches(): Promise<MatchExpiryResult> {
+    const expiryDays = this.getExpiryDays();
+    const now = Date.now();
+    const result: MatchExpiryResult = { reminded: 0, expired: 0 };
+
+    const toRemind = await MatchModel.findSilentMatchesToRemind(
+      new Date(now - (expiryDays - 1) * DAY_MS)
+    );
+    if (toRemind.length > 0) {
+      await MatchModel.markExpiryReminderSent(toRemind.map(match => match.id));
+      toRemind.forEach(match => {
+        this.notifyBoth(match, 'match-expiring', {
+          matchId: match.id,
+          expiresAt: this.getExpiresAt({
+            matchedAt: match.matchedAt,
+            expiryReminderSentAt: new Date(now),
+          }),
+        });
+      });
+      result.reminded = toRemind.length;
+    }
+
+    // A match only expires once its reminder is a day old, even if the job
+    // missed runs and the match is already past its expiry date
+    const toExpire = await MatchModel.findSilentMatchesToExpire(
+      new Date(now - expiryDays * DAY_MS),
+      new Date(now - DAY_MS)
+    );
+    for (const match of toExpire) {
+      if (await MatchModel.expireIfSilent(match.id)) {
+        this.notifyBoth(match, 'match-removed', { matchId: match.id });
+        result.expired++;
+      }
+    }
+
+    logger.info('Silent match expiry completed', result);
+    return result;
+  }
+
+  /**
+   * When a silent match that was sent its reminder expires, or null if it has
+   * not been reminded. Stored so users who were offline for the reminder are
+   * still warned when they next load their conversations.
+   */
+  static getExpiresAt(
+    match: Pick<Match, 'matchedAt' | 'expiryReminderSentAt'>
+  ): Date | null {
+    if (!match.expiryReminderSentAt) {
+      return null;
+    }
+    return new Date(
+      Math.max(
+        match.matchedAt.getTime() + this.getExpiryDays() * DAY_MS,
+        match.expiryReminderSentAt.getTime() + DAY_MS
+      )
+    );
+  }
+
+  /**
+   * Days a match can go without a message before it expires
+   */
+  static getExpiryDays(): number {
+    const days = parseInt(process.env.SILENT_MATCH_EXPIRY_DAYS || '', 10);
+    return Number.isNaN(days)
+      ? DEFAULT_SILENT_MATCH_EXPIRY_DAYS
+      : Math.max(MIN_SILENT_MATCH_EXPIRY_DAYS, days);
+  }
+
+  private static notifyBoth(match: Match, event: string, data: unknown): void {
+    MessageService.notifyUser(match.user1Id, event, data);
+    MessageService.notifyUser(match.user2Id, event, data);
+  }
+}
@@ -1,8 +1,48 @@
 import { UserModel } from '../models/User';
-import { FitnessStatsModel } from '../models/FitnessStats';
+import {
+  FitnessStatsModel,
+  parseSportProfiles,
+  parseTrainingAreas,
+  parseTrainingSchedule,
+} from '../models/FitnessStats';
 import { MatchingPreferencesModel } from '../models/MatchingPreferences';
 import { MatchModel } from '../models/Match';
+import { SwipeModel } from '../models/Swipe';
+import { ScoringProfileModel } from '../models/ScoringProfile';
+import { RecommendationQueueModel } from '../models/RecommendationQueue';
+import { BlockModel } from '../models/Block';
+import { MatchScoreHistoryModel } from '../models/MatchScoreHistory';
+import { MessageService } from './messageService';
+import { ExposureService } from './exposureService';
 import { prisma } from '../config/database';
+import { Prisma } from '../generated/prisma';
+import {
+  CompatibilityBackfillJob,
+  CompatibilityBackfillResult,
+  CompatibilityBreakdown,
+  CompatibilityFactors,
+  CompatibilityReason,
+  CompatibilityWeights,
+  FITNESS_RANGES,
+  FitnessRangePreferences,
+  Gender,
+  Match,
+  MatchMode,
+  MatchRescoreResult,
+  MatchScoreTrend,
+  ScoringProfileSettings,
+  SportProfiles,
+  SwipeDecision,
+  SwipeResult,
+  UnmatchReason,
+  UnmatchResult,
+  User,
+} from '../types';
+import { logger } from '../utils/logger';
+import { boundingBoxWhere, calculateDistanceKm, getBoundingBox } from '../utils/geo';
+import { calculateScheduleOverlap, getDominantTimeOfDay } from '../utils/trainingSchedule';
+import { calculateTrainingAreaOverlap } from '../utils/trainingAreas';
+import { rerankCandidates } from '../utils/exposureRanking';
 
 export interface PotentialMatch {
   userId: string;
@@ -17,12 +57,8 @@ export interface PotentialMatch {
     bio: string | null;
   };
   compatibilityScore: number;
-  compatibilityFactors: {
-    activityOverlap: number;
-    performanceSimilarity: number;
-    locationProximity: number;
-    ageCompatibility: number;
-  };
+  compatibilityFactors: CompatibilityFactors;
+  compatibilityReasons: CompatibilityReason[];
   fitnessStats: {
     weeklyDistance: number;
     weeklyActivities: number;
@@ -32,28 +68,57 @@ export interface PotentialMatch {
   };
 }
 
-export interface MatchingFilters {
+export interface MatchingFilters extends Partial<FitnessRangePreferences> {
   minAge?: number;
   maxAge?: number;
   maxDistance?: number;
   preferredActivities?: string[];
+  dealbreakerActivities?: string[];
   minCompatibilityScore?: number;
+  interestedIn?: Gender[];
+  partnerAnyGender?: boolean;
+  partnerAnyAge?: boolean;
 }
 
+// Thresholds for when two users are similar enough to call it out as a reason
+const REASON_MAX_WEEKLY_ACTIVITIES_GAP = 1.5;
+const REASON_MAX_WEEKLY_DISTANCE_GAP_RATIO = 0.2;
+const REASON_MAX_PACE_GAP_SECONDS = 30;
+const REASON_MAX_DISTANCE_KM = 15;
+const REASON_MAX_AGE_GAP = 3;
+const REASON_MIN_DOMINANT_TIME_OF_DAY_SHARE = 0.5;
+const REASON_MIN_TRAINING_AREA_OVERLAP = 0.3;
+
+// How long an unmatched pair is kept out of each other's deck
+const DEFAULT_REMATCH_COOLDOWN_DAYS = 30;
+
+// Window the match detail reports score changes over
+const SCORE_TREND_DAYS = 30;
+
+// Points added for a candidate who does every nice-to-have preferred activity
+const PREFERRED_ACTIVITY_MAX_BOOST = 10;
+
 export class MatchingService {
+  // The latest compatibility backfill, reported through the admin stats
+  private static backfillJob: CompatibilityBackfillJob | null = null;
+
   /**
-   * Find potential matches for a user
+   * Find potential matches for a user in a mode, by default the first one
+   * their discovery mode covers
    */
   static async findPotentialMatches(
     userId: string,
     limit: number = 20,
-    offset: number = 0
+    offset: number = 0,
+    scoringSettings?: ScoringProfileSettings,
+    mode?: MatchMode
   ): Promise<PotentialMatch[]> {
     // Get user's basic info and preferences
-    const [user, userPreferences, userFitnessStats] = await Promise.all([
+    const [user, userPreferences, userFitnessStats, settings] = await Promise.all([
       UserModel.findById(userId),
       MatchingPreferencesModel.findByUserId(userId),
       FitnessStatsModel.findByUserId(userId),
+      scoringSettings ?? this.getScoringSettings(),
     ]);
 
     if (!user || !userFitnessStats) {
@@ -62,92 +127,221 @@ export class MatchingService {
 
     // Use default preferences if none exist
     const preferences = userPreferences || MatchingPreferencesModel.getDefaultPreferences(userId);
+    const matchMode = this.resolveMatchMode(user, mode);
 
-    // Get users within distance and age range, excluding already matched users
-    const potentialUsers = await this.getFilteredUsers(userId, user, preferences);
+    // Get users within distance and age range who do every dealbreaker activity,
+    // excluding already matched users
+    const { candidates: potentialUsers, activityTypes } = await this.getFilteredUsers(
+      userId,
+      user,
+      preferences,
+      matchMode
+    );
+    const userActivityTypes = activityTypes.get(userId) ?? new Set<string>();
+    const { niceToHaves } = this.getActivityPreferences(preferences);
 
     // Calculate compatibility scores for each potential match
-    const scoredMatches = await Promise.all(
-      potentialUsers.map(async (potentialUser) => {
-        const compatibilityScore = await this.calculateCompatibilityScore(
+    const scoredMatches = potentialUsers.map(potentialUser => {
+      const candidateActivityTypes = activityTypes.get(potentialUser.id) ?? new Set<string>();
+      const compatibilityScore = this.applyPreferredActivityBoost(
+        this.scoreCompatibility(
           user,
           userFitnessStats,
+          userActivityTypes,
           potentialUser,
-          potentialUser.fitnessStats
-        );
+          potentialUser.fitnessStats,
+          candidateActivityTypes,
+          settings
+        ),
+        niceToHaves,
+        this.getCandidateActivities(
+          candidateActivityTypes,
+          potentialUser.fitnessStats.favoriteActivities
+        )
+      );
 
-        return {
-          userId: potentialUser.id,
-          user: {
-            id: potentialUser.id,
-            firstName: potentialUser.firstName,
-            lastName: potentialUser.lastName,
-            age: potentialUser.age,
-            city: potentialUser.city,
-            state: potentialUser.state,
-            photos: potentialUser.photos,
-            bio: potentialUser.bio,
-          },
-          compatibilityScore: compatibilityScore.score,
-          compatibilityFactors: compatibilityScore.factors,
-          fitnessStats: {
-            weeklyDistance: potentialUser.fitnessStats.weeklyDistance,
-            weeklyActivities: potentialUser.fitnessStats.weeklyActivities,
-            averagePace: potentialUser.fitnessStats.averagePace,
-            favoriteActivities: potentialUser.fitnessStats.favoriteActivities,
-            totalDistance: potentialUser.fitnessStats.totalDistance,
-          },
-        };
-      })
-    );
+      return {
+        userId: potentialUser.id,
+        user: {
+          id: potentialUser.id,
+          firstName: potentialUser.firstName,
+          lastName: potentialUser.lastName,
+          age: potentialUser.age,
+          city: potentialUser.city,
+          state: potentialUser.state,
+          photos: potentialUser.photos,
+          bio: potentialUser.bio,
+        },
+        compatibilityScore: compatibilityScore.score,
+        compatibilityFactors: compatibilityScore.factors,
+        compatibilityReasons: compatibilityScore.reasons,
+        fitnessStats: {
+          weeklyDistance: potentialUser.fitnessStats.weeklyDistance,
+          weeklyActivities: potentialUser.fitnessStats.weeklyActivities,
+          averagePace: potentialUser.fitnessStats.averagePace,
+          favoriteActivities: potentialUser.fitnessStats.favoriteActivities,
+          totalDistance: potentialUser.fitnessStats.totalDistance,
+        },
+      };
+    });
 
     // Filter by minimum compatibility score and sort by score
     const filteredMatches = scoredMatches
       .filter(match => match.compatibilityScore >= (preferences.minCompatibilityScore || 0))
       .sort((a, b) => b.compatibilityScore - a.compatibilityScore);
 
+    const rankedMatches = await this.rerankMatches(filteredMatches, settings);
+
     // Apply pagination
-    return filteredMatches.slice(offset, offset + limit);
+    return rankedMatches.slice(offset, offset + limit);
+  }
+
+  /**
+   * Modes a discovery mode browses in, the default one first
+   */
+  static getMatchModes(discoveryMode: string | undefined): MatchMode[] {
+    if (discoveryMode === 'both') {
+      return ['dating', 'partner'];
+    }
+    return [discoveryMode === 'partner' ? 'partner' : 'dating'];
+  }
+
+  /**
+   * Pick the mode a user browses and swipes in: the one asked for if their
+   * discovery mode covers it, otherwise their default
+   */
+  static resolveMatchMode(user: User, requested?: MatchMode): MatchMode {
+    const modes = this.getMatchModes(user.discoveryMode);
+    if (requested === undefined) {
+      return modes[0];
+    }
+    if (!modes.includes(requested)) {
+      throw new Error('Mode is not enabled for this user');
+    }
+    return requested;
+  }
+
+  /**
+   * The mode a user browses in unless they ask for another
+   */
+  static async getDefaultMatchMode(userId: string): Promise<MatchMode> {
+    const user = await UserModel.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return this.getMatchModes(user.discoveryMode)[0];
+  }
+
+  /**
+   * Lift rarely shown profiles and mix sports and cities at the top of the
+   * deck, as strongly as the scoring profile asks for
+   */
+  private static async rerankMatches(
+    matches: PotentialMatch[],
+    settings: ScoringProfileSettings
+  ): Promise<PotentialMatch[]> {
+    if (settings.exposureStrength <= 0 && settings.diversityStrength <= 0) {
+      return matches;
+    }
+
+    const impressions = settings.exposureStrength > 0
+      ? await ExposureService.getImpressionCounts(matches.map(match => match.userId))
+      : new Map<string, number>();
+
+    return rerankCandidates(
+      matches.map(match => ({
+        match,
+        score: match.compatibilityScore,
+        impressions: impressions.get(match.userId) ?? 0,
+        // Favorite activities are ordered by how often they are done
+        sport: match.fitnessStats.favoriteActivities[0] ?? null,
+        city: match.user.city ? `${match.user.city}, ${match.user.state}` : null,
+      })),
+      settings
+    ).map(candidate => candidate.match);
   }
 
   /**
-   * Get filtered users based on preferences and exclusions
+   * Get filtered users based on preferences and exclusions, along with the
+   * recent activity types of the user and every candidate
    */
   private static async getFilteredUsers(
     userId: string,
     user: any,
-    preferences: any
-  ): Promise<any[]> {
-    // Get users already matched or interacted with
-    const existingMatches = await MatchModel.findByUserId(userId);
+    preferences: any,
+    mode: MatchMode
+  ): Promise<{ candidates: any[]; activityTypes: Map<string, Set<string>> }> {
+    // Get users already matched or interacted with in this mode, blocked in
+    // either direction or unmatched too recently to be suggested again. An
+    // unmatch in one mode keeps the pair apart in the other as well.
+    const [existingMatches, swipedUserIds, blockedUserIds, unmatchedUserIds] = await Promise.all([
+      MatchModel.findByUserId(userId),
+      SwipeModel.getSwipedUserIds(userId, mode),
+      BlockModel.getBlockedUserIds(userId),
+      MatchModel.getUnmatchedUserIdsSince(userId, this.getRematchCooldownCutoff()),
+    ]);
     const matchedUserIds = Array.isArray(existingMatches) 
-      ? existingMatches.map(match => 
-          match.user1Id === userId ? match.user2Id : match.user1Id
-        )
+      ? existingMatches
+          .filter(match => match.mode === mode)
+          .map(match => 
+            match.user1Id === userId ? match.user2Id : match.user1Id
+          )
       : [];
+    const excludedUserIds = [
+      ...new Set([...matchedUserIds, ...swipedUserIds, ...blockedUserIds, ...unmatchedUserIds]),
+    ];
+
+    // Partner mode can drop the gender and age preferences, which are meant for dating
+    const anyGender = mode === 'partner' && preferences.partnerAnyGender;
+    const anyAge = mode === 'partner' && preferences.partnerAnyAge;
+    const interestedIn: string[] = anyGender ? [] : preferences.interestedIn || [];
 
     // Build the query to find potential matches
     const potentialUsers = await prisma.user.findMany({
       where: {
         id: {
           not: userId,
-          notIn: matchedUserIds,
-        },
-        age: {
-          gte: preferences.minAge,
-          lte: preferences.maxAge,
+          notIn: excludedUserIds,
         },
+        discoveryMode: { in: [mode, 'both'] },
+        // Users stay visible through their grace period
+        eligibilityStatus: { not: 'ineligible' },
+        ...(!anyAge && {
+          age: {
+            gte: preferences.minAge,
+            lte: preferences.maxAge,
+          },
+        }),
+        ...(interestedIn.length > 0 && { gender: { in: interestedIn } }),
+        // Indexed bounding-box prefilter so only nearby users are read
+        ...boundingBoxWhere(getBoundingBox(user.latitude, user.longitude, preferences.maxDistance)),
+        ...this.fitnessRangeWhere(preferences),
       },
       include: {
         fitnessStats: true,
+        matchingPreferences: {
+          select: { interestedIn: true, partnerAnyGender: true },
+        },
       },
     });
 
-    // Filter by distance using Haversine formula
+    // Exact Haversine check to drop the corners of the bounding box
     const usersWithinDistance = potentialUsers.filter(potentialUser => {
       if (!potentialUser.fitnessStats) return false;
 
-      const distance = this.calculateDistance(
+      // The candidate must also want to be shown the current user. Candidates
+      // without preferences show every gender in partner mode, as by default.
+      const candidatePreferences = potentialUser.matchingPreferences;
+      const candidateAnyGender =
+        mode === 'partner' && (candidatePreferences?.partnerAnyGender ?? true);
+      if (
+        !candidateAnyGender &&
+        !this.fitsGenderPreference(user.gender, candidatePreferences?.interestedIn)
+      ) {
+        return false;
+      }
+
+      const distance = calculateDistanceKm(
         user.latitude,
         user.longitude,
         potentialUser.latitude,
@@ -157,7 +351,7 @@ export class MatchingService {
       return distance <= preferences.maxDistance;
     });
 
-    return usersWithinDistance.map(user => ({
+    const candidates = usersWithinDistance.map(({ matchingPreferences: _preferences, ...user }) => ({
       ...user,
       photos: Array.isArray(user.photos) ? user.photos as string[] : [],
       fitnessStats: {
@@ -165,8 +359,127 @@ export class MatchingService {
         favoriteActivities: Array.isArray(user.fitnessStats?.favoriteActivities) 
           ? user.fitnessStats.favoriteActivities as string[] 
           : [],
+        sportProfiles: parseSportProfiles(user.fitnessStats?.sportProfiles),
+        trainingSchedule: parseTrainingSchedule(user.fitnessStats?.trainingSchedule),
+        trainingAreas: parseTrainingAreas(user.fitnessStats?.trainingAreas),
       },
     }));
+
+    // Load every recent activity-type set in one query instead of two per candidate
+    const activityTypes = await this.getRecentActivityTypes([
+      userId,
+      ...candidates.map(candidate => candidate.id),
+    ]);
+
+    const { dealbreakers } = this.getActivityPreferences(preferences);
+    if (dealbreakers.length === 0) {
+      return { candidates, activityTypes };
+    }
+
+    return {
+      candidates: candidates.filter(candidate => {
+        const activities = this.getCandidateActivities(
+          activityTypes.get(candidate.id) ?? new Set<string>(),
+          candidate.fitnessStats.favoriteActivities
+        );
+        return dealbreakers.every(activity => activities.has(activity));
+      }),
+      activityTypes,
+    };
+  }
+
+  /**
+   * Build the candidate filter for the user's fitness ranges. Candidates without
+   * an average pace are left out once a pace bound is set.
+   */
+  private static fitnessRangeWhere(
+    preferences: Partial<FitnessRangePreferences>
+  ): Prisma.UserWhereInput {
+    const stats: Prisma.FitnessStatsWhereInput = {};
+    for (const { stat, min, max } of FITNESS_RANGES) {
+      const lower = preferences[min];
+      const upper = preferences[max];
+      if (typeof lower === 'number' || typeof upper === 'number') {
+        stats[stat] = {
+          ...(typeof lower === 'number' && { gte: lower }),
+          ...(typeof upper === 'number' && { lte: upper }),
+        };
+      }
+    }
+
+    return Object.keys(stats).length > 0 ? { fitnessStats: { is: stats } } : {};
+  }
+
+  /**
+   * Split preferred activities into dealbreakers a candidate must do and
+   * nice-to-haves that only boost their score
+   */
+  private static getActivityPreferences(preferences: any): {
+    dealbreakers: string[];
+    niceToHaves: string[];
+  } {
+    const preferred: string[] = preferences.preferredActivities || [];
+    const marked: string[] = preferences.dealbreakerActivities || [];
+    return {
+      dealbreakers: preferred.filter(activity => marked.includes(activity)),
+      niceToHaves: preferred.filter(activity => !marked.includes(activity)),
+    };
+  }
+
+  /**
+   * Activities a candidate does: recorded in the last 30 days or listed as a favorite.
+   * Used for both dealbreakers and nice-to-haves so the two always agree.
+   */
+  private static getCandidateActivities(
+    recentActivityTypes: Set<string>,
+    favoriteActivities: string[]
+  ): Set<string> {
+    return new Set([...recentActivityTypes, ...favoriteActivities]);
+  }
+
+  /**
+   * Raise a candidate's score by how many of the viewer's nice-to-have activities
+   * they do. The factors are left alone since they describe the pair, not the viewer.
+   */
+  private static applyPreferredActivityBoost(
+    breakdown: CompatibilityBreakdown,
+    niceToHaves: string[],
+    candidateActivities: Set<string>
+  ): CompatibilityBreakdown {
+    const matched = niceToHaves.filter(activity => candidateActivities.has(activity));
+    if (matched.length === 0) {
+      return breakdown;
+    }
+
+    const boost = Math.round((PREFERRED_ACTIVITY_MAX_BOOST * matched.length) / niceToHaves.length);
+    return {
+      ...breakdown,
+      score: Math.min(100, breakdown.score + boost),
+      // The viewer asked for these, so they lead the reasons
+      reasons: [
+        {
+          code: 'preferred_activities',
+          factor: 'activityOverlap',
+          params: { activities: matched.sort() },
+        },
+        ...breakdown.reasons,
+      ],
+    };
+  }
+
+  /**
+   * Check whether a gender fits a "show me" preference. An empty preference
+   * shows everyone; otherwise users without a gender are not shown.
+   */
+  private static fitsGenderPreference(
+    gender: string | null | undefined,
+    interestedIn: unknown
+  ): boolean {
+    const genders = Array.isArray(interestedIn) ? (interestedIn as string[]) : [];
+    if (genders.length === 0) {
+      return true;
+    }
+    return !!gender && genders.includes(gender);
   }
 
   /**
@@ -176,18 +489,41 @@ export class MatchingService {
     user1: any,
     user1FitnessStats: any,
     user2: any,
-    user2FitnessStats: any
-  ): Promise<{
-    score: number;
-    factors: {
-      activityOverlap: number;
-      performanceSimilarity: number;
-      locationProximity: number;
-      ageCompatibility: number;
-    };
-  }> {
+    user2FitnessStats: any,
+    scoringSettings?: ScoringProfileSettings
+  ): Promise<CompatibilityBreakdown> {
+    const [settings, activityTypes] = await Promise.all([
+      scoringSettings ?? this.getScoringSettings(),
+      this.getRecentActivityTypes([user1.id, user2.id]),
+    ]);
+
+    return this.scoreCompatibility(
+      user1,
+      user1FitnessStats,
+      activityTypes.get(user1.id) ?? new Set<string>(),
+      user2,
+      user2FitnessStats,
+      activityTypes.get(user2.id) ?? new Set<string>(),
+      settings
+    );
+  }
+
+  /**
+   * Score two users from already-loaded data (no database access)
+   */
+  private static scoreCompatibility(
+    user1: any,
+    user1FitnessStats: any,
+    user1ActivityTypes: Set<string>,
+    user2: any,
+    user2FitnessStats: any,
+    user2ActivityTypes: Set<string>,
+    settings: ScoringProfileSettings
+  ): CompatibilityBreakdown {
+    const { weights, maxDistanceKm, maxAgeDifference } = settings;
+
     // Calculate individual compatibility factors
-    const activityOverlap = await this.calculateActivityOverlap(user1.id, user2.id);
+    const activityOverlap = this.calculateActivityOverlap(user1ActivityTypes, user2ActivityTypes);
     const performanceSimilarity = this.calculatePerformanceSimilarity(
       user1FitnessStats,
       user2FitnessStats
@@ -196,84 +532,243 @@ export class MatchingService {
       user1.latitude,
       user1.longitude,
       user2.latitude,
-      user2.longitude
+      user2.longitude,
+      maxDistanceKm
+    );
+    const ageCompatibility = this.calculateAgeCompatibility(user1.age, user2.age, maxAgeDifference);
+    const scheduleOverlap = calculateScheduleOverlap(
+      user1FitnessStats.trainingSchedule || [],
+      user2FitnessStats.trainingSchedule || []
+    );
+    // Where they actually train, independent of the city on their profiles
+    const trainingAreaOverlap = calculateTrainingAreaOverlap(
+      user1FitnessStats.trainingAreas || [],
+      user2FitnessStats.trainingAreas || []
     );
-    const ageCompatibility = this.calculateAgeCompatibility(user1.age, user2.age);
-
-    // Weight the factors (can be adjusted based on requirements)
-    const weights = {
-      activityOverlap: 0.4,
-      performanceSimilarity: 0.3,
-      locationProximity: 0.2,
-      ageCompatibility: 0.1,
-    };
 
     // Calculate weighted score
     const score = Math.round(
       (activityOverlap * weights.activityOverlap +
         performanceSimilarity * weights.performanceSimilarity +
         locationProximity * weights.locationProximity +
-        ageCompatibility * weights.ageCompatibility) * 100
+        ageCompatibility * weights.ageCompatibility +
+        scheduleOverlap * weights.scheduleOverlap +
+        trainingAreaOverlap * weights.trainingAreaOverlap) * 100
     );
 
+    const factors = {
+      activityOverlap: Math.round(activityOverlap * 100),
+      performanceSimilarity: Math.round(performanceSimilarity * 100),
+      locationProximity: Math.round(locationProximity * 100),
+      ageCompatibility: Math.round(ageCompatibility * 100),
+      scheduleOverlap: Math.round(scheduleOverlap * 100),
+      trainingAreaOverlap: Math.round(trainingAreaOverlap * 100),
+    };
+
     return {
       score,
-      factors: {
-        activityOverlap: Math.round(activityOverlap * 100),
-        performanceSimilarity: Math.round(performanceSimilarity * 100),
-        locationProximity: Math.round(locationProximity * 100),
-        ageCompatibility: Math.round(ageCompatibility * 100),
-      },
+      factors,
+      reasons: this.explainCompatibility(
+        user1,
+        user1FitnessStats,
+        user1ActivityTypes,
+        user2,
+        user2FitnessStats,
+        user2ActivityTypes,
+        factors,
+        weights
+      ),
     };
   }
 
   /**
-   * Calculate activity overlap between two users
+   * Describe what two users have in common, from the same inputs used for scoring.
+   * Reasons are ordered by how much their factor contributes to the score.
+   */
+  private static explainCompatibility(
+    user1: any,
+    user1FitnessStats: any,
+    user1ActivityTypes: Set<string>,
+    user2: any,
+    user2FitnessStats: any,
+    user2ActivityTypes: Set<string>,
+    factors: CompatibilityFactors,
+    weights: CompatibilityWeights
+  ): CompatibilityReason[] {
+    const reasons: CompatibilityReason[] = [];
+
+    const sharedActivities = [...user1ActivityTypes].filter(type => user2ActivityTypes.has(type));
+    if (sharedActivities.length > 0) {
+      reasons.push({
+        code: 'shared_activities',
+        factor: 'activityOverlap',
+        params: { activities: sharedActivities.sort() },
+      });
+    }
+
+    const minWeeklyActivities = Math.min(
+      user1FitnessStats.weeklyActivities,
+      user2FitnessStats.weeklyActivities
+    );
+    const weeklyActivitiesGap = Math.abs(
+      user1FitnessStats.weeklyActivities - user2FitnessStats.weeklyActivities
+    );
+    if (minWeeklyActivities >= 2 && weeklyActivitiesGap <= REASON_MAX_WEEKLY_ACTIVITIES_GAP) {
+      reasons.push({
+        code: 'similar_training_frequency',
+        factor: 'performanceSimilarity',
+        params: { timesPerWeek: Math.floor(minWeeklyActivities) },
+      });
+    }
+
+    const maxWeeklyDistance = Math.max(
+      user1FitnessStats.weeklyDistance,
+      user2FitnessStats.weeklyDistance
+    );
+    const weeklyDistanceGap = Math.abs(
+      user1FitnessStats.weeklyDistance - user2FitnessStats.weeklyDistance
+    );
+    if (
+      Math.min(user1FitnessStats.weeklyDistance, user2FitnessStats.weeklyDistance) > 0 &&
+      weeklyDistanceGap / maxWeeklyDistance <= REASON_MAX_WEEKLY_DISTANCE_GAP_RATIO
+    ) {
+      reasons.push({
+        code: 'similar_weekly_distance',
+        factor: 'performanceSimilarity',
+        params: {
+          distanceKm: Math.round(
+            (user1FitnessStats.weeklyDistance + user2FitnessStats.weeklyDistance) / 2 / 1000
+          ),
+        },
+      });
+    }
+
+    if (user1FitnessStats.averagePace && user2FitnessStats.averagePace) {
+      const paceGap = Math.abs(user1FitnessStats.averagePace - user2FitnessStats.averagePace);
+      if (paceGap <= REASON_MAX_PACE_GAP_SECONDS) {
+        reasons.push({
+          code: 'similar_pace',
+          factor: 'performanceSimilarity',
+          // Round up to the nearest 5 s/km so the claim is never tighter than reality
+          params: { withinSeconds: Math.max(5, Math.ceil(paceGap / 5) * 5) },
+        });
+      }
+    }
+
+    const distanceKm = calculateDistanceKm(
+      user1.latitude,
+      user1.longitude,
+      user2.latitude,
+      user2.longitude
+    );
+    if (distanceKm <= REASON_MAX_DISTANCE_KM) {
+      reasons.push({
+        code: 'nearby',
+        factor: 'locationProximity',
+        params: { distanceKm: Math.max(1, Math.ceil(distanceKm)) },
+      });
+    }
+
+    const ageGap = Math.abs(user1.age - user2.age);
+    if (ageGap <= REASON_MAX_AGE_GAP) {
+      reasons.push({
+        code: 'similar_age',
+        factor: 'ageCompatibility',
+        params: { years: ageGap },
+      });
+    }
+
+    const dominant1 = getDominantTimeOfDay(user1FitnessStats.trainingSchedule || []);
+    const dominant2 = getDominantTimeOfDay(user2FitnessStats.trainingSchedule || []);
+    if (
+      dominant1 &&
+      dominant2 &&
+      dominant1.slot === dominant2.slot &&
+      Math.min(dominant1.share, dominant2.share) >= REASON_MIN_DOMINANT_TIME_OF_DAY_SHARE
+    ) {
+      reasons.push({
+        code: 'similar_schedule',
+        factor: 'scheduleOverlap',
+        params: { timeOfDay: dominant1.slot },
+      });
+    }
+
+    if (factors.trainingAreaOverlap >= REASON_MIN_TRAINING_AREA_OVERLAP * 100) {
+      reasons.push({
+        code: 'shared_training_areas',
+        factor: 'trainingAreaOverlap',
+        // Round down to the nearest 10% so the claim is never stronger than reality
+        params: { percent: Math.floor(factors.trainingAreaOverlap / 10) * 10 },
+      });
+    }
+
+    const contribution = (reason: CompatibilityReason) =>
+      factors[reason.factor] * weights[reason.factor];
+
+    // Array.prototype.sort is stable, so reasons for the same factor keep their order
+    return reasons.sort((a, b) => contribution(b) - contribution(a));
+  }
+
+  /**
+   * Load the distinct activity types each user recorded in the last 30 days
    */
-  private static async calculateActivityOverlap(user1Id: string, user2Id: string): Promise<number> {
-    // Get recent activities for both users (last 30 days)
+  private static async getRecentActivityTypes(
+    userIds: string[]
+  ): Promise<Map<string, Set<string>>> {
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
-    const [user1Activities, user2Activities] = await Promise.all([
-      prisma.stravaActivity.findMany({
-        where: {
-          userId: user1Id,
-          startDate: { gte: thirtyDaysAgo },
-        },
-        select: { type: true },
-      }),
-      prisma.stravaActivity.findMany({
-        where: {
-          userId: user2Id,
-          startDate: { gte: thirtyDaysAgo },
-        },
-        select: { type: true },
-      }),
-    ]);
+    const rows = await prisma.stravaActivity.findMany({
+      where: {
+        userId: { in: userIds },
+        startDate: { gte: thirtyDaysAgo },
+      },
+      select: { userId: true, type: true },
+      distinct: ['userId', 'type'],
+    });
 
-    if (user1Activities.length === 0 || user2Activities.length === 0) {
-      return 0;
+    const typesByUser = new Map<string, Set<string>>();
+    for (const row of rows) {
+      const types = typesByUser.get(row.userId) ?? new Set<string>();
+      types.add(row.type);
+      typesByUser.set(row.userId, types);
     }
+    return typesByUser;
+  }
 
-    // Get unique activity types for each user
-    const user1Types = new Set(user1Activities.map(a => a.type));
-    const user2Types = new Set(user2Activities.map(a => a.type));
+  /**
+   * Calculate activity overlap between two users
+   */
+  private static calculateActivityOverlap(
+    user1Types: Set<string>,
+    user2Types: Set<string>
+  ): number {
+    if (user1Types.size === 0 || user2Types.size === 0) {
+      return 0;
+    }
 
     // Calculate Jaccard similarity (intersection / union)
-    const intersection = new Set([...user1Types].filter(type => user2Types.has(type)));
-    const union = new Set([...user1Types, ...user2Types]);
+    const intersection = [...user1Types].filter(type => user2Types.has(type)).length;
+    const union = new Set([...user1Types, ...user2Types]).size;
 
-    return intersection.size / union.size;
+    return intersection / union;
   }
 
   /**
-   * Calculate performance similarity between two users
+   * Calculate performance similarity between two users. Users with per-sport
+   * profiles are compared only on the sports they share.
    */
   private static calculatePerformanceSimilarity(
     user1Stats: any,
     user2Stats: any
   ): number {
+    const user1Profiles: SportProfiles = user1Stats.sportProfiles || {};
+    const user2Profiles: SportProfiles = user2Stats.sportProfiles || {};
+    if (Object.keys(user1Profiles).length > 0 && Object.keys(user2Profiles).length > 0) {
+      return this.calculateSportSimilarity(user1Profiles, user2Profiles);
+    }
+
+    // Stats synced before per-sport profiles existed are compared overall
     // Normalize metrics to 0-1 scale for comparison
     const maxWeeklyDistance = Math.max(user1Stats.weeklyDistance, user2Stats.weeklyDistance);
     const maxWeeklyActivities = Math.max(user1Stats.weeklyActivities, user2Stats.weeklyActivities);
@@ -302,6 +797,70 @@ export class MatchingService {
     return (distanceSimilarity * 0.4 + activitySimilarity * 0.4 + paceSimilarity * 0.2);
   }
 
+  /**
+   * Compare volume and speed sport by sport over the sports both users do,
+   * weighting each sport by the share of training time both users give it
+   */
+  private static calculateSportSimilarity(
+    user1Profiles: SportProfiles,
+    user2Profiles: SportProfiles
+  ): number {
+    const sharedSports = Object.keys(user1Profiles).filter(sport => sport in user2Profiles);
+    if (sharedSports.length === 0) {
+      return 0;
+    }
+
+    const user1Shares = this.getSportShares(user1Profiles);
+    const user2Shares = this.getSportShares(user2Profiles);
+
+    let weightedSimilarity = 0;
+    let totalWeight = 0;
+    for (const sport of sharedSports) {
+      const profile1 = user1Profiles[sport];
+      const profile2 = user2Profiles[sport];
+
+      const similarity =
+        this.ratioSimilarity(profile1.weeklyDistance, profile2.weeklyDistance) * 0.4 +
+        this.ratioSimilarity(profile1.weeklyActivities, profile2.weeklyActivities) * 0.4 +
+        this.ratioSimilarity(profile1.averageSpeed, profile2.averageSpeed) * 0.2;
+      const weight = ((user1Shares.get(sport) ?? 0) + (user2Shares.get(sport) ?? 0)) / 2;
+
+      weightedSimilarity += similarity * weight;
+      totalWeight += weight;
+    }
+
+    return totalWeight > 0 ? weightedSimilarity / totalWeight : 0;
+  }
+
+  /**
+   * Share of a user's training that goes to each sport, by moving time
+   * (or by activity count when moving time is missing)
+   */
+  private static getSportShares(profiles: SportProfiles): Map<string, number> {
+    const entries = Object.entries(profiles);
+    const totalMovingTime = entries.reduce((sum, [, profile]) => sum + profile.weeklyMovingTime, 0);
+    const totalActivities = entries.reduce((sum, [, profile]) => sum + profile.weeklyActivities, 0);
+
+    return new Map(
+      entries.map(([sport, profile]) => [
+        sport,
+        totalMovingTime > 0
+          ? profile.weeklyMovingTime / totalMovingTime
+          : totalActivities > 0
+            ? profile.weeklyActivities / totalActivities
+            : 0,
+      ])
+    );
+  }
+
+  /**
+   * 1 when two non-negative values are equal, falling to 0 as one approaches zero
+   */
+  private static ratioSimilarity(value1: number, value2: number): number {
+    const max = Math.max(value1, value2);
+    return max > 0 ? 1 - Math.abs(value1 - value2) / max : 1;
+  }
+
   /**
    * Calculate location proximity score
    */
@@ -309,76 +868,448 @@ export class MatchingService {
     lat1: number,
     lon1: number,
     lat2: number,
-    lon2: number
+    lon2: number,
+    maxDistance: number
   ): number {
-    const distance = this.calculateDistance(lat1, lon1, lat2, lon2);
+    const distance = calculateDistanceKm(lat1, lon1, lat2, lon2);
     
     // Convert distance to proximity score (closer = higher score)
-    // Max score at 0km, decreasing to 0 at 100km
-    const maxDistance = 100; // km
+    // Max score at 0km, decreasing to 0 at maxDistance km
     return Math.max(0, 1 - distance / maxDistance);
   }
 
   /**
    * Calculate age compatibility score
    */
-  private static calculateAgeCompatibility(age1: number, age2: number): number {
+  private static calculateAgeCompatibility(
+    age1: number,
+    age2: number,
+    maxAgeDifference: number
+  ): number {
     const ageDifference = Math.abs(age1 - age2);
     
     // Perfect score for same age, decreasing as difference increases
-    // Score becomes 0 at 20 years difference
-    const maxAgeDifference = 20;
+    // Score becomes 0 at maxAgeDifference years
     return Math.max(0, 1 - ageDifference / maxAgeDifference);
   }
 
   /**
-   * Calculate distance between two points using Haversine formula
+   * Get the live scoring profile, falling back to the built-in defaults
    */
-  private static calculateDistance(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number
-  ): number {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = this.toRadians(lat2 - lat1);
-    const dLon = this.toRadians(lon2 - lon1);
-    
-    const a = 
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.toRadians(lat1)) * Math.cos(this.toRadians(lat2)) *
-      Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
+  static async getScoringSettings(): Promise<ScoringProfileSettings> {
+    const profile = await ScoringProfileModel.getCurrent();
+    if (!profile) {
+      return ScoringProfileModel.getDefaultSettings();
+    }
+
+    return {
+      weights: profile.weights,
+      maxDistanceKm: profile.maxDistanceKm,
+      maxAgeDifference: profile.maxAgeDifference,
+      exposureStrength: profile.exposureStrength,
+      diversityStrength: profile.diversityStrength,
+    };
+  }
+
+  /**
+   * Record a like, pass or super-like in a mode, by default the swiper's
+   * first. A match is only created once both users have liked each other in
+   * the same mode, and is returned to the second liker.
+   */
+  static async recordSwipe(
+    userId: string,
+    targetUserId: string,
+    decision: SwipeDecision,
+    mode?: MatchMode
+  ): Promise<SwipeResult> {
+    if (await BlockModel.isBlockedEitherWay(userId, targetUserId)) {
+      throw new Error('Cannot swipe on a blocked user');
+    }
+
+    const [user, targetUser] = await Promise.all([
+      UserModel.findById(userId),
+      UserModel.findById(targetUserId),
+    ]);
+    if (!user || !targetUser) {
+      throw new Error('User not found');
+    }
+
+    const matchMode = this.resolveMatchMode(user, mode);
+    if (!this.getMatchModes(targetUser.discoveryMode).includes(matchMode)) {
+      throw new Error('Cannot swipe on a user who is not looking in this mode');
+    }
+
+    // An unmatch in either mode keeps the pair apart in both
+    const existingMatches = await MatchModel.findAllByUserIds(userId, targetUserId);
+    if (existingMatches.some(match => this.isInRematchCooldown(match))) {
+      throw new Error('Cannot swipe on this user until the rematch cooldown ends');
+    }
+    const existingMatch = existingMatches.find(match => match.mode === matchMode);
+
+    const swipe = await SwipeModel.upsert({
+      swiperId: userId,
+      targetId: targetUserId,
+      decision,
+      mode: matchMode,
+    });
+
+    if (decision === 'pass') {
+      return { swipe, isMatch: false, match: null };
+    }
+
+    const isReciprocated = await SwipeModel.hasLiked(targetUserId, userId, matchMode);
+    if (!isReciprocated) {
+      return { swipe, isMatch: false, match: null };
+    }
+
+    if (existingMatch && !this.canReopen(existingMatch)) {
+      return { swipe, isMatch: false, match: existingMatch };
+    }
+
+    const compatibility = await this.calculateCompatibilityForUsers(userId, targetUserId);
+    const match = await this.createMatch(
+      userId,
+      targetUserId,
+      compatibility.score,
+      compatibility.factors,
+      matchMode
+    );
+    return { swipe, isMatch: true, match };
   }
 
   /**
-   * Convert degrees to radians
+   * Load two users and their fitness stats and score them against each other
    */
-  private static toRadians(degrees: number): number {
-    return degrees * (Math.PI / 180);
+  static async calculateCompatibilityForUsers(
+    user1Id: string,
+    user2Id: string,
+    scoringSettings?: ScoringProfileSettings
+  ): Promise<CompatibilityBreakdown> {
+    const [user1, user2, user1FitnessStats, user2FitnessStats] = await Promise.all([
+      UserModel.findById(user1Id),
+      UserModel.findById(user2Id),
+      FitnessStatsModel.findByUserId(user1Id),
+      FitnessStatsModel.findByUserId(user2Id),
+    ]);
+
+    if (!user1 || !user2) {
+      throw new Error('User not found');
+    }
+
+    // Users who have not synced yet are scored as having no activity
+    const emptyStats = { weeklyDistance: 0, weeklyActivities: 0, averagePace: null };
+
+    return this.calculateCompatibilityScore(
+      user1,
+      user1FitnessStats || emptyStats,
+      user2,
+      user2FitnessStats || emptyStats,
+      scoringSettings
+    );
   }
 
   /**
-   * Create a match between two users
+   * Recompute stored compatibility for historical matches (admin job).
+   * By default only matches without a factor breakdown are processed.
+   */
+  static async backfillCompatibilityScores(
+    options: {
+      recomputeAll?: boolean;
+      batchSize?: number;
+      onProgress?: (result: CompatibilityBackfillResult) => void;
+    } = {}
+  ): Promise<CompatibilityBackfillResult> {
+    const { recomputeAll = false, batchSize = 100, onProgress } = options;
+    const result: CompatibilityBackfillResult = { processed: 0, updated: 0, failed: 0 };
+    const settings = await this.getScoringSettings();
+    let lastId: string | undefined;
+
+    for (;;) {
+      const matches = await prisma.match.findMany({
+        where: {
+          ...(recomputeAll ? {} : { compatibilityFactors: { equals: Prisma.DbNull } }),
+          ...(lastId ? { id: { gt: lastId } } : {}),
+        },
+        orderBy: { id: 'asc' },
+        take: batchSize,
+        select: { id: true, user1Id: true, user2Id: true },
+      });
+
+      if (matches.length === 0) {
+        break;
+      }
+
+      for (const match of matches) {
+        result.processed++;
+        try {
+          const compatibility = await this.calculateCompatibilityForUsers(
+            match.user1Id,
+            match.user2Id,
+            settings
+          );
+          await MatchModel.update(match.id, {
+            compatibilityScore: compatibility.score,
+            compatibilityFactors: compatibility.factors,
+          });
+          result.updated++;
+        } catch (error) {
+          result.failed++;
+          logger.error(`Failed to backfill compatibility for match ${match.id}:`, error);
+        }
+      }
+
+      lastId = matches[matches.length - 1].id;
+      onProgress?.({ ...result });
+    }
+
+    logger.info('Compatibility backfill completed', result);
+    return result;
+  }
+
+  /**
+   * Start a compatibility backfill in the background. Only one runs at a time;
+   * its progress and result are read with getCompatibilityBackfillJob.
+   */
+  static startCompatibilityBackfill(
+    startedBy: string,
+    options: { recomputeAll?: boolean } = {}
+  ): CompatibilityBackfillJob {
+    if (this.backfillJob?.status === 'running') {
+      throw new Error('A compatibility backfill is already running');
+    }
+
+    const job: CompatibilityBackfillJob = {
+      status: 'running',
+      recomputeAll: options.recomputeAll === true,
+      startedBy,
+      startedAt: new Date(),
+      finishedAt: null,
+      result: { processed: 0, updated: 0, failed: 0 },
+      error: null,
+    };
+    this.backfillJob = job;
+
+    this.backfillCompatibilityScores({
+      recomputeAll: job.recomputeAll,
+      onProgress: result => {
+        job.result = result;
+      },
+    })
+      .then(result => {
+        job.result = result;
+        job.status = 'completed';
+      })
+      .catch(error => {
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : String(error);
+        logger.error('Compatibility backfill failed:', error);
+      })
+      .finally(() => {
+        job.finishedAt = new Date();
+      });
+
+    return { ...job };
+  }
+
+  /**
+   * The latest compatibility backfill, or null if none has run since startup
+   */
+  static getCompatibilityBackfillJob(): CompatibilityBackfillJob | null {
+    return this.backfillJob ? { ...this.backfillJob } : null;
+  }
+
+  /**
+   * Create a match between two users in a mode
    */
   static async createMatch(
     user1Id: string,
     user2Id: string,
-    compatibilityScore: number
+    compatibilityScore: number,
+    compatibilityFactors?: CompatibilityFactors,
+    mode: MatchMode = 'dating'
   ): Promise<any> {
+    const data = {
+      user1Id,
+      user2Id,
+      compatibilityScore,
+      mode,
+      ...(compatibilityFactors && { compatibilityFactors }),
+    };
+
     // Check if match already exists
-    const existingMatch = await MatchModel.findByUserIds(user1Id, user2Id);
-    if (existingMatch) {
+    const existingMatch = await MatchModel.findByUserIds(user1Id, user2Id, mode);
+    if (
+      existingMatch &&
+      (!this.canReopen(existingMatch) || this.isInRematchCooldown(existingMatch))
+    ) {
       throw new Error('Match already exists between these users');
     }
 
-    return await MatchModel.create({
-      user1Id,
-      user2Id,
-      compatibilityScore,
-    });
+    // A pair can only hold one match record per mode, so matching again after
+    // an unmatch or a lifted block reopens the old one
+    let match;
+    try {
+      match = existingMatch
+        ? await MatchModel.reactivate(existingMatch.id, data)
+        : await MatchModel.create(data);
+    } catch (error) {
+      // Both users liked each other at the same moment and the other like
+      // created the match first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const concurrentMatch = await MatchModel.findByUserIds(user1Id, user2Id, mode);
+        if (concurrentMatch) {
+          return concurrentMatch;
+        }
+      }
+      throw error;
+    }
+
+    // The starting point the match detail measures score changes against
+    await MatchScoreHistoryModel.create(match.id, compatibilityScore, compatibilityFactors);
+    return match;
+  }
+
+  /**
+   * Rescore a user's active matches after their fitness stats change,
+   * recording a history entry for every score that moves
+   */
+  static async recalculateMatchScores(userId: string): Promise<MatchRescoreResult> {
+    const result: MatchRescoreResult = { updated: 0, unchanged: 0, failed: 0 };
+    const matches = await MatchModel.findByUserId(userId);
+    if (!Array.isArray(matches) || matches.length === 0) {
+      return result;
+    }
+
+    const settings = await this.getScoringSettings();
+    for (const match of matches) {
+      try {
+        const compatibility = await this.calculateCompatibilityForUsers(
+          match.user1Id,
+          match.user2Id,
+          settings
+        );
+        if (compatibility.score === match.compatibilityScore) {
+          result.unchanged++;
+          continue;
+        }
+
+        await MatchModel.update(match.id, {
+          compatibilityScore: compatibility.score,
+          compatibilityFactors: compatibility.factors,
+        });
+        await MatchScoreHistoryModel.create(match.id, compatibility.score, compatibility.factors);
+        result.updated++;
+      } catch (error) {
+        result.failed++;
+        logger.error(`Failed to rescore match ${match.id}:`, error);
+      }
+    }
+
+    logger.info(`Rescored matches for user ${userId}`, result);
+    return result;
+  }
+
+  /**
+   * Get how a match's compatibility has changed since the pair matched
+   */
+  static async getMatchScoreTrend(matchId: string, userId: string): Promise<MatchScoreTrend> {
+    const match = await MatchModel.findById(matchId);
+    if (!match) {
+      throw new Error('Match not found');
+    }
+
+    if (match.user1Id !== userId && match.user2Id !== userId) {
+      throw new Error('Not authorized to view this match');
+    }
+
+    // History from before an unmatch belongs to the previous match
+    const history = await MatchScoreHistoryModel.findByMatchId(matchId, match.matchedAt);
+
+    // Compare against the last score recorded before the window, or the
+    // oldest one if the pair matched within it
+    const windowStart = Date.now() - SCORE_TREND_DAYS * 24 * 60 * 60 * 1000;
+    const baseline =
+      history.find(entry => entry.recordedAt.getTime() <= windowStart) ??
+      history[history.length - 1];
+
+    return {
+      matchId,
+      currentScore: match.compatibilityScore,
+      recentChange: baseline ? match.compatibilityScore - baseline.compatibilityScore : null,
+      history,
+    };
+  }
+
+  /**
+   * Unmatch two users. The match and its conversation disappear for both of
+   * them, the other user is told in real time and the pair is kept out of
+   * each other's deck until the rematch cooldown ends.
+   */
+  static async unmatch(
+    matchId: string,
+    userId: string,
+    reason?: UnmatchReason
+  ): Promise<UnmatchResult> {
+    const match = await MatchModel.findById(matchId);
+    if (!match) {
+      throw new Error('Match not found');
+    }
+
+    if (match.user1Id !== userId && match.user2Id !== userId) {
+      throw new Error('Not authorized to unmatch');
+    }
+
+    if (match.status !== 'active' && match.status !== 'archived') {
+      throw new Error('Match is no longer active');
+    }
+
+    const otherUserId = match.user1Id === userId ? match.user2Id : match.user1Id;
+    const unmatched = await MatchModel.unmatch(matchId, userId, reason);
+
+    // Clear the likes that formed the match so the pair can be suggested
+    // again once the cooldown ends
+    await SwipeModel.deleteBetween(userId, otherUserId, match.mode);
+
+    // The reason is kept for analytics and never shared with the other user
+    MessageService.notifyUser(otherUserId, 'match-removed', { matchId });
+
+    logger.info(`User ${userId} unmatched match ${matchId}`, { reason });
+    return {
+      match: unmatched,
+      rematchAvailableAt: this.getRematchAvailableAt(unmatched),
+    };
+  }
+
+  /**
+   * Unmatches since this time are still within the rematch cooldown.
+   * Configured with REMATCH_COOLDOWN_DAYS.
+   */
+  static getRematchCooldownCutoff(): Date {
+    const days = parseInt(process.env.REMATCH_COOLDOWN_DAYS || '', 10);
+    const cooldownDays = Number.isNaN(days) ? DEFAULT_REMATCH_COOLDOWN_DAYS : Math.max(0, days);
+    return new Date(Date.now() - cooldownDays * 24 * 60 * 60 * 1000);
+  }
+
+  private static getRematchAvailableAt(match: Match): Date {
+    const unmatchedAt = match.unmatchedAt ?? new Date();
+    const cooldownMs = Date.now() - this.getRematchCooldownCutoff().getTime();
+    return new Date(unmatchedAt.getTime() + cooldownMs);
+  }
+
+  /**
+   * Whether a pair who like each other again reopen this match. Blocked ones
+   * only get that far once the block is lifted.
+   */
+  private static canReopen(match: Match): boolean {
+    return match.status === 'unmatched' || match.status === 'blocked';
+  }
+
+  private static isInRematchCooldown(match: Match): boolean {
+    return (
+      match.status === 'unmatched' &&
+      !!match.unmatchedAt &&
+      match.unmatchedAt >= this.getRematchCooldownCutoff()
+    );
   }
 
   /**
@@ -388,10 +1319,15 @@ export class MatchingService {
     userId: string,
     preferences: MatchingFilters
   ): Promise<any> {
-    return await MatchingPreferencesModel.upsert(userId, {
+    const updated = await MatchingPreferencesModel.upsert(userId, {
       userId,
       ...preferences,
     });
+
+    // The precomputed queue was built against the old preferences
+    await RecommendationQueueModel.invalidate(userId);
+
+    return updated;
   }
 
   /**
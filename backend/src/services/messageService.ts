@@ -1,4 +1,5 @@
 import { prisma } from '../config/database';
+import { BlockModel } from '../models/Block';
 import { Server as SocketServer } from 'socket.io';
 
 export interface SendMessageInput {
@@ -43,36 +44,49 @@ export class MessageService {
     this.io.on('connection', (socket) => {
       console.log('User connected:', socket.id);
 
-      // Join user to their personal room
+      // Join user to their personal room (never someone else's)
       socket.on('join-user-room', (userId: string) => {
+        if (userId !== socket.data.userId) return;
         socket.join(`user-${userId}`);
         console.log(`User ${userId} joined their room`);
       });
 
-      // Join match conversation room
-      socket.on('join-match-room', (matchId: string) => {
-        socket.join(`match-${matchId}`);
-        console.log(`Socket joined match room: ${matchId}`);
+      // Join match conversation room (only an active match the user is in)
+      socket.on('join-match-room', async (matchId: string) => {
+        try {
+          if (!(await this.isActiveMatchMember(matchId, socket.data.userId))) return;
+          socket.join(`match-${matchId}`);
+          console.log(`Socket joined match room: ${matchId}`);
+        } catch (error) {
+          console.error('Failed to join match room:', error);
+        }
       });
 
-      // Handle typing indicators
-      socket.on('typing-start', (data: { matchId: string; userId: string }) => {
+      // Handle typing indicators, as the authenticated user and only in a
+      // room the socket was allowed to join
+      socket.on('typing-start', (data: { matchId: string }) => {
+        if (!socket.rooms.has(`match-${data.matchId}`)) return;
         socket.to(`match-${data.matchId}`).emit('user-typing', {
-          userId: data.userId,
+          userId: socket.data.userId,
           isTyping: true,
         });
       });
 
-      socket.on('typing-stop', (data: { matchId: string; userId: string }) => {
+      socket.on('typing-stop', (data: { matchId: string }) => {
+        if (!socket.rooms.has(`match-${data.matchId}`)) return;
         socket.to(`match-${data.matchId}`).emit('user-typing', {
-          userId: data.userId,
+          userId: socket.data.userId,
           isTyping: false,
         });
       });
 
       // Handle message read receipts
-      socket.on('mark-as-read', async (data: { messageId: string; userId: string }) => {
-        await this.markMessageAsRead(data.messageId, data.userId);
+      socket.on('mark-as-read', async (data: { messageId: string }) => {
+        try {
+          await this.markMessageAsRead(data.messageId, socket.data.userId);
+        } catch (error) {
+          console.error('Failed to mark message as read:', error);
+        }
       });
 
       socket.on('disconnect', () => {
@@ -81,10 +95,39 @@ export class MessageService {
     });
   }
 
+  /**
+   * Whether a user is one of the pair in an active match
+   */
+  private static async isActiveMatchMember(matchId: string, userId: string): Promise<boolean> {
+    const match = await prisma.match.findFirst({
+      where: {
+        id: matchId,
+        status: 'active',
+        OR: [{ user1Id: userId }, { user2Id: userId }],
+      },
+      select: { id: true },
+    });
+    return !!match;
+  }
+
+  /**
+   * Push an event to every connected session of a user
+   */
+  static notifyUser(userId: string, event: string, data: unknown): void {
+    if (this.io) {
+      this.io.to(`user-${userId}`).emit(event, data);
+    }
+  }
+
   /**
    * Send a message
    */
   static async sendMessage(input: SendMessageInput): Promise<any> {
+    // Same error as a closed match, so the sender can't tell they were blocked
+    if (await BlockModel.isBlockedEitherWay(input.senderId, input.recipientId)) {
+      throw new Error('Users are not matched or match is not active');
+    }
+
     // Verify users are matched
     const match = await prisma.match.findFirst({
       where: {
@@ -204,9 +247,14 @@ export class MessageService {
    * Mark message as read
    */
   static async markMessageAsRead(messageId: string, userId: string): Promise<void> {
+    // Only the other user in the match can read a message
     const message = await prisma.message.findFirst({
       where: {
         id: messageId,
+        senderId: { not: userId },
+        match: {
+          OR: [{ user1Id: userId }, { user2Id: userId }],
+        },
       },
     });
 
@@ -451,6 +499,7 @@ export class MessageService {
           } : null,
           unreadCount,
           matchedAt: match.matchedAt,
+          expiryReminderSentAt: match.expiryReminderSentAt,
         };
       })
     );
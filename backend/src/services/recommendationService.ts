@@ -0,0 +1,227 @@
+import { RecommendationQueueModel } from '../models/RecommendationQueue';
+import { MatchModel } from '../models/Match';
+import { SwipeModel } from '../models/Swipe';
+import { BlockModel } from '../models/Block';
+import { prisma } from '../config/database';
+import { MatchingService, PotentialMatch } from './matchingService';
+import { ExposureService } from './exposureService';
+import {
+  MatchMode,
+  RecommendationQueue,
+  RecommendationQueueEntry,
+  RecommendationRefreshResult,
+  ScoringProfileSettings,
+} from '../types';
+import { logger } from '../utils/logger';
+
+// Number of ranked candidates kept per user
+const QUEUE_SIZE = 100;
+
+// Queues older than this are rebuilt by the scheduler even if nothing changed,
+// so new users and candidates' changed stats make it into the deck
+const QUEUE_TTL_HOURS = 6;
+
+// Only keep queues warm for users who have opened the app recently
+const ACTIVE_USER_DAYS = 7;
+
+export class RecommendationService {
+  /**
+   * Get the next recommendations for a user from their precomputed queue,
+   * rebuilding it first if it is missing, stale or used up. The queue is
+   * built for the user's default mode.
+   */
+  static async getRecommendations(
+    userId: string,
+    limit: number = 20
+  ): Promise<PotentialMatch[]> {
+    const mode = await MatchingService.getDefaultMatchMode(userId);
+    let queue = await RecommendationQueueModel.findByUserId(userId);
+    if (!queue || queue.isStale) {
+      queue = await this.rebuildQueue(userId);
+    }
+
+    let remaining = await this.removeSeenCandidates(
+      userId,
+      queue.candidates,
+      mode
+    );
+
+    // A full queue that has been swiped through may have more candidates behind it
+    if (remaining.length < limit && queue.candidates.length >= QUEUE_SIZE) {
+      queue = await this.rebuildQueue(userId);
+      remaining = await this.removeSeenCandidates(
+        userId,
+        queue.candidates,
+        mode
+      );
+    }
+
+    const recommendations = await this.hydrateCandidates(
+      remaining.slice(0, limit)
+    );
+    await ExposureService.recordImpressions(
+      recommendations.map(match => match.userId)
+    );
+    return recommendations;
+  }
+
+  /**
+   * Score the user's candidate pool and store the ranked result
+   */
+  static async rebuildQueue(
+    userId: string,
+    scoringSettings?: ScoringProfileSettings
+  ): Promise<RecommendationQueue> {
+    const matches = await MatchingService.findPotentialMatches(
+      userId,
+      QUEUE_SIZE,
+      0,
+      scoringSettings
+    );
+
+    return await RecommendationQueueModel.replace(
+      userId,
+      matches.map(match => ({
+        userId: match.userId,
+        compatibilityScore: match.compatibilityScore,
+        compatibilityFactors: match.compatibilityFactors,
+        compatibilityReasons: match.compatibilityReasons,
+      }))
+    );
+  }
+
+  /**
+   * Rebuild queues that are missing, stale or expired for recently active users
+   */
+  static async refreshQueues(
+    batchSize: number = 500
+  ): Promise<RecommendationRefreshResult> {
+    const now = Date.now();
+    const activeSince = new Date(now - ACTIVE_USER_DAYS * 24 * 60 * 60 * 1000);
+    const generatedBefore = new Date(now - QUEUE_TTL_HOURS * 60 * 60 * 1000);
+
+    const [userIds, settings] = await Promise.all([
+      RecommendationQueueModel.findUserIdsNeedingRefresh(
+        activeSince,
+        generatedBefore,
+        batchSize
+      ),
+      MatchingService.getScoringSettings(),
+    ]);
+
+    const result: RecommendationRefreshResult = { refreshed: 0, failed: 0 };
+
+    for (const userId of userIds) {
+      try {
+        await this.rebuildQueue(userId, settings);
+        result.refreshed++;
+      } catch (error) {
+        result.failed++;
+        logger.warn(
+          `Failed to refresh recommendation queue for user ${userId}:`,
+          error
+        );
+      }
+    }
+
+    logger.info('Recommendation queue refresh completed', result);
+    return result;
+  }
+
+  /**
+   * Drop candidates the user has swiped on or matched with in the mode,
+   * blocked (or been blocked by) or recently unmatched with since the queue
+   * was built
+   */
+  static async removeSeenCandidates(
+    userId: string,
+    candidates: RecommendationQueueEntry[],
+    mode: MatchMode
+  ): Promise<RecommendationQueueEntry[]> {
+    const [matches, swipedUserIds, blockedUserIds, unmatchedUserIds] =
+      await Promise.all([
+        MatchModel.findByUserId(userId),
+        SwipeModel.getSwipedUserIds(userId, mode),
+        BlockModel.getBlockedUserIds(userId),
+        MatchModel.getUnmatchedUserIdsSince(
+          userId,
+          MatchingService.getRematchCooldownCutoff()
+        ),
+      ]);
+
+    const seen = new Set([
+      ...swipedUserIds,
+      ...blockedUserIds,
+      ...unmatchedUserIds,
+    ]);
+    if (Array.isArray(matches)) {
+      matches
+        .filter(match => match.mode === mode)
+        .forEach(match =>
+          seen.add(match.user1Id === userId ? match.user2Id : match.user1Id)
+        );
+    }
+
+    return candidates.filter(candidate => !seen.has(candidate.userId));
+  }
+
+  /**
+   * Load current profiles for queued candidates in one query, keeping queue order
+   */
+  static async hydrateCandidates(
+    candidates: RecommendationQueueEntry[]
+  ): Promise<PotentialMatch[]> {
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    // Candidates who became ineligible since they were queued are left out
+    const users = await prisma.user.findMany({
+      where: {
+        id: { in: candidates.map(candidate => candidate.userId) },
+        eligibilityStatus: { not: 'ineligible' },
+      },
+      include: { fitnessStats: true },
+    });
+    const usersById = new Map(users.map(user => [user.id, user]));
+
+    return candidates.flatMap(candidate => {
+      const user = usersById.get(candidate.userId);
+      // Candidates who deleted their account or lost their stats are skipped
+      if (!user || !user.fitnessStats) {
+        return [];
+      }
+
+      return [
+        {
+          userId: user.id,
+          user: {
+            id: user.id,
+            firstName: user.firstName,
+            lastName: user.lastName,
+            age: user.age,
+            city: user.city,
+            state: user.state,
+            photos: Array.isArray(user.photos) ? (user.photos as string[]) : [],
+            bio: user.bio,
+          },
+          compatibilityScore: candidate.compatibilityScore,
+          compatibilityFactors: candidate.compatibilityFactors,
+          // Queues built before reasons were stored have none until refreshed
+          compatibilityReasons: candidate.compatibilityReasons ?? [],
+          fitnessStats: {
+            weeklyDistance: user.fitnessStats.weeklyDistance,
+            weeklyActivities: user.fitnessStats.weeklyActivities,
+            averagePace: user.fitnessStats.averagePace,
+            favoriteActivities: Array.isArray(
+              user.fitnessStats.favoriteActivities
+            )
+              ? (user.fitnessStats.favoriteActivities as string[])
+              : [],
+            totalDistance: user.fitnessStats.totalDistance,
+          },
+        },
+      ];
+    });
+  }
+}
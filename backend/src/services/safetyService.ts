@@ -0,0 +1,185 @@
+import { BlockModel } from '../models/Block';
+import { ReportModel } from '../models/Report';
+import { MatchModel } from '../models/Match';
+import { MessageModel } from '../models/Message';
+import { SwipeModel } from '../models/Swipe';
+import { UserModel } from '../models/User';
+import {
+  Block,
+  BlockedUser,
+  PaginatedResponse,
+  Report,
+  ReportStatus,
+  ReportUserInput,
+  ReportWithUsers,
+  ReviewReportInput,
+} from '../types';
+import { logger } from '../utils/logger';
+
+// Shown in place of messages a moderator removes
+const REMOVED_MESSAGE_CONTENT = '[Message removed by moderator]';
+
+export class SafetyService {
+  /**
+   * Block a user. Any match between the two is hidden from both of them and
+   * closed to messages in either direction.
+   */
+  static async blockUser(blockerId: string, blockedId: string): Promise<Block> {
+    if (blockerId === blockedId) {
+      throw new Error('Cannot block yourself');
+    }
+
+    const blockedUser = await UserModel.findById(blockedId);
+    if (!blockedUser) {
+      throw new Error('User not found');
+    }
+
+    const block = await BlockModel.create(blockerId, blockedId);
+
+    // Close the pair's matches in every mode. Unmatched ones are left alone so
+    // their rematch cooldown still applies.
+    const matches = await MatchModel.findAllByUserIds(blockerId, blockedId);
+    for (const match of matches) {
+      if (match.status !== 'blocked' && match.status !== 'unmatched') {
+        await MatchModel.update(match.id, { status: 'blocked' });
+      }
+    }
+
+    // Forget the pair's likes, so a match closed by the block only reopens if
+    // both of them like each other again once it is lifted
+    await SwipeModel.deleteAllBetween(blockerId, blockedId);
+
+    logger.info(`User ${blockerId} blocked user ${blockedId}`);
+    return block;
+  }
+
+  /**
+   * Remove a block. A match closed by the block stays closed; the users stop
+   * being excluded from each other's discovery, and both liking each other
+   * again reopens it.
+   */
+  static async unblockUser(
+    blockerId: string,
+    blockedId: string
+  ): Promise<void> {
+    const removed = await BlockModel.delete(blockerId, blockedId);
+    if (!removed) {
+      throw new Error('Block not found');
+    }
+  }
+
+  /**
+   * List the users someone has blocked
+   */
+  static async getBlockedUsers(userId: string): Promise<BlockedUser[]> {
+    return await BlockModel.findByBlocker(userId);
+  }
+
+  /**
+   * File a report against a user, copying any messages given as evidence
+   */
+  static async reportUser(
+    reporterId: string,
+    input: ReportUserInput
+  ): Promise<Report> {
+    const { reportedUserId, category, description, messageIds = [] } = input;
+
+    if (reporterId === reportedUserId) {
+      throw new Error('Cannot report yourself');
+    }
+
+    const reportedUser = await UserModel.findById(reportedUserId);
+    if (!reportedUser) {
+      throw new Error('User not found');
+    }
+
+    const uniqueMessageIds = [...new Set(messageIds)];
+    const messages =
+      uniqueMessageIds.length > 0
+        ? await MessageModel.findBetweenUsers(
+            uniqueMessageIds,
+            reporterId,
+            reportedUserId
+          )
+        : [];
+    if (messages.length !== uniqueMessageIds.length) {
+      throw new Error(
+        'Evidence must be messages from your conversation with this user'
+      );
+    }
+
+    const report = await ReportModel.create({
+      reporterId,
+      reportedId: reportedUserId,
+      category,
+      ...(description && { description }),
+      evidence: messages.map(message => ({
+        messageId: message.id,
+        senderId: message.senderId,
+        content: message.content,
+        sentAt: message.sentAt,
+      })),
+    });
+
+    if (input.block) {
+      await this.blockUser(reporterId, reportedUserId);
+    }
+
+    logger.info(
+      `User ${reporterId} reported user ${reportedUserId} for ${category}`
+    );
+    return report;
+  }
+
+  /**
+   * Get reports for the admin moderation queue
+   */
+  static async getReports(
+    status: ReportStatus,
+    page: number,
+    limit: number
+  ): Promise<PaginatedResponse<ReportWithUsers>> {
+    return await ReportModel.findByStatus(status, { page, limit });
+  }
+
+  /**
+   * Dismiss a report or take action on it
+   */
+  static async reviewReport(
+    reportId: string,
+    input: ReviewReportInput
+  ): Promise<Report> {
+    const report = await ReportModel.findById(reportId);
+    if (!report) {
+      throw new Error('Report not found');
+    }
+
+    if (report.status !== 'pending') {
+      throw new Error('Report has already been reviewed');
+    }
+
+    if (input.status === 'actioned' && !input.action) {
+      throw new Error('An action is required to action a report');
+    }
+
+    if (input.status === 'actioned' && input.action === 'remove_content') {
+      // Only the reported user's own messages are removed, never the reporter's
+      const removed = await MessageModel.redact(
+        report.evidence.map(item => item.messageId),
+        report.reportedId,
+        REMOVED_MESSAGE_CONTENT
+      );
+      logger.info(`Removed ${removed} messages for report ${reportId}`);
+    }
+
+    // A dismissed report has no action, whatever was sent
+    const { action, ...review } = input;
+    const reviewed = await ReportModel.review(reportId, {
+      ...review,
+      ...(input.status === 'actioned' && action && { action }),
+    });
+
+    logger.info(`Report ${reportId} ${input.status} by ${input.reviewedBy}`);
+    return reviewed;
+  }
+}
@@ -1,6 +1,11 @@
 import * as cron from 'node-cron';
 import { logger } from '../utils/logger';
 import { syncService } from './syncService';
+import { RecommendationService } from './recommendationService';
+import { MatchExpiryService } from './matchExpiryService';
+import { DiscoveryService } from './discoveryService';
+import { ExposureService } from './exposureService';
+import { EligibilityService } from './eligibilityService';
 
 export class SchedulerService {
   private jobs: Map<string, cron.ScheduledTask> = new Map();
@@ -11,6 +16,11 @@ export class SchedulerService {
   init(): void {
     this.setupDailySync();
     this.setupWeeklyCleanup();
+    this.setupRecommendationRefresh();
+    this.setupMatchExpiry();
+    this.setupDiscoverySnapshotCleanup();
+    this.setupExposureCleanup();
+    this.setupGracePeriodExpiry();
     logger.info('Scheduler service initialized with all jobs');
   }
 
@@ -83,6 +93,121 @@ export class SchedulerService {
     logger.info('Weekly cleanup job scheduled for 3:00 AM UTC on Sundays');
   }
 
+  /**
+   * Setup hourly rebuild of stale or expired recommendation queues
+   * Runs every hour at minute 15
+   */
+  private setupRecommendationRefresh(): void {
+    const recommendationRefreshJob = cron.schedule('15 * * * *', async () => {
+      logger.info('Starting recommendation queue refresh');
+      
+      try {
+        const result = await RecommendationService.refreshQueues();
+        
+        if (result.failed > 0) {
+          logger.warn(`Recommendation refresh had ${result.failed} failures`);
+        }
+        
+      } catch (error) {
+        logger.error('Recommendation refresh job failed:', error);
+      }
+    }, {
+      scheduled: false, // Don't start immediately
+      timezone: 'UTC',
+    });
+
+    this.jobs.set('recommendationRefresh', recommendationRefreshJob);
+    logger.info('Recommendation refresh job scheduled hourly at :15 UTC');
+  }
+
+  /**
+   * Setup hourly reminders for and expiry of matches nobody has messaged in
+   * Runs every hour at minute 45
+   */
+  private setupMatchExpiry(): void {
+    const matchExpiryJob = cron.schedule('45 * * * *', async () => {
+      logger.info('Starting silent match expiry');
+      
+      try {
+        await MatchExpiryService.processSilentMatches();
+      } catch (error) {
+        logger.error('Silent match expiry job failed:', error);
+      }
+    }, {
+      scheduled: false, // Don't start immediately
+      timezone: 'UTC',
+    });
+
+    this.jobs.set('matchExpiry', matchExpiryJob);
+    logger.info('Silent match expiry job scheduled hourly at :45 UTC');
+  }
+
+  /**
+   * Setup hourly deletion of discovery snapshots that can no longer be paged through
+   * Runs every hour at minute 30
+   */
+  private setupDiscoverySnapshotCleanup(): void {
+    const snapshotCleanupJob = cron.schedule('30 * * * *', async () => {
+      logger.info('Starting discovery snapshot cleanup');
+      
+      try {
+        await DiscoveryService.cleanupExpiredSnapshots();
+      } catch (error) {
+        logger.error('Discovery snapshot cleanup job failed:', error);
+      }
+    }, {
+      scheduled: false, // Don't start immediately
+      timezone: 'UTC',
+    });
+
+    this.jobs.set('discoverySnapshotCleanup', snapshotCleanupJob);
+    logger.info('Discovery snapshot cleanup job scheduled hourly at :30 UTC');
+  }
+
+  /**
+   * Setup daily deletion of profile impression counts past retention
+   * Runs daily at 4:30 AM
+   */
+  private setupExposureCleanup(): void {
+    const exposureCleanupJob = cron.schedule('30 4 * * *', async () => {
+      logger.info('Starting profile exposure cleanup');
+      
+      try {
+        await ExposureService.cleanupOldExposures();
+      } catch (error) {
+        logger.error('Profile exposure cleanup job failed:', error);
+      }
+    }, {
+      scheduled: false, // Don't start immediately
+      timezone: 'UTC',
+    });
+
+    this.jobs.set('exposureCleanup', exposureCleanupJob);
+    logger.info('Profile exposure cleanup job scheduled for 4:30 AM UTC daily');
+  }
+
+  /**
+   * Setup hourly re-evaluation of users whose eligibility grace period has ended
+   * Runs every hour at minute 50
+   */
+  private setupGracePeriodExpiry(): void {
+    const gracePeriodExpiryJob = cron.schedule('50 * * * *', async () => {
+      logger.info('Starting eligibility grace period expiry');
+      
+      try {
+        await EligibilityService.processEndedGracePeriods();
+      } catch (error) {
+        logger.error('Eligibility grace period expiry job failed:', error);
+      }
+    }, {
+      scheduled: false, // Don't start immediately
+      timezone: 'UTC',
+    });
+
+    this.jobs.set('gracePeriodExpiry', gracePeriodExpiryJob);
+    logger.info('Eligibility grace period expiry job scheduled hourly at :50 UTC');
+  }
+
   /**
    * Start all scheduled jobs
    */
@@ -181,6 +306,77 @@ export class SchedulerService {
     }
   }
 
+  /**
+   * Manually trigger recommendation queue refresh (for testing or manual execution)
+   */
+  async triggerRecommendationRefresh(): Promise<void> {
+    logger.info('Manually triggering recommendation refresh');
+    
+    try {
+      const result = await RecommendationService.refreshQueues();
+      logger.info('Manual recommendation refresh completed', result);
+    } catch (error) {
+      logger.error('Manual recommendation refresh failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Manually trigger silent match expiry (for testing or manual execution)
+   */
+  async triggerMatchExpiry(): Promise<void> {
+    logger.info('Manually triggering silent match expiry');
+    
+    try {
+      await MatchExpiryService.processSilentMatches();
+    } catch (error) {
+      logger.error('Manual silent match expiry failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Manually trigger discovery snapshot cleanup (for testing or manual execution)
+   */
+  async triggerDiscoverySnapshotCleanup(): Promise<void> {
+    logger.info('Manually triggering discovery snapshot cleanup');
+    
+    try {
+      await DiscoveryService.cleanupExpiredSnapshots();
+    } catch (error) {
+      logger.error('Manual discovery snapshot cleanup failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Manually trigger profile exposure cleanup (for testing or manual execution)
+   */
+  async triggerExposureCleanup(): Promise<void> {
+    logger.info('Manually triggering profile exposure cleanup');
+    
+    try {
+      await ExposureService.cleanupOldExposures();
+    } catch (error) {
+      logger.error('Manual profile exposure cleanup failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Manually trigger eligibility grace period expiry (for testing or manual execution)
+   */
+  async triggerGracePeriodExpiry(): Promise<void> {
+    logger.info('Manually triggering eligibility grace period expiry');
+    
+    try {
+      await EligibilityService.processEndedGracePeriods();
+    } catch (error) {
+      logger.error('Manual eligibility grace period expiry failed:', error);
+      throw error;
+    }
+  }
+
   /**
    * Add a custom scheduled job
    */
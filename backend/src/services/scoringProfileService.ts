@@ -0,0 +1,214 @@
+import { ScoringProfileModel } from '../models/ScoringProfile';
+import { MatchingService } from './matchingService';
+import {
+  CompatibilityWeights,
+  ScoringPreviewEntry,
+  ScoringProfile,
+  ScoringProfileSettings,
+} from '../types';
+import { logger } from '../utils/logger';
+
+export interface AdminScoringProfileUpdate {
+  weights: CompatibilityWeights;
+  maxDistanceKm?: number;
+  maxAgeDifference?: number;
+  exposureStrength?: number;
+  diversityStrength?: number;
+  notes?: string;
+  updatedBy: string;
+}
+
+// Allow for floating point noise when checking that weights sum to 1
+const WEIGHT_SUM_TOLERANCE = 0.001;
+
+export class ScoringProfileService {
+  /**
+   * Get the live scoring profile, or the built-in defaults if none has been saved
+   */
+  static async getCurrentProfile(): Promise<
+    ScoringProfile | ScoringProfileSettings
+  > {
+    const profile = await ScoringProfileModel.getCurrent();
+    return profile || ScoringProfileModel.getDefaultSettings();
+  }
+
+  /**
+   * Admin: Publish a new scoring profile version
+   */
+  static async updateProfile(
+    update: AdminScoringProfileUpdate
+  ): Promise<ScoringProfile> {
+    const current = await MatchingService.getScoringSettings();
+    const settings = this.resolveDraft(update, current);
+    this.validateSettings(settings);
+
+    const profile = await ScoringProfileModel.create({
+      ...settings,
+      ...(update.notes && { notes: update.notes }),
+      createdBy: update.updatedBy,
+    });
+
+    logger.info(
+      `Scoring profile v${profile.version} published by ${update.updatedBy}`,
+      {
+        profileId: profile.id,
+        settings,
+      }
+    );
+
+    return profile;
+  }
+
+  /**
+   * Admin: Get scoring profile history
+   */
+  static async getProfileHistory(
+    limit: number = 20
+  ): Promise<ScoringProfile[]> {
+    return await ScoringProfileModel.getHistory(limit);
+  }
+
+  /**
+   * Admin: Show how a user's top-N candidates would reorder under a draft profile
+   */
+  static async previewProfile(
+    userId: string,
+    draft: Omit<AdminScoringProfileUpdate, 'updatedBy'>,
+    limit: number = 20
+  ): Promise<ScoringPreviewEntry[]> {
+    const currentSettings = await MatchingService.getScoringSettings();
+    const draftSettings = this.resolveDraft(draft, currentSettings);
+    this.validateSettings(draftSettings);
+
+    const [currentMatches, draftMatches] = await Promise.all([
+      MatchingService.findPotentialMatches(userId, limit, 0, currentSettings),
+      MatchingService.findPotentialMatches(userId, limit, 0, draftSettings),
+    ]);
+
+    const entries = new Map<string, ScoringPreviewEntry>();
+    const entryFor = (
+      match: (typeof currentMatches)[number]
+    ): ScoringPreviewEntry => {
+      const existing = entries.get(match.userId);
+      if (existing) {
+        return existing;
+      }
+
+      const entry: ScoringPreviewEntry = {
+        userId: match.userId,
+        firstName: match.user.firstName,
+        currentRank: null,
+        currentScore: null,
+        draftRank: null,
+        draftScore: null,
+        rankChange: null,
+      };
+      entries.set(match.userId, entry);
+      return entry;
+    };
+
+    currentMatches.forEach((match, index) => {
+      const entry = entryFor(match);
+      entry.currentRank = index + 1;
+      entry.currentScore = match.compatibilityScore;
+    });
+
+    draftMatches.forEach((match, index) => {
+      const entry = entryFor(match);
+      entry.draftRank = index + 1;
+      entry.draftScore = match.compatibilityScore;
+    });
+
+    // Positive rank change means the candidate moves up under the draft
+    entries.forEach(entry => {
+      if (entry.currentRank !== null && entry.draftRank !== null) {
+        entry.rankChange = entry.currentRank - entry.draftRank;
+      }
+    });
+
+    // Candidates that drop out of the draft top-N are listed last
+    return Array.from(entries.values()).sort(
+      (a, b) =>
+        (a.draftRank ?? Number.MAX_SAFE_INTEGER) -
+          (b.draftRank ?? Number.MAX_SAFE_INTEGER) ||
+        (a.currentRank ?? Number.MAX_SAFE_INTEGER) -
+          (b.currentRank ?? Number.MAX_SAFE_INTEGER)
+    );
+  }
+
+  /**
+   * Validate scoring settings
+   */
+  static validateSettings(settings: ScoringProfileSettings): void {
+    const factorNames = Object.keys(
+      ScoringProfileModel.getDefaultSettings().weights
+    );
+    const weights = (settings.weights || {}) as Record<string, unknown>;
+
+    const missing = factorNames.filter(name => !(name in weights));
+    if (missing.length > 0) {
+      throw new Error(`Missing weights for: ${missing.join(', ')}`);
+    }
+
+    const unknown = Object.keys(weights).filter(
+      name => !factorNames.includes(name)
+    );
+    if (unknown.length > 0) {
+      throw new Error(`Unknown compatibility factors: ${unknown.join(', ')}`);
+    }
+
+    for (const name of factorNames) {
+      const weight = weights[name];
+      if (
+        typeof weight !== 'number' ||
+        !Number.isFinite(weight) ||
+        weight < 0 ||
+        weight > 1
+      ) {
+        throw new Error(`Weight for ${name} must be a number between 0 and 1`);
+      }
+    }
+
+    const total = factorNames.reduce(
+      (sum, name) => sum + (weights[name] as number),
+      0
+    );
+    if (Math.abs(total - 1) > WEIGHT_SUM_TOLERANCE) {
+      throw new Error(`Weights must sum to 1 (currently ${total.toFixed(3)})`);
+    }
+
+    if (settings.maxDistanceKm < 1 || settings.maxDistanceKm > 1000) {
+      throw new Error('Location decay distance must be between 1 and 1000 km');
+    }
+
+    if (settings.maxAgeDifference < 1 || settings.maxAgeDifference > 100) {
+      throw new Error('Age decay difference must be between 1 and 100 years');
+    }
+
+    for (const [name, strength] of [
+      ['Exposure', settings.exposureStrength],
+      ['Diversity', settings.diversityStrength],
+    ] as const) {
+      if (!Number.isFinite(strength) || strength < 0 || strength > 1) {
+        throw new Error(`${name} strength must be between 0 and 1`);
+      }
+    }
+  }
+
+  /**
+   * Fill in decay constants and re-ranking strengths the draft leaves out
+   * from the live profile
+   */
+  private static resolveDraft(
+    draft: Omit<AdminScoringProfileUpdate, 'updatedBy'>,
+    current: ScoringProfileSettings
+  ): ScoringProfileSettings {
+    return {
+      weights: draft.weights,
+      maxDistanceKm: draft.maxDistanceKm ?? current.maxDistanceKm,
+      maxAgeDifference: draft.maxAgeDifference ?? current.maxAgeDifference,
+      exposureStrength: draft.exposureStrength ?? current.exposureStrength,
+      diversityStrength: draft.diversityStrength ?? current.diversityStrength,
+    };
+  }
+}
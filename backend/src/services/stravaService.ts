@@ -1,7 +1,9 @@
 import axios, { AxiosInstance, AxiosResponse, AxiosError } from 'axios';
 import { StravaActivity, StravaAthlete, StravaTokens } from '../types/strava';
-import { FitnessStats } from '../types/fitness';
+import { FitnessStats, SportProfiles } from '../types/fitness';
 import { logger } from '../utils/logger';
+import { buildTrainingSchedule } from '../utils/trainingSchedule';
+import { buildTrainingAreas, getHomeTrainingArea, parseLatLng } from '../utils/trainingAreas';
 
 interface StravaApiActivity {
   id: number;
@@ -11,6 +13,9 @@ interface StravaApiActivity {
   moving_time: number;
   average_speed: number;
   start_date: string;
+  utc_offset?: number;
+  start_latlng?: number[] | null; // [lat, lng], empty for indoor activities
+  end_latlng?: number[] | null;
   total_elevation_gain: number;
 }
 
@@ -316,6 +321,9 @@ export class StravaService {
    * Transform Strava API activity data to internal format
    */
   private transformActivityData(apiData: StravaApiActivity): StravaActivity {
+    const start = parseLatLng(apiData.start_latlng);
+    const end = parseLatLng(apiData.end_latlng);
+
     return {
       id: apiData.id,
       userId: '', // Will be set by the calling service
@@ -325,6 +333,11 @@ export class StravaService {
       movingTime: apiData.moving_time,
       averageSpeed: apiData.average_speed,
       startDate: new Date(apiData.start_date),
+      utcOffset: apiData.utc_offset || 0,
+      startLatitude: start?.latitude ?? null,
+      startLongitude: start?.longitude ?? null,
+      endLatitude: end?.latitude ?? null,
+      endLongitude: end?.longitude ?? null,
       elevationGain: apiData.total_elevation_gain || 0,
       syncedAt: new Date(),
     };
@@ -342,6 +355,11 @@ export class StravaService {
         favoriteActivities: [],
         totalDistance: 0,
         longestRun: 0,
+        sportProfiles: {},
+        trainingSchedule: [],
+        trainingAreas: [],
+        homeAreaLatitude: null,
+        homeAreaLongitude: null,
         lastSyncDate: new Date(),
       };
     }
@@ -385,6 +403,9 @@ export class StravaService {
       0
     );
 
+    const trainingAreas = buildTrainingAreas(activities);
+    const homeArea = getHomeTrainingArea(trainingAreas);
+
     return {
       weeklyDistance,
       weeklyActivities,
@@ -392,10 +413,41 @@ export class StravaService {
       favoriteActivities,
       totalDistance,
       longestRun,
+      sportProfiles: this.calculateSportProfiles(activities),
+      trainingSchedule: buildTrainingSchedule(activities),
+      trainingAreas,
+      homeAreaLatitude: homeArea?.latitude ?? null,
+      homeAreaLongitude: homeArea?.longitude ?? null,
       lastSyncDate: new Date(),
     };
   }
 
+  /**
+   * Calculate weekly volume and average speed for each activity type
+   */
+  calculateSportProfiles(activities: StravaActivity[]): SportProfiles {
+    const totals = new Map<string, { distance: number; count: number; movingTime: number }>();
+    activities.forEach(activity => {
+      const total = totals.get(activity.type) || { distance: 0, count: 0, movingTime: 0 };
+      total.distance += activity.distance;
+      total.count += 1;
+      total.movingTime += activity.movingTime;
+      totals.set(activity.type, total);
+    });
+
+    const profiles: SportProfiles = {};
+    totals.forEach((total, type) => {
+      profiles[type] = {
+        weeklyDistance: total.distance / 13, // Approximate weeks in 90 days
+        weeklyActivities: total.count / 13,
+        weeklyMovingTime: total.movingTime / 13,
+        averageSpeed: total.movingTime > 0 ? total.distance / total.movingTime : 0,
+      };
+    });
+
+    return profiles;
+  }
+
   /**
    * Get recent activities (helper method)
    */
@@ -2,6 +2,9 @@ import { logger } from '../utils/logger';
 import { stravaService } from './stravaService';
 import { StravaActivityModel } from '../models/StravaActivity';
 import { FitnessStatsModel } from '../models/FitnessStats';
+import { RecommendationQueueModel } from '../models/RecommendationQueue';
+import { MatchingService } from './matchingService';
+import { EligibilityService } from './eligibilityService';
 import { prisma } from '../config/database';
 
 export interface SyncResult {
@@ -64,6 +67,11 @@ export class SyncService {
 
       if (newActivities.length === 0) {
         logger.info(`No new activities found for user ${userId}`);
+        // Older activities still age out of the window, which can cost a user
+        // their eligibility
+        await this.runFollowUp(userId, 'update eligibility', () =>
+          EligibilityService.updateUserEligibility(userId)
+        );
         return result;
       }
 
@@ -198,6 +206,21 @@ export class SyncService {
       logger.error(`Failed to update fitness stats for user ${userId}:`, error);
       throw error;
     }
+
+    // Performance similarity scores in the user's queue are now out of date
+    await this.runFollowUp(userId, 'invalidate recommendations', () =>
+      RecommendationQueueModel.invalidate(userId)
+    );
+
+    // So are the scores of matches they already have
+    await this.runFollowUp(userId, 'rescore matches', () =>
+      MatchingService.recalculateMatchScores(userId)
+    );
+
+    // And whether they still meet the fitness threshold
+    await this.runFollowUp(userId, 'update eligibility', () =>
+      EligibilityService.updateUserEligibility(userId)
+    );
   }
 
   /**
@@ -372,6 +395,22 @@ export class SyncService {
     logger.debug(`Removing Strava tokens for user ${userId}`);
   }
 
+  /**
+   * Run a step that follows a user's sync. The synced data is already
+   * saved, so a failure is logged instead of failing the sync.
+   */
+  private async runFollowUp(
+    userId: string,
+    step: string,
+    run: () => Promise<unknown>
+  ): Promise<void> {
+    try {
+      await run();
+    } catch (error) {
+      logger.error(`Failed to ${step} for user ${userId} after a sync:`, error);
+    }
+  }
+
   /**
    * Delay execution for specified milliseconds
    */
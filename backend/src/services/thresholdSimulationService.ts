@@ -0,0 +1,232 @@
+import { FitnessThresholdModel } from '../models/FitnessThreshold';
+import { StravaActivityModel } from '../models/StravaActivity';
+import { UserModel } from '../models/User';
+import {
+  FitnessThreshold,
+  SPORT_FAMILIES,
+  SportFamily,
+  StravaActivity,
+  ThresholdImpactCounts,
+  ThresholdImpactSample,
+  ThresholdSimulation,
+  User,
+} from '../types';
+import { getDominantSportFamily } from '../utils/sportFamilies';
+import {
+  AdminThresholdUpdate,
+  FitnessEvaluationService,
+} from './fitnessEvaluationService';
+
+// Users evaluated per batch of activity queries
+const PAGE_SIZE = 200;
+
+// Days of activities users are evaluated on, as in FitnessEvaluationService
+const EVALUATION_DAYS = 90;
+
+const DEFAULT_SAMPLE_SIZE = 20;
+const MAX_SAMPLE_SIZE = 100;
+
+// Upper bound of each age band; older users fall in the last, open band
+const AGE_BAND_LIMITS = [24, 34, 44, 54];
+
+const getAgeBand = (age: number): string => {
+  let lower = 18;
+  for (const upper of AGE_BAND_LIMITS) {
+    if (age <= upper) {
+      return `${lower}-${upper}`;
+    }
+    lower = upper + 1;
+  }
+  return `${lower}+`;
+};
+
+const emptyCounts = (): ThresholdImpactCounts => ({
+  total: 0,
+  passingBefore: 0,
+  passingAfter: 0,
+  newlyPassing: 0,
+  newlyFailing: 0,
+});
+
+const tally = (
+  counts: ThresholdImpactCounts,
+  before: boolean,
+  after: boolean
+): void => {
+  counts.total++;
+  if (before) counts.passingBefore++;
+  if (after) counts.passingAfter++;
+  if (!before && after) counts.newlyPassing++;
+  if (before && !after) counts.newlyFailing++;
+};
+
+const tallyGroup = (
+  groups: Record<string, ThresholdImpactCounts>,
+  key: string,
+  before: boolean,
+  after: boolean
+): void => {
+  groups[key] = groups[key] ?? emptyCounts();
+  tally(groups[key], before, after);
+};
+
+type Profiles = Map<SportFamily | null, FitnessThreshold | null>;
+
+// The threshold a sport is evaluated with, as in FitnessEvaluationService
+const getEffectiveThreshold = (
+  profiles: Profiles,
+  sportFamily: SportFamily | null
+): FitnessThreshold | null =>
+  (sportFamily && profiles.get(sportFamily)) || profiles.get(null) || null;
+
+export class ThresholdSimulationService {
+  /**
+   * Dry-run a threshold update against every user's stored activities and
+   * report who would start or stop passing. Nothing is saved. The sample holds
+   * up to sampleSize users of each kind of change.
+   */
+  static async simulate(
+    update: AdminThresholdUpdate,
+    sampleSize: number = DEFAULT_SAMPLE_SIZE
+  ): Promise<ThresholdSimulation> {
+    FitnessEvaluationService.validateThresholdValues(update);
+
+    const sportFamily = update.sportFamily ?? null;
+    const profiles: Profiles = new Map();
+    for (const family of [null, ...SPORT_FAMILIES]) {
+      profiles.set(family, await FitnessThresholdModel.getCurrent(family));
+    }
+    const draftProfiles: Profiles = new Map(profiles).set(sportFamily, {
+      ...FitnessThresholdModel.mergeUpdate(
+        profiles.get(sportFamily) ?? null,
+        FitnessEvaluationService.toUpdateInput(update)
+      ),
+      id: 'draft',
+      updatedAt: new Date(),
+    });
+
+    const limit = Math.min(Math.max(sampleSize, 0), MAX_SAMPLE_SIZE);
+    const simulation: ThresholdSimulation = {
+      sportFamily,
+      summary: emptyCounts(),
+      bySport: {},
+      byCity: {},
+      byAgeBand: {},
+      sample: [],
+    };
+    const newlyPassingSample: ThresholdImpactSample[] = [];
+    const newlyFailingSample: ThresholdImpactSample[] = [];
+
+    const endDate = new Date();
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - EVALUATION_DAYS);
+
+    let page = 1;
+    let totalPages = 1;
+    do {
+      const users = await UserModel.findMany({ page, limit: PAGE_SIZE });
+      totalPages = users.pagination.totalPages;
+      const activitiesByUser = this.groupByUser(
+        await StravaActivityModel.findByUserIdsAndDateRange(
+          users.data.map(user => user.id),
+          startDate,
+          endDate
+        )
+      );
+
+      users.data.forEach(user => {
+        const metrics = FitnessEvaluationService.calculateFitnessMetrics(
+          activitiesByUser.get(user.id) ?? []
+        );
+        const family = getDominantSportFamily(
+          metrics.activityTypes,
+          metrics.weeklyTotalsByType
+        );
+        const before = FitnessEvaluationService.evaluateMetricsAgainstThreshold(
+          metrics,
+          getEffectiveThreshold(profiles, family)
+        );
+        const after = FitnessEvaluationService.evaluateMetricsAgainstThreshold(
+          metrics,
+          getEffectiveThreshold(draftProfiles, family)
+        );
+
+        tally(simulation.summary, before.meets, after.meets);
+        tallyGroup(
+          simulation.bySport,
+          family ?? 'other',
+          before.meets,
+          after.meets
+        );
+        tallyGroup(
+          simulation.byCity,
+          `${user.city}, ${user.state}`,
+          before.meets,
+          after.meets
+        );
+        tallyGroup(
+          simulation.byAgeBand,
+          getAgeBand(user.age),
+          before.meets,
+          after.meets
+        );
+
+        if (before.meets === after.meets) {
+          return;
+        }
+        const sample = after.meets ? newlyPassingSample : newlyFailingSample;
+        if (sample.length < limit) {
+          sample.push(
+            this.toSample(
+              user,
+              family,
+              after.meets,
+              before.score,
+              after.score,
+              after.reasons
+            )
+          );
+        }
+      });
+
+      page++;
+    } while (page <= totalPages);
+
+    simulation.sample = [...newlyFailingSample, ...newlyPassingSample];
+    return simulation;
+  }
+
+  private static groupByUser(
+    activities: StravaActivity[]
+  ): Map<string, StravaActivity[]> {
+    const byUser = new Map<string, StravaActivity[]>();
+    activities.forEach(activity => {
+      const list = byUser.get(activity.userId) ?? [];
+      list.push(activity);
+      byUser.set(activity.userId, list);
+    });
+    return byUser;
+  }
+
+  private static toSample(
+    user: User,
+    sportFamily: SportFamily | null,
+    passesAfter: boolean,
+    scoreBefore: number,
+    scoreAfter: number,
+    reasons: string[]
+  ): ThresholdImpactSample {
+    return {
+      userId: user.id,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      city: `${user.city}, ${user.state}`,
+      age: user.age,
+      sportFamily,
+      change: passesAfter ? 'newly_passing' : 'newly_failing',
+      scoreBefore,
+      scoreAfter,
+      reasons,
+    };
+  }
+}
@@ -1,7 +1,8 @@
-import { User, CreateUserInput } from '../types/user';
+import { User, CreateUserInput, DISCOVERY_MODES, GENDERS } from '../types/user';
 import { StravaAuthResponse } from '../types/strava';
 import { UserModel } from '../models/User';
 import { FitnessStatsModel } from '../models/FitnessStats';
+import { RecommendationQueueModel } from '../models/RecommendationQueue';
 import { StravaActivityModel } from '../models/StravaActivity';
 import { stravaIntegrationService } from './stravaIntegrationService';
 import { FitnessEvaluationService } from './fitnessEvaluationService';
@@ -169,8 +170,8 @@ export class UserRegistrationService {
       // Calculate fitness metrics from activities
       const metrics = FitnessEvaluationService.calculateFitnessMetrics(activities);
       
-      // Get current threshold
-      const threshold = await import('../models/FitnessThreshold').then(m => m.FitnessThresholdModel.getCurrent());
+      // Get the threshold for the user's sport
+      const { threshold } = await FitnessEvaluationService.getThresholdForMetrics(metrics);
       
       if (!threshold) {
         return {
@@ -181,73 +182,10 @@ export class UserRegistrationService {
         };
       }
 
-      // Evaluate metrics against threshold
-      const requiredChecks = [
-        metrics.weeklyDistance >= threshold.weeklyDistance,
-        metrics.weeklyActivities >= threshold.weeklyActivities,
-      ];
-
-      // Add optional checks
-      if (threshold.averagePace && metrics.averagePace) {
-        requiredChecks.push(metrics.averagePace <= threshold.averagePace);
-      }
-
-      const allowedTypes = threshold.allowedActivityTypes as string[];
-      if (allowedTypes.length > 0) {
-        requiredChecks.push(metrics.activityTypes.some(type => allowedTypes.includes(type)));
-      }
-
-      const meets = requiredChecks.every(check => check);
-      
-      const reasons: string[] = [];
-      
-      // Generate detailed reasons
-      if (metrics.weeklyDistance >= threshold.weeklyDistance) {
-        reasons.push(`✓ Weekly distance: ${Math.round(metrics.weeklyDistance)}m meets requirement (${threshold.weeklyDistance}m)`);
-      } else {
-        reasons.push(`✗ Weekly distance: ${Math.round(metrics.weeklyDistance)}m below requirement (${threshold.weeklyDistance}m)`);
-      }
-
-      if (metrics.weeklyActivities >= threshold.weeklyActivities) {
-        reasons.push(`✓ Weekly activities: ${Math.round(metrics.weeklyActivities)} meets requirement (${threshold.weeklyActivities})`);
-      } else {
-        reasons.push(`✗ Weekly activities: ${Math.round(metrics.weeklyActivities)} below requirement (${threshold.weeklyActivities})`);
-      }
-
-      // Calculate score
-      let score = 0;
-      let maxScore = 50; // Base score for distance and activities
-
-      if (metrics.weeklyDistance >= threshold.weeklyDistance) score += 25;
-      if (metrics.weeklyActivities >= threshold.weeklyActivities) score += 25;
-
-      if (threshold.averagePace && metrics.averagePace) {
-        maxScore += 25;
-        if (metrics.averagePace <= threshold.averagePace) {
-          score += 25;
-          const userPaceMin = Math.floor(metrics.averagePace / 60);
-          const userPaceSec = Math.round(metrics.averagePace % 60);
-          reasons.push(`✓ Average pace: ${userPaceMin}:${userPaceSec.toString().padStart(2, '0')}/km meets requirement`);
-        } else {
-          const userPaceMin = Math.floor(metrics.averagePace / 60);
-          const userPaceSec = Math.round(metrics.averagePace % 60);
-          reasons.push(`✗ Average pace: ${userPaceMin}:${userPaceSec.toString().padStart(2, '0')}/km too slow`);
-        }
-      }
-
-      if (allowedTypes.length > 0) {
-        maxScore += 25;
-        const hasAllowedActivity = metrics.activityTypes.some(type => allowedTypes.includes(type));
-        if (hasAllowedActivity) {
-          score += 25;
-          const matchingTypes = metrics.activityTypes.filter(type => allowedTypes.includes(type));
-          reasons.push(`✓ Activity types: ${matchingTypes.join(', ')} match allowed types`);
-        } else {
-          reasons.push(`✗ No activities match allowed types: ${allowedTypes.join(', ')}`);
-        }
-      }
-
-      const finalScore = Math.round((score / maxScore) * 100);
+      const { meets, reasons, score: finalScore } = FitnessEvaluationService.evaluateMetricsAgainstThreshold(
+        metrics,
+        threshold
+      );
 
       let message: string;
       if (meets) {
@@ -418,6 +356,7 @@ export class UserRegistrationService {
       city?: string;
       state?: string;
       gender?: string;
+      discoveryMode?: string;
       photos?: string[];
     }
   ): Promise<User> {
@@ -428,8 +367,15 @@ export class UserRegistrationService {
       errors.push('Age must be between 18 and 100');
     }
 
-    if (updates.gender !== undefined && !['male', 'female', 'other'].includes(updates.gender)) {
-      errors.push('Gender must be male, female, or other');
+    if (updates.gender !== undefined && !(GENDERS as readonly string[]).includes(updates.gender)) {
+      errors.push(`Gender must be one of: ${GENDERS.join(', ')}`);
+    }
+
+    if (
+      updates.discoveryMode !== undefined &&
+      !(DISCOVERY_MODES as readonly string[]).includes(updates.discoveryMode)
+    ) {
+      errors.push(`Discovery mode must be one of: ${DISCOVERY_MODES.join(', ')}`);
     }
 
     if (updates.bio !== undefined && updates.bio.length > 500) {
@@ -473,6 +419,9 @@ export class UserRegistrationService {
     if (updates.gender !== undefined) {
       sanitizedUpdates.gender = updates.gender;
     }
+    if (updates.discoveryMode !== undefined) {
+      sanitizedUpdates.discoveryMode = updates.discoveryMode;
+    }
     if (updates.photos !== undefined) {
       sanitizedUpdates.photos = updates.photos;
     }
@@ -491,7 +440,15 @@ export class UserRegistrationService {
       sanitizedUpdates.longitude = longitude;
     }
 
-    return await UserModel.update(userId, sanitizedUpdates);
+    const updatedUser = await UserModel.update(userId, sanitizedUpdates);
+
+    // Distance filtering and proximity scores depend on the user's location,
+    // and the queue is built for the user's default mode
+    if (sanitizedUpdates.latitude !== undefined || sanitizedUpdates.discoveryMode !== undefined) {
+      await RecommendationQueueModel.invalidate(userId);
+    }
+
+    return updatedUser;
   }
 
   /**
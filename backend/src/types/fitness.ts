@@ -1,3 +1,28 @@
+import { EligibilityStatus } from './user';
+
+export type SportProfile = {
+  weeklyDistance: number; // meters
+  weeklyActivities: number;
+  weeklyMovingTime: number; // seconds
+  averageSpeed: number; // m/s over all activities of the sport
+};
+
+// Keyed by Strava activity type, e.g. "Run" or "Ride"
+export type SportProfiles = Record<string, SportProfile>;
+
+export type TimeOfDay = 'early_morning' | 'morning' | 'afternoon' | 'evening' | 'night';
+
+// Share of activities by local day of week (rows, Sunday first) and time of
+// day (columns, see TIME_OF_DAY_SLOTS); empty when the user has no activities
+export type TrainingSchedule = number[][];
+
+// A rounded location and the share of a user's activity start and end points there
+export type TrainingArea = {
+  latitude: number;
+  longitude: number;
+  share: number;
+};
+
 export interface FitnessStats {
   id: string;
   userId: string;
@@ -7,6 +32,11 @@ export interface FitnessStats {
   favoriteActivities: string[];
   totalDistance: number;
   longestRun: number;
+  sportProfiles?: SportProfiles;
+  trainingSchedule?: TrainingSchedule;
+  trainingAreas?: TrainingArea[];
+  homeAreaLatitude?: number | null;
+  homeAreaLongitude?: number | null;
   lastSyncDate: Date;
 }
 
@@ -18,6 +48,11 @@ export interface CreateFitnessStatsInput {
   favoriteActivities: string[];
   totalDistance: number;
   longestRun: number;
+  sportProfiles?: SportProfiles;
+  trainingSchedule?: TrainingSchedule;
+  trainingAreas?: TrainingArea[];
+  homeAreaLatitude?: number | null;
+  homeAreaLongitude?: number | null;
 }
 
 export interface UpdateFitnessStatsInput {
@@ -27,24 +62,103 @@ export interface UpdateFitnessStatsInput {
   favoriteActivities?: string[];
   totalDistance?: number;
   longestRun?: number;
+  sportProfiles?: SportProfiles;
+  trainingSchedule?: TrainingSchedule;
+  trainingAreas?: TrainingArea[];
+  homeAreaLatitude?: number | null;
+  homeAreaLongitude?: number | null;
   lastSyncDate?: Date;
 }
 
+// Sports that get their own threshold profile; users doing several evenly are multisport
+export const SPORT_FAMILIES = [
+  'run',
+  'ride',
+  'swim',
+  'multisport',
+  'strength',
+] as const;
+export type SportFamily = (typeof SPORT_FAMILIES)[number];
+
+export const ELIGIBILITY_METRICS = [
+  'weeklyDistance',
+  'weeklyActivities',
+  'averagePace',
+  'activityTypes',
+] as const;
+export type EligibilityMetric = (typeof ELIGIBILITY_METRICS)[number];
+
+// One requirement. Weekly distance (meters) and activity counts are minimums,
+// optionally for a single activity type; pace (seconds per km) is a maximum;
+// activity types pass when the user did any of them
+export type EligibilityCondition =
+  | {
+      type: 'condition';
+      metric: 'weeklyDistance' | 'weeklyActivities';
+      min: number;
+      activityType?: string;
+    }
+  | { type: 'condition'; metric: 'averagePace'; max: number }
+  | { type: 'condition'; metric: 'activityTypes'; anyOf: string[] };
+
+export interface EligibilityGroup {
+  type: 'group';
+  operator: 'and' | 'or';
+  rules: EligibilityRule[];
+}
+
+export type EligibilityRule = EligibilityCondition | EligibilityGroup;
+
+// Skipped rules had no data to check against (e.g. pace without runs) and are
+// left out of their group's outcome
+export type RuleStatus = 'passed' | 'failed' | 'skipped';
+
+export interface RuleEvaluation {
+  rule: EligibilityRule;
+  status: RuleStatus;
+  reason: string;
+  results?: RuleEvaluation[];
+}
+
 export interface FitnessThreshold {
   id: string;
   weeklyDistance: number;
   weeklyActivities: number;
   averagePace: number | null;
   allowedActivityTypes: string[];
+  rules: EligibilityRule | null;
+  // Null for the general profile used by sports without one of their own
+  sportFamily: SportFamily | null;
+  // When the version takes over its profile; later than updatedAt when scheduled
+  effectiveFrom: Date;
+  // The version this one republished, when it is a rollback
+  restoredFromId: string | null;
   updatedAt: Date;
   updatedBy: string;
 }
 
+// Where a version is in its profile's timeline. Never-active versions were
+// replaced before they took effect.
+export const THRESHOLD_VERSION_STATUSES = [
+  'scheduled',
+  'active',
+  'retired',
+  'never_active',
+] as const;
+
+export type ThresholdVersionStatus = (typeof THRESHOLD_VERSION_STATUSES)[number];
+
+export interface ThresholdVersion extends FitnessThreshold {
+  status: ThresholdVersionStatus;
+}
+
 export interface CreateFitnessThresholdInput {
   weeklyDistance: number;
   weeklyActivities: number;
   averagePace?: number | null;
   allowedActivityTypes: string[];
+  rules?: EligibilityRule | null;
+  sportFamily?: SportFamily | null;
   updatedBy: string;
 }
 
@@ -53,5 +167,66 @@ export interface UpdateFitnessThresholdInput {
   weeklyActivities?: number;
   averagePace?: number | null;
   allowedActivityTypes?: string[];
+  rules?: EligibilityRule | null;
+  sportFamily?: SportFamily | null;
+  // Takes effect immediately when left out
+  effectiveFrom?: Date;
   updatedBy?: string;
-}
\ No newline at end of file
+}
+
+export interface ThresholdImpactCounts {
+  total: number;
+  passingBefore: number;
+  passingAfter: number;
+  newlyPassing: number;
+  newlyFailing: number;
+}
+
+export type ThresholdImpactChange = 'newly_passing' | 'newly_failing';
+
+export interface ThresholdImpactSample {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  city: string;
+  age: number;
+  sportFamily: SportFamily | null;
+  change: ThresholdImpactChange;
+  scoreBefore: number;
+  scoreAfter: number;
+  // Reasons from evaluating the draft
+  reasons: string[];
+}
+
+// What publishing a draft threshold would do to existing members
+export interface ThresholdSimulation {
+  // The profile the draft replaces, null for the general one
+  sportFamily: SportFamily | null;
+  summary: ThresholdImpactCounts;
+  // Keyed by dominant sport family, "other" for users without one
+  bySport: Record<string, ThresholdImpactCounts>;
+  // Keyed by "City, ST"
+  byCity: Record<string, ThresholdImpactCounts>;
+  // Keyed by age band, e.g. "25-34"
+  byAgeBand: Record<string, ThresholdImpactCounts>;
+  sample: ThresholdImpactSample[];
+}
+
+// Outcome of re-evaluating a user's eligibility
+export interface EligibilityStatusUpdate {
+  userId: string;
+  meets: boolean;
+  score: number;
+  previousStatus: EligibilityStatus;
+  status: EligibilityStatus;
+  // Set while the user is in their grace period
+  graceEndsAt: Date | null;
+  reasons: string[];
+}
+
+export interface GracePeriodExpiryResult {
+  processed: number;
+  reinstated: number;
+  ineligible: number;
+  failed: number;
+}
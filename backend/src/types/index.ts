@@ -13,6 +13,9 @@ export * from './matching';
 // Messaging types
 export * from './messaging';
 
+// Safety types
+export * from './safety';
+
 // Common types
 export interface PaginationOptions {
   page: number;
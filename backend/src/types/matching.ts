@@ -1,57 +1,306 @@
+import { Gender } from './user';
+
+// Blocked, unmatched and expired matches are hidden from both users and cannot be messaged in
+export type MatchStatus = 'active' | 'archived' | 'blocked' | 'unmatched' | 'expired';
+
+export const UNMATCH_REASONS = [
+  'no_chemistry',
+  'not_responsive',
+  'met_someone',
+  'no_longer_looking',
+  'other',
+] as const;
+
+export type UnmatchReason = (typeof UNMATCH_REASONS)[number];
+
+// Dating and training-partner discovery keep separate swipes and matches
+export const MATCH_MODES = ['dating', 'partner'] as const;
+
+export type MatchMode = (typeof MATCH_MODES)[number];
+
 export interface Match {
   id: string;
   user1Id: string;
   user2Id: string;
   compatibilityScore: number;
+  compatibilityFactors?: CompatibilityFactors | null;
   matchedAt: Date;
-  status: 'active' | 'archived';
+  status: MatchStatus;
+  unmatchedAt?: Date | null;
+  unmatchedBy?: string | null;
+  unmatchReason?: UnmatchReason | null;
+  expiryReminderSentAt?: Date | null;
+  expiredAt?: Date | null;
+  mode: MatchMode;
 }
 
 export interface CreateMatchInput {
   user1Id: string;
   user2Id: string;
   compatibilityScore: number;
+  compatibilityFactors?: CompatibilityFactors;
+  mode?: MatchMode;
 }
 
 export interface UpdateMatchInput {
   compatibilityScore?: number;
-  status?: 'active' | 'archived';
+  compatibilityFactors?: CompatibilityFactors;
+  status?: MatchStatus;
+}
+
+export interface MatchExpiryResult {
+  reminded: number;
+  expired: number;
+}
+
+export interface UnmatchResult {
+  match: Match;
+  // Earliest time the pair can be suggested to each other again
+  rematchAvailableAt: Date;
 }
 
-export interface MatchingPreferences {
+export interface MatchScoreHistoryEntry {
+  id: string;
+  matchId: string;
+  compatibilityScore: number;
+  compatibilityFactors: CompatibilityFactors | null;
+  recordedAt: Date;
+}
+
+// How a match's compatibility has moved since the pair matched
+export interface MatchScoreTrend {
+  matchId: string;
+  currentScore: number;
+  // Points gained or lost over the last 30 days (or since matching, if more
+  // recent); null when no history has been recorded
+  recentChange: number | null;
+  // Newest first
+  history: MatchScoreHistoryEntry[];
+}
+
+export interface MatchRescoreResult {
+  updated: number;
+  unchanged: number;
+  failed: number;
+}
+
+// Optional fitness ranges for candidates, in the units FitnessStats stores.
+// A null bound is left open.
+export interface FitnessRangePreferences {
+  minWeeklyDistance: number | null; // meters
+  maxWeeklyDistance: number | null;
+  minWeeklyActivities: number | null;
+  maxWeeklyActivities: number | null;
+  minPace: number | null; // seconds per km, so the minimum is the fastest pace
+  maxPace: number | null;
+}
+
+// Which FitnessStats field each pair of range bounds filters
+export const FITNESS_RANGES = [
+  { stat: 'weeklyDistance', min: 'minWeeklyDistance', max: 'maxWeeklyDistance' },
+  { stat: 'weeklyActivities', min: 'minWeeklyActivities', max: 'maxWeeklyActivities' },
+  { stat: 'averagePace', min: 'minPace', max: 'maxPace' },
+] as const;
+
+export interface MatchingPreferences extends FitnessRangePreferences {
   id: string;
   userId: string;
   minAge: number;
   maxAge: number;
   maxDistance: number;
   preferredActivities: string[];
+  // Preferred activities a candidate must do; the rest only boost the score
+  dealbreakerActivities: string[];
   minCompatibilityScore: number;
+  interestedIn: Gender[];
+  // Partner mode can show every gender and age regardless of the above
+  partnerAnyGender: boolean;
+  partnerAnyAge: boolean;
 }
 
-export interface CreateMatchingPreferencesInput {
+export interface CreateMatchingPreferencesInput extends Partial<FitnessRangePreferences> {
   userId: string;
   minAge?: number;
   maxAge?: number;
   maxDistance?: number;
   preferredActivities?: string[];
+  dealbreakerActivities?: string[];
   minCompatibilityScore?: number;
+  interestedIn?: Gender[];
+  partnerAnyGender?: boolean;
+  partnerAnyAge?: boolean;
 }
 
-export interface UpdateMatchingPreferencesInput {
+export interface UpdateMatchingPreferencesInput extends Partial<FitnessRangePreferences> {
   minAge?: number;
   maxAge?: number;
   maxDistance?: number;
   preferredActivities?: string[];
+  dealbreakerActivities?: string[];
   minCompatibilityScore?: number;
+  interestedIn?: Gender[];
+  partnerAnyGender?: boolean;
+  partnerAnyAge?: boolean;
+}
+
+export interface CompatibilityFactors {
+  activityOverlap: number;
+  performanceSimilarity: number;
+  locationProximity: number;
+  ageCompatibility: number;
+  scheduleOverlap: number;
+  trainingAreaOverlap: number;
+}
+
+export type CompatibilityWeights = Record<keyof CompatibilityFactors, number>;
+
+// Reasons are returned as codes with parameters so clients can localize the text
+export type CompatibilityReasonCode =
+  | 'shared_activities'
+  | 'similar_training_frequency'
+  | 'similar_weekly_distance'
+  | 'similar_pace'
+  | 'nearby'
+  | 'similar_age'
+  | 'similar_schedule'
+  | 'shared_training_areas'
+  | 'preferred_activities';
+
+export interface CompatibilityReason {
+  code: CompatibilityReasonCode;
+  factor: keyof CompatibilityFactors;
+  params: Record<string, string | number | string[]>;
+}
+
+export interface CompatibilityBreakdown {
+  score: number;
+  factors: CompatibilityFactors;
+  reasons: CompatibilityReason[];
+}
+
+export interface ScoringProfileSettings {
+  weights: CompatibilityWeights;
+  maxDistanceKm: number;
+  maxAgeDifference: number;
+  // 0-1 strengths of the re-ranking applied after scoring
+  exposureStrength: number;
+  diversityStrength: number;
+}
+
+export interface ScoringProfile extends ScoringProfileSettings {
+  id: string;
+  version: number;
+  notes: string | null;
+  createdAt: Date;
+  createdBy: string;
+}
+
+export interface CreateScoringProfileInput {
+  weights: CompatibilityWeights;
+  maxDistanceKm?: number;
+  maxAgeDifference?: number;
+  exposureStrength?: number;
+  diversityStrength?: number;
+  notes?: string;
+  createdBy: string;
+}
+
+export interface ScoringPreviewEntry {
+  userId: string;
+  firstName: string;
+  currentRank: number | null;
+  currentScore: number | null;
+  draftRank: number | null;
+  draftScore: number | null;
+  rankChange: number | null;
 }
 
 export interface CompatibilityScore {
   userId: string;
   score: number;
-  factors: {
-    activityOverlap: number;
-    performanceSimilarity: number;
-    locationProximity: number;
-    ageCompatibility: number;
-  };
-}
\ No newline at end of file
+  factors: CompatibilityFactors;
+}
+
+export interface CompatibilityBackfillResult {
+  processed: number;
+  updated: number;
+  failed: number;
+}
+
+// A backfill started by an admin, with the counts so far while it runs
+export interface CompatibilityBackfillJob {
+  status: 'running' | 'completed' | 'failed';
+  recomputeAll: boolean;
+  startedBy: string;
+  startedAt: Date;
+  finishedAt: Date | null;
+  result: CompatibilityBackfillResult;
+  error: string | null;
+}
+
+export type SwipeDecision = 'like' | 'pass' | 'super_like';
+
+export interface Swipe {
+  id: string;
+  swiperId: string;
+  targetId: string;
+  decision: SwipeDecision;
+  mode: MatchMode;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateSwipeInput {
+  swiperId: string;
+  targetId: string;
+  decision: SwipeDecision;
+  mode: MatchMode;
+}
+
+export interface SwipeResult {
+  swipe: Swipe;
+  isMatch: boolean;
+  match: Match | null;
+}
+
+export interface RecommendationQueueEntry {
+  userId: string;
+  compatibilityScore: number;
+  compatibilityFactors: CompatibilityFactors;
+  compatibilityReasons: CompatibilityReason[];
+}
+
+export interface RecommendationQueue {
+  id: string;
+  userId: string;
+  candidates: RecommendationQueueEntry[];
+  generatedAt: Date;
+  isStale: boolean;
+}
+
+export interface RecommendationRefreshResult {
+  refreshed: number;
+  failed: number;
+}
+
+// A ranked candidate list frozen so the discovery deck can be paged through
+// without repeats or gaps while scores change underneath it
+export interface DiscoverySnapshot {
+  id: string;
+  userId: string;
+  candidates: RecommendationQueueEntry[];
+  mode: MatchMode;
+  // Users ranked into earlier snapshots of the same deck, left out of this one
+  shownUserIds: string[];
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+// How evenly profile impressions were spread over a recent window
+export interface ExposureStats {
+  windowDays: number;
+  totalImpressions: number;
+  profilesShown: number;
+  // Share of impressions that went to the most shown 10% of profiles
+  topDecileShare: number;
+}
@@ -0,0 +1,87 @@
+export const REPORT_CATEGORIES = [
+  'harassment',
+  'inappropriate_content',
+  'spam',
+  'fake_profile',
+  'underage',
+  'safety_concern',
+  'other',
+] as const;
+
+export type ReportCategory = (typeof REPORT_CATEGORIES)[number];
+
+export type ReportStatus = 'pending' | 'dismissed' | 'actioned';
+
+// warning: recorded against the reported user only
+// remove_content: the reported messages are soft-deleted
+export const REPORT_ACTIONS = ['warning', 'remove_content'] as const;
+
+export type ReportAction = (typeof REPORT_ACTIONS)[number];
+
+export interface Block {
+  id: string;
+  blockerId: string;
+  blockedId: string;
+  createdAt: Date;
+}
+
+export interface BlockedUser {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  photos: string[];
+  blockedAt: Date;
+}
+
+// Copy of a reported message taken when the report is filed, so evidence
+// survives the sender editing or deleting it
+export interface ReportEvidence {
+  messageId: string;
+  senderId: string;
+  content: string;
+  sentAt: Date;
+}
+
+export interface Report {
+  id: string;
+  reporterId: string;
+  reportedId: string;
+  category: ReportCategory;
+  description: string | null;
+  evidence: ReportEvidence[];
+  status: ReportStatus;
+  action: ReportAction | null;
+  resolutionNotes: string | null;
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface ReportWithUsers extends Report {
+  reporter: { id: string; firstName: string; lastName: string; email: string };
+  reported: { id: string; firstName: string; lastName: string; email: string };
+}
+
+export interface CreateReportInput {
+  reporterId: string;
+  reportedId: string;
+  category: ReportCategory;
+  description?: string;
+  evidence: ReportEvidence[];
+}
+
+export interface ReportUserInput {
+  reportedUserId: string;
+  category: ReportCategory;
+  description?: string;
+  messageIds?: string[];
+  // Also block the reported user, as most reporters want
+  block?: boolean;
+}
+
+export interface ReviewReportInput {
+  status: Exclude<ReportStatus, 'pending'>;
+  action?: ReportAction;
+  notes?: string;
+  reviewedBy: string;
+}
@@ -7,6 +7,12 @@ export interface StravaActivity {
   movingTime: number;
   averageSpeed: number;
   startDate: Date;
+  utcOffset?: number; // seconds east of UTC where the activity started
+  // Rounded for privacy, see LOCATION_PRECISION_DECIMALS; null for indoor activities
+  startLatitude?: number | null;
+  startLongitude?: number | null;
+  endLatitude?: number | null;
+  endLongitude?: number | null;
   elevationGain: number;
   syncedAt: Date;
 }
@@ -20,6 +26,11 @@ export interface CreateStravaActivityInput {
   movingTime: number;
   averageSpeed: number;
   startDate: Date;
+  utcOffset?: number;
+  startLatitude?: number | null;
+  startLongitude?: number | null;
+  endLatitude?: number | null;
+  endLongitude?: number | null;
   elevationGain: number;
 }
 
@@ -1,3 +1,35 @@
+export const GENDERS = ['male', 'female', 'non-binary', 'other'] as const;
+
+export type Gender = (typeof GENDERS)[number];
+
+// Who a user wants to meet: dates, training partners or both
+export const DISCOVERY_MODES = ['dating', 'partner', 'both'] as const;
+
+export type DiscoveryMode = (typeof DISCOVERY_MODES)[number];
+
+// Whether a user still meets the fitness threshold. Users at risk pass with
+// little to spare; users in their grace period have stopped passing but are
+// still shown until it ends, after which they are ineligible and hidden.
+export const ELIGIBILITY_STATUSES = [
+  'eligible',
+  'at_risk',
+  'grace_period',
+  'ineligible',
+] as const;
+
+export type EligibilityStatus = (typeof ELIGIBILITY_STATUSES)[number];
+
+// Notifications sent when a user's eligibility status changes. The last one is
+// stored until the user dismisses it, so users who were offline still see it.
+export const ELIGIBILITY_NOTICES = [
+  'eligibility-at-risk',
+  'eligibility-grace-period',
+  'eligibility-lost',
+  'eligibility-restored',
+] as const;
+
+export type EligibilityNotice = (typeof ELIGIBILITY_NOTICES)[number];
+
 export interface UserProfile {
   firstName: string;
   lastName: string;
@@ -19,6 +51,7 @@ export interface User {
   lastName: string;
   age: number;
   gender?: string | null;
+  discoveryMode?: string;
   city: string;
   state: string;
   latitude: number;
@@ -27,6 +60,10 @@ export interface User {
   photos: string[];
   createdAt: Date;
   lastActive: Date;
+  eligibilityStatus?: string;
+  eligibilityCheckedAt?: Date | null;
+  graceEndsAt?: Date | null;
+  eligibilityNotice?: string | null;
 }
 
 export interface CreateUserInput {
@@ -48,6 +85,7 @@ export interface UpdateUserInput {
   lastName?: string;
   age?: number;
   gender?: string | null;
+  discoveryMode?: DiscoveryMode;
   city?: string;
   state?: string;
   latitude?: number;
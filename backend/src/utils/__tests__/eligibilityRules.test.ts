@@ -0,0 +1,155 @@
+import {
+  EligibilityMetrics,
+  evaluateEligibilityRule,
+  flattenRuleReasons,
+  getThresholdRules,
+  scoreRuleEvaluation,
+} from '../eligibilityRules';
+import { EligibilityRule } from '../../types';
+
+const metrics = (
+  overrides: Partial<EligibilityMetrics> = {}
+): EligibilityMetrics => ({
+  weeklyDistance: 25000,
+  weeklyActivities: 4,
+  averagePace: 330,
+  activityTypes: ['Run', 'Ride'],
+  weeklyTotalsByType: {
+    Run: { weeklyDistance: 22000, weeklyActivities: 3 },
+    Ride: { weeklyDistance: 3000, weeklyActivities: 1 },
+  },
+  ...overrides,
+});
+
+// At least 20 km running or 80 km cycling, and 3 activities a week
+const runOrRide: EligibilityRule = {
+  type: 'group',
+  operator: 'and',
+  rules: [
+    {
+      type: 'group',
+      operator: 'or',
+      rules: [
+        {
+          type: 'condition',
+          metric: 'weeklyDistance',
+          min: 20000,
+          activityType: 'Run',
+        },
+        {
+          type: 'condition',
+          metric: 'weeklyDistance',
+          min: 80000,
+          activityType: 'Ride',
+        },
+      ],
+    },
+    { type: 'condition', metric: 'weeklyActivities', min: 3 },
+  ],
+};
+
+describe('eligibility rule utilities', () => {
+  describe('getThresholdRules', () => {
+    it('should read a threshold without rules as an AND of its fields', () => {
+      const rules = getThresholdRules({
+        weeklyDistance: 10000,
+        weeklyActivities: 3,
+        averagePace: null,
+        allowedActivityTypes: ['Run'],
+        rules: null,
+      });
+
+      expect(rules).toEqual({
+        type: 'group',
+        operator: 'and',
+        rules: [
+          { type: 'condition', metric: 'weeklyDistance', min: 10000 },
+          { type: 'condition', metric: 'weeklyActivities', min: 3 },
+          { type: 'condition', metric: 'activityTypes', anyOf: ['Run'] },
+        ],
+      });
+    });
+
+    it('should prefer a saved rule tree', () => {
+      const rules = getThresholdRules({
+        weeklyDistance: 10000,
+        weeklyActivities: 3,
+        averagePace: 360,
+        allowedActivityTypes: [],
+        rules: runOrRide,
+      });
+
+      expect(rules).toBe(runOrRide);
+    });
+  });
+
+  describe('evaluateEligibilityRule', () => {
+    it('should pass an OR group when any branch passes', () => {
+      const evaluation = evaluateEligibilityRule(runOrRide, metrics());
+
+      expect(evaluation.status).toBe('passed');
+      expect(evaluation.results?.[0].results?.map(r => r.status)).toEqual([
+        'passed',
+        'failed',
+      ]);
+    });
+
+    it('should fail an OR group when every branch fails', () => {
+      const evaluation = evaluateEligibilityRule(
+        runOrRide,
+        metrics({ weeklyTotalsByType: {} })
+      );
+
+      expect(evaluation.status).toBe('failed');
+      expect(evaluation.results?.[0].status).toBe('failed');
+      expect(evaluation.results?.[1].status).toBe('passed');
+    });
+
+    it('should leave pace out when the user has no pace data', () => {
+      const evaluation = evaluateEligibilityRule(
+        {
+          type: 'group',
+          operator: 'and',
+          rules: [
+            { type: 'condition', metric: 'averagePace', max: 300 },
+            { type: 'condition', metric: 'weeklyActivities', min: 3 },
+          ],
+        },
+        metrics({ averagePace: undefined })
+      );
+
+      expect(evaluation.status).toBe('passed');
+      expect(evaluation.results?.[0].status).toBe('skipped');
+    });
+
+    it('should explain every rule', () => {
+      const reasons = flattenRuleReasons(
+        evaluateEligibilityRule(runOrRide, metrics())
+      );
+
+      expect(reasons).toEqual([
+        '✓ Any of: 1 of 2 rules met',
+        '✓ Weekly Run distance: 22000m meets requirement (20000m)',
+        '✗ Weekly Ride distance: 3000m below requirement (80000m)',
+        '✓ Weekly activities: 4 meets requirement (3)',
+      ]);
+    });
+  });
+
+  describe('scoreRuleEvaluation', () => {
+    it('should not count an unused alternative against the score', () => {
+      expect(
+        scoreRuleEvaluation(evaluateEligibilityRule(runOrRide, metrics()))
+      ).toBe(1);
+    });
+
+    it('should average the rules of an AND group', () => {
+      const evaluation = evaluateEligibilityRule(
+        runOrRide,
+        metrics({ weeklyTotalsByType: {} })
+      );
+
+      expect(scoreRuleEvaluation(evaluation)).toBe(0.5);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  getNextEligibilityState,
+  parseEligibilityStatus,
+  scaleEligibilityMetrics,
+} from '../eligibilityStatus';
+
+const now = new Date('2025-09-10T12:00:00Z');
+const passing = { meets: true, atRisk: false };
+const failing = { meets: false, atRisk: false };
+
+describe('eligibility status utilities', () => {
+  describe('getNextEligibilityState', () => {
+    it('should give a user who stops passing a grace period', () => {
+      expect(
+        getNextEligibilityState(
+          { status: 'eligible', graceEndsAt: null },
+          failing,
+          now,
+          14
+        )
+      ).toEqual({
+        status: 'grace_period',
+        graceEndsAt: new Date('2025-09-24T12:00:00Z'),
+      });
+    });
+
+    it('should not extend a grace period that has already started', () => {
+      const current = {
+        status: 'grace_period' as const,
+        graceEndsAt: new Date('2025-09-11T00:00:00Z'),
+      };
+
+      expect(getNextEligibilityState(current, failing, now, 14)).toBe(current);
+    });
+
+    it('should make a user ineligible once their grace period ends', () => {
+      expect(
+        getNextEligibilityState(
+          { status: 'grace_period', graceEndsAt: now },
+          failing,
+          now,
+          14
+        )
+      ).toEqual({ status: 'ineligible', graceEndsAt: null });
+    });
+
+    it('should reinstate a user who passes again', () => {
+      expect(
+        getNextEligibilityState(
+          { status: 'ineligible', graceEndsAt: null },
+          { meets: true, atRisk: true },
+          now,
+          14
+        )
+      ).toEqual({ status: 'at_risk', graceEndsAt: null });
+      expect(
+        getNextEligibilityState(
+          {
+            status: 'grace_period',
+            graceEndsAt: new Date('2025-09-20T00:00:00Z'),
+          },
+          passing,
+          now,
+          14
+        )
+      ).toEqual({ status: 'eligible', graceEndsAt: null });
+    });
+  });
+
+  describe('parseEligibilityStatus', () => {
+    it('should read unknown statuses as eligible', () => {
+      expect(parseEligibilityStatus('grace_period')).toBe('grace_period');
+      expect(parseEligibilityStatus('suspended')).toBe('eligible');
+      expect(parseEligibilityStatus(undefined)).toBe('eligible');
+    });
+  });
+
+  describe('scaleEligibilityMetrics', () => {
+    it('should scale overall and per-type totals but not pace', () => {
+      const scaled = scaleEligibilityMetrics(
+        {
+          weeklyDistance: 20000,
+          weeklyActivities: 4,
+          averagePace: 330,
+          activityTypes: ['Run'],
+          weeklyTotalsByType: {
+            Run: { weeklyDistance: 20000, weeklyActivities: 4 },
+          },
+        },
+        0.5
+      );
+
+      expect(scaled).toEqual({
+        weeklyDistance: 10000,
+        weeklyActivities: 2,
+        averagePace: 330,
+        activityTypes: ['Run'],
+        weeklyTotalsByType: {
+          Run: { weeklyDistance: 10000, weeklyActivities: 2 },
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  calculateExposureBoost,
+  MAX_EXPOSURE_BOOST,
+  rerankCandidates,
+} from '../exposureRanking';
+
+const candidate = (
+  id: string,
+  score: number,
+  overrides: { impressions?: number; sport?: string; city?: string } = {}
+) => ({
+  id,
+  score,
+  impressions: overrides.impressions ?? 0,
+  sport: overrides.sport ?? 'Run',
+  city: overrides.city ?? 'Boulder, CO',
+});
+
+const ids = (candidates: Array<{ id: string }>): string[] =>
+  candidates.map(entry => entry.id);
+
+describe('exposure ranking utilities', () => {
+  describe('calculateExposureBoost', () => {
+    it('should give the full boost to a perfect match never shown', () => {
+      expect(calculateExposureBoost(100, 0, 1)).toBe(MAX_EXPOSURE_BOOST);
+    });
+
+    it('should shrink with impressions, compatibility and strength', () => {
+      expect(calculateExposureBoost(100, 50, 1)).toBe(MAX_EXPOSURE_BOOST / 2);
+      expect(calculateExposureBoost(50, 0, 1)).toBe(MAX_EXPOSURE_BOOST / 2);
+      expect(calculateExposureBoost(100, 0, 0.5)).toBe(MAX_EXPOSURE_BOOST / 2);
+      expect(calculateExposureBoost(100, 0, 0)).toBe(0);
+    });
+  });
+
+  describe('rerankCandidates', () => {
+    it('should keep score order when both strengths are 0', () => {
+      const ranked = rerankCandidates(
+        [
+          candidate('a', 90, { impressions: 1000 }),
+          candidate('b', 80),
+          candidate('c', 70),
+        ],
+        { exposureStrength: 0, diversityStrength: 0 }
+      );
+
+      expect(ids(ranked)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should lift an under-exposed candidate past a slightly better but over-exposed one', () => {
+      const ranked = rerankCandidates(
+        [candidate('popular', 85, { impressions: 1000 }), candidate('new', 80)],
+        { exposureStrength: 1, diversityStrength: 0 }
+      );
+
+      expect(ids(ranked)).toEqual(['new', 'popular']);
+      expect(ranked[0].score).toBe(80);
+    });
+
+    it('should not lift a weak match past a much better one', () => {
+      const ranked = rerankCandidates(
+        [candidate('strong', 90, { impressions: 1000 }), candidate('weak', 40)],
+        { exposureStrength: 1, diversityStrength: 0 }
+      );
+
+      expect(ids(ranked)).toEqual(['strong', 'weak']);
+    });
+
+    it('should mix sports and cities at the top of the deck', () => {
+      const ranked = rerankCandidates(
+        [
+          candidate('run1', 90),
+          candidate('run2', 89),
+          candidate('run3', 88),
+          candidate('ride', 84, { sport: 'Ride', city: 'Denver, CO' }),
+        ],
+        { exposureStrength: 0, diversityStrength: 1 }
+      );
+
+      expect(ids(ranked)).toEqual(['run1', 'ride', 'run2', 'run3']);
+    });
+  });
+});
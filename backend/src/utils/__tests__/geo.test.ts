@@ -0,0 +1,154 @@
+import { boundingBoxWhere, calculateDistanceKm, getBoundingBox } from '../geo';
+
+const isInsideBox = (
+  box: ReturnType<typeof getBoundingBox>,
+  latitude: number,
+  longitude: number
+) =>
+  latitude >= box.minLatitude &&
+  latitude <= box.maxLatitude &&
+  box.longitudeRanges.some(
+    range => longitude >= range.min && longitude <= range.max
+  );
+
+describe('geo utilities', () => {
+  describe('calculateDistanceKm', () => {
+    it('should calculate the distance between two cities', () => {
+      // New York to Los Angeles
+      const distance = calculateDistanceKm(
+        40.7128,
+        -74.006,
+        34.0522,
+        -118.2437
+      );
+
+      expect(distance).toBeGreaterThan(3930);
+      expect(distance).toBeLessThan(3950);
+    });
+
+    it('should measure short hops across the dateline', () => {
+      const distance = calculateDistanceKm(0, 179.9, 0, -179.9);
+
+      expect(distance).toBeCloseTo(22.2, 1);
+    });
+  });
+
+  describe('getBoundingBox', () => {
+    it('should return a single longitude range away from the dateline', () => {
+      const box = getBoundingBox(39.7392, -104.9903, 50);
+
+      expect(box.longitudeRanges).toHaveLength(1);
+      expect(box.maxLatitude - box.minLatitude).toBeCloseTo(0.899, 2);
+    });
+
+    it('should split the longitude range when crossing the dateline east', () => {
+      // Fiji sits right next to the antimeridian
+      const box = getBoundingBox(-17.7, 179.9, 50);
+
+      expect(box.longitudeRanges).toHaveLength(2);
+      expect(box.longitudeRanges[0].max).toBe(180);
+      expect(box.longitudeRanges[1].min).toBe(-180);
+      expect(isInsideBox(box, -17.7, -179.9)).toBe(true);
+      expect(isInsideBox(box, -17.7, 179.5)).toBe(true);
+      expect(isInsideBox(box, -17.7, 0)).toBe(false);
+    });
+
+    it('should split the longitude range when crossing the dateline west', () => {
+      const box = getBoundingBox(65.0, -179.8, 100);
+
+      expect(box.longitudeRanges).toHaveLength(2);
+      expect(isInsideBox(box, 65.0, 179.5)).toBe(true);
+      expect(isInsideBox(box, 65.0, -178)).toBe(true);
+      expect(isInsideBox(box, 65.0, 170)).toBe(false);
+    });
+
+    it('should widen the longitude range at high latitudes', () => {
+      const equator = getBoundingBox(0, 10, 100);
+      const svalbard = getBoundingBox(78.2, 15.6, 100);
+      const width = (box: ReturnType<typeof getBoundingBox>) =>
+        box.longitudeRanges[0].max - box.longitudeRanges[0].min;
+
+      expect(width(svalbard)).toBeGreaterThan(width(equator) * 4);
+    });
+
+    it('should cover every longitude when the radius reaches a pole', () => {
+      const box = getBoundingBox(89.9, 0, 50);
+
+      expect(box.maxLatitude).toBe(90);
+      expect(box.longitudeRanges).toEqual([{ min: -180, max: 180 }]);
+      // Across the pole on the opposite meridian
+      expect(isInsideBox(box, 89.9, 180)).toBe(true);
+    });
+
+    it('should never exclude a point that is within the radius', () => {
+      const origins: Array<[number, number]> = [
+        [0, 0],
+        [-17.7, 179.9],
+        [65.0, -179.8],
+        [78.2, 15.6],
+        [-77.8, 166.7],
+      ];
+      const radiusKm = 150;
+
+      for (const [latitude, longitude] of origins) {
+        const box = getBoundingBox(latitude, longitude, radiusKm);
+
+        for (let bearing = 0; bearing < 360; bearing += 15) {
+          // Step just inside the radius along each bearing
+          const angular = (radiusKm * 0.999) / 6371;
+          const lat1 = (latitude * Math.PI) / 180;
+          const lon1 = (longitude * Math.PI) / 180;
+          const theta = (bearing * Math.PI) / 180;
+          const lat2 = Math.asin(
+            Math.sin(lat1) * Math.cos(angular) +
+              Math.cos(lat1) * Math.sin(angular) * Math.cos(theta)
+          );
+          const lon2 =
+            lon1 +
+            Math.atan2(
+              Math.sin(theta) * Math.sin(angular) * Math.cos(lat1),
+              Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+            );
+          const pointLatitude = (lat2 * 180) / Math.PI;
+          const pointLongitude = (((lon2 * 180) / Math.PI + 540) % 360) - 180;
+
+          expect(isInsideBox(box, pointLatitude, pointLongitude)).toBe(true);
+        }
+      }
+    });
+  });
+
+  describe('boundingBoxWhere', () => {
+    it('should filter a single longitude range directly', () => {
+      const where = boundingBoxWhere({
+        minLatitude: 39,
+        maxLatitude: 40,
+        longitudeRanges: [{ min: -105, max: -104 }],
+      });
+
+      expect(where).toEqual({
+        latitude: { gte: 39, lte: 40 },
+        longitude: { gte: -105, lte: -104 },
+      });
+    });
+
+    it('should OR the two ranges of a box crossing the dateline', () => {
+      const where = boundingBoxWhere({
+        minLatitude: -18,
+        maxLatitude: -17,
+        longitudeRanges: [
+          { min: 179.5, max: 180 },
+          { min: -180, max: -179.7 },
+        ],
+      });
+
+      expect(where).toEqual({
+        latitude: { gte: -18, lte: -17 },
+        OR: [
+          { longitude: { gte: 179.5, lte: 180 } },
+          { longitude: { gte: -180, lte: -179.7 } },
+        ],
+      });
+    });
+  });
+});
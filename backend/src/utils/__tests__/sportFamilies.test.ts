@@ -0,0 +1,47 @@
+import { getDominantSportFamily, getSportFamily } from '../sportFamilies';
+
+const totals = (counts: Record<string, number>) =>
+  Object.fromEntries(
+    Object.entries(counts).map(([type, weeklyActivities]) => [
+      type,
+      { weeklyDistance: 0, weeklyActivities },
+    ])
+  );
+
+describe('sport family utilities', () => {
+  describe('getSportFamily', () => {
+    it('should group activity types into families', () => {
+      expect(getSportFamily('TrailRun')).toBe('run');
+      expect(getSportFamily('GravelRide')).toBe('ride');
+      expect(getSportFamily('WeightTraining')).toBe('strength');
+      expect(getSportFamily('Kayaking')).toBeNull();
+    });
+  });
+
+  describe('getDominantSportFamily', () => {
+    it('should pick the family most activities belong to', () => {
+      expect(
+        getDominantSportFamily(
+          ['Run', 'Hike', 'Ride'],
+          totals({ Run: 3, Hike: 1, Ride: 1 })
+        )
+      ).toBe('run');
+    });
+
+    it('should treat an even mix of sports as multisport', () => {
+      expect(
+        getDominantSportFamily(
+          ['Run', 'Ride', 'Swim'],
+          totals({ Run: 2, Ride: 2, Swim: 1 })
+        )
+      ).toBe('multisport');
+    });
+
+    it('should use the general profile without any family activities', () => {
+      expect(
+        getDominantSportFamily(['Kayaking'], totals({ Kayaking: 4 }))
+      ).toBeNull();
+      expect(getDominantSportFamily([], {})).toBeNull();
+    });
+  });
+});
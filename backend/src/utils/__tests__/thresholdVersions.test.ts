@@ -0,0 +1,78 @@
+import { getThresholdVersions } from '../thresholdVersions';
+import { FitnessThreshold } from '../../types';
+
+const now = new Date('2025-09-10T12:00:00Z');
+
+const version = (
+  id: string,
+  effectiveFrom: string,
+  updatedAt: string = effectiveFrom,
+  sportFamily: FitnessThreshold['sportFamily'] = null
+): FitnessThreshold => ({
+  id,
+  weeklyDistance: 10000,
+  weeklyActivities: 3,
+  averagePace: null,
+  allowedActivityTypes: [],
+  rules: null,
+  sportFamily,
+  effectiveFrom: new Date(effectiveFrom),
+  restoredFromId: null,
+  updatedAt: new Date(updatedAt),
+  updatedBy: 'admin@example.com',
+});
+
+const statuses = (thresholds: FitnessThreshold[]): Record<string, string> =>
+  Object.fromEntries(
+    getThresholdVersions(thresholds, now).map(v => [v.id, v.status])
+  );
+
+describe('threshold version utilities', () => {
+  describe('getThresholdVersions', () => {
+    it('should follow a profile from retired to scheduled versions', () => {
+      expect(
+        statuses([
+          version('next', '2025-09-20T00:00:00Z', '2025-09-09T00:00:00Z'),
+          version('current', '2025-09-05T00:00:00Z'),
+          version('first', '2025-09-01T00:00:00Z'),
+        ])
+      ).toEqual({ next: 'scheduled', current: 'active', first: 'retired' });
+    });
+
+    it('should mark a scheduled version replaced before it took effect', () => {
+      expect(
+        statuses([
+          // Scheduled for the 8th, then overridden by a version for the 6th
+          version('planned', '2025-09-08T00:00:00Z', '2025-09-01T00:00:00Z'),
+          version('override', '2025-09-06T00:00:00Z', '2025-09-02T00:00:00Z'),
+          version('first', '2025-09-01T00:00:00Z'),
+        ])
+      ).toEqual({ planned: 'active', override: 'retired', first: 'retired' });
+
+      expect(
+        statuses([
+          version(
+            'replacement',
+            '2025-09-08T00:00:00Z',
+            '2025-09-03T00:00:00Z'
+          ),
+          version('planned', '2025-09-08T00:00:00Z', '2025-09-01T00:00:00Z'),
+          version('first', '2025-09-01T00:00:00Z'),
+        ])
+      ).toEqual({
+        replacement: 'active',
+        planned: 'never_active',
+        first: 'retired',
+      });
+    });
+
+    it('should keep each profile on its own timeline', () => {
+      expect(
+        statuses([
+          version('ride', '2025-09-05T00:00:00Z', undefined, 'ride'),
+          version('general', '2025-09-01T00:00:00Z'),
+        ])
+      ).toEqual({ ride: 'active', general: 'active' });
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  buildTrainingAreas,
+  calculateTrainingAreaOverlap,
+  getHomeTrainingArea,
+  parseLatLng,
+  roundCoordinate,
+} from '../trainingAreas';
+
+const loopAt = (latitude: number, longitude: number) => ({
+  startLatitude: latitude,
+  startLongitude: longitude,
+  endLatitude: latitude,
+  endLongitude: longitude,
+});
+
+describe('training area utilities', () => {
+  describe('parseLatLng', () => {
+    it('should round coordinates to about a kilometre', () => {
+      expect(parseLatLng([40.014986, -105.270546])).toEqual({
+        latitude: 40.01,
+        longitude: -105.27,
+      });
+      expect(roundCoordinate(-104.987)).toBe(-104.99);
+    });
+
+    it('should return null for activities without a location', () => {
+      expect(parseLatLng([])).toBeNull();
+      expect(parseLatLng(null)).toBeNull();
+      expect(parseLatLng(undefined)).toBeNull();
+    });
+  });
+
+  describe('buildTrainingAreas', () => {
+    it('should return no areas when no activity has a location', () => {
+      expect(
+        buildTrainingAreas([
+          {
+            startLatitude: null,
+            startLongitude: null,
+            endLatitude: null,
+            endLongitude: null,
+          },
+        ])
+      ).toEqual([]);
+    });
+
+    it('should count the start and end of point-to-point activities', () => {
+      const areas = buildTrainingAreas([
+        {
+          startLatitude: 40.01,
+          startLongitude: -105.27,
+          endLatitude: 40.05,
+          endLongitude: -105.3,
+        },
+        loopAt(40.01, -105.27),
+      ]);
+
+      expect(areas).toEqual([
+        { latitude: 40.01, longitude: -105.27, share: 2 / 3 },
+        { latitude: 40.05, longitude: -105.3, share: 1 / 3 },
+      ]);
+    });
+  });
+
+  describe('calculateTrainingAreaOverlap', () => {
+    it('should score users training in the same places as 1', () => {
+      const areas = buildTrainingAreas([loopAt(40.01, -105.27)]);
+
+      expect(calculateTrainingAreaOverlap(areas, areas)).toBe(1);
+    });
+
+    it('should treat neighbouring grid cells as the same place', () => {
+      const areas1 = buildTrainingAreas([loopAt(40.01, -105.27)]);
+      const areas2 = buildTrainingAreas([loopAt(40.02, -105.27)]);
+
+      expect(calculateTrainingAreaOverlap(areas1, areas2)).toBe(1);
+    });
+
+    it('should score only the share of training done in common places', () => {
+      // Half of user 1's training is on user 2's only loop
+      const areas1 = buildTrainingAreas([
+        loopAt(40.01, -105.27),
+        loopAt(39.74, -104.99),
+      ]);
+      const areas2 = buildTrainingAreas([loopAt(40.01, -105.27)]);
+
+      expect(calculateTrainingAreaOverlap(areas1, areas2)).toBeCloseTo(0.75);
+    });
+
+    it('should score 0 for users training in different places or with no areas', () => {
+      const boulder = buildTrainingAreas([loopAt(40.01, -105.27)]);
+      const denver = buildTrainingAreas([loopAt(39.74, -104.99)]);
+
+      expect(calculateTrainingAreaOverlap(boulder, denver)).toBe(0);
+      expect(calculateTrainingAreaOverlap(boulder, [])).toBe(0);
+    });
+  });
+
+  describe('getHomeTrainingArea', () => {
+    it('should centre on the cluster with the most training', () => {
+      const home = getHomeTrainingArea([
+        { latitude: 39.74, longitude: -104.99, share: 0.4 },
+        { latitude: 40.01, longitude: -105.27, share: 0.2 },
+        { latitude: 40.02, longitude: -105.27, share: 0.4 },
+      ]);
+
+      expect(home).toEqual({ latitude: 40.02, longitude: -105.27 });
+    });
+
+    it('should return null without any areas', () => {
+      expect(getHomeTrainingArea([])).toBeNull();
+    });
+  });
+});
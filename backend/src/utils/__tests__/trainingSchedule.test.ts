@@ -0,0 +1,117 @@
+import {
+  buildTrainingSchedule,
+  calculateScheduleOverlap,
+  getDominantTimeOfDay,
+  getTimeOfDaySlotIndex,
+} from '../trainingSchedule';
+
+// 2024-06-03 is a Monday
+const activityAt = (isoDate: string, utcOffset: number = 0) => ({
+  startDate: new Date(isoDate),
+  utcOffset,
+});
+
+describe('training schedule utilities', () => {
+  describe('getTimeOfDaySlotIndex', () => {
+    it('should bucket hours by slot start', () => {
+      expect(getTimeOfDaySlotIndex(4)).toBe(0);
+      expect(getTimeOfDaySlotIndex(7)).toBe(0);
+      expect(getTimeOfDaySlotIndex(8)).toBe(1);
+      expect(getTimeOfDaySlotIndex(12)).toBe(2);
+      expect(getTimeOfDaySlotIndex(17)).toBe(3);
+      expect(getTimeOfDaySlotIndex(21)).toBe(4);
+    });
+
+    it('should treat the small hours as night', () => {
+      expect(getTimeOfDaySlotIndex(0)).toBe(4);
+      expect(getTimeOfDaySlotIndex(3)).toBe(4);
+    });
+  });
+
+  describe('buildTrainingSchedule', () => {
+    it('should return an empty schedule without activities', () => {
+      expect(buildTrainingSchedule([])).toEqual([]);
+    });
+
+    it('should place activities by local day and time', () => {
+      // 11:00 UTC Monday is 05:00 in Denver (UTC-6)
+      const schedule = buildTrainingSchedule([
+        activityAt('2024-06-03T11:00:00Z', -6 * 60 * 60),
+        activityAt('2024-06-03T11:00:00Z'),
+      ]);
+
+      expect(schedule).toHaveLength(7);
+      expect(schedule[1][0]).toBeCloseTo(0.5);
+      expect(schedule[1][1]).toBeCloseTo(0.5);
+    });
+
+    it('should move late activities to the next local day', () => {
+      // 22:00 UTC Monday is 07:00 Tuesday in Tokyo (UTC+9)
+      const schedule = buildTrainingSchedule([
+        activityAt('2024-06-03T22:00:00Z', 9 * 60 * 60),
+      ]);
+
+      expect(schedule[2][0]).toBe(1);
+    });
+  });
+
+  describe('calculateScheduleOverlap', () => {
+    it('should score identical schedules as 1', () => {
+      const schedule = buildTrainingSchedule([
+        activityAt('2024-06-03T06:00:00Z'),
+        activityAt('2024-06-05T18:00:00Z'),
+      ]);
+
+      expect(calculateScheduleOverlap(schedule, schedule)).toBeCloseTo(1);
+    });
+
+    it('should score schedules at different times of day as 0', () => {
+      const morning = buildTrainingSchedule([
+        activityAt('2024-06-03T06:00:00Z'),
+      ]);
+      const evening = buildTrainingSchedule([
+        activityAt('2024-06-03T18:00:00Z'),
+      ]);
+
+      expect(calculateScheduleOverlap(morning, evening)).toBe(0);
+    });
+
+    it('should give half credit for the same time on different days', () => {
+      const monday = buildTrainingSchedule([
+        activityAt('2024-06-03T06:00:00Z'),
+      ]);
+      const thursday = buildTrainingSchedule([
+        activityAt('2024-06-06T06:00:00Z'),
+      ]);
+
+      expect(calculateScheduleOverlap(monday, thursday)).toBeCloseTo(0.5);
+    });
+
+    it('should score 0 when either user has no schedule', () => {
+      const schedule = buildTrainingSchedule([
+        activityAt('2024-06-03T06:00:00Z'),
+      ]);
+
+      expect(calculateScheduleOverlap(schedule, [])).toBe(0);
+      expect(calculateScheduleOverlap([], schedule)).toBe(0);
+    });
+  });
+
+  describe('getDominantTimeOfDay', () => {
+    it('should return the slot with the most training', () => {
+      const schedule = buildTrainingSchedule([
+        activityAt('2024-06-03T06:00:00Z'),
+        activityAt('2024-06-04T06:30:00Z'),
+        activityAt('2024-06-05T18:00:00Z'),
+      ]);
+
+      const dominant = getDominantTimeOfDay(schedule);
+      expect(dominant?.slot).toBe('early_morning');
+      expect(dominant?.share).toBeCloseTo(2 / 3);
+    });
+
+    it('should return null for an empty schedule', () => {
+      expect(getDominantTimeOfDay([])).toBeNull();
+    });
+  });
+});
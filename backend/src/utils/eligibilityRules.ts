@@ -0,0 +1,222 @@
+import {
+  EligibilityCondition,
+  EligibilityRule,
+  FitnessThreshold,
+  RuleEvaluation,
+  RuleStatus,
+} from '../types';
+
+export interface WeeklyTypeTotals {
+  weeklyDistance: number;
+  weeklyActivities: number;
+}
+
+export interface EligibilityMetrics {
+  weeklyDistance: number;
+  weeklyActivities: number;
+  averagePace: number | undefined;
+  activityTypes: string[];
+  // Keyed by Strava activity type, e.g. "Run" or "Ride"
+  weeklyTotalsByType: Record<string, WeeklyTypeTotals>;
+}
+
+const MARKS: Record<RuleStatus, string> = {
+  passed: '✓ ',
+  failed: '✗ ',
+  skipped: '',
+};
+
+// "5:30/km" from seconds per km
+const formatPace = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.round(seconds % 60);
+  return `${minutes}:${rest.toString().padStart(2, '0')}/km`;
+};
+
+/**
+ * The rule tree a threshold is evaluated with. Thresholds saved before rule
+ * trees existed are read as an AND of their fixed fields.
+ */
+export const getThresholdRules = (
+  threshold: Pick<
+    FitnessThreshold,
+    | 'weeklyDistance'
+    | 'weeklyActivities'
+    | 'averagePace'
+    | 'allowedActivityTypes'
+    | 'rules'
+  >
+): EligibilityRule => {
+  if (threshold.rules) {
+    return threshold.rules;
+  }
+
+  const rules: EligibilityRule[] = [
+    {
+      type: 'condition',
+      metric: 'weeklyDistance',
+      min: threshold.weeklyDistance,
+    },
+    {
+      type: 'condition',
+      metric: 'weeklyActivities',
+      min: threshold.weeklyActivities,
+    },
+  ];
+  if (threshold.averagePace) {
+    rules.push({
+      type: 'condition',
+      metric: 'averagePace',
+      max: threshold.averagePace,
+    });
+  }
+  if (threshold.allowedActivityTypes.length > 0) {
+    rules.push({
+      type: 'condition',
+      metric: 'activityTypes',
+      anyOf: threshold.allowedActivityTypes,
+    });
+  }
+  return { type: 'group', operator: 'and', rules };
+};
+
+const evaluateCondition = (
+  condition: EligibilityCondition,
+  metrics: EligibilityMetrics
+): RuleEvaluation => {
+  const result = (status: RuleStatus, reason: string): RuleEvaluation => ({
+    rule: condition,
+    status,
+    reason: `${MARKS[status]}${reason}`,
+  });
+
+  switch (condition.metric) {
+    case 'weeklyDistance':
+    case 'weeklyActivities': {
+      const isDistance = condition.metric === 'weeklyDistance';
+      const totals = condition.activityType
+        ? metrics.weeklyTotalsByType[condition.activityType]
+        : metrics;
+      const value = totals ? totals[condition.metric] : 0;
+      const label = `Weekly ${condition.activityType ? `${condition.activityType} ` : ''}${
+        isDistance ? 'distance' : 'activities'
+      }`;
+      const unit = isDistance ? 'm' : '';
+      return value >= condition.min
+        ? result(
+            'passed',
+            `${label}: ${Math.round(value)}${unit} meets requirement (${condition.min}${unit})`
+          )
+        : result(
+            'failed',
+            `${label}: ${Math.round(value)}${unit} below requirement (${condition.min}${unit})`
+          );
+    }
+    case 'averagePace':
+      if (metrics.averagePace === undefined) {
+        return result(
+          'skipped',
+          `Average pace: no pace data, requirement (${formatPace(condition.max)}) not checked`
+        );
+      }
+      return metrics.averagePace <= condition.max
+        ? result(
+            'passed',
+            `Average pace: ${formatPace(metrics.averagePace)} meets requirement (${formatPace(condition.max)})`
+          )
+        : result(
+            'failed',
+            `Average pace: ${formatPace(metrics.averagePace)} slower than requirement (${formatPace(condition.max)})`
+          );
+    case 'activityTypes': {
+      const matching = metrics.activityTypes.filter(type =>
+        condition.anyOf.includes(type)
+      );
+      return matching.length > 0
+        ? result(
+            'passed',
+            `Activity types: ${matching.join(', ')} match allowed types`
+          )
+        : result(
+            'failed',
+            `No activities match allowed types: ${condition.anyOf.join(', ')}`
+          );
+    }
+  }
+};
+
+/**
+ * Evaluate a rule tree against a user's metrics, keeping the outcome and
+ * reason of every rule. Groups ignore skipped rules; a group with nothing left
+ * to check is skipped itself.
+ */
+export const evaluateEligibilityRule = (
+  rule: EligibilityRule,
+  metrics: EligibilityMetrics
+): RuleEvaluation => {
+  if (rule.type === 'condition') {
+    return evaluateCondition(rule, metrics);
+  }
+
+  const results = rule.rules.map(child =>
+    evaluateEligibilityRule(child, metrics)
+  );
+  const checked = results.filter(result => result.status !== 'skipped');
+  const passedCount = checked.filter(
+    result => result.status === 'passed'
+  ).length;
+
+  let status: RuleStatus;
+  if (checked.length === 0) {
+    status = 'skipped';
+  } else if (rule.operator === 'and') {
+    status = passedCount === checked.length ? 'passed' : 'failed';
+  } else {
+    status = passedCount > 0 ? 'passed' : 'failed';
+  }
+
+  const reason =
+    rule.operator === 'and'
+      ? `All of: ${passedCount} of ${checked.length} rules met`
+      : `Any of: ${passedCount} of ${checked.length} rules met`;
+
+  return { rule, status, reason: `${MARKS[status]}${reason}`, results };
+};
+
+/**
+ * Share of the tree that was met, from 0 to 1. AND groups average their rules
+ * and OR groups take their best rule, so an unused alternative costs nothing.
+ */
+export const scoreRuleEvaluation = (evaluation: RuleEvaluation): number => {
+  if (!evaluation.results) {
+    return evaluation.status === 'passed' ? 1 : 0;
+  }
+
+  const scores = evaluation.results
+    .filter(result => result.status !== 'skipped')
+    .map(scoreRuleEvaluation);
+  if (scores.length === 0) {
+    return 1;
+  }
+  return evaluation.rule.type === 'group' && evaluation.rule.operator === 'or'
+    ? Math.max(...scores)
+    : scores.reduce((sum, score) => sum + score, 0) / scores.length;
+};
+
+/**
+ * Reasons in tree order. Nested groups get a line of their own ahead of their
+ * rules; the outermost group's outcome is the overall result.
+ */
+export const flattenRuleReasons = (
+  evaluation: RuleEvaluation,
+  isRoot = true
+): string[] => {
+  if (!evaluation.results) {
+    return [evaluation.reason];
+  }
+
+  const childReasons = evaluation.results.flatMap(result =>
+    flattenRuleReasons(result, false)
+  );
+  return isRoot ? childReasons : [evaluation.reason, ...childReasons];
+};
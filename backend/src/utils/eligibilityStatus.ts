@@ -0,0 +1,75 @@
+import { ELIGIBILITY_STATUSES, EligibilityStatus } from '../types';
+import { EligibilityMetrics } from './eligibilityRules';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface EligibilityState {
+  status: EligibilityStatus;
+  graceEndsAt: Date | null;
+}
+
+/**
+ * A stored status, read as eligible when it is not one we know
+ */
+export const parseEligibilityStatus = (
+  status: string | undefined
+): EligibilityStatus =>
+  ELIGIBILITY_STATUSES.find(known => known === status) ?? 'eligible';
+
+/**
+ * Metrics with distance and activity counts scaled by a factor, to check
+ * whether a user would still pass with a little less training
+ */
+export const scaleEligibilityMetrics = <T extends EligibilityMetrics>(
+  metrics: T,
+  factor: number
+): T => ({
+  ...metrics,
+  weeklyDistance: metrics.weeklyDistance * factor,
+  weeklyActivities: metrics.weeklyActivities * factor,
+  weeklyTotalsByType: Object.fromEntries(
+    Object.entries(metrics.weeklyTotalsByType).map(([type, totals]) => [
+      type,
+      {
+        weeklyDistance: totals.weeklyDistance * factor,
+        weeklyActivities: totals.weeklyActivities * factor,
+      },
+    ])
+  ),
+});
+
+/**
+ * The state a user moves to after an evaluation. Passing users are eligible,
+ * or at risk when they pass with little to spare. Users who stop passing get a
+ * grace period and only become ineligible once it has ended; passing again at
+ * any point reinstates them.
+ */
+export const getNextEligibilityState = (
+  current: EligibilityState,
+  evaluation: { meets: boolean; atRisk: boolean },
+  now: Date,
+  graceDays: number
+): EligibilityState => {
+  if (evaluation.meets) {
+    return {
+      status: evaluation.atRisk ? 'at_risk' : 'eligible',
+      graceEndsAt: null,
+    };
+  }
+
+  switch (current.status) {
+    case 'eligible':
+    case 'at_risk':
+      return {
+        status: 'grace_period',
+        graceEndsAt: new Date(now.getTime() + graceDays * DAY_MS),
+      };
+    case 'grace_period':
+      // A grace period without an end date counts as ended
+      return current.graceEndsAt && current.graceEndsAt > now
+        ? current
+        : { status: 'ineligible', graceEndsAt: null };
+    case 'ineligible':
+      return current;
+  }
+};
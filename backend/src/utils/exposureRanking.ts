@@ -0,0 +1,112 @@
+// Points added at full strength to a perfectly compatible profile that has not
+// been shown at all within the exposure window
+export const MAX_EXPOSURE_BOOST = 15;
+
+// A profile shown this many times gets half the boost of an unseen one
+const HALF_BOOST_IMPRESSIONS = 50;
+
+// Points taken at full strength from a candidate whose sport and city are
+// shared by everyone already placed above them
+export const MAX_DIVERSITY_PENALTY = 20;
+
+// Only the top of the deck is diversified, the rest keeps its boosted order
+export const DIVERSITY_WINDOW = 20;
+
+export interface RankingCandidate {
+  score: number;
+  impressions: number;
+  sport: string | null;
+  city: string | null;
+}
+
+export interface RerankOptions {
+  exposureStrength: number;
+  diversityStrength: number;
+}
+
+interface RankedEntry<T> {
+  candidate: T;
+  rankScore: number;
+}
+
+/**
+ * Points a candidate gains for being rarely shown. Scaled by compatibility so
+ * under-exposed profiles only move up if they are a good match.
+ */
+export const calculateExposureBoost = (
+  score: number,
+  impressions: number,
+  strength: number
+): number =>
+  strength *
+  MAX_EXPOSURE_BOOST *
+  (score / 100) *
+  (HALF_BOOST_IMPRESSIONS / (HALF_BOOST_IMPRESSIONS + impressions));
+
+/**
+ * Reorder candidates sorted by score: lift under-exposed profiles, then fill
+ * the top of the deck greedily, penalising each candidate by how many of those
+ * already placed share their sport and city. Scores themselves are untouched.
+ */
+export const rerankCandidates = <T extends RankingCandidate>(
+  candidates: T[],
+  options: RerankOptions
+): T[] => {
+  const remaining: RankedEntry<T>[] = candidates
+    .map(candidate => ({
+      candidate,
+      rankScore:
+        candidate.score +
+        calculateExposureBoost(
+          candidate.score,
+          candidate.impressions,
+          options.exposureStrength
+        ),
+    }))
+    .sort((a, b) => b.rankScore - a.rankScore);
+
+  if (options.diversityStrength <= 0) {
+    return remaining.map(entry => entry.candidate);
+  }
+
+  const placed: T[] = [];
+  const sportCounts = new Map<string, number>();
+  const cityCounts = new Map<string, number>();
+  const repeatShare = (
+    counts: Map<string, number>,
+    key: string | null
+  ): number => (key === null ? 0 : (counts.get(key) ?? 0) / placed.length);
+
+  while (placed.length < DIVERSITY_WINDOW && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+
+    remaining.forEach((entry, index) => {
+      const penalty =
+        placed.length === 0
+          ? 0
+          : (options.diversityStrength *
+              MAX_DIVERSITY_PENALTY *
+              (repeatShare(sportCounts, entry.candidate.sport) +
+                repeatShare(cityCounts, entry.candidate.city))) /
+            2;
+      // Ties keep the boosted order
+      if (entry.rankScore - penalty > bestScore) {
+        bestScore = entry.rankScore - penalty;
+        bestIndex = index;
+      }
+    });
+
+    const [best] = remaining.splice(bestIndex, 1);
+    const { sport, city } = best.candidate;
+    placed.push(best.candidate);
+    if (sport !== null) {
+      sportCounts.set(sport, (sportCounts.get(sport) ?? 0) + 1);
+    }
+    if (city !== null) {
+      cityCounts.set(city, (cityCounts.get(city) ?? 0) + 1);
+    }
+  }
+
+  return [...placed, ...remaining.map(entry => entry.candidate)];
+};
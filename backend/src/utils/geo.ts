@@ -0,0 +1,103 @@
+const EARTH_RADIUS_KM = 6371;
+
+export interface LongitudeRange {
+  min: number;
+  max: number;
+}
+
+export interface BoundingBox {
+  minLatitude: number;
+  maxLatitude: number;
+  // Two ranges when the box crosses the antimeridian (±180°)
+  longitudeRanges: LongitudeRange[];
+}
+
+const toRadians = (degrees: number): number => degrees * (Math.PI / 180);
+
+const toDegrees = (radians: number): number => radians * (180 / Math.PI);
+
+/**
+ * Great-circle distance between two points in kilometers (Haversine formula)
+ */
+export const calculateDistanceKm = (
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) *
+      Math.cos(toRadians(lat2)) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_KM * c;
+};
+
+/**
+ * Smallest latitude/longitude box containing every point within radiusKm of
+ * the origin. Used as an index-friendly prefilter before the exact Haversine
+ * check; the box is never smaller than the circle, so no candidate is lost.
+ */
+export const getBoundingBox = (
+  latitude: number,
+  longitude: number,
+  radiusKm: number
+): BoundingBox => {
+  const angularRadius = radiusKm / EARTH_RADIUS_KM;
+  const minLatitude = latitude - toDegrees(angularRadius);
+  const maxLatitude = latitude + toDegrees(angularRadius);
+
+  // The circle covers a pole, so every longitude is in range
+  if (maxLatitude >= 90 || minLatitude <= -90) {
+    return {
+      minLatitude: Math.max(minLatitude, -90),
+      maxLatitude: Math.min(maxLatitude, 90),
+      longitudeRanges: [{ min: -180, max: 180 }],
+    };
+  }
+
+  const longitudeDelta = toDegrees(
+    Math.asin(Math.sin(angularRadius) / Math.cos(toRadians(latitude)))
+  );
+  const minLongitude = longitude - longitudeDelta;
+  const maxLongitude = longitude + longitudeDelta;
+
+  let longitudeRanges: LongitudeRange[];
+  if (minLongitude < -180) {
+    longitudeRanges = [
+      { min: minLongitude + 360, max: 180 },
+      { min: -180, max: maxLongitude },
+    ];
+  } else if (maxLongitude > 180) {
+    longitudeRanges = [
+      { min: minLongitude, max: 180 },
+      { min: -180, max: maxLongitude - 360 },
+    ];
+  } else {
+    longitudeRanges = [{ min: minLongitude, max: maxLongitude }];
+  }
+
+  return { minLatitude, maxLatitude, longitudeRanges };
+};
+
+/**
+ * Prisma `where` clause restricting latitude/longitude columns to a bounding box
+ */
+export const boundingBoxWhere = (box: BoundingBox) => {
+  const longitudeFilters = box.longitudeRanges.map(range => ({
+    longitude: { gte: range.min, lte: range.max },
+  }));
+
+  return {
+    latitude: { gte: box.minLatitude, lte: box.maxLatitude },
+    ...(longitudeFilters.length === 1
+      ? longitudeFilters[0]
+      : { OR: longitudeFilters }),
+  };
+};
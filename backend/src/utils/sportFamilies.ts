@@ -0,0 +1,61 @@
+import { SportFamily } from '../types';
+import { WeeklyTypeTotals } from './eligibilityRules';
+
+// Strava activity types grouped by the threshold profile they count towards.
+// Types not listed here do not affect which profile a user is evaluated with.
+const SPORT_FAMILY_BY_TYPE: Record<string, SportFamily> = {
+  Run: 'run',
+  TrailRun: 'run',
+  VirtualRun: 'run',
+  Walk: 'run',
+  Hike: 'run',
+  Ride: 'ride',
+  VirtualRide: 'ride',
+  MountainBikeRide: 'ride',
+  GravelRide: 'ride',
+  EBikeRide: 'ride',
+  Swim: 'swim',
+  WeightTraining: 'strength',
+  Crossfit: 'strength',
+  Workout: 'strength',
+  Yoga: 'strength',
+};
+
+// Share of a user's activities one family needs to be their dominant sport
+const DOMINANT_SHARE = 0.6;
+
+/**
+ * The sport family an activity type belongs to, or null when it has none
+ */
+export const getSportFamily = (activityType: string): SportFamily | null =>
+  SPORT_FAMILY_BY_TYPE[activityType] ?? null;
+
+/**
+ * The profile a user is evaluated with: the family most of their activities
+ * belong to, multisport when no family has a clear majority, or null (the
+ * general profile) when none of their activities belong to a family.
+ */
+export const getDominantSportFamily = (
+  activityTypes: string[],
+  weeklyTotalsByType: Record<string, WeeklyTypeTotals>
+): SportFamily | null => {
+  const counts = new Map<SportFamily, number>();
+  activityTypes.forEach(type => {
+    const family = getSportFamily(type);
+    if (family) {
+      counts.set(
+        family,
+        (counts.get(family) ?? 0) +
+          (weeklyTotalsByType[type]?.weeklyActivities ?? 0)
+      );
+    }
+  });
+
+  const total = [...counts.values()].reduce((sum, count) => sum + count, 0);
+  if (total === 0) {
+    return null;
+  }
+
+  const [family, count] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+  return count / total >= DOMINANT_SHARE ? family : 'multisport';
+};
@@ -0,0 +1,52 @@
+import {
+  FitnessThreshold,
+  ThresholdVersion,
+  ThresholdVersionStatus,
+} from '../types';
+
+// Versions in the order they take over their profile. Of two versions with
+// the same effective time, the one saved last wins.
+const byEffectiveTime = (a: FitnessThreshold, b: FitnessThreshold): number =>
+  a.effectiveFrom.getTime() - b.effectiveFrom.getTime() ||
+  a.updatedAt.getTime() - b.updatedAt.getTime();
+
+/**
+ * Label each version with where it is in its profile's timeline: scheduled,
+ * active, retired after being active, or never active because another
+ * version replaced it before it took effect. Versions keep their order.
+ */
+export const getThresholdVersions = (
+  thresholds: FitnessThreshold[],
+  now: Date
+): ThresholdVersion[] => {
+  const byProfile = new Map<string | null, FitnessThreshold[]>();
+  thresholds.forEach(threshold => {
+    const versions = byProfile.get(threshold.sportFamily) ?? [];
+    versions.push(threshold);
+    byProfile.set(threshold.sportFamily, versions);
+  });
+
+  const statuses = new Map<string, ThresholdVersionStatus>();
+  byProfile.forEach(versions => {
+    const timeline = [...versions].sort(byEffectiveTime);
+    timeline.forEach((version, index) => {
+      const next = timeline[index + 1];
+      let status: ThresholdVersionStatus;
+      if (version.effectiveFrom > now) {
+        status = 'scheduled';
+      } else if (!next || next.effectiveFrom > now) {
+        status = 'active';
+      } else if (next.effectiveFrom > version.effectiveFrom) {
+        status = 'retired';
+      } else {
+        status = 'never_active';
+      }
+      statuses.set(version.id, status);
+    });
+  });
+
+  return thresholds.map(threshold => ({
+    ...threshold,
+    status: statuses.get(threshold.id) ?? 'never_active',
+  }));
+};
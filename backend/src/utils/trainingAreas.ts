@@ -0,0 +1,175 @@
+import { StravaActivity } from '../types/strava';
+import { TrainingArea } from '../types/fitness';
+import { calculateDistanceKm } from './geo';
+
+// Coordinates are stored to 2 decimal places (about 1 km), which is enough to
+// recognise a trail or loop without pinpointing anyone's front door
+export const LOCATION_PRECISION_DECIMALS = 2;
+
+// Areas closer than this count as the same place, so two users starting from
+// either end of a park or from neighbouring grid cells still overlap
+export const TRAINING_AREA_MATCH_RADIUS_KM = 1.5;
+
+// Only the most used areas are kept per user
+const MAX_TRAINING_AREAS = 20;
+
+type LocatedActivity = Pick<
+  StravaActivity,
+  'startLatitude' | 'startLongitude' | 'endLatitude' | 'endLongitude'
+>;
+
+/**
+ * Round a coordinate to the stored precision
+ */
+export const roundCoordinate = (value: number): number => {
+  const factor = 10 ** LOCATION_PRECISION_DECIMALS;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Read a Strava [lat, lng] pair, which is empty or missing for indoor and
+ * privacy-zoned activities, into rounded coordinates
+ */
+export const parseLatLng = (
+  latlng: number[] | null | undefined
+): { latitude: number; longitude: number } | null => {
+  if (!Array.isArray(latlng) || latlng.length !== 2) {
+    return null;
+  }
+
+  const [latitude, longitude] = latlng;
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    return null;
+  }
+
+  return {
+    latitude: roundCoordinate(latitude),
+    longitude: roundCoordinate(longitude),
+  };
+};
+
+/**
+ * Where a user trains, as rounded locations with the share of activity start
+ * and end points in each, most used first. Returns an empty list when no
+ * activity has a location.
+ */
+export const buildTrainingAreas = (
+  activities: LocatedActivity[]
+): TrainingArea[] => {
+  const counts = new Map<string, TrainingArea>();
+  let total = 0;
+
+  const addPoint = (
+    latitude: number | null | undefined,
+    longitude: number | null | undefined
+  ) => {
+    if (latitude == null || longitude == null) {
+      return;
+    }
+
+    const key = `${latitude},${longitude}`;
+    const area = counts.get(key) || { latitude, longitude, share: 0 };
+    area.share += 1;
+    counts.set(key, area);
+    total++;
+  };
+
+  for (const activity of activities) {
+    addPoint(activity.startLatitude, activity.startLongitude);
+    // Loops start and end in the same place; only count that place once
+    if (
+      activity.endLatitude !== activity.startLatitude ||
+      activity.endLongitude !== activity.startLongitude
+    ) {
+      addPoint(activity.endLatitude, activity.endLongitude);
+    }
+  }
+
+  if (total === 0) {
+    return [];
+  }
+
+  return Array.from(counts.values())
+    .sort((a, b) => b.share - a.share)
+    .slice(0, MAX_TRAINING_AREAS)
+    .map(area => ({ ...area, share: area.share / total }));
+};
+
+// Share of `areas` that lies within the match radius of any of `others`
+const getCoveredShare = (areas: TrainingArea[], others: TrainingArea[]) =>
+  areas.reduce(
+    (sum, area) =>
+      others.some(
+        other =>
+          calculateDistanceKm(
+            area.latitude,
+            area.longitude,
+            other.latitude,
+            other.longitude
+          ) <= TRAINING_AREA_MATCH_RADIUS_KM
+      )
+        ? sum + area.share
+        : sum,
+    0
+  );
+
+/**
+ * Overlap between where two users train, from 0 (nowhere in common) to 1 (all
+ * of both users' training is somewhere the other also trains). Each side's
+ * share is averaged so a user with one local loop and one who travels widely
+ * are compared fairly.
+ */
+export const calculateTrainingAreaOverlap = (
+  areas1: TrainingArea[],
+  areas2: TrainingArea[]
+): number => {
+  if (areas1.length === 0 || areas2.length === 0) {
+    return 0;
+  }
+
+  const covered =
+    (getCoveredShare(areas1, areas2) + getCoveredShare(areas2, areas1)) / 2;
+  return Math.min(1, covered);
+};
+
+/**
+ * The centre of where a user trains most: the area with the most training
+ * within the match radius around it, averaged with those neighbours
+ */
+export const getHomeTrainingArea = (
+  areas: TrainingArea[]
+): { latitude: number; longitude: number } | null => {
+  let best: { share: number; neighbours: TrainingArea[] } | null = null;
+
+  for (const area of areas) {
+    const neighbours = areas.filter(
+      other =>
+        calculateDistanceKm(
+          area.latitude,
+          area.longitude,
+          other.latitude,
+          other.longitude
+        ) <= TRAINING_AREA_MATCH_RADIUS_KM
+    );
+    const share = neighbours.reduce((sum, other) => sum + other.share, 0);
+    if (!best || share > best.share) {
+      best = { share, neighbours };
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+
+  const { share, neighbours } = best;
+  return {
+    latitude: roundCoordinate(
+      neighbours.reduce((sum, area) => sum + area.latitude * area.share, 0) /
+        share
+    ),
+    longitude: roundCoordinate(
+      neighbours.reduce((sum, area) => sum + area.longitude * area.share, 0) /
+        share
+    ),
+  };
+};
@@ -0,0 +1,113 @@
+import { StravaActivity } from '../types/strava';
+import { TimeOfDay, TrainingSchedule } from '../types/fitness';
+
+// Time-of-day buckets by local start hour; night wraps past midnight
+export const TIME_OF_DAY_SLOTS: Array<{ slot: TimeOfDay; startHour: number }> =
+  [
+    { slot: 'early_morning', startHour: 4 },
+    { slot: 'morning', startHour: 8 },
+    { slot: 'afternoon', startHour: 12 },
+    { slot: 'evening', startHour: 17 },
+    { slot: 'night', startHour: 21 },
+  ];
+
+const DAYS_PER_WEEK = 7;
+
+/**
+ * Index into TIME_OF_DAY_SLOTS for a local hour (0-23)
+ */
+export const getTimeOfDaySlotIndex = (hour: number): number => {
+  for (let index = TIME_OF_DAY_SLOTS.length - 1; index >= 0; index--) {
+    if (hour >= TIME_OF_DAY_SLOTS[index].startHour) {
+      return index;
+    }
+  }
+  // Before the first slot starts, i.e. the early hours of the night
+  return TIME_OF_DAY_SLOTS.length - 1;
+};
+
+/**
+ * Build a day-of-week × time-of-day histogram of when a user trains, in the
+ * local time of each activity. Rows are days (Sunday first), columns are
+ * TIME_OF_DAY_SLOTS, and cells are the share of all activities (summing to 1).
+ * Returns an empty schedule when there are no activities.
+ */
+export const buildTrainingSchedule = (
+  activities: Array<Pick<StravaActivity, 'startDate'> & { utcOffset?: number }>
+): TrainingSchedule => {
+  if (activities.length === 0) {
+    return [];
+  }
+
+  const schedule: TrainingSchedule = Array.from({ length: DAYS_PER_WEEK }, () =>
+    new Array<number>(TIME_OF_DAY_SLOTS.length).fill(0)
+  );
+
+  for (const activity of activities) {
+    // Shift by the UTC offset so the UTC getters read the local wall clock
+    const local = new Date(
+      activity.startDate.getTime() + (activity.utcOffset ?? 0) * 1000
+    );
+    const slot = getTimeOfDaySlotIndex(local.getUTCHours());
+    schedule[local.getUTCDay()][slot] += 1 / activities.length;
+  }
+
+  return schedule;
+};
+
+/**
+ * Share of training in each time-of-day slot, ignoring the day of week
+ */
+export const getTimeOfDayShares = (schedule: TrainingSchedule): number[] =>
+  TIME_OF_DAY_SLOTS.map((_, slot) =>
+    schedule.reduce((sum, day) => sum + (day[slot] ?? 0), 0)
+  );
+
+/**
+ * Overlap between two schedules from 0 (never train at the same time) to 1
+ * (identical). Half the score compares exact day and time; the other half only
+ * time of day, so two early-morning runners on different weekdays still score.
+ */
+export const calculateScheduleOverlap = (
+  schedule1: TrainingSchedule,
+  schedule2: TrainingSchedule
+): number => {
+  if (schedule1.length === 0 || schedule2.length === 0) {
+    return 0;
+  }
+
+  let dayAndTimeOverlap = 0;
+  schedule1.forEach((day, dayIndex) =>
+    day.forEach((share, slot) => {
+      dayAndTimeOverlap += Math.min(share, schedule2[dayIndex]?.[slot] ?? 0);
+    })
+  );
+
+  const shares1 = getTimeOfDayShares(schedule1);
+  const shares2 = getTimeOfDayShares(schedule2);
+  const timeOfDayOverlap = shares1.reduce(
+    (sum, share, slot) => sum + Math.min(share, shares2[slot] ?? 0),
+    0
+  );
+
+  return Math.min(1, (dayAndTimeOverlap + timeOfDayOverlap) / 2);
+};
+
+/**
+ * The time of day a user trains at most, with the share of training it holds
+ */
+export const getDominantTimeOfDay = (
+  schedule: TrainingSchedule
+): { slot: TimeOfDay; share: number } | null => {
+  if (schedule.length === 0) {
+    return null;
+  }
+
+  const shares = getTimeOfDayShares(schedule);
+  const best = shares.reduce(
+    (bestIndex, share, index) =>
+      share > shares[bestIndex] ? index : bestIndex,
+    0
+  );
+  return { slot: TIME_OF_DAY_SLOTS[best].slot, share: shares[best] };
+};
@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { adminService } from '../services/adminService';
 import ThresholdManager from './admin/ThresholdManager';
+import ScoringProfileManager from './admin/ScoringProfileManager';
 import UserManagement from './admin/UserManagement';
+import ReportQueue from './admin/ReportQueue';
 import Analytics from './admin/Analytics';
 import SystemHealth from './admin/SystemHealth';
 
@@ -14,9 +16,9 @@ interface AdminDashboardProps {
 }
 
 const AdminDashboard: React.FC<AdminDashboardProps> = ({ adminUser }) => {
-  const [activeTab, setActiveTab] = useState<'thresholds' | 'users' | 'analytics' | 'system'>(
-    'thresholds'
-  );
+  const [activeTab, setActiveTab] = useState<
+    'thresholds' | 'scoring' | 'users' | 'reports' | 'analytics' | 'system'
+  >('thresholds');
   const [stats, setStats] = useState({
     totalUsers: 0,
     activeUsers: 0,
@@ -45,7 +47,9 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ adminUser }) => {
 
   const tabs = [
     { id: 'thresholds', label: 'Fitness Thresholds', icon: '🎯' },
+    { id: 'scoring', label: 'Compatibility Scoring', icon: '⚖️' },
     { id: 'users', label: 'User Management', icon: '👥' },
+    { id: 'reports', label: 'Reports', icon: '🚩' },
     { id: 'analytics', label: 'Analytics', icon: '📊' },
     { id: 'system', label: 'System Health', icon: '🔧' },
   ];
@@ -111,7 +115,15 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ adminUser }) => {
               <button
                 key={tab.id}
                 onClick={() =>
-                  setActiveTab(tab.id as 'thresholds' | 'users' | 'analytics' | 'system')
+                  setActiveTab(
+                    tab.id as
+                      | 'thresholds'
+                      | 'scoring'
+                      | 'users'
+                      | 'reports'
+                      | 'analytics'
+                      | 'system'
+                  )
                 }
                 className={`py-2 px-1 border-b-2 font-medium text-sm ${
                   activeTab === tab.id
@@ -129,7 +141,9 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ adminUser }) => {
         {/* Tab Content */}
         <div className="py-6">
           {activeTab === 'thresholds' && <ThresholdManager />}
+          {activeTab === 'scoring' && <ScoringProfileManager />}
           {activeTab === 'users' && <UserManagement />}
+          {activeTab === 'reports' && <ReportQueue />}
           {activeTab === 'analytics' && <Analytics />}
           {activeTab === 'system' && <SystemHealth />}
         </div>
@@ -1,10 +1,39 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
-import { Message, Conversation } from '../types/api';
+import { Message, Conversation, MatchScoreTrend, UnmatchReason } from '../types/api';
+import { matchingService } from '../services/matchingService';
 import MessageInput from './MessageInput';
 import MessageList from './MessageList';
 import ConversationList from './ConversationList';
 
+const reportCategories = [
+  { value: 'harassment', label: 'Harassment' },
+  { value: 'inappropriate_content', label: 'Inappropriate content' },
+  { value: 'spam', label: 'Spam' },
+  { value: 'fake_profile', label: 'Fake profile' },
+  { value: 'underage', label: 'Underage' },
+  { value: 'safety_concern', label: 'Safety concern' },
+  { value: 'other', label: 'Other' },
+];
+
+const unmatchReasons: { value: UnmatchReason; label: string }[] = [
+  { value: 'no_chemistry', label: 'No chemistry' },
+  { value: 'not_responsive', label: 'Not responsive' },
+  { value: 'met_someone', label: 'Met someone' },
+  { value: 'no_longer_looking', label: 'No longer looking' },
+  { value: 'other', label: 'Other' },
+];
+
+// Messages the backend accepts as evidence on a single report
+const MAX_REPORT_MESSAGES = 20;
+
+const describeScoreTrend = (change: number | null): string | null => {
+  if (change === null || change === 0) return null;
+  return change > 0
+    ? `You've trained more alike over the last month (+${change})`
+    : `Your training has drifted apart over the last month (${change})`;
+};
+
 interface ChatInterfaceProps {
   userId: string;
 }
@@ -17,6 +46,15 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userId }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [isTyping, setIsTyping] = useState<{ [key: string]: boolean }>({});
   const [unreadCounts, setUnreadCounts] = useState<{ [key: string]: number }>({});
+  const [expiringMatches, setExpiringMatches] = useState<{ [key: string]: string }>({});
+  const [isUnmatching, setIsUnmatching] = useState(false);
+  const [unmatchReason, setUnmatchReason] = useState<UnmatchReason | ''>('');
+  const [isReporting, setIsReporting] = useState(false);
+  const [reportCategory, setReportCategory] = useState('harassment');
+  const [reportDescription, setReportDescription] = useState('');
+  const [blockOnReport, setBlockOnReport] = useState(true);
+  const [scoreTrend, setScoreTrend] = useState<MatchScoreTrend | null>(null);
+  const [showScoreHistory, setShowScoreHistory] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<{ [key: string]: NodeJS.Timeout }>({});
 
@@ -38,6 +76,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userId }) => {
     });
 
     newSocket.on('message-sent', (message: Message) => {
+      clearExpiryWarning(message.matchId);
       setMessages(prev => [...prev, message]);
       scrollToBottom();
     });
@@ -67,6 +106,18 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userId }) => {
       );
     });
 
+    // Nobody has said anything yet and the match expires in a day
+    newSocket.on('match-expiring', (data: { matchId: string; expiresAt: string }) => {
+      setExpiringMatches(prev => ({ ...prev, [data.matchId]: data.expiresAt }));
+    });
+
+    // The other user unmatched or the match expired: the conversation is gone for both sides
+    newSocket.on('match-removed', (data: { matchId: string }) => {
+      setConversations(prev => prev.filter(c => c.matchId !== data.matchId));
+      setSelectedConversation(prev => (prev?.matchId === data.matchId ? null : prev));
+      setMessages(prev => prev.filter(msg => msg.matchId !== data.matchId));
+    });
+
     setSocket(newSocket);
 
     return () => {
@@ -87,6 +138,14 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userId }) => {
     }
   }, [selectedConversation, socket]);
 
+  useEffect(() => {
+    setScoreTrend(null);
+    setShowScoreHistory(false);
+    if (selectedConversation) {
+      loadScoreTrend(selectedConversation.matchId);
+    }
+  }, [selectedConversation]);
+
   const loadConversations = async () => {
     try {
       const response = await fetch('/api/messages/conversations', {
@@ -99,10 +158,16 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userId }) => {
         setConversations(data.data);
         // Set unread counts
         const counts: { [key: string]: number } = {};
+        const expiring: { [key: string]: string } = {};
         data.data.forEach((conv: Conversation) => {
           counts[conv.matchId] = conv.unreadCount;
+          if (conv.expiresAt) {
+            expiring[conv.matchId] = conv.expiresAt;
+          }
         });
         setUnreadCounts(counts);
+        // Reminders sent while the user was offline
+        setExpiringMatches(prev => ({ ...prev, ...expiring }));
       }
     } catch (error) {
       console.error('Failed to load conversations:', error);
@@ -130,6 +195,15 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userId }) => {
     }
   };
 
+  const loadScoreTrend = async (matchId: string) => {
+    try {
+      const trend = await matchingService.getMatchScoreHistory(matchId);
+      setScoreTrend(trend);
+    } catch (error) {
+      console.error('Failed to load match score history:', error);
+    }
+  };
+
   const sendMessage = async (content: string) => {
     if (!selectedConversation || !content.trim()) return;
 
@@ -156,7 +230,17 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userId }) => {
     }
   };
 
+  const clearExpiryWarning = (matchId: string) => {
+    setExpiringMatches(prev => {
+      if (!(matchId in prev)) return prev;
+      const rest = { ...prev };
+      delete rest[matchId];
+      return rest;
+    });
+  };
+
   const handleNewMessage = (message: Message) => {
+    clearExpiryWarning(message.matchId);
     // Update conversation list
     setConversations(prev => {
       const updated = [...prev];
@@ -257,6 +341,92 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userId }) => {
     }
   };
 
+  const removeConversation = (matchId: string) => {
+    setConversations(prev => prev.filter(c => c.matchId !== matchId));
+    setSelectedConversation(null);
+    setMessages([]);
+  };
+
+  const unmatch = async () => {
+    if (!selectedConversation) return;
+
+    try {
+      await matchingService.unmatch(selectedConversation.matchId, unmatchReason || undefined);
+      setIsUnmatching(false);
+      setUnmatchReason('');
+      removeConversation(selectedConversation.matchId);
+    } catch (error) {
+      console.error('Failed to unmatch:', error);
+    }
+  };
+
+  const blockUser = async () => {
+    const otherUser = selectedConversation?.otherUser;
+    if (!selectedConversation || !otherUser) return;
+    if (
+      !window.confirm(
+        `Block ${otherUser.firstName}? You won't see each other or be able to message again.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/safety/blocks', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${localStorage.getItem('authToken')}`,
+        },
+        body: JSON.stringify({ userId: otherUser.id }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        removeConversation(selectedConversation.matchId);
+      } else {
+        console.error('Failed to block user:', data.error);
+      }
+    } catch (error) {
+      console.error('Failed to block user:', error);
+    }
+  };
+
+  const submitReport = async () => {
+    const otherUser = selectedConversation?.otherUser;
+    if (!selectedConversation || !otherUser) return;
+
+    try {
+      const response = await fetch('/api/safety/reports', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${localStorage.getItem('authToken')}`,
+        },
+        body: JSON.stringify({
+          reportedUserId: otherUser.id,
+          category: reportCategory,
+          description: reportDescription,
+          // Attach the most recent messages so moderators see the conversation
+          messageIds: messages.slice(-MAX_REPORT_MESSAGES).map(msg => msg.id),
+          block: blockOnReport,
+        }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setIsReporting(false);
+        setReportDescription('');
+        window.alert(data.message);
+        if (blockOnReport) {
+          removeConversation(selectedConversation.matchId);
+        }
+      } else {
+        console.error('Failed to report user:', data.error);
+      }
+    } catch (error) {
+      console.error('Failed to report user:', error);
+    }
+  };
+
   return (
     <div className="flex h-screen bg-gray-100">
       {/* Conversation List */}
@@ -283,7 +453,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userId }) => {
                 alt={selectedConversation.otherUser?.firstName || 'User'}
                 className="w-10 h-10 rounded-full mr-3"
               />
-              <div>
+              <div className="flex-1">
                 <h3 className="font-semibold">
                   {selectedConversation.otherUser?.firstName}{' '}
                   {selectedConversation.otherUser?.lastName}
@@ -291,9 +461,191 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userId }) => {
                 {selectedConversation.otherUser && isTyping[selectedConversation.otherUser.id] && (
                   <p className="text-sm text-gray-500">Typing...</p>
                 )}
+                {scoreTrend?.matchId === selectedConversation.matchId &&
+                  describeScoreTrend(scoreTrend.recentChange) && (
+                    <p
+                      className={`text-sm ${
+                        (scoreTrend.recentChange || 0) > 0 ? 'text-green-600' : 'text-gray-500'
+                      }`}
+                    >
+                      {describeScoreTrend(scoreTrend.recentChange)}
+                    </p>
+                  )}
+              </div>
+              <div className="flex space-x-3 text-sm">
+                {scoreTrend?.matchId === selectedConversation.matchId && (
+                  <button
+                    onClick={() => setShowScoreHistory(prev => !prev)}
+                    className="text-gray-500 hover:text-gray-700"
+                  >
+                    {scoreTrend.currentScore}% Match
+                  </button>
+                )}
+                <button
+                  onClick={() => {
+                    setIsUnmatching(prev => !prev);
+                    setIsReporting(false);
+                  }}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  Unmatch
+                </button>
+                <button
+                  onClick={() => {
+                    setIsReporting(prev => !prev);
+                    setIsUnmatching(false);
+                  }}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  Report
+                </button>
+                <button onClick={blockUser} className="text-red-600 hover:text-red-700">
+                  Block
+                </button>
               </div>
             </div>
 
+            {/* Expiry Warning */}
+            {expiringMatches[selectedConversation.matchId] && (
+              <div className="bg-yellow-50 border-b border-yellow-200 p-3 text-sm text-yellow-800">
+                Last chance! This match expires{' '}
+                {new Date(expiringMatches[selectedConversation.matchId]).toLocaleString()} unless
+                one of you says hello.
+              </div>
+            )}
+
+            {/* Score History */}
+            {showScoreHistory && scoreTrend && (
+              <div className="bg-white p-4 border-b">
+                <h4 className="text-sm font-semibold mb-2">Compatibility over time</h4>
+                {scoreTrend.history.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    No changes yet. Scores update as you both sync new activities.
+                  </p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="py-1 font-medium">Date</th>
+                        <th className="py-1 font-medium">Score</th>
+                        <th className="py-1 font-medium">Change</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {scoreTrend.history.map((entry, index) => {
+                        const previous = scoreTrend.history[index + 1];
+                        const change = previous
+                          ? entry.compatibilityScore - previous.compatibilityScore
+                          : null;
+                        return (
+                          <tr key={entry.id} className="border-t">
+                            <td className="py-1">
+                              {new Date(entry.recordedAt).toLocaleDateString()}
+                            </td>
+                            <td className="py-1">{entry.compatibilityScore}%</td>
+                            <td
+                              className={`py-1 ${
+                                change === null || change === 0
+                                  ? 'text-gray-400'
+                                  : change > 0
+                                    ? 'text-green-600'
+                                    : 'text-red-600'
+                              }`}
+                            >
+                              {change === null ? '–' : change > 0 ? `+${change}` : change}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+
+            {/* Unmatch Form */}
+            {isUnmatching && (
+              <div className="bg-white p-4 border-b space-y-2">
+                <p className="text-sm text-gray-700">
+                  Unmatch with {selectedConversation.otherUser?.firstName}? Your conversation will
+                  be deleted for both of you.
+                </p>
+                <select
+                  value={unmatchReason}
+                  onChange={e => setUnmatchReason(e.target.value as UnmatchReason | '')}
+                  className="w-full p-2 border rounded text-sm"
+                >
+                  <option value="">Prefer not to say</option>
+                  {unmatchReasons.map(reason => (
+                    <option key={reason.value} value={reason.value}>
+                      {reason.label}
+                    </option>
+                  ))}
+                </select>
+                <div className="flex justify-end space-x-2">
+                  <button
+                    onClick={() => setIsUnmatching(false)}
+                    className="px-3 py-1 rounded text-sm bg-gray-200 hover:bg-gray-300"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={unmatch}
+                    className="px-3 py-1 rounded text-sm bg-red-500 text-white hover:bg-red-600"
+                  >
+                    Unmatch
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Report Form */}
+            {isReporting && (
+              <div className="bg-white p-4 border-b space-y-2">
+                <select
+                  value={reportCategory}
+                  onChange={e => setReportCategory(e.target.value)}
+                  className="w-full p-2 border rounded text-sm"
+                >
+                  {reportCategories.map(category => (
+                    <option key={category.value} value={category.value}>
+                      {category.label}
+                    </option>
+                  ))}
+                </select>
+                <textarea
+                  value={reportDescription}
+                  onChange={e => setReportDescription(e.target.value)}
+                  placeholder="Tell us what happened (optional)"
+                  maxLength={2000}
+                  className="w-full p-2 border rounded text-sm"
+                />
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={blockOnReport}
+                    onChange={e => setBlockOnReport(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Also block {selectedConversation.otherUser?.firstName}
+                </label>
+                <div className="flex justify-end space-x-2">
+                  <button
+                    onClick={() => setIsReporting(false)}
+                    className="px-3 py-1 rounded text-sm bg-gray-200 hover:bg-gray-300"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={submitReport}
+                    className="px-3 py-1 rounded text-sm bg-red-500 text-white hover:bg-red-600"
+                  >
+                    Submit Report
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Messages */}
             <div className="flex-1 overflow-y-auto p-4">
               {isLoading ? (
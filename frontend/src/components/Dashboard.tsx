@@ -1,12 +1,31 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { api } from '../services/api';
-import { FitnessStats, User } from '../types/api';
+import { EligibilityNotice, FitnessStats, User } from '../types/api';
+
+const describeEligibilityNotice = (notice: EligibilityNotice, graceEndsAt?: string | null) => {
+  switch (notice) {
+    case 'eligibility-at-risk':
+      return 'You only just meet the fitness requirements. Keep training to stay visible.';
+    case 'eligibility-grace-period':
+      return graceEndsAt
+        ? `You no longer meet the fitness requirements. You stay visible until ${new Date(
+            graceEndsAt
+          ).toLocaleDateString()}.`
+        : 'You no longer meet the fitness requirements.';
+    case 'eligibility-lost':
+      return 'You no longer meet the fitness requirements and are hidden from other users.';
+    case 'eligibility-restored':
+      return 'You meet the fitness requirements again and are visible to other users.';
+  }
+};
 
 const Dashboard: React.FC = () => {
   const navigate = useNavigate();
   const [user, setUser] = useState<User | null>(null);
   const [fitnessStats, setFitnessStats] = useState<FitnessStats | null>(null);
+  // Fetched on every load, since the user may have been offline when it was sent
+  const [profile, setProfile] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -28,6 +47,9 @@ const Dashboard: React.FC = () => {
       // Fetch fitness stats
       const statsResponse = await api.get('/users/fitness-stats');
       setFitnessStats(statsResponse.data.data);
+
+      const profileResponse = await api.get('/auth/profile');
+      setProfile(profileResponse.data.data?.user ?? null);
     } catch (error) {
       console.error('Failed to load dashboard data:', error);
     } finally {
@@ -35,6 +57,15 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  const dismissEligibilityNotice = async () => {
+    try {
+      await api.delete('/fitness/eligibility/notice');
+      setProfile(current => current && { ...current, eligibilityNotice: null });
+    } catch (error) {
+      console.error('Failed to dismiss eligibility notice:', error);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -88,6 +119,19 @@ const Dashboard: React.FC = () => {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Eligibility Notice */}
+        {profile?.eligibilityNotice && (
+          <div className="mb-8 bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex justify-between items-center gap-4 text-sm text-yellow-800">
+            <p>{describeEligibilityNotice(profile.eligibilityNotice, profile.graceEndsAt)}</p>
+            <button
+              onClick={dismissEligibilityNotice}
+              className="text-yellow-900 font-semibold hover:underline"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
         {/* Quick Stats */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
           <div className="bg-white rounded-lg shadow p-6">
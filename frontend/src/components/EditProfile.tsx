@@ -14,6 +14,7 @@ const EditProfile: React.FC = () => {
     city: '',
     state: '',
     gender: '',
+    discoveryMode: 'dating',
   });
   const [photos, setPhotos] = useState<string[]>([]);
   const [uploadingPhoto, setUploadingPhoto] = useState(false);
@@ -31,6 +32,7 @@ const EditProfile: React.FC = () => {
             city: user.city || '',
             state: user.state || '',
             gender: user.gender || '',
+            discoveryMode: user.discoveryMode || 'dating',
           });
           setPhotos(user.photos || []);
         }
@@ -103,6 +105,7 @@ const EditProfile: React.FC = () => {
         city: formData.city,
         state: formData.state,
         gender: formData.gender,
+        discoveryMode: formData.discoveryMode,
       });
 
       if (response.data.success) {
@@ -202,11 +205,29 @@ const EditProfile: React.FC = () => {
                   <option value="">Select gender</option>
                   <option value="female">Female</option>
                   <option value="male">Male</option>
+                  <option value="non-binary">Non-binary</option>
                   <option value="other">Other</option>
                 </select>
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Looking for</label>
+              <select
+                name="discoveryMode"
+                value={formData.discoveryMode}
+                onChange={handleChange}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="dating">Dating</option>
+                <option value="partner">Training partners</option>
+                <option value="both">Dating and training partners</option>
+              </select>
+              <p className="mt-1 text-sm text-gray-500">
+                Training partners are matched separately from dates
+              </p>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Bio</label>
               <textarea
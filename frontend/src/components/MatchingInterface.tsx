@@ -1,26 +1,56 @@
 import React, { useState, useEffect } from 'react';
+import axios from 'axios';
 import { motion, AnimatePresence } from 'framer-motion';
-import { PotentialMatch } from '../types/api';
+import { MatchMode, PotentialMatch, SwipeDecision } from '../types/api';
 import UserCard from './UserCard';
 import { matchingService } from '../services/matchingService';
 
+const MODE_COPY: Record<
+  MatchMode,
+  { tab: string; matchTitle: string; matchText: string; emptyTitle: string; emptyText: string }
+> = {
+  dating: {
+    tab: 'Dating',
+    matchTitle: "It's a match!",
+    matchText: 'liked each other',
+    emptyTitle: 'No more matches!',
+    emptyText: 'Check back later for new potential matches',
+  },
+  partner: {
+    tab: 'Training partners',
+    matchTitle: 'Training partner found!',
+    matchText: 'both want to train together',
+    emptyTitle: 'No more training partners!',
+    emptyText: 'Check back later for new athletes to train with',
+  },
+};
+
 const MatchingInterface: React.FC = () => {
   const [potentialMatches, setPotentialMatches] = useState<PotentialMatch[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [mode, setMode] = useState<MatchMode>('dating');
+  const [modes, setModes] = useState<MatchMode[]>(['dating']);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [swipeDirection, setSwipeDirection] = useState<'left' | 'right' | null>(null);
+  const [newMatch, setNewMatch] = useState<PotentialMatch | null>(null);
 
   useEffect(() => {
     loadPotentialMatches();
   }, []);
 
-  const loadPotentialMatches = async () => {
+  // Without a mode the server picks the user's default deck
+  const loadPotentialMatches = async (requestedMode?: MatchMode) => {
     try {
       setIsLoading(true);
       setError(null);
-      const matches = await matchingService.getPotentialMatches();
-      setPotentialMatches(matches);
+      const page = await matchingService.getPotentialMatches(20, undefined, requestedMode);
+      setPotentialMatches(page.data);
+      setNextCursor(page.nextCursor);
+      setMode(page.mode);
+      setModes(page.modes);
+      setCurrentIndex(0);
     } catch (err) {
       setError('Failed to load potential matches');
       console.error(err);
@@ -29,18 +59,23 @@ const MatchingInterface: React.FC = () => {
     }
   };
 
-  const handleSwipe = async (direction: 'left' | 'right') => {
+  const handleSwipe = async (direction: 'left' | 'right', decision?: SwipeDecision) => {
     if (currentIndex >= potentialMatches.length) return;
 
     const currentMatch = potentialMatches[currentIndex];
     setSwipeDirection(direction);
 
-    if (direction === 'right') {
-      try {
-        await matchingService.createMatch(currentMatch.userId, currentMatch.compatibilityScore);
-      } catch (err) {
-        console.error('Failed to create match:', err);
+    try {
+      const result = await matchingService.swipe(
+        currentMatch.userId,
+        decision || (direction === 'right' ? 'like' : 'pass'),
+        mode
+      );
+      if (result.isMatch) {
+        setNewMatch(currentMatch);
       }
+    } catch (err) {
+      console.error('Failed to record swipe:', err);
     }
 
     setTimeout(() => {
@@ -55,14 +90,45 @@ const MatchingInterface: React.FC = () => {
   };
 
   const loadMoreMatches = async () => {
+    if (!nextCursor) return;
+
     try {
-      const newMatches = await matchingService.getPotentialMatches(20, potentialMatches.length);
-      setPotentialMatches(prev => [...prev, ...newMatches]);
+      // Pages can come back empty when everyone on them was swiped on or blocked meanwhile
+      let page = await matchingService.getPotentialMatches(20, nextCursor, mode);
+      while (page.data.length === 0 && page.nextCursor) {
+        page = await matchingService.getPotentialMatches(20, page.nextCursor, mode);
+      }
+      appendMatches(page.data);
+      setNextCursor(page.nextCursor);
     } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 410) {
+        // The ranked deck expired; start a fresh one behind the cards already loaded
+        try {
+          const page = await matchingService.getPotentialMatches(20, undefined, mode);
+          appendMatches(page.data);
+          setNextCursor(page.nextCursor);
+        } catch (restartErr) {
+          console.error('Failed to load more matches:', restartErr);
+        }
+        return;
+      }
       console.error('Failed to load more matches:', err);
     }
   };
 
+  const appendMatches = (matches: PotentialMatch[]) => {
+    setPotentialMatches(prev => {
+      const loaded = new Set(prev.map(match => match.userId));
+      return [...prev, ...matches.filter(match => !loaded.has(match.userId))];
+    });
+  };
+
+  const switchMode = (nextMode: MatchMode) => {
+    if (nextMode === mode) return;
+    setNewMatch(null);
+    loadPotentialMatches(nextMode);
+  };
+
   const handleDragEnd = (
     _event: MouseEvent | TouchEvent | PointerEvent,
     info: { offset: { x: number; y: number } }
@@ -75,6 +141,26 @@ const MatchingInterface: React.FC = () => {
     }
   };
 
+  const copy = MODE_COPY[mode];
+
+  const modeSwitcher =
+    modes.length > 1 ? (
+      <div className="absolute top-4 left-4 z-20 flex rounded-lg bg-white shadow-sm overflow-hidden">
+        {modes.map(option => (
+          <button
+            key={option}
+            onClick={() => switchMode(option)}
+            className={`px-3 py-2 text-sm font-medium ${
+              option === mode ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-100'
+            }`}
+            aria-pressed={option === mode}
+          >
+            {MODE_COPY[option].tab}
+          </button>
+        ))}
+      </div>
+    ) : null;
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-screen">
@@ -88,7 +174,7 @@ const MatchingInterface: React.FC = () => {
       <div className="flex flex-col items-center justify-center h-screen">
         <p className="text-red-600 mb-4">{error}</p>
         <button
-          onClick={loadPotentialMatches}
+          onClick={() => loadPotentialMatches(mode)}
           className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
         >
           Retry
@@ -99,14 +185,12 @@ const MatchingInterface: React.FC = () => {
 
   if (currentIndex >= potentialMatches.length) {
     return (
-      <div className="flex flex-col items-center justify-center h-screen">
-        <h2 className="text-2xl font-bold mb-4">No more matches!</h2>
-        <p className="text-gray-600 mb-6">Check back later for new potential matches</p>
+      <div className="relative flex flex-col items-center justify-center h-screen">
+        {modeSwitcher}
+        <h2 className="text-2xl font-bold mb-4">{copy.emptyTitle}</h2>
+        <p className="text-gray-600 mb-6">{copy.emptyText}</p>
         <button
-          onClick={() => {
-            setCurrentIndex(0);
-            loadPotentialMatches();
-          }}
+          onClick={() => loadPotentialMatches(mode)}
           className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
         >
           Refresh Matches
@@ -119,6 +203,24 @@ const MatchingInterface: React.FC = () => {
 
   return (
     <div className="relative h-screen bg-gray-100 overflow-hidden">
+      {modeSwitcher}
+
+      {/* It's a Match Banner */}
+      {newMatch && (
+        <div className="absolute inset-0 z-30 flex flex-col items-center justify-center bg-black/70 text-white">
+          <h2 className="text-4xl font-bold mb-2">{copy.matchTitle}</h2>
+          <p className="mb-6">
+            You and {newMatch.user.firstName} {copy.matchText}
+          </p>
+          <button
+            onClick={() => setNewMatch(null)}
+            className="bg-white text-blue-600 px-4 py-2 rounded-lg hover:bg-gray-100"
+          >
+            Keep Swiping
+          </button>
+        </div>
+      )}
+
       <div className="absolute inset-0 flex items-center justify-center p-4">
         <AnimatePresence mode="wait">
           {currentMatch && (
@@ -168,6 +270,16 @@ const MatchingInterface: React.FC = () => {
             </svg>
           </button>
 
+          <button
+            onClick={() => handleSwipe('right', 'super_like')}
+            className="w-16 h-16 bg-white rounded-full shadow-lg flex items-center justify-center hover:scale-110 transition-transform"
+            aria-label="Super like"
+          >
+            <svg className="w-8 h-8 text-blue-500" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M12 17.27L18.18 21l-1.64-7.03L22 9.24l-7.19-.61L12 2 9.19 8.63 2 9.24l5.46 4.73L5.82 21z" />
+            </svg>
+          </button>
+
           <button
             onClick={() => handleSwipe('right')}
             className="w-16 h-16 bg-white rounded-full shadow-lg flex items-center justify-center hover:scale-110 transition-transform"
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { MatchingPreferences } from '../types/api';
+import { FitnessRangePreferences, Gender, MatchingPreferences } from '../types/api';
 import { matchingService } from '../services/matchingService';
 
 const PreferencesSettings: React.FC = () => {
@@ -10,7 +10,17 @@ const PreferencesSettings: React.FC = () => {
     maxAge: 100,
     maxDistance: 50,
     preferredActivities: [],
+    dealbreakerActivities: [],
     minCompatibilityScore: 50,
+    interestedIn: [],
+    partnerAnyGender: true,
+    partnerAnyAge: false,
+    minWeeklyDistance: null,
+    maxWeeklyDistance: null,
+    minWeeklyActivities: null,
+    maxWeeklyActivities: null,
+    minPace: null,
+    maxPace: null,
   });
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -36,6 +46,59 @@ const PreferencesSettings: React.FC = () => {
     'Snowboard',
   ];
 
+  const genderOptions: Array<{ value: Gender; label: string }> = [
+    { value: 'female', label: 'Women' },
+    { value: 'male', label: 'Men' },
+    { value: 'non-binary', label: 'Non-binary people' },
+    { value: 'other', label: 'Other genders' },
+  ];
+
+  // "4:30 /km" from seconds per km
+  const formatPace = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')} /km`;
+
+  const fitnessRanges: Array<{
+    label: string;
+    min: keyof FitnessRangePreferences;
+    max: keyof FitnessRangePreferences;
+    lowest: number;
+    highest: number;
+    step: number;
+    defaults: [number, number];
+    format: (value: number) => string;
+  }> = [
+    {
+      label: 'Weekly Distance',
+      min: 'minWeeklyDistance',
+      max: 'maxWeeklyDistance',
+      lowest: 0,
+      highest: 200000,
+      step: 5000,
+      defaults: [20000, 80000],
+      format: value => `${value / 1000} km`,
+    },
+    {
+      label: 'Activities per Week',
+      min: 'minWeeklyActivities',
+      max: 'maxWeeklyActivities',
+      lowest: 0,
+      highest: 21,
+      step: 1,
+      defaults: [2, 7],
+      format: value => `${value}`,
+    },
+    {
+      label: 'Average Pace',
+      min: 'minPace',
+      max: 'maxPace',
+      lowest: 180,
+      highest: 600,
+      step: 5,
+      defaults: [270, 360],
+      format: formatPace,
+    },
+  ];
+
   useEffect(() => {
     loadPreferences();
   }, []);
@@ -44,7 +107,7 @@ const PreferencesSettings: React.FC = () => {
     try {
       setIsLoading(true);
       const data = await matchingService.getPreferences();
-      setPreferences(data);
+      setPreferences({ ...data, dealbreakerActivities: data.dealbreakerActivities || [] });
     } catch (error) {
       console.error('Failed to load preferences:', error);
     } finally {
@@ -79,6 +142,33 @@ const PreferencesSettings: React.FC = () => {
       preferredActivities: prev.preferredActivities.includes(activity)
         ? prev.preferredActivities.filter(a => a !== activity)
         : [...prev.preferredActivities, activity],
+      // An activity that is no longer preferred can't be a dealbreaker either
+      dealbreakerActivities: prev.dealbreakerActivities.filter(a => a !== activity),
+    }));
+  };
+
+  const toggleDealbreaker = (activity: string) => {
+    setPreferences(prev => ({
+      ...prev,
+      dealbreakerActivities: prev.dealbreakerActivities.includes(activity)
+        ? prev.dealbreakerActivities.filter(a => a !== activity)
+        : [...prev.dealbreakerActivities, activity],
+    }));
+  };
+
+  const setFitnessRange = (
+    range: (typeof fitnessRanges)[number],
+    bounds: [number | null, number | null]
+  ) => {
+    setPreferences(prev => ({ ...prev, [range.min]: bounds[0], [range.max]: bounds[1] }));
+  };
+
+  const toggleGender = (gender: Gender) => {
+    setPreferences(prev => ({
+      ...prev,
+      interestedIn: prev.interestedIn.includes(gender)
+        ? prev.interestedIn.filter(g => g !== gender)
+        : [...prev.interestedIn, gender],
     }));
   };
 
@@ -108,6 +198,39 @@ const PreferencesSettings: React.FC = () => {
       )}
 
       <div className="bg-white rounded-lg shadow-md p-6 space-y-6">
+        {/* Show Me */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Show Me</label>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+            <button
+              onClick={() => setPreferences(prev => ({ ...prev, interestedIn: [] }))}
+              className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                preferences.interestedIn.length === 0
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Everyone
+            </button>
+            {genderOptions.map(option => (
+              <button
+                key={option.value}
+                onClick={() => toggleGender(option.value)}
+                className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  preferences.interestedIn.includes(option.value)
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            You will only see people who are also interested in meeting someone like you
+          </p>
+        </div>
+
         {/* Age Range */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">Age Range</label>
@@ -150,6 +273,37 @@ const PreferencesSettings: React.FC = () => {
           </div>
         </div>
 
+        {/* Training Partners */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Training Partners</label>
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={preferences.partnerAnyGender}
+                onChange={e =>
+                  setPreferences(prev => ({ ...prev, partnerAnyGender: e.target.checked }))
+                }
+              />
+              Train with people of any gender
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={preferences.partnerAnyAge}
+                onChange={e =>
+                  setPreferences(prev => ({ ...prev, partnerAnyAge: e.target.checked }))
+                }
+              />
+              Train with people of any age
+            </label>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Only applies when looking for training partners; dating always uses Show Me and Age
+            Range
+          </p>
+        </div>
+
         {/* Maximum Distance */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -198,6 +352,83 @@ const PreferencesSettings: React.FC = () => {
           </div>
         </div>
 
+        {/* Fitness Ranges */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Fitness Ranges</label>
+          <div className="space-y-4">
+            {fitnessRanges.map(range => {
+              const lower = preferences[range.min];
+              const upper = preferences[range.max];
+              const isSet = lower !== null || upper !== null;
+              return (
+                <div key={range.min}>
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={isSet}
+                        onChange={() =>
+                          setFitnessRange(range, isSet ? [null, null] : range.defaults)
+                        }
+                      />
+                      {range.label}
+                    </label>
+                    <span className="text-sm text-gray-600">
+                      {isSet
+                        ? `${lower !== null ? range.format(lower) : 'Any'} - ${
+                            upper !== null ? range.format(upper) : 'Any'
+                          }`
+                        : 'Any'}
+                    </span>
+                  </div>
+                  {isSet && (
+                    <div className="mt-2 grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="text-xs text-gray-500">From</label>
+                        <input
+                          type="range"
+                          min={range.lowest}
+                          max={range.highest}
+                          step={range.step}
+                          value={lower ?? range.lowest}
+                          onChange={e =>
+                            setFitnessRange(range, [
+                              Math.min(parseInt(e.target.value), upper ?? range.highest),
+                              upper,
+                            ])
+                          }
+                          className="w-full"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs text-gray-500">To</label>
+                        <input
+                          type="range"
+                          min={range.lowest}
+                          max={range.highest}
+                          step={range.step}
+                          value={upper ?? range.highest}
+                          onChange={e =>
+                            setFitnessRange(range, [
+                              lower,
+                              Math.max(parseInt(e.target.value), lower ?? range.lowest),
+                            ])
+                          }
+                          className="w-full"
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Only show people whose recent training falls within these ranges. Faster paces are on
+            the left.
+          </p>
+        </div>
+
         {/* Preferred Activities */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -221,6 +452,41 @@ const PreferencesSettings: React.FC = () => {
           <p className="text-xs text-gray-500 mt-2">
             Select activities you'd like to do with potential matches
           </p>
+
+          {preferences.preferredActivities.length > 0 && (
+            <div className="mt-4 space-y-2">
+              {preferences.preferredActivities.map(activity => {
+                const isDealbreaker = preferences.dealbreakerActivities.includes(activity);
+                return (
+                  <div key={activity} className="flex items-center justify-between">
+                    <span className="text-sm text-gray-700">{activity}</span>
+                    <div className="flex rounded-lg overflow-hidden border border-gray-300 text-xs">
+                      <button
+                        onClick={() => isDealbreaker && toggleDealbreaker(activity)}
+                        className={`px-3 py-1 ${
+                          !isDealbreaker ? 'bg-blue-600 text-white' : 'bg-white text-gray-700'
+                        }`}
+                      >
+                        Nice to have
+                      </button>
+                      <button
+                        onClick={() => !isDealbreaker && toggleDealbreaker(activity)}
+                        className={`px-3 py-1 ${
+                          isDealbreaker ? 'bg-red-600 text-white' : 'bg-white text-gray-700'
+                        }`}
+                      >
+                        Must do
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+              <p className="text-xs text-gray-500">
+                You will only see people who do every must-do activity. Nice-to-have activities move
+                people who do them up your list.
+              </p>
+            </div>
+          )}
         </div>
 
         {/* Save Button */}
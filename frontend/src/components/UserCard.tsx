@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { PotentialMatch } from '../types/api';
+import { formatCompatibilityReason } from '../utils/compatibilityReasons';
 
 interface UserCardProps {
   match: PotentialMatch;
@@ -8,7 +9,8 @@ interface UserCardProps {
 const UserCard: React.FC<UserCardProps> = ({ match }) => {
   const [currentPhotoIndex, setCurrentPhotoIndex] = useState(0);
 
-  const { user, compatibilityScore, compatibilityFactors, fitnessStats } = match;
+  const { user, compatibilityScore, compatibilityFactors, compatibilityReasons, fitnessStats } =
+    match;
 
   const nextPhoto = () => {
     if (user.photos.length > 1) {
@@ -145,6 +147,33 @@ const UserCard: React.FC<UserCardProps> = ({ match }) => {
           </div>
         )}
 
+        {/* Why You Match */}
+        {compatibilityReasons && compatibilityReasons.length > 0 && (
+          <div className="mb-4">
+            <h3 className="text-sm font-semibold mb-2 text-gray-700">Why You Match</h3>
+            <ul className="space-y-1">
+              {compatibilityReasons.slice(0, 3).map(reason => (
+                <li key={reason.code} className="flex items-center text-sm text-gray-700">
+                  <svg
+                    className="w-4 h-4 mr-2 text-green-500 flex-shrink-0"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M5 13l4 4L19 7"
+                    />
+                  </svg>
+                  {formatCompatibilityReason(reason)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Compatibility Factors */}
         <div className="border-t pt-4">
           <h3 className="text-sm font-semibold mb-2 text-gray-700">Compatibility Factors</h3>
@@ -179,6 +208,38 @@ const UserCard: React.FC<UserCardProps> = ({ match }) => {
                 </span>
               </div>
             </div>
+            <div className="flex justify-between items-center">
+              <span className="text-xs text-gray-600">Schedule</span>
+              <div className="flex items-center">
+                <div className="w-24 bg-gray-200 rounded-full h-2 mr-2">
+                  <div
+                    className="bg-purple-500 h-2 rounded-full"
+                    style={{
+                      width: `${compatibilityFactors.scheduleOverlap || 0}%`,
+                    }}
+                  />
+                </div>
+                <span className="text-xs font-medium">
+                  {compatibilityFactors.scheduleOverlap || 0}%
+                </span>
+              </div>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-xs text-gray-600">Training Areas</span>
+              <div className="flex items-center">
+                <div className="w-24 bg-gray-200 rounded-full h-2 mr-2">
+                  <div
+                    className="bg-orange-500 h-2 rounded-full"
+                    style={{
+                      width: `${compatibilityFactors.trainingAreaOverlap || 0}%`,
+                    }}
+                  />
+                </div>
+                <span className="text-xs font-medium">
+                  {compatibilityFactors.trainingAreaOverlap || 0}%
+                </span>
+              </div>
+            </div>
           </div>
         </div>
       </div>
@@ -1,6 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { adminService, AdminStats } from '../../services/adminService';
 
+const unmatchReasonLabels: Record<string, string> = {
+  no_chemistry: 'No chemistry',
+  not_responsive: 'Not responsive',
+  met_someone: 'Met someone',
+  no_longer_looking: 'No longer looking',
+  other: 'Other',
+  unspecified: 'No reason given',
+};
+
 const Analytics: React.FC = () => {
   const [stats, setStats] = useState<AdminStats | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -46,6 +55,25 @@ const Analytics: React.FC = () => {
           <p className="text-sm text-gray-600 mt-2">Active: {stats.activeMatches}</p>
         </div>
 
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h3 className="text-lg font-semibold mb-2">Expired Matches</h3>
+          <p className="text-3xl font-bold text-gray-600">{stats.expiredMatches}</p>
+          <p className="text-sm text-gray-600 mt-2">
+            Expiring soon: {stats.expiringMatches} (never messaged)
+          </p>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h3 className="text-lg font-semibold mb-2">Deck Exposure</h3>
+          <p className="text-3xl font-bold text-teal-600">
+            {(stats.exposure.topDecileShare * 100).toFixed(1)}%
+          </p>
+          <p className="text-sm text-gray-600 mt-2">
+            Of impressions went to the top 10% of {stats.exposure.profilesShown} profiles shown
+            (last {stats.exposure.windowDays} days)
+          </p>
+        </div>
+
         <div className="bg-white p-6 rounded-lg shadow">
           <h3 className="text-lg font-semibold mb-2">Messages</h3>
           <p className="text-3xl font-bold text-purple-600">{stats.totalMessages}</p>
@@ -77,6 +105,32 @@ const Analytics: React.FC = () => {
         </div>
       </div>
 
+      <div className="mt-8 bg-white p-6 rounded-lg shadow">
+        <h3 className="text-lg font-semibold mb-4">Unmatch Reasons</h3>
+        {stats.unmatchedMatches > 0 ? (
+          <div className="space-y-2">
+            {Object.entries(stats.unmatchReasons)
+              .sort(([, a], [, b]) => b - a)
+              .map(([reason, count]) => (
+                <div key={reason} className="flex items-center">
+                  <span className="w-40 text-sm text-gray-600">
+                    {unmatchReasonLabels[reason] || reason}
+                  </span>
+                  <div className="flex-1 bg-gray-200 rounded-full h-2 mr-3">
+                    <div
+                      className="bg-pink-500 h-2 rounded-full"
+                      style={{ width: `${(count / stats.unmatchedMatches) * 100}%` }}
+                    />
+                  </div>
+                  <span className="text-sm text-gray-600">{count}</span>
+                </div>
+              ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600">No unmatches yet</p>
+        )}
+      </div>
+
       <div className="mt-8 bg-white p-6 rounded-lg shadow">
         <h3 className="text-lg font-semibold mb-4">Recent Activity</h3>
         <div className="space-y-2">
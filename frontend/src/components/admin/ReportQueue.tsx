@@ -0,0 +1,206 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { adminService, Report, ReportAction, ReportStatus } from '../../services/adminService';
+
+const categoryLabels: Record<string, string> = {
+  harassment: 'Harassment',
+  inappropriate_content: 'Inappropriate content',
+  spam: 'Spam',
+  fake_profile: 'Fake profile',
+  underage: 'Underage',
+  safety_concern: 'Safety concern',
+  other: 'Other',
+};
+
+const actionLabels: Record<ReportAction, string> = {
+  warning: 'Warn user',
+  remove_content: 'Remove messages',
+};
+
+const ReportQueue: React.FC = () => {
+  const [reports, setReports] = useState<Report[]>([]);
+  const [status, setStatus] = useState<ReportStatus>('pending');
+  const [isLoading, setIsLoading] = useState(true);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const loadReports = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await adminService.getReports(status, currentPage, 20);
+      setReports(response.data);
+      setTotalPages(Math.max(1, response.pagination.totalPages));
+    } catch (error) {
+      console.error('Failed to load reports:', error);
+      setReports([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, currentPage]);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  const handleReview = async (
+    reportId: string,
+    reviewStatus: 'dismissed' | 'actioned',
+    action?: ReportAction
+  ) => {
+    try {
+      setReviewingId(reportId);
+      await adminService.reviewReport(reportId, reviewStatus, action, notes[reportId]);
+      await loadReports();
+    } catch (error) {
+      console.error('Failed to review report:', error);
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const changeStatus = (newStatus: ReportStatus) => {
+    setStatus(newStatus);
+    setCurrentPage(1);
+  };
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold">Reports</h2>
+        <select
+          value={status}
+          onChange={e => changeStatus(e.target.value as ReportStatus)}
+          className="p-2 border rounded"
+        >
+          <option value="pending">Pending</option>
+          <option value="actioned">Actioned</option>
+          <option value="dismissed">Dismissed</option>
+        </select>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center p-8">Loading reports...</div>
+      ) : reports.length === 0 ? (
+        <div className="text-center p-8 text-gray-500">No {status} reports</div>
+      ) : (
+        <div className="space-y-4">
+          {reports.map(report => (
+            <div key={report.id} className="bg-white border rounded-lg p-4">
+              <div className="flex justify-between items-start mb-2">
+                <div>
+                  <span className="px-2 py-1 rounded text-xs bg-red-100 text-red-800 mr-2">
+                    {categoryLabels[report.category] || report.category}
+                  </span>
+                  <span className="text-sm text-gray-600">
+                    {new Date(report.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                {report.status !== 'pending' && (
+                  <span className="text-xs text-gray-500">
+                    {report.action ? actionLabels[report.action] : 'Dismissed'} by{' '}
+                    {report.reviewedBy}
+                  </span>
+                )}
+              </div>
+
+              <div className="text-sm mb-2">
+                <strong>
+                  {report.reporter.firstName} {report.reporter.lastName}
+                </strong>{' '}
+                ({report.reporter.email}) reported{' '}
+                <strong>
+                  {report.reported.firstName} {report.reported.lastName}
+                </strong>{' '}
+                ({report.reported.email})
+              </div>
+
+              {report.description && (
+                <p className="text-sm text-gray-700 mb-2">{report.description}</p>
+              )}
+
+              {report.evidence.length > 0 && (
+                <div className="bg-gray-50 rounded p-2 mb-2 space-y-1">
+                  {report.evidence.map(item => (
+                    <div key={item.messageId} className="text-sm">
+                      <span className="font-medium">
+                        {item.senderId === report.reported.id
+                          ? report.reported.firstName
+                          : report.reporter.firstName}
+                        :
+                      </span>{' '}
+                      {item.content}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {report.resolutionNotes && (
+                <p className="text-sm text-gray-500 italic mb-2">{report.resolutionNotes}</p>
+              )}
+
+              {report.status === 'pending' && (
+                <div className="mt-3 space-y-2">
+                  <input
+                    type="text"
+                    placeholder="Notes (optional)"
+                    className="w-full p-2 border rounded text-sm"
+                    value={notes[report.id] || ''}
+                    onChange={e => setNotes(prev => ({ ...prev, [report.id]: e.target.value }))}
+                  />
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleReview(report.id, 'dismissed')}
+                      disabled={reviewingId === report.id}
+                      className="px-3 py-1 rounded text-sm bg-gray-200 hover:bg-gray-300 disabled:opacity-50"
+                    >
+                      Dismiss
+                    </button>
+                    <button
+                      onClick={() => handleReview(report.id, 'actioned', 'warning')}
+                      disabled={reviewingId === report.id}
+                      className="px-3 py-1 rounded text-sm bg-yellow-500 text-white hover:bg-yellow-600 disabled:opacity-50"
+                    >
+                      {actionLabels.warning}
+                    </button>
+                    {report.evidence.some(item => item.senderId === report.reported.id) && (
+                      <button
+                        onClick={() => handleReview(report.id, 'actioned', 'remove_content')}
+                        disabled={reviewingId === report.id}
+                        className="px-3 py-1 rounded text-sm bg-red-500 text-white hover:bg-red-600 disabled:opacity-50"
+                      >
+                        {actionLabels.remove_content}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4 flex justify-between">
+        <button
+          onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
+          disabled={currentPage === 1}
+          className="px-4 py-2 bg-blue-500 text-white rounded disabled:bg-gray-300"
+        >
+          Previous
+        </button>
+        <span>
+          Page {currentPage} of {totalPages}
+        </span>
+        <button
+          onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
+          disabled={currentPage === totalPages}
+          className="px-4 py-2 bg-blue-500 text-white rounded disabled:bg-gray-300"
+        >
+          Next
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReportQueue;
@@ -0,0 +1,363 @@
+import React, { useState, useEffect } from 'react';
+import {
+  adminService,
+  CompatibilityWeights,
+  ScoringPreviewEntry,
+  ScoringProfile,
+  ScoringProfileSettings,
+} from '../../services/adminService';
+
+const factorLabels: Record<keyof CompatibilityWeights, string> = {
+  activityOverlap: 'Activity Overlap',
+  performanceSimilarity: 'Performance Similarity',
+  locationProximity: 'Location Proximity',
+  ageCompatibility: 'Age Compatibility',
+  scheduleOverlap: 'Training Schedule',
+  trainingAreaOverlap: 'Training Areas',
+};
+
+const ScoringProfileManager: React.FC = () => {
+  const [liveProfile, setLiveProfile] = useState<ScoringProfile | null>(null);
+  const [history, setHistory] = useState<ScoringProfile[]>([]);
+  const [draft, setDraft] = useState<ScoringProfileSettings | null>(null);
+  const [notes, setNotes] = useState('');
+  const [previewUserId, setPreviewUserId] = useState('');
+  const [preview, setPreview] = useState<ScoringPreviewEntry[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [saveMessage, setSaveMessage] = useState<{
+    type: 'success' | 'error';
+    text: string;
+  } | null>(null);
+
+  useEffect(() => {
+    loadProfile();
+  }, []);
+
+  const loadProfile = async () => {
+    try {
+      setIsLoading(true);
+      const [profile, versions] = await Promise.all([
+        adminService.getScoringProfile(),
+        adminService.getScoringProfileHistory(),
+      ]);
+      setLiveProfile(profile);
+      setHistory(versions);
+      setDraft({
+        weights: { ...profile.weights },
+        maxDistanceKm: profile.maxDistanceKm,
+        maxAgeDifference: profile.maxAgeDifference,
+        exposureStrength: profile.exposureStrength,
+        diversityStrength: profile.diversityStrength,
+      });
+    } catch (error) {
+      console.error('Failed to load scoring profile:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getErrorMessage = (error: unknown, fallback: string) => {
+    const response = (error as { response?: { data?: { error?: string } } }).response;
+    return response?.data?.error || fallback;
+  };
+
+  const weightTotal = draft
+    ? Object.values(draft.weights).reduce((sum, weight) => sum + weight, 0)
+    : 0;
+  const weightsValid = Math.abs(weightTotal - 1) <= 0.001;
+
+  const updateWeight = (factor: keyof CompatibilityWeights, value: number) => {
+    setDraft(prev => (prev ? { ...prev, weights: { ...prev.weights, [factor]: value } } : prev));
+  };
+
+  const handlePreview = async () => {
+    if (!draft || !previewUserId) return;
+
+    try {
+      setIsPreviewing(true);
+      setSaveMessage(null);
+      const data = await adminService.previewScoringProfile(previewUserId, draft, 20);
+      setPreview(data);
+    } catch (error) {
+      setSaveMessage({ type: 'error', text: getErrorMessage(error, 'Failed to preview profile') });
+      console.error('Failed to preview scoring profile:', error);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!draft) return;
+
+    try {
+      setSaveMessage(null);
+      const profile = await adminService.updateScoringProfile({
+        ...draft,
+        ...(notes && { notes }),
+      });
+      setSaveMessage({
+        type: 'success',
+        text: `Scoring profile v${profile.version} is now live!`,
+      });
+      setNotes('');
+      setPreview(null);
+      await loadProfile();
+      setTimeout(() => setSaveMessage(null), 3000);
+    } catch (error) {
+      setSaveMessage({ type: 'error', text: getErrorMessage(error, 'Failed to publish profile') });
+      console.error('Failed to publish scoring profile:', error);
+    }
+  };
+
+  const getRankChangeLabel = (entry: ScoringPreviewEntry) => {
+    if (entry.currentRank === null) return <span className="text-green-600">New</span>;
+    if (entry.draftRank === null) return <span className="text-red-600">Dropped</span>;
+    if (entry.rankChange === 0) return <span className="text-gray-400">–</span>;
+    return (entry.rankChange || 0) > 0 ? (
+      <span className="text-green-600">▲ {entry.rankChange}</span>
+    ) : (
+      <span className="text-red-600">▼ {Math.abs(entry.rankChange || 0)}</span>
+    );
+  };
+
+  if (isLoading || !draft) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold">Compatibility Scoring</h2>
+          <span className="text-sm text-gray-600">
+            {liveProfile?.version
+              ? `Live: v${liveProfile.version} by ${liveProfile.createdBy}`
+              : 'Live: built-in defaults'}
+          </span>
+        </div>
+
+        {saveMessage && (
+          <div
+            className={`mb-4 p-3 rounded-lg ${
+              saveMessage.type === 'success'
+                ? 'bg-green-100 text-green-700'
+                : 'bg-red-100 text-red-700'
+            }`}
+          >
+            {saveMessage.text}
+          </div>
+        )}
+
+        {/* Draft Profile Form */}
+        <div className="mb-6 p-4 border rounded-lg bg-gray-50">
+          <h3 className="font-semibold mb-4">Draft Profile</h3>
+
+          <div className="grid grid-cols-2 gap-4">
+            {(Object.keys(factorLabels) as Array<keyof CompatibilityWeights>).map(factor => (
+              <div key={factor}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {factorLabels[factor]}: {draft.weights[factor].toFixed(2)}
+                </label>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={draft.weights[factor]}
+                  onChange={e => updateWeight(factor, parseFloat(e.target.value))}
+                  className="w-full"
+                />
+              </div>
+            ))}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Location score reaches 0 at (km)
+              </label>
+              <input
+                type="number"
+                min="1"
+                max="1000"
+                value={draft.maxDistanceKm}
+                onChange={e => setDraft({ ...draft, maxDistanceKm: parseFloat(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Age score reaches 0 at (years apart)
+              </label>
+              <input
+                type="number"
+                min="1"
+                max="100"
+                value={draft.maxAgeDifference}
+                onChange={e => setDraft({ ...draft, maxAgeDifference: parseFloat(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Boost rarely shown profiles: {draft.exposureStrength.toFixed(2)}
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.05"
+                value={draft.exposureStrength}
+                onChange={e => setDraft({ ...draft, exposureStrength: parseFloat(e.target.value) })}
+                className="w-full"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Mix sports and cities: {draft.diversityStrength.toFixed(2)}
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.05"
+                value={draft.diversityStrength}
+                onChange={e =>
+                  setDraft({ ...draft, diversityStrength: parseFloat(e.target.value) })
+                }
+                className="w-full"
+              />
+            </div>
+
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Change Notes</label>
+              <input
+                type="text"
+                value={notes}
+                onChange={e => setNotes(e.target.value)}
+                placeholder="Why are these weights changing?"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div
+            className={`mt-4 text-sm font-medium ${weightsValid ? 'text-green-600' : 'text-red-600'}`}
+          >
+            Weights total {weightTotal.toFixed(2)} {weightsValid ? '✓' : '(must equal 1.00)'}
+          </div>
+
+          <div className="flex justify-end gap-2 mt-4">
+            <input
+              type="text"
+              value={previewUserId}
+              onChange={e => setPreviewUserId(e.target.value)}
+              placeholder="Sample user ID"
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              onClick={handlePreview}
+              disabled={!weightsValid || !previewUserId || isPreviewing}
+              className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50"
+            >
+              {isPreviewing ? 'Previewing...' : 'Preview Ranking'}
+            </button>
+            <button
+              onClick={handlePublish}
+              disabled={!weightsValid}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Publish Profile
+            </button>
+          </div>
+        </div>
+
+        {/* Ranking Preview */}
+        {preview && (
+          <div className="mb-6">
+            <h3 className="font-semibold mb-2">Top Candidates Under Draft</h3>
+            {preview.length === 0 ? (
+              <div className="text-center py-4 text-gray-500">
+                No candidates found for this user.
+              </div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Candidate</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Live Rank</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Draft Rank</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Score</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Change</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {preview.map(entry => (
+                    <tr key={entry.userId}>
+                      <td className="px-4 py-2">{entry.firstName}</td>
+                      <td className="px-4 py-2">{entry.currentRank ?? '–'}</td>
+                      <td className="px-4 py-2">{entry.draftRank ?? '–'}</td>
+                      <td className="px-4 py-2">
+                        {entry.currentScore ?? '–'} → {entry.draftScore ?? '–'}
+                      </td>
+                      <td className="px-4 py-2">{getRankChangeLabel(entry)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        {/* Version History */}
+        <h3 className="font-semibold mb-2">Version History</h3>
+        <div className="space-y-2">
+          {history.map(profile => (
+            <div key={profile.id} className="p-4 border rounded-lg">
+              <div className="flex justify-between items-start">
+                <div>
+                  <div className="flex items-center gap-2 mb-1">
+                    <h4 className="font-semibold">v{profile.version}</h4>
+                    {profile.id === liveProfile?.id && (
+                      <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-700">
+                        Live
+                      </span>
+                    )}
+                  </div>
+                  {profile.notes && <p className="text-sm text-gray-600 mb-1">{profile.notes}</p>}
+                  <div className="text-xs text-gray-500">
+                    {(Object.keys(factorLabels) as Array<keyof CompatibilityWeights>)
+                      .map(factor => `${factorLabels[factor]} ${profile.weights[factor]}`)
+                      .join(' · ')}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Exposure boost {profile.exposureStrength} · Diversity{' '}
+                    {profile.diversityStrength}
+                  </div>
+                </div>
+                <div className="text-right text-xs text-gray-500">
+                  <div>{profile.createdBy}</div>
+                  {profile.createdAt && <div>{new Date(profile.createdAt).toLocaleString()}</div>}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {history.length === 0 && (
+          <div className="text-center py-8 text-gray-500">
+            No scoring profiles published yet. The built-in default weights are in use.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScoringProfileManager;
@@ -1,5 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { adminService } from '../../services/adminService';
+import {
+  adminService,
+  EligibilityCondition,
+  EligibilityRule,
+  SportFamily,
+  ThresholdImpactCounts,
+  ThresholdProfile,
+  ThresholdSimulation,
+  ThresholdVersion,
+  ThresholdVersionStatus,
+} from '../../services/adminService';
 
 interface FitnessThreshold {
   id: string;
@@ -13,6 +23,398 @@ interface FitnessThreshold {
   priority: number;
 }
 
+const RULE_ACTIVITY_TYPES = [
+  'Run',
+  'Ride',
+  'Swim',
+  'Walk',
+  'Hike',
+  'WeightTraining',
+  'Yoga',
+  'Crossfit',
+];
+
+const PROFILE_LABELS: Record<SportFamily | 'general', string> = {
+  general: 'General',
+  run: 'Running',
+  ride: 'Cycling',
+  swim: 'Swimming',
+  multisport: 'Multisport',
+  strength: 'Strength',
+};
+
+// Matches the deepest nesting the server accepts
+const MAX_RULE_DEPTH = 4;
+
+const VERSION_STATUS_STYLES: Record<ThresholdVersionStatus, { label: string; className: string }> =
+  {
+    scheduled: { label: 'Scheduled', className: 'bg-blue-100 text-blue-700' },
+    active: { label: 'Active', className: 'bg-green-100 text-green-700' },
+    retired: { label: 'Retired', className: 'bg-gray-100 text-gray-700' },
+    never_active: { label: 'Never active', className: 'bg-yellow-100 text-yellow-700' },
+  };
+
+const METRIC_LABELS: Record<EligibilityCondition['metric'], string> = {
+  weeklyDistance: 'Weekly distance',
+  weeklyActivities: 'Weekly activities',
+  averagePace: 'Average pace',
+  activityTypes: 'Activity types',
+};
+
+const newCondition = (metric: EligibilityCondition['metric']): EligibilityCondition => {
+  switch (metric) {
+    case 'weeklyDistance':
+      return { type: 'condition', metric, min: 10000 };
+    case 'weeklyActivities':
+      return { type: 'condition', metric, min: 3 };
+    case 'averagePace':
+      return { type: 'condition', metric, max: 360 };
+    case 'activityTypes':
+      return { type: 'condition', metric, anyOf: ['Run'] };
+  }
+};
+
+// "6:00/km" from seconds per km
+const formatPace = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.round(seconds % 60)
+    .toString()
+    .padStart(2, '0')}/km`;
+
+const inputClass =
+  'px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+interface RuleNodeEditorProps {
+  rule: EligibilityRule;
+  depth: number;
+  onChange: (rule: EligibilityRule) => void;
+  onRemove?: () => void;
+}
+
+const RuleNodeEditor: React.FC<RuleNodeEditorProps> = ({ rule, depth, onChange, onRemove }) => {
+  const removeButton = onRemove && (
+    <button onClick={onRemove} className="text-sm text-red-600 hover:text-red-700">
+      Remove
+    </button>
+  );
+
+  if (rule.type === 'group') {
+    const updateChild = (index: number, child: EligibilityRule) =>
+      onChange({ ...rule, rules: rule.rules.map((r, i) => (i === index ? child : r)) });
+    const removeChild = (index: number) =>
+      onChange({ ...rule, rules: rule.rules.filter((_, i) => i !== index) });
+
+    return (
+      <div
+        className={`p-3 border rounded-lg space-y-2 ${
+          rule.operator === 'or' ? 'border-purple-300 bg-purple-50' : 'border-blue-300 bg-blue-50'
+        }`}
+      >
+        <div className="flex items-center justify-between">
+          <select
+            value={rule.operator}
+            onChange={e => onChange({ ...rule, operator: e.target.value as 'and' | 'or' })}
+            className={inputClass}
+          >
+            <option value="and">All of these</option>
+            <option value="or">Any of these</option>
+          </select>
+          {removeButton}
+        </div>
+
+        {rule.rules.map((child, index) => (
+          <RuleNodeEditor
+            key={index}
+            rule={child}
+            depth={depth + 1}
+            onChange={updated => updateChild(index, updated)}
+            onRemove={() => removeChild(index)}
+          />
+        ))}
+
+        {rule.rules.length === 0 && (
+          <p className="text-sm text-red-600">Add at least one rule to this group</p>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={() =>
+              onChange({ ...rule, rules: [...rule.rules, newCondition('weeklyDistance')] })
+            }
+            className="text-sm text-blue-600 hover:text-blue-700"
+          >
+            + Condition
+          </button>
+          {depth < MAX_RULE_DEPTH && (
+            <button
+              onClick={() =>
+                onChange({
+                  ...rule,
+                  rules: [
+                    ...rule.rules,
+                    { type: 'group', operator: 'or', rules: [newCondition('weeklyDistance')] },
+                  ],
+                })
+              }
+              className="text-sm text-blue-600 hover:text-blue-700"
+            >
+              + Group
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const setActivityType = (activityType: string) => {
+    if (rule.metric !== 'weeklyDistance' && rule.metric !== 'weeklyActivities') return;
+    onChange(
+      activityType
+        ? { ...rule, activityType }
+        : { type: 'condition', metric: rule.metric, min: rule.min }
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-2 bg-white border rounded-md">
+      <select
+        value={rule.metric}
+        onChange={e => onChange(newCondition(e.target.value as EligibilityCondition['metric']))}
+        className={inputClass}
+      >
+        {Object.entries(METRIC_LABELS).map(([metric, label]) => (
+          <option key={metric} value={metric}>
+            {label}
+          </option>
+        ))}
+      </select>
+
+      {rule.metric === 'weeklyDistance' && (
+        <>
+          <span className="text-sm">≥</span>
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={rule.min / 1000}
+            onChange={e =>
+              onChange({ ...rule, min: Math.round(parseFloat(e.target.value) * 1000) || 0 })
+            }
+            className={`${inputClass} w-24`}
+          />
+          <span className="text-sm">km</span>
+        </>
+      )}
+
+      {rule.metric === 'weeklyActivities' && (
+        <>
+          <span className="text-sm">≥</span>
+          <input
+            type="number"
+            min="0"
+            value={rule.min}
+            onChange={e => onChange({ ...rule, min: parseInt(e.target.value) || 0 })}
+            className={`${inputClass} w-20`}
+          />
+          <span className="text-sm">per week</span>
+        </>
+      )}
+
+      {(rule.metric === 'weeklyDistance' || rule.metric === 'weeklyActivities') && (
+        <select
+          value={rule.activityType ?? ''}
+          onChange={e => setActivityType(e.target.value)}
+          className={inputClass}
+        >
+          <option value="">of any activity</option>
+          {RULE_ACTIVITY_TYPES.map(type => (
+            <option key={type} value={type}>
+              of {type}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {rule.metric === 'averagePace' && (
+        <>
+          <span className="text-sm">≤</span>
+          <input
+            type="number"
+            min="180"
+            max="1200"
+            value={rule.max}
+            onChange={e => onChange({ ...rule, max: parseInt(e.target.value) || 0 })}
+            className={`${inputClass} w-24`}
+          />
+          <span className="text-sm text-gray-600">sec/km ({formatPace(rule.max)})</span>
+        </>
+      )}
+
+      {rule.metric === 'activityTypes' &&
+        RULE_ACTIVITY_TYPES.map(type => (
+          <label key={type} className="flex items-center gap-1 text-sm">
+            <input
+              type="checkbox"
+              checked={rule.anyOf.includes(type)}
+              onChange={() =>
+                onChange({
+                  ...rule,
+                  anyOf: rule.anyOf.includes(type)
+                    ? rule.anyOf.filter(t => t !== type)
+                    : [...rule.anyOf, type],
+                })
+              }
+            />
+            {type}
+          </label>
+        ))}
+
+      <div className="ml-auto">{removeButton}</div>
+    </div>
+  );
+};
+
+const ImpactTable: React.FC<{
+  title: string;
+  groups: Record<string, ThresholdImpactCounts>;
+}> = ({ title, groups }) => {
+  // Groups with changes first, then the largest
+  const rows = Object.entries(groups).sort(
+    ([, a], [, b]) =>
+      b.newlyPassing + b.newlyFailing - (a.newlyPassing + a.newlyFailing) || b.total - a.total
+  );
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold mb-1">{title}</h4>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="font-normal"></th>
+            <th className="font-normal text-right">Passing</th>
+            <th className="font-normal text-right">+</th>
+            <th className="font-normal text-right">−</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(([key, counts]) => (
+            <tr key={key} className="border-t">
+              <td className="py-1">{PROFILE_LABELS[key as SportFamily] ?? key}</td>
+              <td className="py-1 text-right">
+                {counts.passingBefore} → {counts.passingAfter} / {counts.total}
+              </td>
+              <td className="py-1 text-right text-green-700">{counts.newlyPassing || ''}</td>
+              <td className="py-1 text-right text-red-700">{counts.newlyFailing || ''}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+interface ThresholdImpactViewProps {
+  simulation: ThresholdSimulation;
+  // Called with the time the rules take effect, or undefined for immediately
+  onConfirm: (effectiveFrom?: string) => void;
+  onCancel: () => void;
+}
+
+// Dry-run of a draft profile against existing users, shown before it is published
+const ThresholdImpactView: React.FC<ThresholdImpactViewProps> = ({
+  simulation,
+  onConfirm,
+  onCancel,
+}) => {
+  const { summary } = simulation;
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Impact of these rules on existing users, based on their last 90 days of activities. Nothing
+        is saved until you confirm.
+      </p>
+      <div className="grid grid-cols-3 gap-3">
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <p className="text-sm text-gray-600">Passing</p>
+          <p className="text-lg font-semibold">
+            {summary.passingBefore} → {summary.passingAfter}
+            <span className="text-sm font-normal text-gray-500"> of {summary.total}</span>
+          </p>
+        </div>
+        <div className="p-3 bg-green-50 rounded-lg">
+          <p className="text-sm text-gray-600">Newly passing</p>
+          <p className="text-lg font-semibold text-green-700">{summary.newlyPassing}</p>
+        </div>
+        <div className="p-3 bg-red-50 rounded-lg">
+          <p className="text-sm text-gray-600">Newly failing</p>
+          <p className="text-lg font-semibold text-red-700">{summary.newlyFailing}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <ImpactTable title="By sport" groups={simulation.bySport} />
+        <ImpactTable title="By city" groups={simulation.byCity} />
+        <ImpactTable title="By age" groups={simulation.byAgeBand} />
+      </div>
+
+      {simulation.sample.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold mb-1">Sample of affected users</h4>
+          <ul className="divide-y border rounded-lg">
+            {simulation.sample.map(user => (
+              <li key={user.userId} className="p-2 text-sm">
+                <div className="flex justify-between">
+                  <span>
+                    <span
+                      className={
+                        user.change === 'newly_passing' ? 'text-green-700' : 'text-red-700'
+                      }
+                    >
+                      {user.change === 'newly_passing' ? 'Newly passing' : 'Newly failing'}
+                    </span>{' '}
+                    {user.firstName} {user.lastName}, {user.age}, {user.city}
+                  </span>
+                  <span className="text-gray-500">
+                    score {user.scoreBefore} → {user.scoreAfter}
+                  </span>
+                </div>
+                <p className="text-gray-500">{user.reasons.join(' · ')}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-end items-center gap-2">
+        <label className="text-sm text-gray-600">
+          Effective from{' '}
+          <input
+            type="datetime-local"
+            value={effectiveFrom}
+            onChange={e => setEffectiveFrom(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md"
+          />
+        </label>
+        <button
+          onClick={onCancel}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Back to Editing
+        </button>
+        <button
+          onClick={() =>
+            onConfirm(effectiveFrom ? new Date(effectiveFrom).toISOString() : undefined)
+          }
+          className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          {effectiveFrom ? 'Confirm & Schedule' : 'Confirm & Publish'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
 const ThresholdManager: React.FC = () => {
   const [thresholds, setThresholds] = useState<FitnessThreshold[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -23,6 +425,21 @@ const ThresholdManager: React.FC = () => {
     text: string;
   } | null>(null);
 
+  const [profiles, setProfiles] = useState<ThresholdProfile[]>([]);
+  const [selectedFamily, setSelectedFamily] = useState<SportFamily | null>(null);
+  const [rules, setRules] = useState<EligibilityRule | null>(null);
+  // Rules waiting for the admin to confirm their impact
+  const [preview, setPreview] = useState<{
+    rules: EligibilityRule | null;
+    simulation: ThresholdSimulation;
+  } | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [history, setHistory] = useState<ThresholdVersion[]>([]);
+  const [rulesMessage, setRulesMessage] = useState<{
+    type: 'success' | 'error';
+    text: string;
+  } | null>(null);
+
   const [formData, setFormData] = useState<Partial<FitnessThreshold>>({
     name: '',
     description: '',
@@ -36,8 +453,97 @@ const ThresholdManager: React.FC = () => {
 
   useEffect(() => {
     loadThresholds();
+    loadProfiles(null);
   }, []);
 
+  const loadProfiles = async (sportFamily: SportFamily | null) => {
+    try {
+      const [data, versions] = await Promise.all([
+        adminService.getThresholdProfiles(),
+        adminService.getThresholdHistory(),
+      ]);
+      setProfiles(data);
+      setHistory(versions);
+      setSelectedFamily(sportFamily);
+      setRules(data.find(profile => profile.sportFamily === sportFamily)?.rules ?? null);
+    } catch (error) {
+      console.error('Failed to load threshold profiles:', error);
+    }
+  };
+
+  const selectedProfile = profiles.find(profile => profile.sportFamily === selectedFamily);
+  const generalRules = profiles.find(profile => profile.sportFamily === null)?.rules ?? null;
+  const selectedLabel = PROFILE_LABELS[selectedFamily ?? 'general'];
+  const selectedHistory = history.filter(version => version.sportFamily === selectedFamily);
+
+  const getErrorMessage = (error: unknown, fallback: string) => {
+    const response = (error as { response?: { data?: { error?: string } } }).response;
+    return response?.data?.error || fallback;
+  };
+
+  const handlePreviewRules = async (updated: EligibilityRule | null) => {
+    try {
+      setRulesMessage(null);
+      setIsSimulating(true);
+      const simulation = await adminService.simulateThreshold(updated, selectedFamily);
+      setPreview({ rules: updated, simulation });
+    } catch (error) {
+      setRulesMessage({
+        type: 'error',
+        text: getErrorMessage(error, 'Failed to simulate eligibility rules'),
+      });
+      console.error('Failed to simulate eligibility rules:', error);
+    } finally {
+      setIsSimulating(false);
+    }
+  };
+
+  const handleSaveRules = async (updated: EligibilityRule | null, effectiveFrom?: string) => {
+    try {
+      setRulesMessage(null);
+      setPreview(null);
+      await adminService.saveEligibilityRules(updated, selectedFamily, effectiveFrom);
+      await loadProfiles(selectedFamily);
+      setRulesMessage({
+        type: 'success',
+        text: effectiveFrom
+          ? `Eligibility rules scheduled for ${new Date(effectiveFrom).toLocaleString()}`
+          : updated
+            ? 'Eligibility rules saved!'
+            : 'Eligibility rules reset to the fixed fields',
+      });
+      setTimeout(() => setRulesMessage(null), 3000);
+    } catch (error) {
+      setRulesMessage({
+        type: 'error',
+        text: getErrorMessage(error, 'Failed to save eligibility rules'),
+      });
+      console.error('Failed to save eligibility rules:', error);
+    }
+  };
+
+  const handleRollback = async (version: ThresholdVersion) => {
+    const publishedAt = new Date(version.effectiveFrom).toLocaleString();
+    if (
+      !window.confirm(`Republish the version from ${publishedAt}? It takes effect immediately.`)
+    ) {
+      return;
+    }
+    try {
+      setRulesMessage(null);
+      await adminService.rollbackThreshold(version.id);
+      await loadProfiles(selectedFamily);
+      setRulesMessage({ type: 'success', text: `Version from ${publishedAt} republished` });
+      setTimeout(() => setRulesMessage(null), 3000);
+    } catch (error) {
+      setRulesMessage({
+        type: 'error',
+        text: getErrorMessage(error, 'Failed to roll back eligibility rules'),
+      });
+      console.error('Failed to roll back eligibility rules:', error);
+    }
+  };
+
   const loadThresholds = async () => {
     try {
       setIsLoading(true);
@@ -187,6 +693,142 @@ const ThresholdManager: React.FC = () => {
           </button>
         </div>
 
+        {/* Eligibility Rule Tree, one profile per sport */}
+        {profiles.length > 0 && (
+          <div className="mb-6 p-4 border rounded-lg">
+            <div className="flex gap-2 mb-4 border-b">
+              {profiles.map(profile => (
+                <button
+                  key={profile.sportFamily ?? 'general'}
+                  onClick={() => {
+                    setSelectedFamily(profile.sportFamily);
+                    setRules(profile.rules);
+                    setPreview(null);
+                    setRulesMessage(null);
+                  }}
+                  className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px ${
+                    profile.sportFamily === selectedFamily
+                      ? 'border-blue-600 text-blue-600'
+                      : 'border-transparent text-gray-600 hover:text-gray-800'
+                  } ${profile.threshold ? '' : 'italic'}`}
+                >
+                  {PROFILE_LABELS[profile.sportFamily ?? 'general']}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex justify-between items-center mb-3">
+              <div>
+                <h3 className="font-semibold">{selectedLabel} Eligibility Rules</h3>
+                <p className="text-sm text-gray-600">
+                  {selectedFamily
+                    ? `Users whose activities are mostly ${selectedLabel.toLowerCase()} are admitted when these rules are met.`
+                    : 'Users are admitted when these rules are met, unless their sport has a profile of its own.'}{' '}
+                  Pace is not checked for users without runs, walks or hikes.
+                </p>
+              </div>
+              {rules && !preview && (
+                <div className="flex gap-2">
+                  {selectedFamily === null && (
+                    <button
+                      onClick={() => handlePreviewRules(null)}
+                      disabled={isSimulating}
+                      className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+                    >
+                      Use Fixed Fields
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handlePreviewRules(rules)}
+                    disabled={isSimulating}
+                    className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {isSimulating
+                      ? 'Checking Impact...'
+                      : selectedProfile?.threshold
+                        ? 'Save Rules'
+                        : 'Create Profile'}
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {!rules && (
+              <div className="p-4 text-center text-sm text-gray-600 bg-gray-50 rounded-lg">
+                <p className="mb-3">
+                  No {selectedLabel.toLowerCase()} profile yet, so these users are evaluated with
+                  the general profile.
+                </p>
+                {generalRules && (
+                  <button
+                    onClick={() => setRules(JSON.parse(JSON.stringify(generalRules)))}
+                    className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                  >
+                    Start From General Rules
+                  </button>
+                )}
+              </div>
+            )}
+
+            {rulesMessage && (
+              <div
+                className={`mb-3 p-3 rounded-lg ${
+                  rulesMessage.type === 'success'
+                    ? 'bg-green-100 text-green-700'
+                    : 'bg-red-100 text-red-700'
+                }`}
+              >
+                {rulesMessage.text}
+              </div>
+            )}
+
+            {preview ? (
+              <ThresholdImpactView
+                simulation={preview.simulation}
+                onConfirm={effectiveFrom => handleSaveRules(preview.rules, effectiveFrom)}
+                onCancel={() => setPreview(null)}
+              />
+            ) : (
+              rules && <RuleNodeEditor rule={rules} depth={1} onChange={setRules} />
+            )}
+
+            {selectedHistory.length > 0 && (
+              <div className="mt-4">
+                <h4 className="text-sm font-semibold mb-1">Versions</h4>
+                <ul className="divide-y border rounded-lg">
+                  {selectedHistory.map(version => (
+                    <li key={version.id} className="p-2 text-sm flex justify-between items-center">
+                      <div>
+                        <span
+                          className={`px-2 py-1 text-xs rounded-full ${
+                            VERSION_STATUS_STYLES[version.status].className
+                          }`}
+                        >
+                          {VERSION_STATUS_STYLES[version.status].label}
+                        </span>{' '}
+                        From {new Date(version.effectiveFrom).toLocaleString()}
+                        <span className="text-gray-500">
+                          {' '}
+                          · {version.updatedBy}
+                          {version.restoredFromId && ' · republished from an earlier version'}
+                        </span>
+                      </div>
+                      {version.status !== 'active' && (
+                        <button
+                          onClick={() => handleRollback(version)}
+                          className="px-2 py-1 text-xs border border-gray-300 rounded-md hover:bg-gray-50"
+                        >
+                          {version.status === 'scheduled' ? 'Publish Now' : 'Roll Back'}
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
         {saveMessage && (
           <div
             className={`mb-4 p-3 rounded-lg ${
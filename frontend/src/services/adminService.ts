@@ -14,11 +14,178 @@ export interface FitnessThreshold {
   updatedBy?: string;
 }
 
+// One requirement of the eligibility rule tree. Weekly distance (meters) and
+// activity counts are minimums, optionally for one activity type; pace (seconds
+// per km) is a maximum; activity types pass when the user did any of them
+export type EligibilityCondition =
+  | {
+      type: 'condition';
+      metric: 'weeklyDistance' | 'weeklyActivities';
+      min: number;
+      activityType?: string;
+    }
+  | { type: 'condition'; metric: 'averagePace'; max: number }
+  | { type: 'condition'; metric: 'activityTypes'; anyOf: string[] };
+
+export interface EligibilityGroup {
+  type: 'group';
+  operator: 'and' | 'or';
+  rules: EligibilityRule[];
+}
+
+export type EligibilityRule = EligibilityCondition | EligibilityGroup;
+
+export type SportFamily = 'run' | 'ride' | 'swim' | 'multisport' | 'strength';
+
+// A user is evaluated with the profile for their dominant sport, or the general
+// profile (sportFamily null) when that sport has none
+export interface ThresholdProfile {
+  sportFamily: SportFamily | null;
+  threshold: { id: string; effectiveFrom: string; updatedAt: string; updatedBy: string } | null;
+  rules: EligibilityRule | null;
+  // Versions announced in advance, soonest first
+  scheduled: { id: string; effectiveFrom: string; updatedBy: string }[];
+}
+
+// Versions that were never active were replaced before they took effect
+export type ThresholdVersionStatus = 'scheduled' | 'active' | 'retired' | 'never_active';
+
+export interface ThresholdVersion {
+  id: string;
+  sportFamily: SportFamily | null;
+  rules: EligibilityRule | null;
+  effectiveFrom: string;
+  // Set when the version republishes an earlier one
+  restoredFromId: string | null;
+  updatedAt: string;
+  updatedBy: string;
+  status: ThresholdVersionStatus;
+}
+
+export interface ThresholdImpactCounts {
+  total: number;
+  passingBefore: number;
+  passingAfter: number;
+  newlyPassing: number;
+  newlyFailing: number;
+}
+
+export interface ThresholdImpactSample {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  city: string;
+  age: number;
+  sportFamily: SportFamily | null;
+  change: 'newly_passing' | 'newly_failing';
+  scoreBefore: number;
+  scoreAfter: number;
+  reasons: string[];
+}
+
+// Who would start or stop passing if a draft profile were published
+export interface ThresholdSimulation {
+  sportFamily: SportFamily | null;
+  summary: ThresholdImpactCounts;
+  bySport: Record<string, ThresholdImpactCounts>;
+  byCity: Record<string, ThresholdImpactCounts>;
+  byAgeBand: Record<string, ThresholdImpactCounts>;
+  sample: ThresholdImpactSample[];
+}
+
+export interface CompatibilityWeights {
+  activityOverlap: number;
+  performanceSimilarity: number;
+  locationProximity: number;
+  ageCompatibility: number;
+  scheduleOverlap: number;
+  trainingAreaOverlap: number;
+}
+
+export interface ScoringProfileSettings {
+  weights: CompatibilityWeights;
+  maxDistanceKm: number;
+  maxAgeDifference: number;
+  exposureStrength: number;
+  diversityStrength: number;
+}
+
+export interface ScoringProfile extends ScoringProfileSettings {
+  id?: string;
+  version?: number;
+  notes?: string | null;
+  createdAt?: string;
+  createdBy?: string;
+}
+
+export interface ScoringPreviewEntry {
+  userId: string;
+  firstName: string;
+  currentRank: number | null;
+  currentScore: number | null;
+  draftRank: number | null;
+  draftScore: number | null;
+  rankChange: number | null;
+}
+
+export type ReportStatus = 'pending' | 'dismissed' | 'actioned';
+
+export type ReportAction = 'warning' | 'remove_content';
+
+export interface ReportUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+export interface Report {
+  id: string;
+  category: string;
+  description: string | null;
+  evidence: Array<{
+    messageId: string;
+    senderId: string;
+    content: string;
+    sentAt: string;
+  }>;
+  status: ReportStatus;
+  action: ReportAction | null;
+  resolutionNotes: string | null;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  reporter: ReportUser;
+  reported: ReportUser;
+}
+
+export interface ReportPage {
+  data: Report[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface ExposureStats {
+  windowDays: number;
+  totalImpressions: number;
+  profilesShown: number;
+  topDecileShare: number;
+}
+
 export interface AdminStats {
   totalUsers: number;
   activeUsers: number;
   totalMatches: number;
   activeMatches: number;
+  unmatchedMatches: number;
+  unmatchReasons: Record<string, number>;
+  expiredMatches: number;
+  expiringMatches: number;
+  exposure: ExposureStats;
   avgCompatibilityScore: number;
   totalMessages: number;
   pendingApprovals: number;
@@ -68,6 +235,77 @@ export const adminService = {
     await api.delete(`/admin/threshold/${id}`);
   },
 
+  async getThresholdProfiles(): Promise<ThresholdProfile[]> {
+    const response = await api.get('/admin/threshold/profiles');
+    return response.data.data || [];
+  },
+
+  // Null rules go back to the profile's fixed fields. Without an effective date
+  // the rules take effect immediately
+  async saveEligibilityRules(
+    rules: EligibilityRule | null,
+    sportFamily: SportFamily | null,
+    effectiveFrom?: string
+  ): Promise<void> {
+    await api.put('/admin/threshold', { rules, sportFamily, effectiveFrom });
+  },
+
+  async getThresholdHistory(days: number = 90): Promise<ThresholdVersion[]> {
+    const response = await api.get('/admin/threshold/history', {
+      params: { days },
+    });
+    return response.data.data || [];
+  },
+
+  // Republish an earlier version as a new one
+  async rollbackThreshold(id: string, effectiveFrom?: string): Promise<void> {
+    await api.post(`/admin/threshold/${id}/rollback`, { effectiveFrom });
+  },
+
+  async simulateThreshold(
+    rules: EligibilityRule | null,
+    sportFamily: SportFamily | null
+  ): Promise<ThresholdSimulation> {
+    const response = await api.post('/admin/threshold/simulate', {
+      rules,
+      sportFamily,
+    });
+    return response.data.data;
+  },
+
+  // Compatibility Scoring Profiles
+  async getScoringProfile(): Promise<ScoringProfile> {
+    const response = await api.get('/admin/scoring-profile');
+    return response.data.data;
+  },
+
+  async getScoringProfileHistory(limit: number = 20): Promise<ScoringProfile[]> {
+    const response = await api.get('/admin/scoring-profile/history', {
+      params: { limit },
+    });
+    return response.data.data || [];
+  },
+
+  async updateScoringProfile(
+    profile: ScoringProfileSettings & { notes?: string }
+  ): Promise<ScoringProfile> {
+    const response = await api.put('/admin/scoring-profile', profile);
+    return response.data.data;
+  },
+
+  async previewScoringProfile(
+    userId: string,
+    draft: ScoringProfileSettings,
+    limit: number = 20
+  ): Promise<ScoringPreviewEntry[]> {
+    const response = await api.post('/admin/scoring-profile/preview', {
+      userId,
+      limit,
+      ...draft,
+    });
+    return response.data.data;
+  },
+
   // Statistics
   async getStats(): Promise<AdminStats> {
     const response = await api.get('/admin/stats');
@@ -100,6 +338,32 @@ export const adminService = {
     return response.data;
   },
 
+  // Report Moderation
+  async getReports(
+    status: ReportStatus = 'pending',
+    page: number = 1,
+    limit: number = 20
+  ): Promise<ReportPage> {
+    const response = await api.get('/admin/reports', {
+      params: { status, page, limit },
+    });
+    return response.data.data;
+  },
+
+  async reviewReport(
+    reportId: string,
+    status: Exclude<ReportStatus, 'pending'>,
+    action?: ReportAction,
+    notes?: string
+  ): Promise<Report> {
+    const response = await api.put(`/admin/reports/${reportId}`, {
+      status,
+      action,
+      notes,
+    });
+    return response.data.data;
+  },
+
   // Match Management
   async getMatches(page: number = 1, limit: number = 20) {
     const response = await api.get('/admin/matches', {
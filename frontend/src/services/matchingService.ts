@@ -1,5 +1,15 @@
 import axios from 'axios';
-import { PotentialMatch, MatchingPreferences } from '../types/api';
+import {
+  CompatibilityResult,
+  PotentialMatchPage,
+  MatchingPreferences,
+  MatchMode,
+  MatchScoreTrend,
+  SwipeDecision,
+  SwipeResult,
+  UnmatchReason,
+  UnmatchResult,
+} from '../types/api';
 
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001/api';
 
@@ -12,27 +22,51 @@ class MatchingService {
     };
   }
 
-  async getPotentialMatches(limit: number = 20, offset: number = 0): Promise<PotentialMatch[]> {
+  async getPotentialMatches(
+    limit: number = 20,
+    cursor?: string,
+    mode?: MatchMode
+  ): Promise<PotentialMatchPage> {
     try {
       const response = await axios.get(`${API_BASE_URL}/matching/potential`, {
-        params: { limit, offset },
+        params: { limit, ...(cursor && { cursor }), ...(mode && { mode }) },
         headers: this.getAuthHeaders(),
       });
-      return response.data.data;
+      return {
+        data: response.data.data,
+        nextCursor: response.data.nextCursor ?? null,
+        mode: response.data.mode,
+        modes: response.data.modes,
+      };
     } catch (error) {
       console.error('Error fetching potential matches:', error);
       throw error;
     }
   }
 
-  async createMatch(
+  async swipe(
     targetUserId: string,
-    compatibilityScore: number
-  ): Promise<{ id: string; status: string; createdAt: Date }> {
+    decision: SwipeDecision,
+    mode?: MatchMode
+  ): Promise<SwipeResult> {
+    try {
+      const response = await axios.post(
+        `${API_BASE_URL}/matching/swipe`,
+        { targetUserId, decision, mode },
+        { headers: this.getAuthHeaders() }
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error('Error recording swipe:', error);
+      throw error;
+    }
+  }
+
+  async createMatch(targetUserId: string): Promise<SwipeResult> {
     try {
       const response = await axios.post(
         `${API_BASE_URL}/matching/match`,
-        { targetUserId, compatibilityScore },
+        { targetUserId },
         { headers: this.getAuthHeaders() }
       );
       return response.data.data;
@@ -96,6 +130,33 @@ class MatchingService {
     }
   }
 
+  async unmatch(matchId: string, reason?: UnmatchReason): Promise<UnmatchResult> {
+    try {
+      const response = await axios.post(
+        `${API_BASE_URL}/matching/matches/${matchId}/unmatch`,
+        { reason },
+        { headers: this.getAuthHeaders() }
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error('Error unmatching:', error);
+      throw error;
+    }
+  }
+
+  async getMatchScoreHistory(matchId: string): Promise<MatchScoreTrend> {
+    try {
+      const response = await axios.get(
+        `${API_BASE_URL}/matching/matches/${matchId}/score-history`,
+        { headers: this.getAuthHeaders() }
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error('Error fetching match score history:', error);
+      throw error;
+    }
+  }
+
   async getPreferences(): Promise<MatchingPreferences> {
     try {
       const response = await axios.get(`${API_BASE_URL}/matching/preferences`, {
@@ -120,9 +181,7 @@ class MatchingService {
     }
   }
 
-  async calculateCompatibility(
-    targetUserId: string
-  ): Promise<{ score: number; factors: Record<string, number> }> {
+  async calculateCompatibility(targetUserId: string): Promise<CompatibilityResult> {
     try {
       const response = await axios.get(`${API_BASE_URL}/matching/compatibility/${targetUserId}`, {
         headers: this.getAuthHeaders(),
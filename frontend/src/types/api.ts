@@ -18,6 +18,22 @@ export interface AuthTokens {
   expiresIn: string;
 }
 
+export type Gender = 'male' | 'female' | 'non-binary' | 'other';
+
+// Who a user is looking for; 'both' browses the dating and partner decks separately
+export type DiscoveryMode = 'dating' | 'partner' | 'both';
+
+export type MatchMode = 'dating' | 'partner';
+
+export type EligibilityStatus = 'eligible' | 'at_risk' | 'grace_period' | 'ineligible';
+
+// The last eligibility status change, kept until the user dismisses it
+export type EligibilityNotice =
+  | 'eligibility-at-risk'
+  | 'eligibility-grace-period'
+  | 'eligibility-lost'
+  | 'eligibility-restored';
+
 export interface User {
   id: string;
   email: string;
@@ -27,6 +43,7 @@ export interface User {
   stravaAthleteId?: number;
   age: number;
   gender?: string;
+  discoveryMode?: DiscoveryMode;
   city: string;
   state: string;
   latitude?: number;
@@ -35,6 +52,9 @@ export interface User {
   bio: string | null;
   createdAt?: Date;
   updatedAt?: Date;
+  eligibilityStatus?: EligibilityStatus;
+  graceEndsAt?: string | null;
+  eligibilityNotice?: EligibilityNotice | null;
 }
 
 export interface AuthResponse {
@@ -73,6 +93,32 @@ export interface FitnessStats {
   lastUpdated: Date;
 }
 
+// One page of the discovery deck; pass nextCursor back for the page after it
+export interface PotentialMatchPage {
+  data: PotentialMatch[];
+  nextCursor: string | null;
+  mode: MatchMode;
+  // Every mode the user browses, to switch decks
+  modes: MatchMode[];
+}
+
+export type CompatibilityReasonCode =
+  | 'shared_activities'
+  | 'similar_training_frequency'
+  | 'similar_weekly_distance'
+  | 'similar_pace'
+  | 'nearby'
+  | 'similar_age'
+  | 'similar_schedule'
+  | 'shared_training_areas'
+  | 'preferred_activities';
+
+export interface CompatibilityReason {
+  code: CompatibilityReasonCode;
+  factor: keyof PotentialMatch['compatibilityFactors'];
+  params: Record<string, string | number | string[]>;
+}
+
 export interface PotentialMatch {
   userId: string;
   user: {
@@ -91,7 +137,10 @@ export interface PotentialMatch {
     performanceSimilarity: number;
     locationProximity: number;
     ageCompatibility: number;
+    scheduleOverlap: number;
+    trainingAreaOverlap: number;
   };
+  compatibilityReasons: CompatibilityReason[];
   fitnessStats: {
     weeklyDistance: number;
     weeklyActivities: number;
@@ -101,14 +150,89 @@ export interface PotentialMatch {
   };
 }
 
-export interface MatchingPreferences {
+export interface CompatibilityResult {
+  targetUserId: string;
+  compatibilityScore: number;
+  compatibilityFactors: PotentialMatch['compatibilityFactors'];
+  compatibilityReasons: CompatibilityReason[];
+}
+
+export type SwipeDecision = 'like' | 'pass' | 'super_like';
+
+export interface SwipeResult {
+  swipe: {
+    id: string;
+    swiperId: string;
+    targetId: string;
+    decision: SwipeDecision;
+  };
+  isMatch: boolean;
+  match: {
+    id: string;
+    user1Id: string;
+    user2Id: string;
+    compatibilityScore: number;
+    status: string;
+    mode: MatchMode;
+  } | null;
+}
+
+export type UnmatchReason =
+  | 'no_chemistry'
+  | 'not_responsive'
+  | 'met_someone'
+  | 'no_longer_looking'
+  | 'other';
+
+export interface UnmatchResult {
+  match: {
+    id: string;
+    status: string;
+  };
+  rematchAvailableAt: string;
+}
+
+export interface MatchScoreHistoryEntry {
+  id: string;
+  compatibilityScore: number;
+  compatibilityFactors: PotentialMatch['compatibilityFactors'] | null;
+  recordedAt: string;
+}
+
+export interface MatchScoreTrend {
+  matchId: string;
+  currentScore: number;
+  // Points gained or lost over the last 30 days, null without history
+  recentChange: number | null;
+  // Newest first
+  history: MatchScoreHistoryEntry[];
+}
+
+// Optional fitness ranges for matches, in the units FitnessStats uses.
+// A null bound is left open.
+export interface FitnessRangePreferences {
+  minWeeklyDistance: number | null; // meters
+  maxWeeklyDistance: number | null;
+  minWeeklyActivities: number | null;
+  maxWeeklyActivities: number | null;
+  minPace: number | null; // seconds per km, so the minimum is the fastest pace
+  maxPace: number | null;
+}
+
+export interface MatchingPreferences extends FitnessRangePreferences {
   id: string;
   userId: string;
   minAge: number;
   maxAge: number;
   maxDistance: number;
   preferredActivities: string[];
+  // Preferred activities a match must do; the rest only boost their score
+  dealbreakerActivities: string[];
   minCompatibilityScore: number;
+  interestedIn: Gender[];
+  // Training partners can be of any gender or age when these are on
+  partnerAnyGender: boolean;
+  partnerAnyAge: boolean;
 }
 
 export interface Message {
@@ -138,5 +262,7 @@ export interface Conversation {
   };
   lastMessage: Message | null;
   unreadCount: number;
+  // Set once a silent match has been sent its last-chance reminder
+  expiresAt?: string | null;
   createdAt: Date;
 }
@@ -0,0 +1,56 @@
+import { CompatibilityReason, CompatibilityReasonCode } from '../types/api';
+
+type ReasonParams = CompatibilityReason['params'];
+type ReasonMessages = Record<CompatibilityReasonCode, (params: ReasonParams) => string>;
+
+// "WeightTraining" -> "Weight Training"
+const formatActivityType = (type: string) => type.replace(/([a-z])([A-Z])/g, '$1 $2');
+
+const formatList = (items: string[]) =>
+  items.length <= 1
+    ? items.join('')
+    : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+const timeOfDayLabels: Record<string, string> = {
+  early_morning: 'early morning',
+  morning: 'morning',
+  afternoon: 'afternoon',
+  evening: 'evening',
+  night: 'night',
+};
+
+const englishMessages: ReasonMessages = {
+  shared_activities: params =>
+    `You both log ${formatList((params.activities as string[]).map(formatActivityType))} activities`,
+  similar_training_frequency: params => `You both train ${params.timesPerWeek}+ times a week`,
+  similar_weekly_distance: params => `You both cover about ${params.distanceKm} km a week`,
+  similar_pace: params => `Running paces within ${params.withinSeconds} s/km`,
+  nearby: params => `Less than ${params.distanceKm} km apart`,
+  similar_age: params =>
+    params.years === 0
+      ? 'You are the same age'
+      : `Within ${params.years} year${params.years === 1 ? '' : 's'} of each other`,
+  similar_schedule: params =>
+    `You both train mostly in the ${timeOfDayLabels[params.timeOfDay as string] || 'same hours'}`,
+  shared_training_areas: params =>
+    `${params.percent}% of your training is on the same routes and trails`,
+  preferred_activities: params =>
+    `Does ${formatList((params.activities as string[]).map(formatActivityType))}, like you wanted`,
+};
+
+// Add a catalog here to translate reasons; missing locales fall back to English
+const messagesByLocale: Record<string, ReasonMessages> = {
+  en: englishMessages,
+};
+
+/**
+ * Turn a structured compatibility reason from the API into display text
+ */
+export const formatCompatibilityReason = (
+  reason: CompatibilityReason,
+  locale: string = navigator.language
+): string => {
+  const messages = messagesByLocale[locale.split('-')[0]] || englishMessages;
+  const format = messages[reason.code];
+  return format ? format(reason.params) : '';
+};